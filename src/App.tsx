@@ -7,11 +7,15 @@ import { NewsPanel } from './components/NewsPanel'
 import { TradingView } from './components/TradingView'
 import { MarketAnalysis } from './components/MarketAnalysis'
 import { AdvancedAnalysis } from './components/AdvancedAnalysis'
+import { Backtest } from './components/Backtest'
+import { ForecastScoreboard } from './components/ForecastScoreboard'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import VerificationPage from './components/VerificationPage'
 import { api } from './services/api'
+import { predictionService } from './services/predictions'
 import { priceStore } from './services/priceStore'
-import type { NewsItem, PredictionData, CryptoPrice } from './services/types'
+import { formatPrice, QUOTE_OPTIONS, type QuoteCurrency } from './lib/currency'
+import type { CandleInterval, NewsItem, PredictionData, CryptoPrice } from './services/types'
 import { Coins, Clock} from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card'
@@ -31,6 +35,7 @@ function AppContent() {
 
   // Your original app state
   const [crypto, setCrypto] = useState('bitcoin')
+  const [quote, setQuote] = useState<QuoteCurrency>(priceStore.getQuote())
   const [news, setNews] = useState<NewsItem[]>([])
   const [price, setPrice] = useState<CryptoPrice>({
     price: 0,
@@ -42,6 +47,8 @@ function AppContent() {
 //  const [featuredCoins, setFeaturedCoins] = useState<FeaturedCoin[]>([]);
 
   const timeframes = ['1H', '4H', '1D', '1W', '1M']
+  // Analysis runs on candle intervals; the monthly chart is analysed on weekly candles
+  const analysisIntervals: Record<string, CandleInterval> = { '1H': '1h', '4H': '4h', '1D': '1d', '1W': '1w', '1M': '1w' }
 
   // Authentication check with retry logic
   useEffect(() => {
@@ -115,15 +122,26 @@ function AppContent() {
     };
   }, [crypto, isVerified]);
 
+  const handleQuoteChange = (next: QuoteCurrency) => {
+    if (next === quote) return;
+    setQuote(next);
+    setPrice({ price: 0, change24h: 0, timestamp: Date.now() });
+    priceStore.setQuote(next);
+  };
+
   useEffect(() => {
     if (!isVerified) return;
+    // Switching coins cancels the forecast still running in the analysis worker
+    const controller = new AbortController();
 
     const fetchData = async () => {
       try {
         const [newsData, predictionsData] = await Promise.all([
           api.getNews(crypto),
-          api.getPredictions(crypto)
+          // Empty until the server has trained this coin's model; a failed forecast only hides the LSTM figures
+          predictionService.getPredictions(crypto, '1h', { signal: controller.signal }).catch(() => [])
         ]);
+        if (controller.signal.aborted) return;
 
         setNews(newsData.news);
         setPredictions(predictionsData);
@@ -133,7 +151,8 @@ function AppContent() {
     };
 
     fetchData();
-  }, [crypto, isVerified]);
+    return () => controller.abort();
+  }, [crypto, quote, isVerified]);
 
 //  useEffect(() => {
 //    if (!isVerified) return;
@@ -206,7 +225,7 @@ function AppContent() {
             {/* Price Display */}
             <div className="flex items-center gap-2">
               <span className="text-2xl xl:text-3xl text-white font-bold">
-                ${(price.price || 0).toLocaleString()}
+                {formatPrice(price.price, quote)}
                 {price.price === 0 && (
                   <span className="text-sm text-yellow-400 ml-2">(Loading...)</span>
                 )}
@@ -217,6 +236,23 @@ function AppContent() {
                 {(price.change24h || 0) >= 0 ? '+' : ''}{(price.change24h || 0).toFixed(2)}%
               </span>
             </div>
+            {/* Quote Currency Selection */}
+            <div className="flex gap-1 bg-gray-800/50 p-1 rounded-full w-fit">
+              {QUOTE_OPTIONS.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  onClick={() => handleQuoteChange(value)}
+                  variant={quote === value ? "default" : "ghost"}
+                  className={`px-3 py-1 h-auto rounded-full text-xs font-medium transition-all ${
+                    quote === value
+                      ? 'bg-green-500 text-white shadow-lg shadow-green-500/20'
+                      : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
           </div>
 
           {/* Timeframe Selection - Scrollable on mobile */}
@@ -259,6 +295,7 @@ function AppContent() {
                         crypto={crypto} 
                         timeframe={timeframe}
                         price={price}
+                        quote={quote}
                       />
                     </ErrorBoundary>
                   </CardContent>
@@ -281,6 +318,8 @@ function AppContent() {
                     <ErrorBoundary>
                       <MarketAnalysis 
                         crypto={crypto} 
+                        quote={quote}
+                        interval={analysisIntervals[timeframe] ?? '1d'}
                         predictions={predictions}
                       />
                     </ErrorBoundary>
@@ -304,6 +343,7 @@ function AppContent() {
                     <ErrorBoundary>
                       <AdvancedAnalysis 
                         crypto={crypto} 
+                        quote={quote}
                         predictions={predictions}
                       />
                     </ErrorBoundary>
@@ -311,6 +351,50 @@ function AppContent() {
                 </Card>
               </motion.div>
             </AnimatePresence>
+
+            <AnimatePresence>
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.5, delay: 0.6 }}
+              >
+                <Card className="border-none bg-black/30 backdrop-blur-lg">
+                  <CardHeader>
+                    <CardTitle className="text-xl font-bold text-green-300">Strategy Backtest</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ErrorBoundary>
+                      <Backtest
+                        crypto={crypto}
+                        quote={quote}
+                        interval={analysisIntervals[timeframe] ?? '1d'}
+                      />
+                    </ErrorBoundary>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            </AnimatePresence>
+
+            <AnimatePresence>
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.5, delay: 0.7 }}
+              >
+                <Card className="border-none bg-black/30 backdrop-blur-lg">
+                  <CardHeader>
+                    <CardTitle className="text-xl font-bold text-green-300">Forecast Accuracy</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ErrorBoundary>
+                      <ForecastScoreboard crypto={crypto} quote={quote} />
+                    </ErrorBoundary>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            </AnimatePresence>
           </div>
 
           {/* Right Column */}
@@ -5,19 +5,25 @@ import { SentimentOverview } from './analysis/SentimentOverview';
 import { PricePredictions } from './analysis/PricePredictions';
 import { RiskAnalysis } from './analysis/RiskAnalysis';
 import { TradingStrategy } from './analysis/TradingStrategy';
+import { TimeframeConfluence } from './analysis/TimeframeConfluence';
 import { PredictionData } from '@/services/types';
 import { LoadingSpinner, ErrorDisplay } from './ErrorBoundary';
+import type { QuoteCurrency } from '@/lib/currency';
 
 interface AdvancedAnalysisProps {
   crypto: string;
+  quote: QuoteCurrency;
   predictions: PredictionData[];
 }
 
-export const AdvancedAnalysis = ({ crypto, predictions }: AdvancedAnalysisProps) => {
-  const { analysis, loading, error, refetch } = useAdvancedAnalysis(crypto);
+export const AdvancedAnalysis = ({ crypto, quote, predictions }: AdvancedAnalysisProps) => {
+  const { analysis, loading, error, progress, refetch } = useAdvancedAnalysis(crypto, quote);
 
   if (loading) {
-    return <LoadingSpinner message="Loading advanced analysis..." />;
+    const message = progress
+      ? `Analyzing: ${progress.stage.toLowerCase()} (${progress.step}/${progress.steps})...`
+      : 'Loading advanced analysis...';
+    return <LoadingSpinner message={message} />;
   }
 
   if (error) {
@@ -40,15 +46,20 @@ export const AdvancedAnalysis = ({ crypto, predictions }: AdvancedAnalysisProps)
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-      <MarketPhase data={analysis.marketCondition} />
-      <TechnicalSignals data={analysis.technicalSignals} />
+      <MarketPhase data={analysis.marketCondition} patterns={analysis.chartPatterns} quote={quote} />
+      <TechnicalSignals data={analysis.technicalSignals} quote={quote} />
       <SentimentOverview data={analysis.sentimentAnalysis} />
-      <PricePredictions data={mergedPredictions} />
+      <PricePredictions data={mergedPredictions} quote={quote} />
       <div className="md:col-span-2">
         <RiskAnalysis data={analysis.riskAnalysis} />
       </div>
+      {analysis.confluence && (
+        <div className="md:col-span-2">
+          <TimeframeConfluence data={analysis.confluence} quote={quote} />
+        </div>
+      )}
       <div className="md:col-span-2">
-        <TradingStrategy data={analysis.tradingStrategy} />
+        <TradingStrategy data={analysis.tradingStrategy} quote={quote} />
       </div>
     </div>
   );
@@ -0,0 +1,158 @@
+import React from 'react';
+import { FlaskConical, Play } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useBacktest } from '../hooks/useBacktest';
+import type { BacktestResult, BacktestTrade, CandleInterval } from '@/services/types';
+import { LoadingSpinner, ErrorDisplay } from './ErrorBoundary';
+import { Button } from './ui/button';
+import { formatPrice, type QuoteCurrency } from '../lib/currency';
+import { CHART_PATTERN_NAMES } from '../shared/analysis/patterns';
+
+interface BacktestProps {
+  crypto: string;
+  quote: QuoteCurrency;
+  interval: CandleInterval; // candle timeframe the strategy is replayed on
+}
+
+const EXIT_LABELS: Record<BacktestTrade['exitReason'], string> = {
+  stop: 'stopped out',
+  target: 'target hit',
+  signal: 'exit signal',
+  end: 'still open'
+};
+const RECENT_TRADES = 10;
+
+const percent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+const tone = (value: number) => (value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-slate-300');
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Equity as a line scaled to its own range, with the starting equity as a dashed baseline
+const EquityCurve: React.FC<{ equity: BacktestResult['equity'] }> = ({ equity }) => {
+  const width = 600;
+  const height = 140;
+  const values = equity.map(p => p.equity);
+  const low = Math.min(1, ...values);
+  const high = Math.max(1, ...values);
+  const span = high - low || 1;
+  const x = (i: number) => (i / Math.max(1, equity.length - 1)) * width;
+  const y = (value: number) => height - ((value - low) / span) * height;
+  const line = values.map((value, i) => `${x(i).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  const finalValue = values[values.length - 1] ?? 1;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-32 md:h-40" preserveAspectRatio="none">
+      <line x1={0} x2={width} y1={y(1)} y2={y(1)} stroke="#64748b" strokeDasharray="4 4" strokeWidth={1} />
+      <polyline points={line} fill="none" stroke={finalValue >= 1 ? '#4ade80' : '#f87171'} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export const Backtest: React.FC<BacktestProps> = ({ crypto, quote, interval }) => {
+  const { result, loading, error, run } = useBacktest(crypto, quote, interval);
+
+  if (loading) {
+    return <LoadingSpinner message="Replaying the strategy over past candles..." />;
+  }
+
+  if (error) {
+    return <ErrorDisplay error={error} onRetry={run} />;
+  }
+
+  if (!result) {
+    return (
+      <div className="flex flex-col items-center gap-3 p-6 text-center text-slate-400">
+        <FlaskConical className="w-8 h-8 text-green-400" />
+        <p className="text-sm">
+          Replay the trading strategy on past {interval} candles, deciding at each close with only the data known then.
+        </p>
+        <Button onClick={run} className="bg-green-600 hover:bg-green-700 text-white">
+          <Play />
+          Run backtest
+        </Button>
+      </div>
+    );
+  }
+
+  const { metrics, options } = result;
+  const stats: Array<{ label: string; value: string; className?: string }> = [
+    { label: 'Total return', value: percent(metrics.totalReturn), className: tone(metrics.totalReturn) },
+    { label: 'Buy & hold', value: percent(metrics.buyAndHoldReturn), className: tone(metrics.buyAndHoldReturn) },
+    { label: 'Trades', value: String(metrics.trades) },
+    { label: 'Win rate', value: `${metrics.winRate.toFixed(1)}%` },
+    { label: 'Expectancy', value: `${percent(metrics.expectancy)} / trade`, className: tone(metrics.expectancy) },
+    { label: 'Profit factor', value: metrics.profitFactor === null ? '—' : metrics.profitFactor.toFixed(2) },
+    { label: 'Sharpe', value: metrics.sharpe.toFixed(2), className: tone(metrics.sharpe) },
+    { label: 'Sortino', value: metrics.sortino.toFixed(2), className: tone(metrics.sortino) },
+    { label: 'Max drawdown', value: `-${metrics.maxDrawdown.toFixed(2)}%`, className: 'text-red-400' },
+    { label: 'Exposure', value: `${metrics.exposure.toFixed(1)}%` }
+  ];
+  const recent = result.trades.slice(-RECENT_TRADES).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 text-xs md:text-sm text-slate-400">
+        <span>
+          {result.candles} {result.interval} candles, {formatTime(result.from)} – {formatTime(result.to)} · fee {(options.feeRate * 100).toFixed(2)}%,
+          slippage {(options.slippage * 100).toFixed(2)}%, {options.stop} stop, {options.target} target
+        </span>
+        <Button onClick={run} variant="outline" size="sm" className="self-start md:self-auto">
+          <Play />
+          Run again
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 md:gap-3">
+        {stats.map((stat, index) => (
+          <motion.div
+            key={stat.label}
+            className="bg-slate-800/50 p-2 md:p-3 rounded-lg"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.3, delay: index * 0.05 }}
+          >
+            <div className="text-[10px] md:text-xs text-slate-400 mb-1">{stat.label}</div>
+            <div className={`text-sm md:text-base font-medium ${stat.className ?? 'text-white'}`}>{stat.value}</div>
+          </motion.div>
+        ))}
+      </div>
+
+      <div className="bg-slate-800/50 p-3 rounded-lg">
+        <div className="text-xs md:text-sm text-slate-300 mb-2">Equity curve</div>
+        <EquityCurve equity={result.equity} />
+      </div>
+
+      {recent.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs md:text-sm">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="py-1 pr-2 font-normal">Entry</th>
+                <th className="py-1 pr-2 font-normal">Setup</th>
+                <th className="py-1 pr-2 font-normal">Price</th>
+                <th className="py-1 pr-2 font-normal">Exit</th>
+                <th className="py-1 font-normal text-right">Return</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map(trade => (
+                <tr key={`${trade.entryTime}-${trade.source}`} className="border-t border-slate-700/50">
+                  <td className="py-1 pr-2 text-slate-300">{formatTime(trade.entryTime)}</td>
+                  <td className="py-1 pr-2 text-slate-300">
+                    <span className={trade.position === 'long' ? 'text-green-400' : 'text-red-400'}>{trade.position}</span>{' '}
+                    {trade.source === 'recommendation' ? `Buy (${trade.confidence}%)` : CHART_PATTERN_NAMES[trade.source]}
+                  </td>
+                  <td className="py-1 pr-2 text-white">{formatPrice(trade.entryPrice, quote)} → {formatPrice(trade.exitPrice, quote)}</td>
+                  <td className="py-1 pr-2 text-slate-400">{EXIT_LABELS[trade.exitReason]}</td>
+                  <td className={`py-1 text-right ${tone(trade.returnPct)}`}>{percent(trade.returnPct)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 text-center">The strategy took no trades over this period.</p>
+      )}
+    </div>
+  );
+};
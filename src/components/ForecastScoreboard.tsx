@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Target } from 'lucide-react';
+import { useForecastScoreboard } from '../hooks/useForecastScoreboard';
+import type { ForecastModel, ForecastScore } from '@/services/types';
+import { LoadingSpinner, ErrorDisplay } from './ErrorBoundary';
+import { Button } from './ui/button';
+import type { QuoteCurrency } from '../lib/currency';
+
+interface ForecastScoreboardProps {
+  crypto: string;
+  quote: QuoteCurrency;
+}
+
+const MODEL_LABELS: Record<ForecastModel, string> = {
+  analysis: 'Indicator ranges',
+  ai: 'AI narrative',
+  advanced: 'Advanced analysis',
+  lstm: 'LSTM'
+};
+
+const scoreKey = (score: ForecastScore) => `${score.model}-${score.interval ?? ''}-${score.horizon}`;
+const percent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+const hitTone = (score: ForecastScore) => {
+  if (score.hitRate === null || score.meanConfidence === null) return 'text-slate-300';
+  const gap = score.hitRate - score.meanConfidence;
+  return gap >= -5 ? 'text-green-400' : gap >= -20 ? 'text-yellow-400' : 'text-red-400';
+};
+
+// Stated confidence against how often forecasts came true; a calibrated model sits on the diagonal
+const ReliabilityDiagram: React.FC<{ score: ForecastScore }> = ({ score }) => {
+  const size = 160;
+  const at = (value: number) => (value / 100) * size;
+  const most = Math.max(1, ...score.calibration.map(bin => bin.forecasts));
+
+  return (
+    <svg viewBox={`-4 -4 ${size + 8} ${size + 8}`} className="w-40 h-40 shrink-0">
+      <rect x={0} y={0} width={size} height={size} fill="none" stroke="#334155" strokeWidth={1} />
+      <line x1={0} y1={size} x2={size} y2={0} stroke="#64748b" strokeDasharray="4 4" strokeWidth={1} />
+      <polyline
+        points={score.calibration.map(bin => `${at(bin.confidence).toFixed(1)},${(size - at(bin.hitRate)).toFixed(1)}`).join(' ')}
+        fill="none"
+        stroke="#4ade80"
+        strokeWidth={1.5}
+      />
+      {score.calibration.map(bin => (
+        <circle
+          key={bin.from}
+          cx={at(bin.confidence)}
+          cy={size - at(bin.hitRate)}
+          r={2 + 3 * (bin.forecasts / most)}
+          fill="#4ade80"
+        >
+          <title>{`${bin.from}–${bin.to}% stated: ${bin.hitRate.toFixed(1)}% hit over ${bin.forecasts}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const ForecastScoreboard: React.FC<ForecastScoreboardProps> = ({ crypto, quote }) => {
+  const [allCoins, setAllCoins] = useState(false);
+  const { scoreboard, loading, error, refetch } = useForecastScoreboard(allCoins ? null : crypto, quote);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (loading) {
+    return <LoadingSpinner message="Scoring past forecasts..." />;
+  }
+
+  if (error) {
+    return <ErrorDisplay error={error} onRetry={refetch} />;
+  }
+
+  const scores = scoreboard?.scores ?? [];
+  const current = scores.find(s => scoreKey(s) === selected) ?? scores.find(s => s.scored > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 text-xs md:text-sm text-slate-400">
+        <span>
+          Every forecast is kept with its confidence and scored once its horizon has passed: ranges hit when the price
+          ends inside them, LSTM points when they called the direction.
+        </span>
+        <Button onClick={() => setAllCoins(!allCoins)} variant="outline" size="sm" className="self-start md:self-auto">
+          {allCoins ? `Only ${crypto}` : 'All coins'}
+        </Button>
+      </div>
+
+      {scores.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 p-6 text-center text-slate-400">
+          <Target className="w-8 h-8 text-green-400" />
+          <p className="text-sm">No forecasts recorded {allCoins ? 'yet' : `for ${crypto} yet`}. Scores appear once the first 24H horizon has passed.</p>
+        </div>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="overflow-x-auto flex-1">
+            <table className="w-full text-xs md:text-sm">
+              <thead>
+                <tr className="text-slate-400 text-left">
+                  <th className="py-1 pr-2 font-normal">Model</th>
+                  <th className="py-1 pr-2 font-normal">Horizon</th>
+                  <th className="py-1 pr-2 font-normal text-right">Scored</th>
+                  <th className="py-1 pr-2 font-normal text-right">Hit rate</th>
+                  <th className="py-1 pr-2 font-normal text-right">Stated</th>
+                  <th className="py-1 pr-2 font-normal text-right">MAPE</th>
+                  <th className="py-1 font-normal text-right">Calibration error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scores.map(score => (
+                  <tr
+                    key={scoreKey(score)}
+                    onClick={() => setSelected(scoreKey(score))}
+                    className={`border-t border-slate-700/50 cursor-pointer ${current === score ? 'bg-slate-800/50' : ''}`}
+                  >
+                    <td className="py-1 pr-2 text-white">
+                      {MODEL_LABELS[score.model]}
+                      {score.interval && <span className="text-slate-400"> · {score.interval}</span>}
+                    </td>
+                    <td className="py-1 pr-2 text-slate-300">{score.horizon}</td>
+                    <td className="py-1 pr-2 text-right text-slate-300">
+                      {score.scored}
+                      {score.pending > 0 && <span className="text-slate-500"> +{score.pending}</span>}
+                    </td>
+                    <td className={`py-1 pr-2 text-right ${hitTone(score)}`}>{percent(score.hitRate)}</td>
+                    <td className="py-1 pr-2 text-right text-slate-300">{percent(score.meanConfidence)}</td>
+                    <td className="py-1 pr-2 text-right text-slate-300">{percent(score.mape)}</td>
+                    <td className="py-1 text-right text-slate-300">
+                      {score.calibrationError === null ? '—' : `${score.calibrationError.toFixed(1)} pts`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {current && current.calibration.length > 0 && (
+            <div className="flex flex-col items-center gap-1 bg-slate-800/50 p-3 rounded-lg">
+              <div className="text-xs md:text-sm text-slate-300">
+                {MODEL_LABELS[current.model]} {current.horizon} calibration
+              </div>
+              <ReliabilityDiagram score={current} />
+              <div className="text-[10px] md:text-xs text-slate-400">stated confidence → hit rate</div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,12 +2,16 @@ import React, { useEffect, useState, useRef } from 'react';
 import { Brain, TrendingUp, TrendingDown, Activity, Target, AlertTriangle, Clock, BarChart, LineChart, PieChart } from 'lucide-react';
 import { analysisService } from '../services/analysis';
 import { motion } from 'framer-motion';
-import { PredictionData } from '@/services/types';
+import { CandleInterval, DetailedAnalysis, PredictionData } from '@/services/types';
 import { ErrorDisplay } from './ErrorBoundary';
 import { priceStore, PriceData } from '../services/priceStore';
+import { formatPrice, formatPriceRange, type QuoteCurrency } from '../lib/currency';
+import { PREDICTION_HORIZONS, parseAIAnalysisDraft, type AIAnalysis, type AIAnalysisDraft, type AISignal } from '../shared/analysis/schema';
 
 interface MarketAnalysisProps {
   crypto: string;
+  quote: QuoteCurrency;
+  interval: CandleInterval; // candle timeframe the analysis runs on
   predictions: PredictionData[];
 }
 
@@ -18,7 +22,10 @@ interface Signal {
 
 interface AnalysisData {
   summary: string;
-  aiAnalysis: string;
+  aiAnalysis: AIAnalysis | null;
+  aiProvider?: string;
+  promptVersion?: string;
+  aiError?: string;
   priceTargets: {
     '24H': { range: string; confidence: string };
     '7D': { range: string; confidence: string };
@@ -37,139 +44,190 @@ interface AnalysisData {
   };
 }
 
-const formatAIAnalysis = (htmlContent: string) => {
-  // Extract sections using more precise regex patterns
-  const sections = {
-    marketAnalysis: htmlContent.match(/<p class="highlight">(.*?)<\/p>/s)?.[1] || '',
-    signals: htmlContent
-      .split('Critical Trading Signals')[1]
-      ?.split('Strategic Recommendations')[0]
-      ?.split('\n')
-      .filter(line => 
-        line.trim() && 
-        !line.includes('h3') && 
-        !line.includes('ul') && 
-        !line.includes('div') && 
-        line.length > 10 // Filter out very short lines
-      )
-      .map(signal => signal.replace(/<[^>]*>/g, '').trim())
-      .filter(Boolean) || [], // Filter out empty strings
-    strategy: {
-      overview: htmlContent
-        .split('Strategic Recommendations')[1]
-        ?.split('Entry Zones')[0]
-        ?.replace(/<[^>]*>/g, '')
-        .trim() || '',
-      entry: htmlContent.match(/Entry Zones[:\s]*([^<\n]*)/)?.[1]?.trim() || '',
-      stop: htmlContent.match(/Stop Loss[:\s]*([^<\n]*)/)?.[1]?.trim() || '',
-      targets: htmlContent.match(/Targets[:\s]*([^<\n]*)/)?.[1]?.trim() || '',
-      timeframe: htmlContent.match(/Timeframe[:\s]*([^<\n]*)/)?.[1]?.trim() || ''
-    }
-  };
+const SIGNAL_ICONS: Record<AISignal['direction'], React.ReactNode> = {
+  positive: <TrendingUp className="w-4 h-4 text-green-400" />,
+  negative: <TrendingDown className="w-4 h-4 text-red-400" />,
+  neutral: <Activity className="w-4 h-4 text-yellow-400" />
+};
+
+const unavailableAnalysis = (predictions: PredictionData[]): AnalysisData => ({
+  summary: 'Market analysis unavailable',
+  aiAnalysis: null,
+  aiError: 'AI analysis unavailable',
+  priceTargets: {
+    '24H': { range: 'N/A', confidence: '0' },
+    '7D': { range: 'N/A', confidence: '0' },
+    '30D': { range: 'N/A', confidence: '0' },
+    externalPredictions: predictions
+  },
+  signals: [],
+  strategy: {
+    position: 'Neutral',
+    entry: 'N/A',
+    stop: 'N/A',
+    target: 'N/A'
+  },
+  marketStructure: {
+    trend: 'Neutral'
+  }
+});
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Renders a finished document or one still streaming in: each section appears once its fields have arrived
+const formatAIAnalysis = (ai: AIAnalysisDraft, quote: QuoteCurrency) => {
+  const strategy = ai.strategy || {};
+  const signals = (ai.signals || []).filter((signal): signal is NonNullable<typeof signal> => Boolean(signal?.text));
+  const targets = (strategy.targets || []).filter(isPrice);
+  const reasoning = (ai.reasoning || []).filter(Boolean);
+  const horizons = PREDICTION_HORIZONS.filter(horizon => {
+    const prediction = ai.predictions?.[horizon];
+    return isPrice(prediction?.low) && isPrice(prediction?.high);
+  });
 
   return (
     <div className="space-y-6">
       {/* Market Analysis Section */}
-      {sections.marketAnalysis && (
+      {ai.summary && (
         <div className="border-l-4 border-green-500 pl-4">
           <h4 className="text-lg font-semibold text-green-400 mb-2">Strategic Market Analysis</h4>
-          <p className="text-gray-300 leading-relaxed">{sections.marketAnalysis}</p>
+          <p className="text-gray-300 leading-relaxed">{ai.summary}</p>
         </div>
       )}
 
-      {/* Trading Signals Section - Only show if there are signals */}
-      {sections.signals.length > 0 && (
+      {/* Price Outlook Section */}
+      {horizons.length > 0 && (
+        <div className="border-l-4 border-green-500 pl-4">
+          <h4 className="text-lg font-semibold text-green-400 mb-2">Price Outlook</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {horizons.map(horizon => {
+              const prediction = ai.predictions![horizon]!;
+              return (
+                <div key={horizon} className="bg-slate-700/30 p-3 rounded-lg">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-semibold text-gray-200">{horizon}</span>
+                    {isPrice(prediction.confidence) && (
+                      <span className="text-xs text-gray-400">{Math.round(prediction.confidence)}% confidence</span>
+                    )}
+                  </div>
+                  <p className="text-gray-300">{formatPriceRange(prediction.low!, prediction.high!, quote)}</p>
+                  {prediction.rationale && (
+                    <p className="text-xs text-gray-400 mt-1">{prediction.rationale}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Trading Signals Section */}
+      {signals.length > 0 && (
         <div className="border-l-4 border-green-500 pl-4">
           <h4 className="text-lg font-semibold text-green-400 mb-2">Critical Trading Signals</h4>
           <ul className="space-y-3">
-            {sections.signals.map((signal, index) => (
+            {signals.map((signal, index) => (
               <li key={index} className="flex items-start gap-2 bg-slate-700/30 p-3 rounded-lg">
-                <div className="mt-1">
-                  {signal.toLowerCase().includes('bullish') || signal.toLowerCase().includes('positive') ? (
-                    <TrendingUp className="w-4 h-4 text-green-400" />
-                  ) : signal.toLowerCase().includes('bearish') || signal.toLowerCase().includes('negative') ? (
-                    <TrendingDown className="w-4 h-4 text-red-400" />
-                  ) : (
-                    <Activity className="w-4 h-4 text-yellow-400" />
-                  )}
-                </div>
-                <span className="text-gray-300">{signal}</span>
+                <div className="mt-1">{SIGNAL_ICONS[signal.direction as AISignal['direction']] || SIGNAL_ICONS.neutral}</div>
+                <span className="text-gray-300">
+                  {signal.category && <span className="capitalize text-gray-400">{signal.category}: </span>}
+                  {signal.text}
+                </span>
               </li>
             ))}
           </ul>
         </div>
       )}
 
-      {/* Strategy Section - Only show if there's content */}
-      {(sections.strategy.overview || sections.strategy.entry || sections.strategy.targets) && (
+      {/* Strategy Section */}
+      {ai.strategy && (
         <div className="border-l-4 border-purple-500 pl-4">
-          <h4 className="text-lg font-semibold text-purple-400 mb-2">Strategic Recommendations</h4>
-          
+          <h4 className="text-lg font-semibold text-purple-400 mb-2">
+            Strategic Recommendations
+            {strategy.position && <span className="ml-2 text-sm uppercase text-gray-400">{strategy.position}</span>}
+          </h4>
+
           {/* Strategy Overview */}
-          {sections.strategy.overview && (
+          {strategy.overview && (
             <div className="mb-4 bg-slate-700/30 p-3 rounded-lg">
-              <p className="text-gray-300 leading-relaxed">{sections.strategy.overview}</p>
+              <p className="text-gray-300 leading-relaxed">{strategy.overview}</p>
             </div>
           )}
 
-          {/* Key Levels Grid - Only show if there are values */}
-          {(sections.strategy.entry || sections.strategy.stop || sections.strategy.targets) && (
+          {/* Key Levels Grid - Only show the levels that have arrived */}
+          {(isPrice(strategy.entry?.high) || isPrice(strategy.stopLoss) || targets.length > 0) && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-              {sections.strategy.entry && (
+              {isPrice(strategy.entry?.low) && isPrice(strategy.entry?.high) && (
                 <div className="bg-slate-700/30 p-4 rounded-lg">
                   <h5 className="text-sm font-semibold text-green-400 mb-2 flex items-center gap-2">
                     <Target className="w-4 h-4" />
-                    Entry Zones
+                    Entry Zone
                   </h5>
-                  <p className="text-gray-300">{sections.strategy.entry}</p>
+                  <p className="text-gray-300">{formatPriceRange(strategy.entry.low, strategy.entry.high, quote)}</p>
                 </div>
               )}
 
-              {sections.strategy.stop && (
+              {isPrice(strategy.stopLoss) && (
                 <div className="bg-slate-700/30 p-4 rounded-lg">
                   <h5 className="text-sm font-semibold text-red-400 mb-2 flex items-center gap-2">
                     <AlertTriangle className="w-4 h-4" />
                     Stop Loss
                   </h5>
-                  <p className="text-gray-300">{sections.strategy.stop}</p>
+                  <p className="text-gray-300">{formatPrice(strategy.stopLoss, quote)}</p>
                 </div>
               )}
 
-              {sections.strategy.targets && (
+              {targets.length > 0 && (
                 <div className="bg-slate-700/30 p-4 rounded-lg">
                   <h5 className="text-sm font-semibold text-green-400 mb-2 flex items-center gap-2">
                     <Target className="w-4 h-4" />
                     Targets
                   </h5>
-                  <p className="text-gray-300">{sections.strategy.targets}</p>
+                  <p className="text-gray-300">{targets.map(t => formatPrice(t, quote)).join(' / ')}</p>
                 </div>
               )}
             </div>
           )}
 
           {/* Timeframe - Only show if there's a value */}
-          {sections.strategy.timeframe && (
+          {strategy.timeframe && (
             <div className="bg-slate-700/30 p-4 rounded-lg">
               <h5 className="text-sm font-semibold text-yellow-400 mb-2 flex items-center gap-2">
                 <Clock className="w-4 h-4" />
                 Timeframe
               </h5>
-              <p className="text-gray-300">{sections.strategy.timeframe}</p>
+              <p className="text-gray-300">{strategy.timeframe}</p>
             </div>
           )}
         </div>
       )}
+
+      {/* Reasoning Section - Only show if the model gave any */}
+      {reasoning.length > 0 && (
+        <div className="border-l-4 border-slate-500 pl-4">
+          <h4 className="text-lg font-semibold text-gray-300 mb-2">Reasoning</h4>
+          <ul className="list-disc list-inside space-y-1 text-gray-400">
+            {reasoning.map((point, index) => (
+              <li key={index}>{point}</li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
 
-export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predictions }) => {
+export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, quote, interval, predictions }) => {
   const [analysis, setAnalysis] = useState<AnalysisData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPrice, setCurrentPrice] = useState<PriceData | null>(null);
+  const [draft, setDraft] = useState<AIAnalysisDraft | null>(null); // AI document while it streams in
   const debounceRef = useRef<number | null>(null);
+  const priceDebounceRef = useRef<number | null>(null);
   const reqCounter = useRef(0);
+  const closeStreamRef = useRef<(() => void) | null>(null);
+  const replyRef = useRef('');
 
   // Subscribe to price store updates
   useEffect(() => {
@@ -199,6 +257,98 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
     await new Promise(r => setTimeout(r, 200));
   };
 
+  const withPredictions = (result: DetailedAnalysis): AnalysisData => ({
+    ...result,
+    priceTargets: {
+      ...result.priceTargets,
+      externalPredictions: predictions
+    }
+  });
+
+  const showUnavailable = () => {
+    setError('Failed to fetch market analysis');
+    setAnalysis(unavailableAnalysis(predictions));
+  };
+
+  // Indicators paint as soon as they arrive; the AI sections fill in while the model writes them
+  const streamAnalysis = async () => {
+    const thisReq = ++reqCounter.current;
+    closeStreamRef.current?.();
+    closeStreamRef.current = null;
+    replyRef.current = '';
+    setLoading(true);
+    setError(null);
+    setDraft(null);
+
+    await waitForReadiness();
+    if (thisReq !== reqCounter.current) return;
+
+    let received = false;
+    closeStreamRef.current = analysisService.streamDetailedAnalysis(crypto, event => {
+      if (thisReq !== reqCounter.current) return;
+      switch (event.type) {
+        case 'indicators':
+          received = true;
+          setAnalysis(withPredictions(event.analysis));
+          setDraft({});
+          setLoading(false);
+          break;
+        case 'token':
+          replyRef.current += event.text;
+          setDraft(parseAIAnalysisDraft(replyRef.current));
+          break;
+        case 'reset':
+          replyRef.current = '';
+          setDraft({});
+          break;
+        case 'analysis':
+          setAnalysis(prev => prev ? {
+            ...prev,
+            // only hydrate AI narrative to avoid flicker
+            aiAnalysis: event.analysis.aiAnalysis,
+            aiProvider: event.analysis.aiProvider,
+            promptVersion: event.analysis.promptVersion,
+            aiError: event.analysis.aiError
+          } : withPredictions(event.analysis));
+          setDraft(null);
+          break;
+        case 'error':
+          console.error('Error in MarketAnalysis stream:', event.error);
+          setDraft(null);
+          setLoading(false);
+          if (received) {
+            setAnalysis(prev => prev && { ...prev, aiError: event.error });
+          } else {
+            showUnavailable();
+          }
+          break;
+      }
+    }, () => {
+      if (thisReq !== reqCounter.current) return;
+      console.warn('Analysis stream dropped; falling back to a regular request');
+      setDraft(null);
+      fetchAnalysis();
+    }, interval);
+  };
+
+  // Price ticks refresh the indicators only, so a narrative that is still streaming is not restarted
+  const refreshIndicators = async () => {
+    const thisReq = reqCounter.current;
+    try {
+      const quick = await analysisService.getDetailedAnalysisQuick(crypto, interval);
+      if (thisReq !== reqCounter.current) return;
+      setAnalysis(prev => prev ? {
+        ...withPredictions(quick),
+        aiAnalysis: prev.aiAnalysis,
+        aiProvider: prev.aiProvider,
+        promptVersion: prev.promptVersion,
+        aiError: prev.aiError
+      } : prev);
+    } catch (err) {
+      console.warn('Indicator refresh failed; keeping previous results:', err);
+    }
+  };
+
   const fetchAnalysis = async () => {
     const thisReq = ++reqCounter.current;
     try {
@@ -207,7 +357,7 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
 
       await waitForReadiness();
       // 1) Quick path first for fast UI paint
-      const quick = await analysisService.getDetailedAnalysisQuick(crypto);
+      const quick = await analysisService.getDetailedAnalysisQuick(crypto, interval);
       if (!quick) throw new Error('No analysis data available');
 
       const quickMerged = {
@@ -224,14 +374,17 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
       }
 
       // 2) In background, fetch full analysis to hydrate AI insights
-      analysisService.getDetailedAnalysis(crypto)
+      analysisService.getDetailedAnalysis(crypto, interval)
         .then(full => {
           if (!full) return;
           if (thisReq === reqCounter.current) {
             setAnalysis(prev => prev ? {
               ...prev,
               // only hydrate AI narrative to avoid flicker
-              aiAnalysis: full.aiAnalysis
+              aiAnalysis: full.aiAnalysis,
+              aiProvider: full.aiProvider,
+              promptVersion: full.promptVersion,
+              aiError: full.aiError
             } : {
               ...full,
               priceTargets: {
@@ -247,27 +400,7 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
     } catch (err) {
       console.error('Error in MarketAnalysis:', err);
       if (thisReq === reqCounter.current) {
-        setError('Failed to fetch market analysis');
-        setAnalysis({
-        summary: 'Market analysis unavailable',
-        aiAnalysis: 'AI analysis unavailable',
-        priceTargets: {
-          '24H': { range: 'N/A', confidence: '0' },
-          '7D': { range: 'N/A', confidence: '0' },
-          '30D': { range: 'N/A', confidence: '0' },
-          externalPredictions: predictions
-        },
-        signals: [],
-        strategy: {
-          position: 'Neutral',
-          entry: 'N/A',
-          stop: 'N/A',
-          target: 'N/A'
-        },
-        marketStructure: {
-          trend: 'Neutral'
-        }
-        });
+        showUnavailable();
       }
     } finally {
       if (thisReq === reqCounter.current) {
@@ -280,12 +413,33 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
     // Debounce fetches to avoid racing with price/news/history on first load or crypto switch
     if (debounceRef.current) window.clearTimeout(debounceRef.current);
     debounceRef.current = window.setTimeout(() => {
-      fetchAnalysis();
+      streamAnalysis();
     }, 300) as unknown as number;
     return () => {
       if (debounceRef.current) window.clearTimeout(debounceRef.current);
     };
-  }, [crypto, predictions, currentPrice]);
+  }, [crypto, quote, interval]);
+
+  useEffect(() => {
+    if (!currentPrice) return;
+    if (priceDebounceRef.current) window.clearTimeout(priceDebounceRef.current);
+    priceDebounceRef.current = window.setTimeout(() => {
+      refreshIndicators();
+    }, 300) as unknown as number;
+    return () => {
+      if (priceDebounceRef.current) window.clearTimeout(priceDebounceRef.current);
+    };
+  }, [currentPrice]);
+
+  useEffect(() => {
+    setAnalysis(prev => prev && {
+      ...prev,
+      priceTargets: { ...prev.priceTargets, externalPredictions: predictions }
+    });
+  }, [predictions]);
+
+  // Close the stream when the panel goes away
+  useEffect(() => () => closeStreamRef.current?.(), []);
 
   if (loading) {
     const loadingSteps = [
@@ -406,7 +560,7 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
       {error && (
         <ErrorDisplay 
           error={error} 
-          onRetry={fetchAnalysis}
+          onRetry={streamAnalysis}
           className="mb-4" 
         />
       )}
@@ -424,16 +578,29 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
         </div>
       )}
 
-      {/* AI Analysis - only show if there's content */}
-      {analysis?.aiAnalysis && (
+      {/* AI Analysis - streaming draft, the structured document, or why it is missing */}
+      {(draft || analysis?.aiAnalysis || analysis?.aiError) && (
         <div className="bg-slate-800 rounded-lg p-4">
           <h3 className="font-medium flex items-center gap-2 mb-4 text-white">
             <Brain className="w-5 h-5 text-purple-400" />
             AI Analysis
+            {draft ? (
+              <span className="ml-auto text-xs font-normal text-purple-300 animate-pulse">Generating...</span>
+            ) : analysis?.aiProvider && (
+              <span className="ml-auto text-xs font-normal text-gray-400">
+                {analysis.aiProvider === 'template'
+                  ? 'Rule-based (AI unavailable)'
+                  : `via ${analysis.aiProvider}${analysis.promptVersion ? ` · prompt ${analysis.promptVersion}` : ''}`}
+              </span>
+            )}
           </h3>
-          {analysis.aiAnalysis ? 
-            formatAIAnalysis(analysis.aiAnalysis)
-            : null
+          {draft ? (
+            Object.keys(draft).length > 0
+              ? formatAIAnalysis(draft, quote)
+              : <p className="text-gray-400 animate-pulse">Waiting for the AI narrative...</p>
+          ) : analysis?.aiAnalysis ?
+            formatAIAnalysis(analysis.aiAnalysis, quote)
+            : <p className="text-gray-400">{analysis?.aiError}</p>
           }
         </div>
       )}
@@ -463,7 +630,7 @@ export const MarketAnalysis: React.FC<MarketAnalysisProps> = ({ crypto, predicti
       )}
 
       {/* Only show empty state if no data at all */}
-      {!analysis?.summary && !analysis?.aiAnalysis && (!analysis?.signals || analysis.signals.length === 0) && (
+      {!analysis?.summary && !analysis?.aiAnalysis && !draft && (!analysis?.signals || analysis.signals.length === 0) && (
         <div className="bg-slate-800 rounded-lg p-4 text-center">
           <p className="text-gray-400">No analysis data available</p>
         </div>
@@ -1,13 +1,15 @@
 import React, { useEffect, useRef } from 'react';
 import { CryptoPrice } from '../services/types';
+import { formatPrice, type QuoteCurrency } from '../lib/currency';
 
 interface TradingViewProps {
   crypto: string;
   timeframe: string;
   price: CryptoPrice;
+  quote: QuoteCurrency;
 }
 
-export const TradingView: React.FC<TradingViewProps> = ({ crypto, timeframe, price }) => {
+export const TradingView: React.FC<TradingViewProps> = ({ crypto, timeframe, price, quote }) => {
   const container = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -20,24 +22,25 @@ export const TradingView: React.FC<TradingViewProps> = ({ crypto, timeframe, pri
       '1M': 'M'
     };
 
-    // Map crypto IDs to TradingView symbols
+    // Map crypto IDs to TradingView base assets; Binance lists USD pairs against USDT
     const getSymbol = (cryptoId: string) => {
       const symbolMap: Record<string, string> = {
-        'bitcoin': 'BTCUSDT',
-        'ethereum': 'ETHUSDT',
-        'binancecoin': 'BNBUSDT',
-        'cardano': 'ADAUSDT',
-        'solana': 'SOLUSDT',
-        'polkadot': 'DOTUSDT',
-        'injective-protocol': 'INJUSDT',
-        'render-token': 'RENDERUSDT',
+        'bitcoin': 'BTC',
+        'ethereum': 'ETH',
+        'binancecoin': 'BNB',
+        'cardano': 'ADA',
+        'solana': 'SOL',
+        'polkadot': 'DOT',
+        'injective-protocol': 'INJ',
+        'render-token': 'RENDER',
       };
 
       // Use mapped symbol if available, otherwise construct it
-      const symbol = symbolMap[cryptoId] || 
-        cryptoId.replace(/-/g, '').toUpperCase() + 'USDT';
+      const base = symbolMap[cryptoId] || 
+        cryptoId.replace(/-/g, '').toUpperCase();
+      const quoteAsset = quote === 'usd' ? 'USDT' : quote.toUpperCase();
 
-      return `BINANCE:${symbol}`;
+      return `BINANCE:${base}${quoteAsset}`;
     };
 
     if (container.current) {
@@ -54,7 +57,7 @@ export const TradingView: React.FC<TradingViewProps> = ({ crypto, timeframe, pri
           priceOverlay.className = 'absolute top-4 right-4 bg-black/50 backdrop-blur-sm rounded-lg p-2 text-sm z-10';
           priceOverlay.innerHTML = `
             <div class="flex items-center gap-2">
-              <span class="text-white font-medium">$${price.price.toLocaleString()}</span>
+              <span class="text-white font-medium">${formatPrice(price.price, quote)}</span>
               <span class="${price.change24h >= 0 ? 'text-green-400' : 'text-red-400'}">
                 ${price.change24h >= 0 ? '+' : ''}${price.change24h.toFixed(2)}%
               </span>
@@ -134,7 +137,7 @@ export const TradingView: React.FC<TradingViewProps> = ({ crypto, timeframe, pri
         container.current.innerHTML = '';
       }
     };
-  }, [crypto, timeframe, price]);
+  }, [crypto, timeframe, price, quote]);
 
   return (
     <div 
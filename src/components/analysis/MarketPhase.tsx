@@ -4,6 +4,9 @@ import React from 'react'
 import { Activity} from 'lucide-react'
 import { motion } from 'framer-motion'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { formatPrice, type QuoteCurrency } from '@/lib/currency'
+import type { ChartPattern, FibonacciLevels } from '../../services/types'
+import { CHART_PATTERN_NAMES } from '../../shared/analysis/patterns'
 
 interface MarketPhaseProps {
   data: {
@@ -17,10 +20,20 @@ interface MarketPhaseProps {
       resistance: number
       strongResistance: number
     }
+    fibonacci?: FibonacciLevels | null
   }
+  patterns?: ChartPattern[]
+  quote: QuoteCurrency
 }
 
-export const MarketPhase: React.FC<MarketPhaseProps> = ({ data }) => {
+const PATTERN_STATE_LABELS: Record<ChartPattern['state'], string> = {
+  forming: 'forming',
+  confirmed: 'confirmed',
+  target_reached: 'target reached',
+  failed: 'failed'
+}
+
+export const MarketPhase: React.FC<MarketPhaseProps> = ({ data, patterns = [], quote }) => {
   if (!data || !data.keyLevels) {
     return (
       <Card className="bg-black/30 backdrop-blur-lg border-none">
@@ -96,11 +109,45 @@ export const MarketPhase: React.FC<MarketPhaseProps> = ({ data }) => {
                 {level.replace(/([A-Z])/g, ' $1').trim()}
               </div>
               <div className="text-sm md:text-base font-medium text-white truncate">
-                ${(price as number).toLocaleString()}
+                {formatPrice(price as number, quote)}
               </div>
             </motion.div>
           ))}
         </div>
+        {data.fibonacci && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs md:text-sm text-slate-300">
+              <span>Fibonacci ({data.fibonacci.direction} swing)</span>
+              <span>{formatPrice(data.fibonacci.from.price, quote)} → {formatPrice(data.fibonacci.to.price, quote)}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2 md:gap-3">
+              {[...data.fibonacci.retracements, ...data.fibonacci.extensions].map(level => (
+                <div key={level.ratio} className="bg-slate-800/50 p-2 rounded-lg flex justify-between text-xs md:text-sm">
+                  <span className={level.ratio > 1 ? 'text-green-300' : 'text-slate-400'}>{level.ratio}</span>
+                  <span className="text-white truncate">{formatPrice(level.price, quote)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {patterns.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs md:text-sm text-slate-300">Chart Patterns (1h)</div>
+            {patterns.map(pattern => (
+              <div key={pattern.type} className="bg-slate-800/50 p-2 md:p-3 rounded-lg">
+                <div className="flex justify-between text-xs md:text-sm">
+                  <span className={pattern.bias === 'bullish' ? 'text-green-400' : pattern.bias === 'bearish' ? 'text-red-400' : 'text-yellow-400'}>
+                    {CHART_PATTERN_NAMES[pattern.type]}
+                  </span>
+                  <span className="text-slate-400">{PATTERN_STATE_LABELS[pattern.state]}</span>
+                </div>
+                <div className="text-[10px] md:text-xs text-slate-400 mt-1">
+                  breakout {formatPrice(pattern.breakout, quote)} · target {formatPrice(pattern.target, quote)} · invalid beyond {formatPrice(pattern.invalidation, quote)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -6,6 +6,7 @@ import { motion } from 'framer-motion'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { DataUnavailable } from "@/components/ui/loading"
 import { PredictionData } from '@/services/types'
+import { formatPriceRange, type QuoteCurrency } from '@/lib/currency'
 
 interface PricePredictionsData {
   shortTerm: {
@@ -28,9 +29,10 @@ interface PricePredictionsData {
 
 interface PricePredictionsProps {
   data: PricePredictionsData
+  quote: QuoteCurrency
 }
 
-export const PricePredictions: React.FC<PricePredictionsProps> = ({ data }) => {
+export const PricePredictions: React.FC<PricePredictionsProps> = ({ data, quote }) => {
   if (!data) {
     return (
       <Card className="bg-black/30 backdrop-blur-lg border-none">
@@ -53,9 +55,6 @@ export const PricePredictions: React.FC<PricePredictionsProps> = ({ data }) => {
     return 'from-red-400 to-red-600'
   }
 
-  const formatPrice = (price: number) => 
-    `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
-
   const timeframes = [
     { key: 'shortTerm', label: 'Short Term' },
     { key: 'midTerm', label: 'Mid Term' },
@@ -94,7 +93,7 @@ export const PricePredictions: React.FC<PricePredictionsProps> = ({ data }) => {
               <div className="text-sm text-white">
                 <span className="text-slate-400">Range: </span>
                 <span className="font-medium">
-                  {formatPrice(data[key].price.low)} - {formatPrice(data[key].price.high)}
+                  {formatPriceRange(data[key].price.low, data[key].price.high, quote)}
                 </span>
               </div>
               <div className="flex items-center gap-1">
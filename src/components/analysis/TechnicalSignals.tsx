@@ -5,12 +5,14 @@ import { Activity } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import type { TechnicalSignals as TechnicalSignalsType } from '../../services/types'
+import { formatPrice, type QuoteCurrency } from '@/lib/currency'
 
 interface TechnicalSignalsProps {
   data: TechnicalSignalsType
+  quote: QuoteCurrency
 }
 
-export const TechnicalSignals: React.FC<TechnicalSignalsProps> = ({ data }) => {
+export const TechnicalSignals: React.FC<TechnicalSignalsProps> = ({ data, quote }) => {
   const getTrendColor = (trend: string | number) => {
     const trendStr = String(trend).toLowerCase();
     switch (trendStr) {
@@ -26,6 +28,30 @@ export const TechnicalSignals: React.FC<TechnicalSignalsProps> = ({ data }) => {
     return 'text-yellow-400'
   }
 
+  const candlesAgo = (n: number) => n === 0 ? 'last candle' : `${n} candle${n === 1 ? '' : 's'} ago`
+
+  const { ichimoku, supertrend } = data.trend
+  const trendSystems = [
+    ichimoku && {
+      label: 'Cloud',
+      value: ichimoku.cloud === 'inside' ? 'Inside cloud' : `${ichimoku.cloud === 'above' ? 'Above' : 'Below'} cloud`,
+      color: ichimoku.cloud === 'above' ? 'text-green-400' : ichimoku.cloud === 'below' ? 'text-red-400' : 'text-yellow-400',
+      detail: `${formatPrice(Math.min(ichimoku.senkouA, ichimoku.senkouB), quote)} – ${formatPrice(Math.max(ichimoku.senkouA, ichimoku.senkouB), quote)}, chikou ${ichimoku.chikou === 'flat' ? 'level' : ichimoku.chikou}`
+    },
+    ichimoku && {
+      label: 'TK Cross',
+      value: ichimoku.tkCross ? `${ichimoku.tkCross.direction === 'bullish' ? 'Bullish' : 'Bearish'} cross` : 'No recent cross',
+      color: ichimoku.tkCross ? getTrendColor(ichimoku.tkCross.direction) : getTrendColor(ichimoku.tenkan > ichimoku.kijun ? 'bullish' : 'bearish'),
+      detail: `${ichimoku.tkCross ? `${candlesAgo(ichimoku.tkCross.candlesAgo)}, ` : ''}tenkan ${formatPrice(ichimoku.tenkan, quote)} / kijun ${formatPrice(ichimoku.kijun, quote)}`
+    },
+    supertrend && {
+      label: 'Supertrend',
+      value: supertrend.flip ? `Flipped ${supertrend.flip.direction}` : supertrend.direction === 'up' ? 'Uptrend' : 'Downtrend',
+      color: supertrend.direction === 'up' ? 'text-green-400' : 'text-red-400',
+      detail: `${supertrend.flip ? `${candlesAgo(supertrend.flip.candlesAgo)}, ` : ''}line at ${formatPrice(supertrend.value, quote)}`
+    }
+  ].filter((system): system is { label: string; value: string; color: string; detail: string } => Boolean(system))
+
   return (
     <Card className="bg-black/30 backdrop-blur-lg border-none">
       <CardHeader>
@@ -44,7 +70,7 @@ export const TechnicalSignals: React.FC<TechnicalSignalsProps> = ({ data }) => {
         >
           <h4 className="text-sm text-slate-300">Trend Analysis</h4>
           <div className="grid grid-cols-2 gap-3">
-            {Object.entries(data.trend).map(([type, trend], index) => (
+            {Object.entries({ primary: data.trend.primary, secondary: data.trend.secondary, strength: data.trend.strength }).map(([type, trend], index) => (
               <motion.div 
                 key={type} 
                 className="bg-slate-800/50 p-3 rounded-lg backdrop-blur-sm"
@@ -59,6 +85,26 @@ export const TechnicalSignals: React.FC<TechnicalSignalsProps> = ({ data }) => {
               </motion.div>
             ))}
           </div>
+          {trendSystems.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs text-slate-400">Ichimoku &amp; Supertrend (1h)</div>
+              {trendSystems.map((system, index) => (
+                <motion.div
+                  key={system.label}
+                  className="bg-slate-800/50 p-3 rounded-lg backdrop-blur-sm"
+                  initial={{ x: -20, opacity: 0 }}
+                  animate={{ x: 0, opacity: 1 }}
+                  transition={{ duration: 0.3, delay: 0.3 + index * 0.1 }}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-300">{system.label}</span>
+                    <span className={`text-sm ${system.color}`}>{system.value}</span>
+                  </div>
+                  <div className="text-xs mt-1 text-slate-400">{system.detail}</div>
+                </motion.div>
+              ))}
+            </div>
+          )}
         </motion.div>
 
         {/* Momentum */}
@@ -92,6 +138,39 @@ export const TechnicalSignals: React.FC<TechnicalSignalsProps> = ({ data }) => {
           </div>
         </motion.div>
 
+        {/* Divergences */}
+        {data.divergences?.length > 0 && (
+          <motion.div
+            className="space-y-3"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.5, delay: 0.3 }}
+          >
+            <h4 className="text-sm text-slate-300">Divergences (1h)</h4>
+            <div className="space-y-2">
+              {data.divergences.map((divergence, index) => (
+                <motion.div
+                  key={`${divergence.indicator}-${divergence.direction}-${divergence.kind}`}
+                  className="bg-slate-800/50 p-3 rounded-lg backdrop-blur-sm"
+                  initial={{ x: -20, opacity: 0 }}
+                  animate={{ x: 0, opacity: 1 }}
+                  transition={{ duration: 0.3, delay: 0.4 + index * 0.1 }}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-slate-300">{divergence.indicator}</span>
+                    <span className={`text-sm ${getTrendColor(divergence.direction)}`}>
+                      {divergence.kind === 'regular' ? 'Regular' : 'Hidden'} {divergence.direction}
+                    </span>
+                  </div>
+                  <div className="text-xs mt-1 text-slate-400">
+                    Price {formatPrice(divergence.from.price, quote)} → {formatPrice(divergence.to.price, quote)}, {candlesAgo(divergence.candlesAgo)}, {divergence.importance} importance
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Volatility */}
         <motion.div 
           className="space-y-3"
@@ -116,6 +195,14 @@ export const TechnicalSignals: React.FC<TechnicalSignalsProps> = ({ data }) => {
                 {data.volatility.current.toFixed(2)}%
               </span>
             </div>
+            {data.volatility.atr > 0 && (
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm text-slate-300">ATR (14, 1h)</span>
+                <span className="text-sm text-slate-200">
+                  {formatPrice(data.volatility.atr, quote)}
+                </span>
+              </div>
+            )}
             <div className="text-xs text-slate-400">
               {data.volatility.trend} trend, {data.volatility.risk} risk
             </div>
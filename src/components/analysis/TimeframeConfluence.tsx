@@ -0,0 +1,103 @@
+'use client'
+
+import React from 'react'
+import { Layers } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { Confluence } from '../../services/types'
+import { formatPrice, type QuoteCurrency } from '@/lib/currency'
+
+interface TimeframeConfluenceProps {
+  data: Confluence
+  quote: QuoteCurrency
+}
+
+const biasColor = (bias: string) =>
+  bias === 'bullish' ? 'text-green-400' : bias === 'bearish' ? 'text-red-400' : 'text-yellow-400'
+
+export const TimeframeConfluence: React.FC<TimeframeConfluenceProps> = ({ data, quote }) => {
+  const scoreColor = data.score >= 25 ? 'from-green-400 to-green-600' : data.score <= -25 ? 'from-red-400 to-red-600' : 'from-yellow-400 to-yellow-600'
+
+  return (
+    <Card className="bg-black/30 backdrop-blur-lg border-none">
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl font-bold text-green-300 flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Timeframe Confluence
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <motion.div
+          className={`text-xl md:text-2xl font-bold text-center p-3 rounded-lg bg-gradient-to-r ${scoreColor}`}
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ duration: 0.5 }}
+        >
+          {data.score > 0 ? '+' : ''}{data.score}
+        </motion.div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {([['Trend', data.trend], ['Momentum', data.momentum]] as const).map(([label, reading]) => (
+            <div key={label} className="bg-slate-800/50 p-3 rounded-lg">
+              <div className="text-xs text-slate-400 mb-1">{label}</div>
+              <div className={`font-medium ${biasColor(reading.bias)}`}>
+                {reading.bias} · {Math.round(reading.agreement * 100)}% agree
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Per-timeframe readings */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs md:text-sm">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="py-1 pr-2 font-normal">Timeframe</th>
+                <th className="py-1 pr-2 font-normal">Trend</th>
+                <th className="py-1 pr-2 font-normal">Momentum</th>
+                <th className="py-1 pr-2 font-normal">RSI</th>
+                <th className="py-1 pr-2 font-normal">Support</th>
+                <th className="py-1 font-normal">Resistance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.readings.map((reading, index) => (
+                <motion.tr
+                  key={reading.interval}
+                  className="border-t border-slate-700/50"
+                  initial={{ x: -10, opacity: 0 }}
+                  animate={{ x: 0, opacity: 1 }}
+                  transition={{ duration: 0.3, delay: 0.2 + index * 0.1 }}
+                >
+                  <td className="py-1 pr-2 text-slate-300">{reading.interval.toUpperCase()}</td>
+                  <td className={`py-1 pr-2 ${biasColor(reading.trend)}`}>{reading.trend}</td>
+                  <td className={`py-1 pr-2 ${biasColor(reading.momentum)}`}>{reading.momentum}</td>
+                  <td className="py-1 pr-2 text-white">{reading.rsi.toFixed(1)}</td>
+                  <td className="py-1 pr-2 text-white">{formatPrice(reading.support, quote)}</td>
+                  <td className="py-1 text-white">{formatPrice(reading.resistance, quote)}</td>
+                </motion.tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Levels several timeframes share */}
+        {data.levels.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm text-slate-300">Shared Levels</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {data.levels.map(level => (
+                <div key={`${level.kind}-${level.price}`} className="bg-slate-800/50 p-2 rounded-lg flex justify-between text-xs md:text-sm">
+                  <span className={level.kind === 'support' ? 'text-green-300' : 'text-red-300'}>
+                    {level.kind} ({level.intervals.join(', ')})
+                  </span>
+                  <span className="text-white">{formatPrice(level.price, quote)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
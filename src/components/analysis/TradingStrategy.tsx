@@ -5,12 +5,15 @@ import { Target, ArrowRight, Crosshair } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import type { TradingStrategy as TradingStrategyType } from '../../services/types'
+import { formatPrice, type QuoteCurrency } from '@/lib/currency'
+import { CHART_PATTERN_NAMES } from '../../shared/analysis/patterns'
 
 interface TradingStrategyProps {
   data: TradingStrategyType
+  quote: QuoteCurrency
 }
 
-export const TradingStrategy: React.FC<TradingStrategyProps> = ({ data }) => {
+export const TradingStrategy: React.FC<TradingStrategyProps> = ({ data, quote }) => {
   if (!data || !data.entries || !data.stopLoss || !data.targets) {
     return (
       <Card className="bg-black/30 backdrop-blur-lg border-none">
@@ -27,9 +30,6 @@ export const TradingStrategy: React.FC<TradingStrategyProps> = ({ data }) => {
     )
   }
 
-  const formatPrice = (price: number | undefined) => 
-    `$${(price || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
-
   const recommendationParts = data.recommendation.split('(');
   const recommendation = recommendationParts[0].trim();
 
@@ -78,7 +78,7 @@ export const TradingStrategy: React.FC<TradingStrategyProps> = ({ data }) => {
                 transition={{ duration: 0.3, delay: 0.3 + index * 0.1 }}
               >
                 <div className="text-xs text-slate-400 mb-1">{type}</div>
-                <div className="font-medium text-white">{formatPrice(price as number)}</div>
+                <div className="font-medium text-white">{formatPrice(price as number, quote)}</div>
               </motion.div>
             ))}
           </div>
@@ -102,7 +102,7 @@ export const TradingStrategy: React.FC<TradingStrategyProps> = ({ data }) => {
                 transition={{ duration: 0.3, delay: 0.5 + index * 0.1 }}
               >
                 <div className="text-xs text-slate-400 mb-1">{type}</div>
-                <div className="font-medium text-red-400">{formatPrice(price as number)}</div>
+                <div className="font-medium text-red-400">{formatPrice(price as number, quote)}</div>
               </motion.div>
             ))}
           </div>
@@ -126,12 +126,47 @@ export const TradingStrategy: React.FC<TradingStrategyProps> = ({ data }) => {
                 transition={{ duration: 0.3, delay: 0.7 + index * 0.1 }}
               >
                 <div className="text-xs text-slate-400 mb-1">{type}</div>
-                <div className="font-medium text-green-400">{formatPrice(price as number)}</div>
+                <div className="font-medium text-green-400">{formatPrice(price as number, quote)}</div>
               </motion.div>
             ))}
           </div>
         </motion.div>
 
+        {/* Breakout Entries */}
+        {data.breakouts?.length > 0 && (
+          <motion.div
+            className="space-y-2"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.5, delay: 0.7 }}
+          >
+            <h4 className="text-sm text-slate-300">Breakout Entries</h4>
+            <div className="space-y-2">
+              {data.breakouts.map((breakout, index) => (
+                <motion.div
+                  key={breakout.pattern}
+                  className="bg-slate-800/50 p-3 rounded-lg backdrop-blur-sm"
+                  initial={{ x: -20, opacity: 0 }}
+                  animate={{ x: 0, opacity: 1 }}
+                  transition={{ duration: 0.3, delay: 0.8 + index * 0.1 }}
+                >
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-sm text-slate-300">{CHART_PATTERN_NAMES[breakout.pattern]}</span>
+                    <span className={`text-sm ${breakout.position === 'long' ? 'text-green-400' : 'text-red-400'}`}>
+                      {breakout.position === 'long' ? 'Long' : 'Short'}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <div><span className="text-slate-400">entry </span><span className="text-white">{formatPrice(breakout.entry, quote)}</span></div>
+                    <div><span className="text-slate-400">stop </span><span className="text-red-400">{formatPrice(breakout.stop, quote)}</span></div>
+                    <div><span className="text-slate-400">target </span><span className="text-green-400">{formatPrice(breakout.target, quote)}</span></div>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Rationale */}
         <motion.div 
           className="space-y-2"
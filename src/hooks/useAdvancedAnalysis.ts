@@ -1,13 +1,18 @@
 import { useState, useEffect, useRef } from 'react';
-import { advancedAnalysis, AdvancedAnalysis } from '../services/advancedAnalysis';
+import type { AdvancedAnalysis } from '../services/advancedAnalysis';
+import { getFullAnalysis } from '../services/fullAnalysis';
 import { priceStore } from '../services/priceStore';
+import { TaskCancelledError, type WorkerProgress } from '../services/worker/client';
+import type { QuoteCurrency } from '../lib/currency';
 
-export function useAdvancedAnalysis(crypto: string) {
+export function useAdvancedAnalysis(crypto: string, quote: QuoteCurrency) {
   const [analysis, setAnalysis] = useState<AdvancedAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<WorkerProgress | null>(null);
   const timeoutRef = useRef<number | null>(null);
   const reqCounter = useRef(0);
+  const controllerRef = useRef<AbortController | null>(null); // the request in flight, cancelled when a newer one starts
 
   // Wait until the price store reports a non-zero price for the selected asset
   const waitForPriceReady = async (maxWaitMs = 2000) => {
@@ -21,18 +26,28 @@ export function useAdvancedAnalysis(crypto: string) {
 
   const fetchAnalysis = async () => {
     const thisReq = ++reqCounter.current;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
     try {
       setLoading(true);
       setError(null);
+      setProgress(null);
       // Give the price store a moment to populate after crypto switch
       await waitForPriceReady();
-      const result = await advancedAnalysis.getFullAnalysis(crypto);
-      // Ignore stale responses if crypto changed during the request
+      const result = await getFullAnalysis(crypto, {
+        signal: controller.signal,
+        onProgress: next => {
+          if (thisReq === reqCounter.current) setProgress(next);
+        }
+      });
+      // Ignore stale responses if crypto or quote changed during the request
       if (thisReq === reqCounter.current) {
         setAnalysis(result);
         setError(null);
       }
     } catch (err) {
+      if (err instanceof TaskCancelledError) return; // a newer request took over
       console.error('Error fetching analysis:', err);
       if (thisReq === reqCounter.current) {
         setError(err instanceof Error ? err.message : 'Failed to fetch analysis');
@@ -53,8 +68,9 @@ export function useAdvancedAnalysis(crypto: string) {
   timeoutRef.current = window.setTimeout(fetchAnalysis, 300) as unknown as number;
     return () => {
       if (timeoutRef.current) window.clearTimeout(timeoutRef.current);
+      controllerRef.current?.abort();
     };
-  }, [crypto]);
+  }, [crypto, quote]);
 
-  return { analysis, loading, error, refetch: fetchAnalysis };
+  return { analysis, loading, error, progress, refetch: fetchAnalysis };
 } 
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { useState, useEffect, useRef } from 'react';
+import { api } from '../services/api';
+import type { BacktestResult, CandleInterval } from '../services/types';
+import type { QuoteCurrency } from '../lib/currency';
+
+// Backtests are heavy, so they run on request; a new coin, quote or timeframe clears the last result
+export function useBacktest(crypto: string, quote: QuoteCurrency, interval: CandleInterval) {
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const reqCounter = useRef(0);
+
+  const run = async () => {
+    const thisReq = ++reqCounter.current;
+    try {
+      setLoading(true);
+      setError(null);
+      const backtest = await api.getBacktest(crypto, { quote, interval });
+      // Ignore stale responses if crypto, quote or interval changed during the request
+      if (thisReq === reqCounter.current) setResult(backtest);
+    } catch (err) {
+      console.error('Error running backtest:', err);
+      if (thisReq === reqCounter.current) {
+        setError(err instanceof Error ? err.message : 'Failed to run backtest');
+      }
+    } finally {
+      if (thisReq === reqCounter.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reqCounter.current++;
+    setResult(null);
+    setError(null);
+    setLoading(false);
+  }, [crypto, quote, interval]);
+
+  return { result, loading, error, run };
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect, useRef } from 'react';
+import { api } from '../services/api';
+import type { Scoreboard } from '../services/types';
+import type { QuoteCurrency } from '../lib/currency';
+
+// Track record of every predictor; crypto null covers all coins
+export function useForecastScoreboard(crypto: string | null, quote: QuoteCurrency) {
+  const [scoreboard, setScoreboard] = useState<Scoreboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const reqCounter = useRef(0);
+
+  const fetchScoreboard = async () => {
+    const thisReq = ++reqCounter.current;
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await api.getForecastScoreboard({ crypto: crypto ?? undefined, quote });
+      // Ignore stale responses if crypto or quote changed during the request
+      if (thisReq === reqCounter.current) setScoreboard(result);
+    } catch (err) {
+      console.error('Error fetching forecast scoreboard:', err);
+      if (thisReq === reqCounter.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load forecast scoreboard');
+      }
+    } finally {
+      if (thisReq === reqCounter.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchScoreboard();
+  }, [crypto, quote]);
+
+  return { scoreboard, loading, error, refetch: fetchScoreboard };
+}
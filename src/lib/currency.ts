@@ -0,0 +1,13 @@
+import { QUOTE_CURRENCIES } from '../shared/quotes';
+
+export {
+  DEFAULT_QUOTE,
+  QUOTE_CURRENCIES,
+  formatPrice,
+  formatPriceRange,
+  isQuoteCurrency,
+  roundPrice,
+  type QuoteCurrency
+} from '../shared/quotes';
+
+export const QUOTE_OPTIONS = QUOTE_CURRENCIES.map(quote => ({ value: quote, label: quote.toUpperCase() }));
@@ -0,0 +1,192 @@
+/*
+ * Candlestick patterns on the latest candles, scored by the trend they appear in. Needs real
+ * OHLC candles: close-derived ones have no wicks.
+ */
+import type { Candle } from '../providers/types.js';
+import { atrSeries } from '../../shared/analysis/engine.js';
+
+export type CandlestickPatternType =
+  | 'bullish_engulfing'
+  | 'bearish_engulfing'
+  | 'hammer'
+  | 'shooting_star'
+  | 'doji'
+  | 'morning_star'
+  | 'evening_star'
+  | 'three_white_soldiers'
+  | 'three_black_crows';
+
+export const CANDLESTICK_PATTERN_NAMES: Record<CandlestickPatternType, string> = {
+  bullish_engulfing: 'Bullish engulfing',
+  bearish_engulfing: 'Bearish engulfing',
+  hammer: 'Hammer',
+  shooting_star: 'Shooting star',
+  doji: 'Doji',
+  morning_star: 'Morning star',
+  evening_star: 'Evening star',
+  three_white_soldiers: 'Three white soldiers',
+  three_black_crows: 'Three black crows'
+};
+
+export interface CandlestickPattern {
+  type: CandlestickPatternType;
+  bias: 'bullish' | 'bearish' | 'neutral'; // a doji leans against the trend it interrupts, neutral in a range
+  timestamp: number; // of the pattern's last candle
+  candlesAgo: number;
+  trend: 'up' | 'down' | 'sideways'; // into the pattern
+  confidence: number; // 0–1
+}
+
+export interface CandlestickOptions {
+  lookback: number; // patterns ending within this many latest candles
+  trendCandles: number; // candles before a pattern that set its trend context
+}
+
+const DEFAULT_OPTIONS: CandlestickOptions = { lookback: 3, trendCandles: 10 };
+const TREND_ATRS = 1.5; // a move of this many ATRs over the trend window is a trend
+const DOJI_BODY = 0.1; // body at most this share of the range
+const SHADOW_BODY = 2; // hammer/shooting star: the long shadow at least this many bodies
+const SMALL_SHADOW = 0.15; // and the other shadow at most this share of the range
+const STAR_BODY = 0.3; // the middle star's body at most this share of the first candle's body
+
+// Base confidence before trend context: multi-candle patterns carry more weight than single candles
+const BASE_CONFIDENCE: Record<CandlestickPatternType, number> = {
+  bullish_engulfing: 0.6,
+  bearish_engulfing: 0.6,
+  hammer: 0.5,
+  shooting_star: 0.5,
+  doji: 0.35,
+  morning_star: 0.65,
+  evening_star: 0.65,
+  three_white_soldiers: 0.6,
+  three_black_crows: 0.6
+};
+const WITH_CONTEXT = 0.25; // reversal after the trend it reverses
+const AGAINST_CONTEXT = -0.15; // "reversal" in the direction price is already going
+
+const body = (c: Candle) => Math.abs(c.close - c.open);
+const range = (c: Candle) => c.high - c.low;
+const upperShadow = (c: Candle) => c.high - Math.max(c.open, c.close);
+const lowerShadow = (c: Candle) => Math.min(c.open, c.close) - c.low;
+const bullish = (c: Candle) => c.close > c.open;
+const bearish = (c: Candle) => c.close < c.open;
+
+// Net move over the window before `index`, in ATRs
+function trendInto(candles: Candle[], atrs: number[], index: number, window: number): CandlestickPattern['trend'] {
+  const from = index - window;
+  if (from < 0 || !(atrs[index - 1] > 0)) return 'sideways';
+  const move = (candles[index - 1].close - candles[from].close) / atrs[index - 1];
+  return move >= TREND_ATRS ? 'up' : move <= -TREND_ATRS ? 'down' : 'sideways';
+}
+
+// Patterns whose last candle is candles[i]; `first` is the index of their first candle
+function patternsEndingAt(candles: Candle[], i: number, averageBody: number): Array<{ type: CandlestickPatternType; first: number }> {
+  const found: Array<{ type: CandlestickPatternType; first: number }> = [];
+  const c = candles[i];
+  const prev = candles[i - 1];
+  const prev2 = candles[i - 2];
+
+  if (range(c) > 0) {
+    const b = body(c);
+    if (lowerShadow(c) >= SHADOW_BODY * b && upperShadow(c) <= SMALL_SHADOW * range(c) && b > 0) {
+      found.push({ type: 'hammer', first: i });
+    } else if (upperShadow(c) >= SHADOW_BODY * b && lowerShadow(c) <= SMALL_SHADOW * range(c) && b > 0) {
+      found.push({ type: 'shooting_star', first: i });
+    } else if (b <= DOJI_BODY * range(c)) {
+      found.push({ type: 'doji', first: i });
+    }
+  }
+
+  if (prev) {
+    if (bearish(prev) && bullish(c) && c.close >= prev.open && c.open <= prev.close && body(c) > body(prev)) {
+      found.push({ type: 'bullish_engulfing', first: i - 1 });
+    }
+    if (bullish(prev) && bearish(c) && c.close <= prev.open && c.open >= prev.close && body(c) > body(prev)) {
+      found.push({ type: 'bearish_engulfing', first: i - 1 });
+    }
+  }
+
+  if (prev && prev2) {
+    const longFirst = body(prev2) >= averageBody;
+    const smallStar = body(prev) <= STAR_BODY * body(prev2);
+    const midpoint = (prev2.open + prev2.close) / 2;
+    if (longFirst && smallStar && bearish(prev2) && bullish(c) && c.close > midpoint) {
+      found.push({ type: 'morning_star', first: i - 2 });
+    }
+    if (longFirst && smallStar && bullish(prev2) && bearish(c) && c.close < midpoint) {
+      found.push({ type: 'evening_star', first: i - 2 });
+    }
+
+    // Three long candles one way, each opening inside the previous body and closing further on
+    const three = [prev2, prev, c];
+    const solid = three.every(k => range(k) > 0 && body(k) >= 0.5 * range(k));
+    const opensInside = (k: Candle, before: Candle) =>
+      k.open >= Math.min(before.open, before.close) && k.open <= Math.max(before.open, before.close);
+    if (solid && three.every(bullish) && prev.close > prev2.close && c.close > prev.close && opensInside(prev, prev2) && opensInside(c, prev)) {
+      found.push({ type: 'three_white_soldiers', first: i - 2 });
+    }
+    if (solid && three.every(bearish) && prev.close < prev2.close && c.close < prev.close && opensInside(prev, prev2) && opensInside(c, prev)) {
+      found.push({ type: 'three_black_crows', first: i - 2 });
+    }
+  }
+  return found;
+}
+
+// Every other pattern but the doji is bearish
+const BULLISH: CandlestickPatternType[] = ['bullish_engulfing', 'hammer', 'morning_star', 'three_white_soldiers'];
+
+function score(type: CandlestickPatternType, trend: CandlestickPattern['trend']): { bias: CandlestickPattern['bias']; confidence: number } {
+  const base = BASE_CONFIDENCE[type];
+  if (type === 'doji') {
+    // Indecision only means something after a move
+    if (trend === 'sideways') return { bias: 'neutral', confidence: base };
+    return { bias: trend === 'up' ? 'bearish' : 'bullish', confidence: base + WITH_CONTEXT };
+  }
+  const bias = BULLISH.includes(type) ? 'bullish' : 'bearish';
+  const reverses = bias === 'bullish' ? trend === 'down' : trend === 'up';
+  const follows = bias === 'bullish' ? trend === 'up' : trend === 'down';
+  return { bias, confidence: base + (reverses ? WITH_CONTEXT : follows ? AGAINST_CONTEXT : 0) };
+}
+
+/*
+ * Patterns ending on the latest `lookback` candles, newest first and at most one of each type.
+ * The trend context is read from the candles before the pattern's first candle.
+ */
+export function findCandlestickPatterns(
+  candles: Candle[],
+  options: Partial<CandlestickOptions> = {}
+): CandlestickPattern[] {
+  const { lookback, trendCandles } = { ...DEFAULT_OPTIONS, ...options };
+  if (candles.length < 3) return [];
+  const atrs = atrSeries(candles);
+  const last = candles.length - 1;
+  const seen = new Set<CandlestickPatternType>();
+  const patterns: CandlestickPattern[] = [];
+
+  for (let i = last; i > last - lookback && i >= 2; i--) {
+    const recent = candles.slice(Math.max(0, i - trendCandles), i);
+    const averageBody = recent.reduce((sum, k) => sum + body(k), 0) / Math.max(1, recent.length);
+    for (const { type, first } of patternsEndingAt(candles, i, averageBody)) {
+      if (seen.has(type)) continue;
+      seen.add(type);
+      const trend = trendInto(candles, atrs, first, trendCandles);
+      const { bias, confidence } = score(type, trend);
+      patterns.push({
+        type,
+        bias,
+        timestamp: candles[i].timestamp,
+        candlesAgo: last - i,
+        trend,
+        confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100
+      });
+    }
+  }
+  return patterns;
+}
+
+export function describeCandlestickPattern(pattern: CandlestickPattern): string {
+  const when = pattern.candlesAgo === 0 ? 'on the latest candle' : `${pattern.candlesAgo} candle${pattern.candlesAgo === 1 ? '' : 's'} ago`;
+  const context = pattern.trend === 'sideways' ? 'in a range' : `after ${pattern.trend === 'up' ? 'an up' : 'a down'}trend`;
+  const lean = pattern.bias === 'neutral' ? 'indecision' : pattern.bias;
+  return `${CANDLESTICK_PATTERN_NAMES[pattern.type]} ${when} ${context} (${lean}, ${Math.round(pattern.confidence * 100)}% confidence)`;
+}
@@ -0,0 +1,28 @@
+import type { ServerCache } from '../cache/index.js';
+import type { ForecastTracker } from '../forecasts/index.js';
+import { createLLMProviders } from './llm/index.js';
+import type { PromptRegistry } from './prompts/index.js';
+import { AnalysisService, type AnalysisSources } from './service.js';
+
+export { AnalysisService, AnalysisUnavailableError } from './service.js';
+export type { AnalysisSources, AnalyzeOptions } from './service.js';
+export type { LLMMessage, LLMProvider, NarrationContext } from './llm/index.js';
+export type { AnalysisStreamEvent, DetailedAnalysis } from '../../shared/analysis/types.js';
+export type { Confluence } from '../../shared/analysis/confluence.js';
+export type { AIAnalysis } from '../../shared/analysis/schema.js';
+export { PROMPT_VARIABLES, PromptRegistryError, createPromptRegistry } from './prompts/index.js';
+export type { PromptExperiment, PromptRegistry, PromptTemplate } from './prompts/index.js';
+
+/*
+ * Build the analysis service. LLM keys stay on the server; with no provider configured the
+ * API still answers with indicators and no narrative. Issued price targets go to `forecasts`
+ * for accuracy tracking when one is given.
+ */
+export function createAnalysisService(
+  sources: AnalysisSources,
+  cache: ServerCache,
+  prompts: PromptRegistry,
+  forecasts?: ForecastTracker
+): AnalysisService {
+  return new AnalysisService(sources, cache, createLLMProviders(), prompts, forecasts ?? null);
+}
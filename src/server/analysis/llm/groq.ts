@@ -0,0 +1,39 @@
+import Groq from 'groq-sdk';
+import type { LLMMessage, LLMProvider, LLMSettings } from './types.js';
+
+export const DEFAULT_GROQ_MODEL = 'meta-llama/llama-4-maverick-17b-128e-instruct';
+
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq';
+  readonly local = false;
+  private client: Groq;
+
+  constructor(apiKey: string, private readonly settings: LLMSettings) {
+    this.client = new Groq({ apiKey });
+  }
+
+  private request(messages: LLMMessage[]) {
+    return {
+      model: this.settings.model,
+      messages,
+      temperature: this.settings.temperature,
+      max_tokens: this.settings.maxTokens,
+      response_format: { type: 'json_object' as const }
+    };
+  }
+
+  async complete(messages: LLMMessage[]): Promise<string> {
+    const completion = await this.client.chat.completions.create(this.request(messages));
+    const content = completion.choices[0]?.message?.content;
+    if (!content) throw new Error('Groq returned an empty completion');
+    return content;
+  }
+
+  async *stream(messages: LLMMessage[], _context: unknown, signal?: AbortSignal): AsyncIterable<string> {
+    const chunks = await this.client.chat.completions.create({ ...this.request(messages), stream: true }, { signal });
+    for await (const chunk of chunks) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { DEFAULT_GROQ_MODEL, GroqProvider } from './groq.js';
+import { OpenAICompatibleProvider } from './openai.js';
+import { TemplateNarrator } from './template.js';
+import type { LLMProvider, LLMSettings } from './types.js';
+
+export * from './types.js';
+export { TemplateNarrator } from './template.js';
+
+const DEFAULT_PROVIDERS = 'groq,template';
+const DEFAULT_TEMPERATURE = 0.1;
+const DEFAULT_MAX_TOKENS = 2048;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+}
+
+function createProvider(name: string, shared: Omit<LLMSettings, 'model'>): LLMProvider | null {
+  switch (name) {
+    case 'groq': {
+      let apiKey = process.env.GROQ_API_KEY;
+      if (!apiKey && process.env.VITE_GROQ_API_KEY) {
+        // VITE_* variables are meant for the browser bundle; keep accepting the old name until .env files are updated
+        console.warn('Analysis: VITE_GROQ_API_KEY is deprecated, rename it to GROQ_API_KEY');
+        apiKey = process.env.VITE_GROQ_API_KEY;
+      }
+      if (!apiKey) {
+        console.warn('Analysis: GROQ_API_KEY is not set, skipping the groq provider');
+        return null;
+      }
+      return new GroqProvider(apiKey, { ...shared, model: process.env.GROQ_MODEL || DEFAULT_GROQ_MODEL });
+    }
+    case 'openai': {
+      const baseUrl = process.env.OPENAI_API_URL;
+      const model = process.env.OPENAI_MODEL;
+      if (!baseUrl || !model) {
+        console.warn('Analysis: OPENAI_API_URL and OPENAI_MODEL are required for the openai provider, skipping it');
+        return null;
+      }
+      return new OpenAICompatibleProvider(baseUrl, process.env.OPENAI_API_KEY, { ...shared, model });
+    }
+    case 'template':
+      return new TemplateNarrator();
+    default:
+      console.warn(`Analysis: unknown LLM provider "${name}" ignored`);
+      return null;
+  }
+}
+
+/*
+ * Build the narrator chain from LLM_PROVIDERS (comma-separated, in fallback order).
+ * LLM_TEMPERATURE and LLM_MAX_TOKENS apply to every model; each provider reads its own model name.
+ */
+export function createLLMProviders(): LLMProvider[] {
+  const shared = {
+    temperature: numberFromEnv('LLM_TEMPERATURE', DEFAULT_TEMPERATURE),
+    maxTokens: numberFromEnv('LLM_MAX_TOKENS', DEFAULT_MAX_TOKENS)
+  };
+  const names = (process.env.LLM_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(',')
+    .map(n => n.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names
+    .map(name => createProvider(name, shared))
+    .filter((p): p is LLMProvider => p !== null);
+
+  console.log(`Analysis narrators: ${providers.map(p => p.name).join('>') || 'none'}`);
+  return providers;
+}
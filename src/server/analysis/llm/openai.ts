@@ -0,0 +1,63 @@
+import axios from 'axios';
+import type { LLMMessage, LLMProvider, LLMSettings } from './types.js';
+
+const REQUEST_TIMEOUT_MS = 120000; // self-hosted models on modest hardware take a while for 2k tokens
+
+/*
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a self-hosted
+ * llama.cpp / Ollama / vLLM instance (e.g. OPENAI_API_URL=http://localhost:11434/v1).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly local = false;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+    private readonly settings: LLMSettings
+  ) {}
+
+  private post(messages: LLMMessage[], stream: boolean, signal?: AbortSignal) {
+    return axios.post(
+      `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        model: this.settings.model,
+        messages,
+        temperature: this.settings.temperature,
+        max_tokens: this.settings.maxTokens,
+        response_format: { type: 'json_object' },
+        ...(stream ? { stream: true } : {})
+      },
+      {
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        ...(stream ? { responseType: 'stream' as const, signal } : {})
+      }
+    );
+  }
+
+  async complete(messages: LLMMessage[]): Promise<string> {
+    const response = await this.post(messages, false);
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (!content) throw new Error(`${this.baseUrl} returned an empty completion`);
+    return content;
+  }
+
+  // The body is an SSE stream of completion chunks ("data: {...}" lines), ended by "data: [DONE]"
+  async *stream(messages: LLMMessage[], _context: unknown, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await this.post(messages, true, signal);
+    let buffer = '';
+    for await (const chunk of response.data as AsyncIterable<Buffer>) {
+      buffer += chunk.toString('utf8');
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { formatPrice, roundPrice } from '../../../shared/quotes.js';
+import { CANDLE_INTERVAL_MS } from '../../../shared/candles.js';
+import { calculateConfidence, describeIchimoku, describeSupertrend, interpretRSI, projectPriceTargets } from '../../../shared/analysis/indicators.js';
+import type { AIAnalysis, AISignal, Position } from '../../../shared/analysis/schema.js';
+import { structureTargets } from '../../../shared/analysis/swings.js';
+import type { LLMProvider, NarrationContext } from './types.js';
+
+const ATR_STOP_MULTIPLIER = 1.5; // same stop distance as the indicator strategy in service.ts
+
+/*
+ * Writes the analysis document from the computed indicators alone, with fixed rules instead
+ * of a model. Always available, so it is the usual last entry of LLM_PROVIDERS.
+ */
+export class TemplateNarrator implements LLMProvider {
+  readonly name = 'template';
+  readonly local = true;
+
+  async complete(_messages: unknown, context: NarrationContext): Promise<string> {
+    return JSON.stringify(narrate(context));
+  }
+}
+
+function narrate({ crypto, quote, indicators, sentiment }: NarrationContext): AIAnalysis {
+  const { currentPrice, rsi, macd, ma50, ma200, atr, support, resistance, volumeChange, volatility, marketPhase, trendSystems, fibonacci } = indicators;
+  const name = crypto.charAt(0).toUpperCase() + crypto.slice(1);
+  const price = (value: number) => formatPrice(value, quote);
+
+  const position = choosePosition(indicators);
+  const targets = projectPriceTargets(currentPrice, atr, CANDLE_INTERVAL_MS[indicators.interval] / CANDLE_INTERVAL_MS['1h']);
+  const confidence = Math.round(calculateConfidence(rsi, macd, volumeChange, sentiment, volatility) || 50);
+  const range = ({ low, high }: { low: number; high: number }) => ({ low: roundPrice(low), high: roundPrice(high) });
+
+  const entry = position === 'short'
+    ? { low: resistance - (resistance - support) * 0.382, high: resistance }
+    : { low: support, high: support + (resistance - support) * 0.382 };
+  const stopLoss = position === 'short'
+    ? resistance + atr * ATR_STOP_MULTIPLIER
+    : Math.max(0, support - atr * ATR_STOP_MULTIPLIER);
+  const strategyTargets = structureTargets(position === 'short' ? 'short' : 'long', indicators, fibonacci);
+
+  const signals: AISignal[] = [
+    {
+      category: 'technical',
+      direction: currentPrice > ma50 && (ma200 === null || currentPrice > ma200) ? 'positive'
+        : currentPrice < ma50 && (ma200 === null || currentPrice < ma200) ? 'negative' : 'neutral',
+      text: `Price ${price(currentPrice)} against MA50 ${price(ma50)} and ${ma200 !== null ? `MA200 ${price(ma200)}` : 'no MA200 yet'}; market phase: ${marketPhase}`
+    },
+    {
+      category: 'momentum',
+      direction: macd.histogram > 0 && rsi < 70 ? 'positive' : macd.histogram < 0 && rsi > 30 ? 'negative' : 'neutral',
+      text: `RSI ${rsi.toFixed(1)} (${interpretRSI(rsi)}); MACD ${macd.interpretation}`
+    },
+    {
+      category: 'volume',
+      direction: volumeChange > 1.2 ? 'positive' : volumeChange < 0.8 ? 'negative' : 'neutral',
+      text: `Volume is ${volumeChange.toFixed(2)}x its 20-period average`
+    },
+    {
+      category: 'sentiment',
+      direction: sentiment.marketMood === 'Bullish' ? 'positive' : sentiment.marketMood === 'Bearish' ? 'negative' : 'neutral',
+      text: `News sentiment is ${sentiment.marketMood.toLowerCase()} (${sentiment.newsScore.toFixed(0)}% positive headlines)`
+    }
+  ];
+  if (trendSystems) {
+    signals.push({
+      category: 'technical',
+      direction: trendSystems.bias === 'bullish' ? 'positive' : trendSystems.bias === 'bearish' ? 'negative' : 'neutral',
+      text: `Ichimoku: ${describeIchimoku(trendSystems)}; Supertrend: ${describeSupertrend(trendSystems)}`
+    });
+  }
+
+  return {
+    summary: `${name} is in a ${marketPhase} phase at ${price(currentPrice)}, between support at ${price(support)} and resistance at ${price(resistance)}. ` +
+      `RSI is ${rsi.toFixed(1)} and MACD shows ${macd.interpretation.toLowerCase()}; overall bias: ${position}.`,
+    predictions: {
+      '24H': { ...range(targets.shortTerm), confidence, rationale: 'One-day ATR projection from the current price' },
+      '7D': { ...range(targets.midTerm), confidence: Math.max(30, Math.round(confidence * 0.9)), rationale: 'One-week ATR projection' },
+      '30D': { ...range(targets.longTerm), confidence: Math.max(30, Math.round(confidence * 0.8)), rationale: 'One-month ATR projection' }
+    },
+    signals,
+    strategy: {
+      position,
+      overview: position === 'neutral'
+        ? `Indicators disagree; wait for a break of ${price(support)} or ${price(resistance)} before committing.`
+        : `Rule-based ${position} setup from trend, momentum and the nearest support/resistance.`,
+      entry: range(entry),
+      stopLoss: roundPrice(stopLoss),
+      targets: strategyTargets.map(roundPrice),
+      timeframe: volatility > 80 ? 'Intraday to a few days (high volatility)' : volatility > 40 ? 'Several days to two weeks' : 'Two to four weeks'
+    },
+    reasoning: [
+      'Generated from indicators without a language model',
+      `Stop sits ${ATR_STOP_MULTIPLIER} ATR (${price(atr)}) beyond the ${position === 'short' ? 'resistance' : 'support'} level`,
+      `Annualised volatility ${volatility.toFixed(1)}%`,
+      fibonacci
+        ? `Targets from swing and Fibonacci levels of the ${fibonacci.direction} swing ${price(fibonacci.from.price)} → ${price(fibonacci.to.price)}`
+        : 'Targets from the nearest swing levels'
+    ]
+  };
+}
+
+// Long when trend and momentum agree upwards, short when both point down, otherwise stand aside
+function choosePosition({ currentPrice, ma50, macd, marketPhase }: NarrationContext['indicators']): Position {
+  if (marketPhase === 'Bull Market' || (currentPrice > ma50 && macd.histogram > 0)) return 'long';
+  if (marketPhase === 'Bear Market' || (currentPrice < ma50 && macd.histogram < 0)) return 'short';
+  return 'neutral';
+}
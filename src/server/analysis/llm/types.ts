@@ -0,0 +1,35 @@
+// Contract for the backends that write the AI analysis (hosted LLMs, self-hosted servers, templates)
+
+import type { QuoteCurrency } from '../../../shared/quotes.js';
+import type { PromptNewsItem } from '../prompts/render.js';
+import type { MarketSentiment, TechnicalIndicators } from '../../../shared/analysis/types.js';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// What the prompt was built from; LLMs see it through the prompt, the template narrator reads it directly
+export interface NarrationContext {
+  crypto: string;
+  quote: QuoteCurrency;
+  indicators: TechnicalIndicators;
+  sentiment: MarketSentiment;
+  news: PromptNewsItem[];
+}
+
+export interface LLMSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Deterministic and free to run: its answers are not cached and nothing after it in the chain is tried
+  readonly local: boolean;
+  // Resolves with the reply to the conversation, which should be an AIAnalysis JSON document
+  complete(messages: LLMMessage[], context: NarrationContext): Promise<string>;
+  // Same reply as text deltas while the model generates it; optional, providers without it are not streamed
+  stream?(messages: LLMMessage[], context: NarrationContext, signal?: AbortSignal): AsyncIterable<string>;
+}
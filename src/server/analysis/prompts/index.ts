@@ -0,0 +1,16 @@
+import path from 'path';
+import { PromptRegistry } from './registry.js';
+import { FilePromptStore, MemoryPromptStore } from './store.js';
+
+export { PromptRegistry, PromptRegistryError } from './registry.js';
+export { PROMPT_VARIABLES, buildRepairPrompt, renderPrompt, validatePromptTemplate, type PromptNewsItem } from './render.js';
+export type { PromptExperiment, PromptTemplate } from './store.js';
+
+// Build the prompt registry from PROMPT_STORE (`file` or `memory`) and PROMPT_FILE
+export function createPromptRegistry(): PromptRegistry {
+  const storeName = (process.env.PROMPT_STORE || 'file').trim().toLowerCase();
+  const store = storeName === 'memory'
+    ? new MemoryPromptStore()
+    : new FilePromptStore(path.resolve(process.env.PROMPT_FILE || 'data/prompts.json'));
+  return new PromptRegistry(store);
+}
@@ -0,0 +1,139 @@
+import { BUILTIN_PROMPTS } from './builtin.js';
+import { validatePromptTemplate } from './render.js';
+import type { PromptExperiment, PromptRegistryState, PromptStore, PromptTemplate } from './store.js';
+
+const VERSION_PATTERN = /^[\w.-]{1,40}$/;
+
+// Rejected admin change; `status` is the HTTP status the API answers with
+export class PromptRegistryError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409, readonly details: string[] = []) {
+    super(message);
+    this.name = 'PromptRegistryError';
+  }
+}
+
+/*
+ * Versioned analysis prompts. Versions are append-only: the text of a published version never
+ * changes, so the version recorded with an analysis always identifies the exact prompt used.
+ * Admin changes are persisted through the store and take effect on the next analysis.
+ */
+export class PromptRegistry {
+  private state: PromptRegistryState;
+
+  constructor(private readonly store: PromptStore) {
+    const loaded = store.load();
+    this.state = { active: null, templates: [], experiment: null, ...loaded };
+
+    // A stored pointer to a version that no longer exists would break every analysis; fall back instead
+    if (this.state.active && !this.get(this.state.active)) {
+      console.warn(`Prompts: active version ${this.state.active} not found, using built-in prompts`);
+      this.state.active = null;
+    }
+    if (this.state.experiment && !this.get(this.state.experiment.candidate)) {
+      console.warn(`Prompts: experiment candidate ${this.state.experiment.candidate} not found, experiment stopped`);
+      this.state.experiment = null;
+    }
+    console.log(`Prompts: ${this.store.name} store, active ${this.active.version}${this.state.experiment ? `, A/B with ${this.state.experiment.candidate}` : ''}`);
+  }
+
+  list(): PromptTemplate[] {
+    return [...BUILTIN_PROMPTS, ...this.state.templates];
+  }
+
+  get(version: string): PromptTemplate | undefined {
+    return this.list().find(t => t.version === version);
+  }
+
+  get active(): PromptTemplate {
+    return (this.state.active && this.get(this.state.active)) || BUILTIN_PROMPTS[BUILTIN_PROMPTS.length - 1];
+  }
+
+  get experiment(): PromptExperiment | null {
+    return this.state.experiment;
+  }
+
+  add(version: string, description: string, template: string): PromptTemplate {
+    if (!VERSION_PATTERN.test(version)) {
+      throw new PromptRegistryError('Version must be 1-40 letters, digits, ".", "_" or "-"', 400);
+    }
+    if (this.get(version)) {
+      throw new PromptRegistryError(`Prompt version ${version} already exists; publish changes as a new version`, 409);
+    }
+    const errors = validatePromptTemplate(template);
+    if (errors.length > 0) {
+      throw new PromptRegistryError('Invalid prompt template', 400, errors);
+    }
+
+    const entry: PromptTemplate = { version, description, template, createdAt: Date.now() };
+    this.update({ templates: [...this.state.templates, entry] });
+    console.log(`Prompts: version ${version} added`);
+    return entry;
+  }
+
+  activate(version: string): PromptTemplate {
+    const template = this.require(version);
+    // Promoting the candidate ends its experiment
+    const experiment = this.state.experiment?.candidate === version ? null : this.state.experiment;
+    this.update({ active: version, experiment });
+    console.log(`Prompts: version ${version} is now active`);
+    return template;
+  }
+
+  startExperiment(candidate: string, share: number): PromptExperiment {
+    this.require(candidate);
+    if (candidate === this.active.version) {
+      throw new PromptRegistryError('The candidate must differ from the active version', 400);
+    }
+    if (!Number.isFinite(share) || share <= 0 || share >= 1) {
+      throw new PromptRegistryError('Share must be between 0 and 1 (exclusive)', 400);
+    }
+
+    const experiment = { candidate, share, startedAt: Date.now() };
+    this.update({ experiment });
+    console.log(`Prompts: A/B ${this.active.version} vs ${candidate} (${Math.round(share * 100)}% candidate)`);
+    return experiment;
+  }
+
+  stopExperiment() {
+    this.update({ experiment: null });
+  }
+
+  /*
+   * The prompt for one user. Assignment is a stable hash of the subject and the experiment, so a
+   * user keeps seeing the same variant for the whole experiment; without a subject, the active one.
+   */
+  select(subject?: string): PromptTemplate {
+    const experiment = this.state.experiment;
+    if (!experiment || !subject) return this.active;
+    const bucket = hashToUnit(`${experiment.candidate}:${experiment.startedAt}:${subject}`);
+    return bucket < experiment.share ? this.get(experiment.candidate) || this.active : this.active;
+  }
+
+  private require(version: string): PromptTemplate {
+    const template = this.get(version);
+    if (!template) throw new PromptRegistryError(`Prompt version ${version} not found`, 404);
+    return template;
+  }
+
+  // Saved before it takes effect, so a failed save leaves the registry as it was
+  private update(changes: Partial<PromptRegistryState>) {
+    const next = { ...this.state, ...changes };
+    this.store.save(next);
+    this.state = next;
+  }
+}
+
+// FNV-1a with a murmur3 finalizer (ids differing in one character must still spread), scaled to [0, 1)
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
@@ -0,0 +1,122 @@
+import { roundPrice } from '../../../shared/quotes.js';
+import { describeIchimoku, describeSupertrend, interpretRSI } from '../../../shared/analysis/indicators.js';
+import type { NarrationContext } from '../llm/types.js';
+import { AI_ANALYSIS_JSON_SHAPE } from '../../../shared/analysis/schema.js';
+import type { FibonacciLevel, FibonacciLevels } from '../../../shared/analysis/swings.js';
+
+export interface PromptNewsItem {
+  title: string;
+  sentiment: string;
+}
+
+// Placeholders a template may use as {{name}}, with what they hold (listed by the admin API)
+export const PROMPT_VARIABLES: Record<string, string> = {
+  crypto: 'Coin id, e.g. bitcoin',
+  timeframe: 'Candle timeframe every indicator below is computed on: 1h, 4h, 1d or 1w',
+  currency: 'Quote currency code, e.g. USD; every price below is in it',
+  currentPrice: 'Latest price',
+  priceChange24h: '24h change in percent',
+  ma20: '20-period simple moving average',
+  ma50: '50-period simple moving average',
+  ma200: '200-period simple moving average',
+  rsi: 'RSI(14)',
+  rsiInterpretation: 'RSI reading in words',
+  macdValue: 'MACD line',
+  macdSignal: 'MACD signal line',
+  macdHistogram: 'MACD histogram',
+  macdInterpretation: 'MACD reading in words',
+  stochasticK: 'Stochastic(14,3) %K',
+  stochasticD: 'Stochastic(14,3) %D',
+  volumeChange: 'Volume against its 20-period average',
+  marketPhase: 'Bull Market, Bear Market, Correction or Accumulation; Undetermined without an MA200',
+  volatility: 'Annualised volatility in percent',
+  atr: 'ATR(14) of the timeframe candles',
+  support: 'Nearest support level (swing or Fibonacci)',
+  resistance: 'Nearest resistance level (swing or Fibonacci)',
+  strongSupport: 'Next support level below support',
+  strongResistance: 'Next resistance level above resistance',
+  fibonacci: 'Dominant swing of the timeframe candles with its retracement (0.236-0.786) and extension (1.272, 1.618) levels',
+  ichimoku: 'Ichimoku(9,26,52) on the timeframe candles: cloud position, TK cross and chikou, with tenkan, kijun and cloud levels',
+  supertrend: 'Supertrend(10,3) on the timeframe candles: direction, recent flip and its level',
+  trendBias: 'bullish, bearish or neutral agreement of Ichimoku and Supertrend',
+  newsScore: 'Share of positive headlines in percent',
+  marketMood: 'Bullish, Bearish or Neutral',
+  headlines: 'Up to three recent headlines with their sentiment, one per line',
+  schema: 'The JSON shape the reply must follow (required)'
+};
+
+const PLACEHOLDER = /{{\s*(\w+)\s*}}/g;
+
+function describeFibonacci(fibonacci: FibonacciLevels | null): string {
+  if (!fibonacci) return 'no confirmed swing';
+  const levels = (list: FibonacciLevel[]) => list.map(l => `${l.ratio} at ${roundPrice(l.price)}`).join(', ');
+  return `${fibonacci.direction === 'up' ? 'Up' : 'Down'} swing ${roundPrice(fibonacci.from.price)} → ${roundPrice(fibonacci.to.price)}; ` +
+    `retracements ${levels(fibonacci.retracements)}; extensions ${levels(fibonacci.extensions)}`;
+}
+
+function promptVariables({ crypto, quote, indicators, sentiment, news }: NarrationContext): Record<string, string> {
+  const { trendSystems } = indicators;
+  return {
+    crypto,
+    timeframe: indicators.interval,
+    currency: quote.toUpperCase(),
+    currentPrice: String(indicators.currentPrice),
+    priceChange24h: String(indicators.price_change_24h),
+    ma20: String(indicators.ma20),
+    ma50: String(indicators.ma50),
+    ma200: indicators.ma200 !== null ? String(indicators.ma200) : 'unavailable (fewer than 200 candles)',
+    rsi: String(indicators.rsi),
+    rsiInterpretation: interpretRSI(indicators.rsi),
+    macdValue: String(indicators.macd.value),
+    macdSignal: String(indicators.macd.signal),
+    macdHistogram: String(indicators.macd.histogram),
+    macdInterpretation: indicators.macd.interpretation,
+    stochasticK: indicators.stochastic.k.toFixed(2),
+    stochasticD: indicators.stochastic.d.toFixed(2),
+    volumeChange: String(indicators.volumeChange),
+    marketPhase: indicators.marketPhase,
+    volatility: String(indicators.volatility),
+    atr: String(indicators.atr),
+    support: String(indicators.support),
+    resistance: String(indicators.resistance),
+    strongSupport: String(roundPrice(indicators.strongSupport)),
+    strongResistance: String(roundPrice(indicators.strongResistance)),
+    fibonacci: describeFibonacci(indicators.fibonacci),
+    ichimoku: trendSystems
+      ? `${describeIchimoku(trendSystems)} (tenkan ${roundPrice(trendSystems.ichimoku.tenkan)}, kijun ${roundPrice(trendSystems.ichimoku.kijun)}, ` +
+        `cloud ${roundPrice(Math.min(trendSystems.ichimoku.senkouA, trendSystems.ichimoku.senkouB))}-${roundPrice(Math.max(trendSystems.ichimoku.senkouA, trendSystems.ichimoku.senkouB))})`
+      : 'unavailable',
+    supertrend: trendSystems ? `${describeSupertrend(trendSystems)} (line at ${roundPrice(trendSystems.supertrend.value)})` : 'unavailable',
+    trendBias: trendSystems?.bias ?? 'unavailable',
+    newsScore: String(sentiment.newsScore),
+    marketMood: sentiment.marketMood,
+    headlines: news.slice(0, 3).map(n => `  - ${n.title} (${n.sentiment})`).join('\n'),
+    schema: AI_ANALYSIS_JSON_SHAPE
+  };
+}
+
+// Fill a template's {{placeholders}} from the analysis; templates are validated before they are stored
+export function renderPrompt(template: string, context: NarrationContext): string {
+  const variables = promptVariables(context);
+  return template.replace(PLACEHOLDER, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match);
+}
+
+// Problems that would make a template unusable: unknown placeholders, or no {{schema}} to answer in
+export function validatePromptTemplate(template: string): string[] {
+  const errors: string[] = [];
+  const names = Array.from(template.matchAll(PLACEHOLDER), m => m[1]);
+  const unknown = Array.from(new Set(names.filter(name => !Object.prototype.hasOwnProperty.call(PROMPT_VARIABLES, name))));
+  if (unknown.length > 0) errors.push(`Unknown variables: ${unknown.join(', ')}`);
+  if (!names.includes('schema')) errors.push('Template must include {{schema}} so the model knows the reply format');
+  return errors;
+}
+
+// Follow-up turn when a reply failed validation: show the model what was wrong and ask again
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous reply was not a valid analysis document:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Reply again with the corrected JSON object only, matching this shape exactly:
+${AI_ANALYSIS_JSON_SHAPE}`;
+}
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+
+// One immutable prompt version; a change to the text is published as a new version
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  template: string;
+  createdAt: number; // ms; 0 for built-in versions
+}
+
+// A/B split: subjects whose bucket falls below `share` get `candidate`, everyone else the active version
+export interface PromptExperiment {
+  candidate: string;
+  share: number; // 0-1
+  startedAt: number; // ms
+}
+
+// Everything the registry persists; built-in versions are not part of it
+export interface PromptRegistryState {
+  active: string | null; // null: the newest built-in version
+  templates: PromptTemplate[];
+  experiment: PromptExperiment | null;
+}
+
+export interface PromptStore {
+  readonly name: string;
+  load(): PromptRegistryState | null;
+  save(state: PromptRegistryState): void;
+}
+
+// Process-local only; admin changes are lost on restart
+export class MemoryPromptStore implements PromptStore {
+  readonly name = 'memory';
+  private state: PromptRegistryState | null = null;
+
+  load(): PromptRegistryState | null {
+    return this.state;
+  }
+
+  save(state: PromptRegistryState): void {
+    this.state = state;
+  }
+}
+
+// Single JSON file, written to a temp file and renamed into place like the cache snapshot
+export class FilePromptStore implements PromptStore {
+  readonly name = 'file';
+
+  constructor(private readonly file: string) {}
+
+  load(): PromptRegistryState | null {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      return {
+        active: typeof parsed?.active === 'string' ? parsed.active : null,
+        templates: Array.isArray(parsed?.templates) ? parsed.templates : [],
+        experiment: parsed?.experiment || null
+      };
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn(`Prompts: could not read ${this.file}, using built-in prompts: ${error.message}`);
+      }
+      return null;
+    }
+  }
+
+  save(state: PromptRegistryState): void {
+    const tmp = `${this.file}.tmp`;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, ...state }, null, 2));
+    fs.renameSync(tmp, this.file);
+  }
+}
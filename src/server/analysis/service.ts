@@ -0,0 +1,479 @@
+import type { ServerCache } from '../cache/index.js';
+import { CANDLE_INTERVAL_MS } from '../../shared/candles.js';
+import type { Candle, CandleInterval, PriceQuote } from '../providers/index.js';
+import type { ForecastIssue, ForecastModel, ForecastTracker } from '../forecasts/index.js';
+import { formatPrice, formatPriceRange, type QuoteCurrency } from '../../shared/quotes.js';
+import type { SeriesPoint } from '../timeseries/index.js';
+import { describeCandlestickPattern, findCandlestickPatterns } from './candlesticks.js';
+import { buildConfluence, CONFLUENCE_INTERVALS, readTimeframe, type Confluence, type TimeframeReading } from '../../shared/analysis/confluence.js';
+import { describeDivergence, findDivergences, type Divergence } from '../../shared/analysis/divergences.js';
+import { indicatorSeries } from '../../shared/analysis/engine.js';
+import {
+  analyzeTrendSystems,
+  calculateATR,
+  calculateConfidence,
+  calculateMACD,
+  calculateOBV,
+  calculateRSI,
+  calculateSMA,
+  calculateStochastic,
+  calculateStochRSI,
+  calculateVolatility,
+  calculateVolumeRatio,
+  candlesFromCloses,
+  describeIchimoku,
+  describeSupertrend,
+  determineMarketPhase,
+  interpretRSI,
+  interpretStochastic,
+  interpretStochRSI,
+  projectPriceTargets
+} from '../../shared/analysis/indicators.js';
+import type { PromptRegistry } from './prompts/registry.js';
+import { buildRepairPrompt, renderPrompt, type PromptNewsItem } from './prompts/render.js';
+import type { PromptTemplate } from './prompts/store.js';
+import type { LLMMessage, LLMProvider, NarrationContext } from './llm/types.js';
+import { parseAIAnalysis, PREDICTION_HORIZONS, type AIAnalysis } from '../../shared/analysis/schema.js';
+import { analyzeStructure, structureTargets } from '../../shared/analysis/swings.js';
+import type { AnalysisStreamEvent, DetailedAnalysis, MarketSentiment, TechnicalIndicators } from '../../shared/analysis/types.js';
+
+// Where the analysis reads market data and news from; index.ts wires these to its caches
+export interface AnalysisSources {
+  getPrice(id: string, quote: QuoteCurrency): Promise<PriceQuote>;
+  getHistory(id: string, quote: QuoteCurrency, days: number, interval: CandleInterval): Promise<SeriesPoint[]>;
+  getCandles(id: string, quote: QuoteCurrency, interval: CandleInterval, days: number): Promise<Candle[]>;
+  getNews(id: string): Promise<PromptNewsItem[]>;
+}
+
+export interface AnalyzeOptions {
+  ai?: boolean; // false skips the LLM for a fast, indicators-only answer
+  subject?: string; // who is asking (Discord user id); picks the prompt variant during an A/B test
+  interval?: CandleInterval; // candle timeframe to analyse, 1h by default
+}
+
+// Not enough market data to compute indicators; retrying later may help
+export class AnalysisUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisUnavailableError';
+  }
+}
+
+/*
+ * Per timeframe: days of closes and of candles to load, and the fewest closes that give stable
+ * indicators. Weekly asks for 200 weeks; until the daily history holds that much, its MA200 and
+ * market phase are reported as unavailable.
+ */
+const TIMEFRAMES: Record<CandleInterval, { historyDays: number; candleDays: number; minPoints: number }> = {
+  '1h': { historyDays: 90, candleDays: 14, minPoints: 60 },
+  '4h': { historyDays: 90, candleDays: 60, minPoints: 60 },
+  '1d': { historyDays: 365, candleDays: 365, minPoints: 60 },
+  '1w': { historyDays: 1400, candleDays: 1400, minPoints: 40 }
+};
+const MIN_CANDLES = 30; // below this, indicators fall back to close-derived candles
+const CONFLUENCE_TTL = 5 * 60 * 1000;
+const ATR_STOP_MULTIPLIER = 1.5; // stop sits this many ATRs beyond support (long) or resistance (short)
+// Signal strengths that map back onto the divergence's own importance
+const DIVERGENCE_STRENGTH: Record<Divergence['importance'], number> = { high: 0.9, medium: 0.6, low: 0.3 };
+const AI_CACHE_TTL = 15 * 60 * 1000; // one LLM call per coin and quote per 15 minutes, for all users
+const AI_MAX_ATTEMPTS = 3; // first answer plus two repair turns
+const AI_UNAVAILABLE = 'Unable to generate AI analysis at this time. Please try again later.';
+const AI_DISABLED = 'AI analysis is not configured on this server.';
+
+// A validated document and the provider that wrote it; this is what the AI cache holds
+interface Narration {
+  provider: string;
+  promptVersion?: string; // unset for local providers, which do not read the prompt
+  analysis: AIAnalysis;
+}
+
+interface NarrationResult {
+  narration: Narration | null;
+  aiError?: string;
+}
+
+export class AnalysisService {
+  constructor(
+    private readonly sources: AnalysisSources,
+    private readonly cache: ServerCache,
+    private readonly providers: LLMProvider[], // fallback order
+    private readonly prompts: PromptRegistry,
+    private readonly forecasts: Pick<ForecastTracker, 'record'> | null = null // accuracy tracking, when enabled
+  ) {}
+
+  async analyze(crypto: string, quote: QuoteCurrency, options: AnalyzeOptions = {}): Promise<DetailedAnalysis> {
+    const { analysis, context, targets } = await this.computeIndicators(crypto, quote, options.interval);
+    this.recordForecasts(context, 'analysis', targets);
+    if (options.ai === false) return analysis;
+    const result = await this.narrateAnalysis(context, this.prompts.select(options.subject));
+    this.recordForecasts(context, 'ai', narratedForecasts(result.narration));
+    return withNarration(analysis, result);
+  }
+
+  /*
+   * Same result as analyze(), delivered as it is produced: indicators first, then the reply of
+   * the first LLM provider token by token. A fresh cached narrative is sent whole instead, and a
+   * streamed reply that fails validation falls back to the regular (repairing, non-streamed) chain.
+   */
+  async analyzeStream(
+    crypto: string,
+    quote: QuoteCurrency,
+    send: (event: AnalysisStreamEvent) => void,
+    { subject, signal, interval }: { subject?: string; signal?: AbortSignal; interval?: CandleInterval } = {}
+  ): Promise<void> {
+    const { analysis, context, targets } = await this.computeIndicators(crypto, quote, interval);
+    this.recordForecasts(context, 'analysis', targets);
+    send({ type: 'indicators', analysis });
+
+    const prompt = this.prompts.select(subject);
+    const streamer = this.providers[0]?.stream && !this.providers[0].local ? this.providers[0] : null;
+    const key = aiCacheKey(context, prompt);
+    if (!streamer || this.cache.get<Narration>(key)?.fresh) {
+      const result = await this.narrateAnalysis(context, prompt);
+      this.recordForecasts(context, 'ai', narratedForecasts(result.narration));
+      send({ type: 'analysis', analysis: withNarration(analysis, result) });
+      return;
+    }
+
+    let reply = '';
+    try {
+      const messages: LLMMessage[] = [{ role: 'user', content: renderPrompt(prompt.template, context) }];
+      for await (const text of streamer.stream!(messages, context, signal)) {
+        if (signal?.aborted) return;
+        reply += text;
+        send({ type: 'token', text });
+      }
+      const parsed = parseAIAnalysis(reply);
+      if (parsed.ok === true) {
+        const narration = { provider: streamer.name, promptVersion: prompt.version, analysis: parsed.value };
+        this.cache.set(key, narration, AI_CACHE_TTL);
+        this.recordForecasts(context, 'ai', narratedForecasts(narration));
+        send({ type: 'analysis', analysis: withNarration(analysis, { narration }) });
+        return;
+      }
+      console.warn(`Analysis: streamed ${streamer.name} reply for ${crypto} rejected: ${parsed.errors.join('; ')}`);
+    } catch (error: any) {
+      if (signal?.aborted) return;
+      console.warn(`Analysis: ${streamer.name} stream for ${crypto} failed: ${error.message}`);
+    }
+
+    send({ type: 'reset' });
+    const result = await this.narrateAnalysis(context, prompt);
+    this.recordForecasts(context, 'ai', narratedForecasts(result.narration));
+    send({ type: 'analysis', analysis: withNarration(analysis, result) });
+  }
+
+  /*
+   * Trend, momentum and key levels on 1h, 4h, 1d and 1w, and how far they agree. Indicators only,
+   * cached for a few minutes; timeframes without enough data are left out.
+   */
+  async confluence(crypto: string, quote: QuoteCurrency): Promise<Confluence> {
+    const { data } = await this.cache.getOrFetch(`confluence-${crypto}-${quote}`, CONFLUENCE_TTL, async () => {
+      const readings: TimeframeReading[] = [];
+      let currentPrice = 0;
+      for (const interval of CONFLUENCE_INTERVALS) {
+        try {
+          const { context } = await this.computeIndicators(crypto, quote, interval);
+          readings.push(readTimeframe(interval, context.indicators));
+          currentPrice ||= context.indicators.currentPrice;
+        } catch (error: any) {
+          if (!(error instanceof AnalysisUnavailableError)) throw error;
+          console.warn(`Analysis: ${interval} left out of ${crypto} confluence: ${error.message}`);
+        }
+      }
+      if (readings.length === 0) throw new AnalysisUnavailableError(`No timeframe has enough data for ${crypto}`);
+      return buildConfluence(readings, currentPrice);
+    });
+    return data;
+  }
+
+  // Everything except the narrative; aiAnalysis is null and the summary is the indicator summary
+  private async computeIndicators(
+    crypto: string,
+    quote: QuoteCurrency,
+    interval: CandleInterval = '1h'
+  ): Promise<{ analysis: DetailedAnalysis; context: NarrationContext; targets: ForecastIssue['forecasts'] }> {
+    const timeframe = TIMEFRAMES[interval];
+    const [priceQuote, points] = await Promise.all([
+      this.sources.getPrice(crypto, quote).catch(error => {
+        console.warn(`Analysis: price for ${crypto} unavailable, using the last close: ${error.message}`);
+        return null;
+      }),
+      this.sources.getHistory(crypto, quote, timeframe.historyDays, interval)
+    ]);
+
+    const prices = points.map(p => p.price).filter(p => Number.isFinite(p) && p > 0);
+    const volumes = points.map(p => p.volume).filter(v => Number.isFinite(v) && v >= 0);
+    if (prices.length < timeframe.minPoints) {
+      throw new AnalysisUnavailableError(`Insufficient historical data for ${crypto} (${prices.length} points)`);
+    }
+    const safeVolumes = volumes.length ? volumes : new Array(prices.length).fill(0);
+    const latestPrice = prices[prices.length - 1];
+    const currentPrice = priceQuote?.price || latestPrice;
+
+    const { candles, ohlc } = await this.loadCandles(crypto, quote, points, interval, timeframe.candleDays);
+    const news = await this.sources.getNews(crypto).catch(error => {
+      console.warn(`Analysis: news for ${crypto} unavailable: ${error.message}`);
+      return [] as PromptNewsItem[];
+    });
+    const sentiment = marketSentiment(news);
+
+    const rsi = calculateRSI(prices);
+    const macd = calculateMACD(prices);
+    const ma20 = calculateSMA(prices, 20);
+    const ma50 = calculateSMA(prices, 50);
+    const ma200 = prices.length >= 200 ? calculateSMA(prices, 200) : null;
+    const { swings, fibonacci, levels } = analyzeStructure(candles, currentPrice);
+    const { support, resistance, strongSupport, strongResistance } = levels;
+    const atr = calculateATR(candles);
+    const stochastic = calculateStochastic(candles);
+    const volumeRatio = calculateVolumeRatio(safeVolumes);
+    const volatility = calculateVolatility(prices);
+    const stochRSI = calculateStochRSI(prices);
+    const obvTrend = calculateOBV(prices, safeVolumes);
+    const marketPhase = determineMarketPhase(prices, ma50, ma200);
+    const series = indicatorSeries(candles);
+    const trendSystems = analyzeTrendSystems(series);
+    const divergences = findDivergences(series, swings);
+    const candlestickPatterns = ohlc ? findCandlestickPatterns(candles) : [];
+
+    const technicalIndicators: TechnicalIndicators = {
+      interval,
+      currentPrice,
+      price_change_24h: priceQuote?.change24h ?? 0,
+      rsi,
+      macd,
+      ma20,
+      ma50,
+      ma200,
+      volumeChange: volumeRatio,
+      marketPhase,
+      volatility,
+      atr,
+      stochastic,
+      support,
+      resistance,
+      strongSupport,
+      strongResistance,
+      fibonacci,
+      trendSystems
+    };
+
+    const signals = [
+      { indicator: 'RSI', signal: interpretRSI(rsi), strength: rsi > 70 || rsi < 30 ? 0.8 : 0.5 },
+      { indicator: 'MACD', signal: macd.interpretation, strength: Math.abs(macd.histogram) > 0.1 ? 0.8 : 0.5 },
+      { indicator: 'StochRSI', signal: interpretStochRSI(stochRSI), strength: stochRSI > 80 || stochRSI < 20 ? 0.8 : 0.5 },
+      {
+        indicator: 'Stochastic',
+        signal: interpretStochastic(stochastic.k, stochastic.d),
+        strength: stochastic.k > 80 || stochastic.k < 20 ? 0.8 : 0.5
+      },
+      { indicator: 'OBV', signal: obvTrend, strength: 0.5 },
+      ...candlestickPatterns.map(p => ({
+        indicator: 'Candlestick',
+        signal: describeCandlestickPattern(p),
+        strength: p.confidence
+      })),
+      ...(trendSystems ? [
+        {
+          indicator: 'Ichimoku',
+          signal: describeIchimoku(trendSystems),
+          strength: trendSystems.ichimoku.tkCross || trendSystems.ichimoku.cloud !== 'inside' ? 0.8 : 0.5
+        },
+        {
+          indicator: 'Supertrend',
+          signal: describeSupertrend(trendSystems),
+          strength: trendSystems.supertrend.flip ? 0.8 : 0.6
+        }
+      ] : []),
+      ...divergences.map(d => ({
+        indicator: `${d.indicator} divergence`,
+        signal: describeDivergence(d),
+        strength: DIVERGENCE_STRENGTH[d.importance]
+      })),
+      { indicator: 'Market Phase', signal: marketPhase, strength: 0.7 }
+    ];
+
+    const marketSummary = `${crypto.charAt(0).toUpperCase() + crypto.slice(1)} as of ${new Date().toLocaleDateString()} is in a ${marketPhase} phase on the ${interval} chart, trading at ${formatPrice(latestPrice, quote)}. RSI is ${(rsi || 0).toFixed(2)} (${interpretRSI(rsi || 0)}), with MACD indicating ${macd.interpretation}. The volume trend is ${obvTrend} with a ${(volumeRatio || 0).toFixed(2)}x change compared to the average volume.`;
+
+    const shortTermConfidence = calculateConfidence(rsi, macd, volumeRatio, sentiment, volatility);
+    const midTermConfidence = Math.max(30, shortTermConfidence * 0.9); // Slightly lower confidence for mid-term
+    const longTermConfidence = Math.max(30, shortTermConfidence * 0.8); // Even lower for long-term
+    const priceTargets = projectPriceTargets(currentPrice, atr, CANDLE_INTERVAL_MS[interval] / CANDLE_INTERVAL_MS['1h']);
+    const isLong = marketPhase === 'Bull Market';
+
+    const analysis: DetailedAnalysis = {
+      crypto,
+      quote,
+      interval,
+      generatedAt: Date.now(),
+      summary: marketSummary,
+      aiAnalysis: null,
+      priceTargets: {
+        '24H': {
+          range: formatPriceRange(priceTargets.shortTerm.low, priceTargets.shortTerm.high, quote),
+          confidence: shortTermConfidence.toString()
+        },
+        '7D': {
+          range: formatPriceRange(priceTargets.midTerm.low, priceTargets.midTerm.high, quote),
+          confidence: midTermConfidence.toString()
+        },
+        '30D': {
+          range: formatPriceRange(priceTargets.longTerm.low, priceTargets.longTerm.high, quote),
+          confidence: longTermConfidence.toString()
+        }
+      },
+      signals: signals.map(s => ({
+        text: `${s.indicator}: ${s.signal}`,
+        importance: s.strength > 0.7 ? 'high' : s.strength > 0.4 ? 'medium' : 'low'
+      })),
+      strategy: {
+        position: isLong ? 'Long' : 'Short',
+        entry: (support + (resistance - support) * 0.382).toString(),
+        stop: (isLong ? Math.max(0, support - atr * ATR_STOP_MULTIPLIER) : resistance + atr * ATR_STOP_MULTIPLIER).toString(),
+        target: (structureTargets(isLong ? 'long' : 'short', levels, fibonacci)[0] ?? (isLong ? resistance : support)).toString()
+      },
+      marketStructure: {
+        trend: marketPhase
+      }
+    };
+    const targets: ForecastIssue['forecasts'] = [
+      { horizon: '24H', ...priceTargets.shortTerm, confidence: shortTermConfidence },
+      { horizon: '7D', ...priceTargets.midTerm, confidence: midTermConfidence },
+      { horizon: '30D', ...priceTargets.longTerm, confidence: longTermConfidence }
+    ];
+    return { analysis, context: { crypto, quote, indicators: technicalIndicators, sentiment, news }, targets };
+  }
+
+  // Hand what the user was shown to the accuracy tracker
+  private recordForecasts(context: NarrationContext, model: ForecastModel, forecasts: ForecastIssue['forecasts']) {
+    if (!this.forecasts || forecasts.length === 0) return;
+    const { crypto, quote, indicators } = context;
+    this.forecasts.record({ crypto, quote, model, interval: indicators.interval, issuedPrice: indicators.currentPrice, forecasts });
+  }
+
+  /*
+   * Shared by every user: the first request in a 15-minute window pays for the LLM calls.
+   * Providers are tried in order; a local one (the template narrator) ends the chain and is
+   * run per request rather than cached, so it never hides an LLM that has recovered.
+   */
+  private async narrateAnalysis(context: NarrationContext, template: PromptTemplate): Promise<NarrationResult> {
+    const localIndex = this.providers.findIndex(p => p.local);
+    const remote = localIndex === -1 ? this.providers : this.providers.slice(0, localIndex);
+    const local = localIndex === -1 ? null : this.providers[localIndex];
+    if (remote.length === 0 && !local) return { narration: null, aiError: AI_DISABLED };
+
+    const prompt = renderPrompt(template.template, context);
+
+    if (remote.length > 0) {
+      try {
+        const { data } = await this.cache.getOrFetch(aiCacheKey(context, template), AI_CACHE_TTL, async () => {
+          const errors: string[] = [];
+          for (const provider of remote) {
+            try {
+              const narration = await this.requestAIAnalysis(provider, prompt, context);
+              return { ...narration, promptVersion: template.version };
+            } catch (error: any) {
+              console.warn(`Analysis: ${provider.name} narration for ${context.crypto} failed: ${error.message}`);
+              errors.push(`${provider.name}: ${error.message}`);
+            }
+          }
+          throw new Error(errors.join('; '));
+        });
+        return { narration: data };
+      } catch (error: any) {
+        console.error(`Analysis: AI narration for ${context.crypto} failed:`, error.message);
+      }
+    }
+
+    if (local) {
+      try {
+        return { narration: await this.requestAIAnalysis(local, prompt, context) };
+      } catch (error: any) {
+        console.error(`Analysis: ${local.name} narration for ${context.crypto} failed:`, error.message);
+      }
+    }
+    return { narration: null, aiError: AI_UNAVAILABLE };
+  }
+
+  // Ask for the JSON document; when a reply does not validate, send the errors back and ask again
+  private async requestAIAnalysis(provider: LLMProvider, prompt: string, context: NarrationContext): Promise<Narration> {
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= AI_MAX_ATTEMPTS; attempt++) {
+      const reply = await provider.complete(messages, context);
+      const parsed = parseAIAnalysis(reply);
+      if (parsed.ok === true) return { provider: provider.name, analysis: parsed.value };
+
+      errors = parsed.errors;
+      console.warn(`Analysis: ${provider.name} reply ${attempt}/${AI_MAX_ATTEMPTS} rejected: ${errors.join('; ')}`);
+      messages.push({ role: 'assistant', content: reply }, { role: 'user', content: buildRepairPrompt(errors) });
+    }
+    throw new Error(`reply failed validation after ${AI_MAX_ATTEMPTS} attempts: ${errors.join('; ')}`);
+  }
+
+  // Prefer real candles; use the close series when the upstreams have none for this coin (ohlc: false)
+  private async loadCandles(
+    crypto: string,
+    quote: QuoteCurrency,
+    points: SeriesPoint[],
+    interval: CandleInterval,
+    days: number
+  ): Promise<{ candles: Candle[]; ohlc: boolean }> {
+    try {
+      const candles = (await this.sources.getCandles(crypto, quote, interval, days)).filter(
+        c => [c.open, c.high, c.low, c.close].every(v => Number.isFinite(v) && v > 0)
+      );
+      if (candles.length >= MIN_CANDLES) return { candles, ohlc: true };
+      console.warn(`Analysis: only ${candles.length} ${interval} candles for ${crypto}, deriving from closes`);
+    } catch (error: any) {
+      console.warn(`Analysis: candles for ${crypto} unavailable: ${error.message}`);
+    }
+    const candles = candlesFromCloses(
+      points.map(p => p.price),
+      points.map(p => p.volume),
+      points.map(p => p.timestamp)
+    );
+    return { candles, ohlc: false };
+  }
+}
+
+// One narrative per prompt version and timeframe, so A/B variants never serve each other's cached answers
+function aiCacheKey({ crypto, quote, indicators }: NarrationContext, prompt: PromptTemplate): string {
+  return `ai-analysis-v4-${prompt.version}-${crypto}-${quote}-${indicators.interval}`;
+}
+
+// The narrative's ranges. The template narrator (no prompt version) restates the indicator ranges, so it is not tracked
+function narratedForecasts(narration: Narration | null): ForecastIssue['forecasts'] {
+  if (!narration?.promptVersion) return [];
+  return PREDICTION_HORIZONS.map(horizon => {
+    const { low, high, confidence } = narration.analysis.predictions[horizon];
+    return { horizon, low, high, confidence };
+  });
+}
+
+function withNarration(analysis: DetailedAnalysis, { narration, aiError }: NarrationResult): DetailedAnalysis {
+  return {
+    ...analysis,
+    summary: narration?.analysis.summary || analysis.summary,
+    aiAnalysis: narration?.analysis || null,
+    ...(narration ? { aiProvider: narration.provider } : {}),
+    ...(narration?.promptVersion ? { promptVersion: narration.promptVersion } : {}),
+    ...(aiError ? { aiError } : {})
+  };
+}
+
+// Share of positive headlines, and which way the headlines lean
+function marketSentiment(news: PromptNewsItem[]): MarketSentiment {
+  const positiveCount = news.filter(n => n.sentiment === 'positive').length;
+  const negativeCount = news.filter(n => n.sentiment === 'negative').length;
+  const total = news.length || 1;
+
+  return {
+    newsScore: (positiveCount / total) * 100,
+    socialScore: 0, // Social sentiment data unavailable
+    marketMood: positiveCount > negativeCount ? 'Bullish' :
+                negativeCount > positiveCount ? 'Bearish' : 'Neutral'
+  };
+}
@@ -0,0 +1,213 @@
+/*
+ * Replays candles through the analysis and the strategy generator one close at a time. Every
+ * decision sees only the candles up to its close and is filled on the candles after it.
+ */
+import type { Candle, CandleInterval } from '../providers/types.js';
+import { CANDLE_INTERVAL_MS } from '../../shared/candles.js';
+import type { QuoteCurrency } from '../../shared/quotes.js';
+import { indicatorSeries } from '../../shared/analysis/engine.js';
+import { strategyGenerator, type TradingStrategy } from '../../shared/analysis/strategy.js';
+import { strategyInputsAt } from './snapshot.js';
+import { backtestMetrics } from './metrics.js';
+import type { BacktestOptions, BacktestResult, BacktestTrade, EquityPoint, ExitReason } from '../../shared/backtest/types.js';
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  feeRate: 0.001,
+  slippage: 0.0005,
+  minConfidence: 60,
+  stop: 'normal',
+  target: 'primary',
+  breakouts: true,
+  warmup: 100
+};
+
+const YIELD_EVERY = 100; // candles replayed between yields, so a long run does not hold up other requests
+
+// An entry decided at a close: at the next open (a Buy) or a limit at the broken level (a breakout retest)
+interface Order {
+  type: 'market' | 'limit';
+  price: number; // the limit; unused for market orders
+  source: BacktestTrade['source'];
+  position: 'long' | 'short';
+  confidence: number;
+  stop: number;
+  target: number;
+}
+
+interface OpenTrade extends Order {
+  entryIndex: number;
+  entryPrice: number;
+  equityBefore: number;
+  capital: number; // equity in the trade after the entry fee
+}
+
+const direction = (position: 'long' | 'short') => (position === 'long' ? 1 : -1);
+const recommendationOf = (strategy: TradingStrategy) => strategy.recommendation.split(' (')[0];
+
+// A market order buys the open; a limit fills at the open when price gapped through it, else at the limit
+function fillPrice(order: Order, candle: Candle, slippage: number): { price: number; intraCandle: boolean } | null {
+  if (order.type === 'market') return { price: candle.open * (1 + direction(order.position) * slippage), intraCandle: false };
+  if (order.position === 'long') {
+    if (candle.open <= order.price) return { price: candle.open, intraCandle: false };
+    return candle.low <= order.price ? { price: order.price, intraCandle: true } : null;
+  }
+  if (candle.open >= order.price) return { price: candle.open, intraCandle: false };
+  return candle.high >= order.price ? { price: order.price, intraCandle: true } : null;
+}
+
+/*
+ * Stop or target hit within a candle. Gaps fill at the open; when a candle reaches both, the stop
+ * is assumed first. A trade filled inside this candle only checks its stop: the order of the
+ * candle's moves after the fill is unknown.
+ */
+function exitFor(trade: OpenTrade, candle: Candle, slippage: number, intraCandle: boolean): { price: number; reason: ExitReason } | null {
+  const long = trade.position === 'long';
+  const slip = (price: number) => price * (1 - direction(trade.position) * slippage);
+  const beyondStop = (price: number) => (long ? price <= trade.stop : price >= trade.stop);
+  const beyondTarget = (price: number) => (long ? price >= trade.target : price <= trade.target);
+
+  if (!intraCandle) {
+    if (beyondStop(candle.open)) return { price: slip(candle.open), reason: 'stop' };
+    if (beyondTarget(candle.open)) return { price: candle.open, reason: 'target' };
+  }
+  if (beyondStop(long ? candle.low : candle.high)) return { price: slip(trade.stop), reason: 'stop' };
+  if (!intraCandle && beyondTarget(long ? candle.high : candle.low)) return { price: trade.target, reason: 'target' };
+  return null;
+}
+
+// What to place at this close when flat: a confident Buy first, else the first breakout retest on offer
+function orderFor(strategy: TradingStrategy, close: number, options: BacktestOptions): Order | null {
+  if (recommendationOf(strategy) === 'Buy' && strategy.confidence >= options.minConfidence) {
+    const stop = strategy.stopLoss[options.stop];
+    const target = strategy.targets[options.target];
+    if (stop > 0 && stop < close && target > close) {
+      return { type: 'market', price: close, source: 'recommendation', position: 'long', confidence: strategy.confidence, stop, target };
+    }
+  }
+  const breakout = options.breakouts ? strategy.breakouts[0] : undefined;
+  if (!breakout) return null;
+  return {
+    type: 'limit',
+    price: breakout.entry,
+    source: breakout.pattern,
+    position: breakout.position,
+    confidence: strategy.confidence,
+    stop: breakout.stop,
+    target: breakout.target
+  };
+}
+
+// Sell or Take Profit closes a long, Buy closes a short
+function signalsExit(trade: OpenTrade, strategy: TradingStrategy): boolean {
+  const call = recommendationOf(strategy);
+  return trade.position === 'long' ? call === 'Sell' || call === 'Take Profit' : call === 'Buy';
+}
+
+export async function runBacktest(
+  candles: Candle[],
+  context: { crypto: string; quote: QuoteCurrency; interval: CandleInterval },
+  overrides: Partial<BacktestOptions> = {}
+): Promise<BacktestResult> {
+  const options = { ...DEFAULT_BACKTEST_OPTIONS, ...overrides };
+  const { warmup, feeRate, slippage } = options;
+  if (candles.length <= warmup + 1) {
+    throw new RangeError(`A backtest needs more than ${warmup + 1} candles, got ${candles.length}`);
+  }
+
+  const points = indicatorSeries(candles);
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+  let cash = 1;
+  let peak = 1;
+  let candlesInMarket = 0;
+  let order: Order | null = null;
+  let trade: OpenTrade | null = null;
+  let exitAtOpen = false;
+
+  const close = (index: number, price: number, reason: ExitReason) => {
+    const open = trade!;
+    const value = Math.max(0, open.capital * (1 + direction(open.position) * (price / open.entryPrice - 1)) * (1 - feeRate));
+    trades.push({
+      source: open.source,
+      position: open.position,
+      confidence: open.confidence,
+      entryTime: candles[open.entryIndex].timestamp,
+      entryPrice: open.entryPrice,
+      exitTime: candles[index].timestamp,
+      exitPrice: price,
+      stop: open.stop,
+      target: open.target,
+      exitReason: reason,
+      candlesHeld: index - open.entryIndex + 1,
+      returnPct: Math.round((value / open.equityBefore - 1) * 10000) / 100
+    });
+    cash = value;
+    trade = null;
+  };
+
+  for (let i = warmup; i < candles.length; i++) {
+    const candle = candles[i];
+    let intraCandle = false;
+
+    if (trade && exitAtOpen) {
+      close(i, candle.open * (1 - direction(trade.position) * slippage), 'signal');
+    }
+    exitAtOpen = false;
+    if (!trade && order) {
+      const fill = fillPrice(order, candle, slippage);
+      if (fill) {
+        trade = { ...order, entryIndex: i, entryPrice: fill.price, equityBefore: cash, capital: cash * (1 - feeRate) };
+        intraCandle = fill.intraCandle;
+      }
+    }
+    order = null;
+    if (trade) {
+      const exit = exitFor(trade, candle, slippage, intraCandle);
+      if (exit) close(i, exit.price, exit.reason);
+    }
+
+    const last = i === candles.length - 1;
+    if (trade && last) close(i, candle.close * (1 - direction(trade.position) * slippage), 'end');
+    if (trade) candlesInMarket++;
+
+    const marked = trade ? trade.capital * (1 + direction(trade.position) * (candle.close / trade.entryPrice - 1)) : cash;
+    peak = Math.max(peak, marked);
+    equity.push({
+      timestamp: candle.timestamp,
+      equity: Math.round(marked * 1e6) / 1e6,
+      drawdown: peak > 0 ? Math.round(((peak - marked) / peak) * 10000) / 100 : 0
+    });
+    if (last) break;
+    if ((i - warmup) % YIELD_EVERY === YIELD_EVERY - 1) await new Promise(resolve => setTimeout(resolve, 0));
+
+    // Decide at this close with what was known at it
+    const strategy = await strategyGenerator.generateStrategy({
+      ...strategyInputsAt(candles, points, i),
+      sentimentAnalysis: null,
+      riskAnalysis: null,
+      predictions: null,
+      quote: context.quote
+    });
+    if (trade) exitAtOpen = signalsExit(trade, strategy);
+    else order = orderFor(strategy, candle.close, options);
+  }
+
+  const first = candles[warmup];
+  const latest = candles[candles.length - 1];
+  return {
+    ...context,
+    from: first.timestamp,
+    to: latest.timestamp,
+    candles: candles.length - warmup,
+    options,
+    metrics: backtestMetrics(
+      trades,
+      equity,
+      CANDLE_INTERVAL_MS[context.interval],
+      (latest.close / first.close - 1) * 100,
+      candlesInMarket
+    ),
+    trades,
+    equity
+  };
+}
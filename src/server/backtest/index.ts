@@ -0,0 +1,56 @@
+import type { ServerCache } from '../cache/index.js';
+import type { Candle, CandleInterval } from '../providers/index.js';
+import type { QuoteCurrency } from '../../shared/quotes.js';
+import { AnalysisUnavailableError } from '../analysis/index.js';
+import { DEFAULT_BACKTEST_OPTIONS, runBacktest } from './backtest.js';
+import type { BacktestOptions, BacktestResult } from '../../shared/backtest/types.js';
+
+export { DEFAULT_BACKTEST_OPTIONS, runBacktest } from './backtest.js';
+export type { BacktestMetrics, BacktestOptions, BacktestResult, BacktestTrade, EquityPoint, ExitReason } from '../../shared/backtest/types.js';
+
+// Where the backtester reads candles from; index.ts wires this to the market data provider
+export interface BacktestSources {
+  getCandles(id: string, quote: QuoteCurrency, interval: CandleInterval, days: number): Promise<Candle[]>;
+}
+
+const BACKTEST_TTL = 15 * 60 * 1000; // a finished replay only changes with new candles
+const MIN_REPLAY_CANDLES = 50; // candles after the warmup for the statistics to mean anything
+
+export class BacktestService {
+  constructor(
+    private readonly sources: BacktestSources,
+    private readonly cache: ServerCache
+  ) {}
+
+  /*
+   * Replays the last `days` of `interval` candles through the strategy generator. Results are
+   * cached per coin, quote, range and options, and shared by all users.
+   */
+  async run(
+    crypto: string,
+    quote: QuoteCurrency,
+    interval: CandleInterval,
+    days: number,
+    overrides: Partial<BacktestOptions> = {}
+  ): Promise<BacktestResult> {
+    const options = { ...DEFAULT_BACKTEST_OPTIONS, ...overrides };
+    const key = `backtest-${crypto}-${quote}-${interval}-${days}-${JSON.stringify(options)}`;
+    const { data } = await this.cache.getOrFetch(key, BACKTEST_TTL, async () => {
+      const candles = await this.sources.getCandles(crypto, quote, interval, days);
+      if (candles.length < options.warmup + MIN_REPLAY_CANDLES) {
+        throw new AnalysisUnavailableError(
+          `Not enough ${interval} candles to backtest ${crypto}: ${candles.length}, need ${options.warmup + MIN_REPLAY_CANDLES}`
+        );
+      }
+      const started = Date.now();
+      const result = await runBacktest(candles, { crypto, quote, interval }, options);
+      console.log(`Backtest: ${crypto} ${interval} over ${result.candles} candles, ${result.trades.length} trade(s) in ${Date.now() - started}ms`);
+      return result;
+    });
+    return data;
+  }
+}
+
+export function createBacktestService(sources: BacktestSources, cache: ServerCache): BacktestService {
+  return new BacktestService(sources, cache);
+}
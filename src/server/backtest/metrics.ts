@@ -0,0 +1,54 @@
+import type { BacktestMetrics, BacktestTrade, EquityPoint } from '../../shared/backtest/types.js';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000; // crypto trades every day
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+// Per-candle equity returns
+function returns(equity: EquityPoint[]): number[] {
+  const result: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    const previous = equity[i - 1].equity;
+    result.push(previous > 0 ? equity[i].equity / previous - 1 : 0);
+  }
+  return result;
+}
+
+/*
+ * Trade statistics and risk ratios. Sharpe and Sortino take a zero risk-free rate and are
+ * annualised from the candle returns, so they cover the time spent flat too.
+ */
+export function backtestMetrics(
+  trades: BacktestTrade[],
+  equity: EquityPoint[],
+  candleMs: number,
+  buyAndHoldReturn: number,
+  candlesInMarket: number
+): BacktestMetrics {
+  const wins = trades.filter(t => t.returnPct > 0).map(t => t.returnPct);
+  const losses = trades.filter(t => t.returnPct <= 0).map(t => t.returnPct);
+  const grossLoss = -losses.reduce((a, b) => a + b, 0);
+
+  const candleReturns = returns(equity);
+  const average = mean(candleReturns);
+  const deviation = Math.sqrt(mean(candleReturns.map(r => (r - average) ** 2)));
+  const downside = Math.sqrt(mean(candleReturns.map(r => Math.min(0, r) ** 2)));
+  const annualise = Math.sqrt(YEAR_MS / candleMs);
+
+  const final = equity[equity.length - 1]?.equity ?? 1;
+  return {
+    trades: trades.length,
+    winRate: trades.length ? round((wins.length / trades.length) * 100) : 0,
+    averageWin: round(mean(wins)),
+    averageLoss: round(mean(losses)),
+    expectancy: round(mean(trades.map(t => t.returnPct))),
+    profitFactor: grossLoss > 0 ? round(wins.reduce((a, b) => a + b, 0) / grossLoss) : null,
+    totalReturn: round((final - 1) * 100),
+    buyAndHoldReturn: round(buyAndHoldReturn),
+    sharpe: deviation > 0 ? round((average / deviation) * annualise) : 0,
+    sortino: downside > 0 ? round((average / downside) * annualise) : 0,
+    maxDrawdown: round(Math.max(0, ...equity.map(p => p.drawdown))),
+    exposure: equity.length ? round((candlesInMarket / equity.length) * 100) : 0
+  };
+}
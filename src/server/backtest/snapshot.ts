@@ -0,0 +1,111 @@
+/*
+ * Point-in-time strategy inputs: what the dashboard's advanced analysis would have handed the
+ * strategy generator at the close of one candle, built only from that candle and the ones before
+ * it. Indicators come from one causal series; swings, levels and patterns are read from a
+ * trailing window that ends at the candle, so a swing is only known once it is confirmed.
+ */
+import type { Candle } from '../providers/types.js';
+import type { IndicatorPoint } from '../../shared/analysis/engine.js';
+import { analyzeTrendSystems, interpretMACD } from '../../shared/analysis/indicators.js';
+import { analyzeStructure } from '../../shared/analysis/swings.js';
+import { findDivergences } from '../../shared/analysis/divergences.js';
+import { findChartPatterns, type ChartPattern } from '../../shared/analysis/patterns.js';
+import { roundPrice } from '../../shared/quotes.js';
+
+export interface StrategyInputs {
+  currentPrice: number;
+  marketCondition: any;
+  technicalSignals: any;
+  chartPatterns: ChartPattern[];
+}
+
+export const STRUCTURE_WINDOW = 300; // candles the live analysis has on the hourly chart, give or take
+const TREND_SLOPE_CANDLES = 20;
+const STRENGTH_ATRS = 3; // price this many ATRs from its MA50 is full trend strength
+
+// Least-squares slope of the closes
+function slope(closes: number[]): number {
+  const n = closes.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = closes.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  closes.forEach((y, x) => {
+    num += (x - meanX) * (y - meanY);
+    den += (x - meanX) ** 2;
+  });
+  return num / den;
+}
+
+// The dashboard's MA-structure trend, moved a step by the Ichimoku/Supertrend bias
+function trendDirection(point: IndicatorPoint, closes: number[], bias: string | undefined): string {
+  const { close, ma20, ma50, ma200 } = point;
+  const rising = slope(closes.slice(-TREND_SLOPE_CANDLES));
+  let level = 0;
+  if (close > ma20 && close > ma50 && close > ma200 && rising > 0) level = 2;
+  else if (close > ma20 && close > ma50 && rising > 0) level = 1;
+  else if (close < ma20 && close < ma50 && close < ma200 && rising < 0) level = -2;
+  else if (close < ma20 && close < ma50 && rising < 0) level = -1;
+  if (bias === 'bullish') level = Math.min(2, level + 1);
+  if (bias === 'bearish') level = Math.max(-2, level - 1);
+  return ['Strong Bearish', 'Bearish', 'Neutral', 'Bullish', 'Strong Bullish'][level + 2];
+}
+
+// The dashboard's MA-structure phase
+function marketPhase({ close, ma20, ma50, ma200 }: IndicatorPoint): string {
+  if (close > ma50 && ma50 > ma200 && ma20 > ma50) return 'bullish';
+  if (close < ma50 && ma50 < ma200 && ma20 < ma50) return 'bearish';
+  if (close > ma200 && close < ma50) return 'correction';
+  if (close < ma200 && close > ma50) return 'recovery';
+  return 'sideways';
+}
+
+const interpretRSI = (rsi: number) => (rsi > 70 ? 'overbought' : rsi < 30 ? 'oversold' : 'neutral');
+
+/*
+ * Inputs at the close of candles[index]. `points` is indicatorSeries(candles): each point only
+ * depends on the candles up to it. The dashboard takes phase strength and key levels from its
+ * TF.js models once they pass their confidence gate; here they are the distance from the MA50 in
+ * ATRs and the structure levels, which need no model.
+ */
+export function strategyInputsAt(candles: Candle[], points: IndicatorPoint[], index: number): StrategyInputs {
+  const start = Math.max(0, index + 1 - STRUCTURE_WINDOW);
+  const window = candles.slice(start, index + 1);
+  const windowPoints = points.slice(start, index + 1);
+  const point = points[index];
+  const currentPrice = point.close;
+  const closes = window.map(c => c.close);
+
+  const { swings, fibonacci, levels } = analyzeStructure(window, currentPrice);
+  const trendSystems = analyzeTrendSystems(windowPoints);
+  const strength = point.atr > 0 ? Math.min(1, Math.abs(currentPrice - point.ma50) / (STRENGTH_ATRS * point.atr)) : 0.5;
+
+  const technicalSignals = {
+    trend: {
+      primary: trendDirection(point, closes, trendSystems?.bias),
+      strength: Number(strength.toFixed(2))
+    },
+    momentum: {
+      rsi: { value: Number(point.rsi.toFixed(2)), signal: interpretRSI(point.rsi) },
+      macd: { value: Number(point.macd.toFixed(2)), signal: interpretMACD(point.macd, point.macdSignal, point.macdHistogram) }
+    },
+    volatility: { current: Number(point.volatility.toFixed(2)), atr: point.atr },
+    divergences: findDivergences(windowPoints, swings)
+  };
+
+  const marketCondition = {
+    phase: marketPhase(point),
+    strength: Number(strength.toFixed(2)),
+    keyLevels: {
+      strongSupport: roundPrice(levels.strongSupport),
+      support: roundPrice(levels.support),
+      pivot: roundPrice(currentPrice),
+      resistance: roundPrice(levels.resistance),
+      strongResistance: roundPrice(levels.strongResistance)
+    },
+    fibonacci
+  };
+
+  return { currentPrice, marketCondition, technicalSignals, chartPatterns: findChartPatterns(window, swings) };
+}
@@ -0,0 +1,17 @@
+import path from 'path';
+import { ServerCache } from './serverCache.js';
+import { FileCacheStore, MemoryCacheStore } from './store.js';
+
+export { ServerCache } from './serverCache.js';
+export type { CacheLookup, CacheStatus, FetchContext } from './serverCache.js';
+
+// Build the response cache from CACHE_STORE (`file` or `memory`), CACHE_FILE and CACHE_MAX_ENTRIES
+export function createServerCache(): ServerCache {
+  const storeName = (process.env.CACHE_STORE || 'file').trim().toLowerCase();
+  const store = storeName === 'memory'
+    ? new MemoryCacheStore()
+    : new FileCacheStore(path.resolve(process.env.CACHE_FILE || '.cache/server-cache.json'));
+
+  const maxEntries = parseInt(process.env.CACHE_MAX_ENTRIES || '');
+  return new ServerCache(store, maxEntries > 0 ? { maxEntries } : {});
+}
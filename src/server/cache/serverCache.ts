@@ -0,0 +1,156 @@
+import type { CacheRecord, CacheStore } from './store.js';
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheLookup<T = any> {
+  data: T;
+  storedAt: number;
+  fresh: boolean;
+}
+
+// Lets fetchers lower their upstream priority when nobody is waiting on the result
+export interface FetchContext {
+  background: boolean;
+}
+
+export interface ServerCacheOptions {
+  maxEntries: number;
+  staleFactor: number; // stale entries are still served (and refreshed) until ttl * staleFactor
+  persistDelay: number; // ms to batch writes before snapshotting to the store
+}
+
+const DEFAULT_OPTIONS: ServerCacheOptions = {
+  maxEntries: 1000,
+  staleFactor: 6,
+  persistDelay: 5000
+};
+
+/*
+ * LRU cache with per-entry TTLs, stale-while-revalidate and a pluggable persistent store.
+ * Map insertion order doubles as recency: reads re-insert the key, eviction drops the first one.
+ */
+export class ServerCache {
+  private entries = new Map<string, CacheRecord>();
+  private inflight = new Map<string, Promise<any>>();
+  private persistTimer: NodeJS.Timeout | null = null;
+  private readonly options: ServerCacheOptions;
+
+  constructor(private readonly store: CacheStore, options: Partial<ServerCacheOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    for (const record of this.store.load()) {
+      if (record && typeof record.key === 'string' && Number.isFinite(record.storedAt)) {
+        this.entries.set(record.key, record);
+      }
+    }
+    this.evict();
+    console.log(`Cache: ${this.store.name} store, ${this.entries.size} entries restored`);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Any cached value regardless of age (for serving something when upstreams fail)
+  get<T = any>(key: string): CacheLookup<T> | undefined {
+    const record = this.entries.get(key);
+    if (!record) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, record);
+    return {
+      data: record.data,
+      storedAt: record.storedAt,
+      fresh: Date.now() - record.storedAt < record.ttl
+    };
+  }
+
+  set(key: string, data: any, ttl: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { key, data, storedAt: Date.now(), ttl });
+    this.evict();
+    this.schedulePersist();
+  }
+
+  delete(key: string) {
+    if (this.entries.delete(key)) this.schedulePersist();
+  }
+
+  /*
+   * Fresh hit: cached data. Stale hit within the stale window: cached data right away plus a
+   * background refresh. Otherwise: wait for the fetcher. Concurrent fetches per key are coalesced.
+   */
+  async getOrFetch<T>(
+    key: string,
+    ttl: number,
+    fetcher: (context: FetchContext) => Promise<T>
+  ): Promise<{ data: T; status: CacheStatus }> {
+    const record = this.entries.get(key);
+    const age = record ? Date.now() - record.storedAt : Infinity;
+
+    if (record && age < ttl) {
+      this.get(key);
+      return { data: record.data, status: 'HIT' };
+    }
+
+    if (record && age < ttl * this.options.staleFactor) {
+      this.get(key);
+      this.refresh(key, ttl, fetcher, true).catch(error => {
+        console.warn(`Cache: background refresh of ${key} failed: ${error.message}`);
+      });
+      return { data: record.data, status: 'STALE' };
+    }
+
+    return { data: await this.refresh(key, ttl, fetcher, false), status: 'MISS' };
+  }
+
+  private refresh<T>(
+    key: string,
+    ttl: number,
+    fetcher: (context: FetchContext) => Promise<T>,
+    background: boolean
+  ): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) return existing;
+
+    const pending = fetcher({ background })
+      .then(data => {
+        this.set(key, data, ttl);
+        return data;
+      })
+      .finally(() => this.inflight.delete(key));
+    this.inflight.set(key, pending);
+    return pending;
+  }
+
+  private evict() {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.store.save(Array.from(this.entries.values())).catch(error => {
+        console.error('Cache: failed to persist:', error.message);
+      });
+    }, this.options.persistDelay);
+    this.persistTimer.unref();
+  }
+
+  // Called on shutdown so the latest entries make it to disk
+  flushSync() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      this.store.saveSync(Array.from(this.entries.values()));
+    } catch (error: any) {
+      console.error('Cache: failed to persist on shutdown:', error.message);
+    }
+  }
+}
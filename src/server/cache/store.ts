@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+
+// One cached value as it is kept on disk; `ttl` travels with the entry so it survives restarts
+export interface CacheRecord {
+  key: string;
+  data: any;
+  storedAt: number; // ms
+  ttl: number; // ms the entry counts as fresh
+}
+
+export interface CacheStore {
+  readonly name: string;
+  load(): CacheRecord[];
+  save(records: CacheRecord[]): Promise<void>;
+  saveSync(records: CacheRecord[]): void;
+}
+
+// Process-local only; everything is lost on restart (the old behaviour)
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+
+  load(): CacheRecord[] {
+    return [];
+  }
+
+  async save(): Promise<void> {}
+
+  saveSync(): void {}
+}
+
+/*
+ * Snapshots the whole cache to a single JSON file. Writes go to a temp file first and
+ * are renamed into place, so a crash mid-write never leaves a truncated cache behind.
+ * Async saves run one after another, so an older snapshot never lands after a newer one.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly name = 'file';
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  load(): CacheRecord[] {
+    try {
+      const raw = fs.readFileSync(this.file, 'utf-8');
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed?.entries) ? parsed.entries : [];
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn(`Cache: could not read ${this.file}, starting empty: ${error.message}`);
+      }
+      return [];
+    }
+  }
+
+  save(records: CacheRecord[]): Promise<void> {
+    const write = this.writing.catch(() => {}).then(async () => {
+      const tmp = `${this.file}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.promises.writeFile(tmp, JSON.stringify({ version: 1, entries: records }));
+      await fs.promises.rename(tmp, this.file);
+    });
+    this.writing = write;
+    return write;
+  }
+
+  // Its own temp file, so it cannot interleave with an async save still in flight
+  saveSync(records: CacheRecord[]): void {
+    const tmp = `${this.file}.sync.tmp`;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, entries: records }));
+    fs.renameSync(tmp, this.file);
+  }
+}
@@ -0,0 +1,20 @@
+import path from 'path';
+import { FileForecastStore, MemoryForecastStore } from './store.js';
+import { ForecastTracker, type ForecastSources } from './tracker.js';
+
+export { ForecastTracker } from './tracker.js';
+export type { ForecastSources, ForecastTrackerOptions } from './tracker.js';
+export { buildScoreboard, isHit } from './scoreboard.js';
+export { FORECAST_HORIZONS, FORECAST_MODELS, HORIZON_MS } from '../../shared/forecasts/types.js';
+export type {
+  CalibrationBin, ForecastHorizon, ForecastIssue, ForecastModel, ForecastRecord, ForecastScore, Scoreboard
+} from '../../shared/forecasts/types.js';
+
+// Build the tracker from FORECAST_STORE (`file` or `memory`) and FORECAST_FILE
+export function createForecastTracker(sources: ForecastSources): ForecastTracker {
+  const storeName = (process.env.FORECAST_STORE || 'file').trim().toLowerCase();
+  const store = storeName === 'memory'
+    ? new MemoryForecastStore()
+    : new FileForecastStore(path.resolve(process.env.FORECAST_FILE || 'data/forecasts.json'));
+  return new ForecastTracker(store, sources);
+}
@@ -0,0 +1,76 @@
+import type { CalibrationBin, ForecastRecord, ForecastScore, Scoreboard } from '../../shared/forecasts/types.js';
+import type { QuoteCurrency } from '../../shared/quotes.js';
+
+const CALIBRATION_BINS: Array<[number, number]> = [[0, 50], [50, 60], [60, 70], [70, 80], [80, 90], [90, 100]];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+export const isPointForecast = (record: ForecastRecord) => record.low === record.high;
+
+// Ranges hit when the realized price lands inside them; points when they called the direction of the move
+export function isHit(record: ForecastRecord): boolean {
+  const realized = record.realizedPrice!;
+  if (!isPointForecast(record)) return realized >= record.low && realized <= record.high;
+  return Math.sign(record.low - record.issuedPrice) === Math.sign(realized - record.issuedPrice);
+}
+
+function calibration(scored: ForecastRecord[]): CalibrationBin[] {
+  return CALIBRATION_BINS.flatMap(([from, to]) => {
+    const inBin = scored.filter(r => r.confidence >= from && (r.confidence < to || (to === 100 && r.confidence === 100)));
+    if (inBin.length === 0) return [];
+    return [{
+      from,
+      to,
+      forecasts: inBin.length,
+      confidence: round(mean(inBin.map(r => r.confidence))),
+      hitRate: round((inBin.filter(isHit).length / inBin.length) * 100)
+    }];
+  });
+}
+
+function score(records: ForecastRecord[]): ForecastScore {
+  const [first] = records;
+  const scored = records.filter(r => r.realizedPrice !== null);
+  const bins = calibration(scored);
+  const has = scored.length > 0;
+  return {
+    model: first.model,
+    interval: first.interval,
+    horizon: first.horizon,
+    kind: isPointForecast(first) ? 'point' : 'range',
+    scored: scored.length,
+    pending: records.length - scored.length,
+    hitRate: has ? round((scored.filter(isHit).length / scored.length) * 100) : null,
+    mape: has ? round(mean(scored.map(r => Math.abs((r.low + r.high) / 2 - r.realizedPrice!) / r.realizedPrice!)) * 100) : null,
+    meanConfidence: has ? round(mean(scored.map(r => r.confidence))) : null,
+    calibrationError: has
+      ? round(bins.reduce((sum, bin) => sum + bin.forecasts * Math.abs(bin.confidence - bin.hitRate), 0) / scored.length)
+      : null,
+    calibration: bins
+  };
+}
+
+/*
+ * One score per model, timeframe and horizon, best hit rate first; groups with nothing scored yet go last.
+ * Dashboard forecasts only count for the user who posted them, so no one can move the shared scores.
+ */
+export function buildScoreboard(
+  records: ForecastRecord[],
+  crypto: string | null,
+  quote: QuoteCurrency,
+  owner: string | null = null
+): Scoreboard {
+  const groups = new Map<string, ForecastRecord[]>();
+  for (const record of records) {
+    if (record.quote !== quote || (crypto !== null && record.crypto !== crypto)) continue;
+    if (record.owner !== null && record.owner !== owner) continue;
+    const key = `${record.model}:${record.interval ?? ''}:${record.horizon}`;
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }
+  const scores = [...groups.values()].map(score)
+    .sort((a, b) => (b.hitRate ?? -1) - (a.hitRate ?? -1));
+  return { crypto, quote, generatedAt: Date.now(), scores };
+}
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+import type { ForecastRecord } from '../../shared/forecasts/types.js';
+
+export interface ForecastStore {
+  readonly name: string;
+  load(): ForecastRecord[] | null;
+  save(records: ForecastRecord[]): void;
+}
+
+// Process-local only; the track record starts over on restart
+export class MemoryForecastStore implements ForecastStore {
+  readonly name = 'memory';
+  private records: ForecastRecord[] | null = null;
+
+  load(): ForecastRecord[] | null {
+    return this.records;
+  }
+
+  save(records: ForecastRecord[]): void {
+    this.records = records;
+  }
+}
+
+// Single JSON file, written to a temp file and renamed into place like the prompt registry
+export class FileForecastStore implements ForecastStore {
+  readonly name = 'file';
+
+  constructor(private readonly file: string) {}
+
+  load(): ForecastRecord[] | null {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      return Array.isArray(parsed?.forecasts) ? parsed.forecasts : null;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn(`Forecasts: could not read ${this.file}, starting a new track record: ${error.message}`);
+      }
+      return null;
+    }
+  }
+
+  save(records: ForecastRecord[]): void {
+    const tmp = `${this.file}.tmp`;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, forecasts: records }));
+    fs.renameSync(tmp, this.file);
+  }
+}
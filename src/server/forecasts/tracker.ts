@@ -0,0 +1,235 @@
+/*
+ * Keeps every forecast a predictor issues and scores it against the realized price once its
+ * horizon has passed. Scoring reads the stored hourly history, so it costs no extra upstream
+ * calls for coins the dashboard already follows.
+ */
+import type { QuoteCurrency } from '../../shared/quotes.js';
+import type { SeriesPoint } from '../timeseries/index.js';
+import type { ForecastStore } from './store.js';
+import { buildScoreboard } from './scoreboard.js';
+import { HORIZON_MS, type ForecastIssue, type ForecastRecord, type Scoreboard } from '../../shared/forecasts/types.js';
+
+export interface ForecastSources {
+  getPrices(id: string, quote: QuoteCurrency, from: number, to: number): Promise<SeriesPoint[]>; // hourly
+}
+
+export interface ForecastTrackerOptions {
+  scoreEvery: number; // ms between scoring passes
+  persistDelay: number; // ms to batch writes before saving to the store
+  retentionMs: number; // scored forecasts older than this are dropped
+  maxRecords: number;
+  maxPerOwner: number; // dashboard forecasts kept per user
+}
+
+const DEFAULT_OPTIONS: ForecastTrackerOptions = {
+  scoreEvery: 15 * 60 * 1000,
+  persistDelay: 5000,
+  retentionMs: 180 * 24 * 60 * 60 * 1000,
+  maxRecords: 20000,
+  maxPerOwner: 500
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const PRICE_TOLERANCE = 2 * HOUR_MS; // a realized price must be this close to the due time
+const GIVE_UP_AFTER = 3 * 24 * HOUR_MS; // forecasts still unscored this long after they fell due are dropped
+const REISSUE_FRACTION = 24; // the same forecast is kept once per 1/24 of its horizon (hourly for 24H)
+
+// Price of the point nearest to `at`, if one is close enough
+function priceAt(points: SeriesPoint[], at: number): number | null {
+  let best: SeriesPoint | null = null;
+  for (const point of points) {
+    if (!best || Math.abs(point.timestamp - at) < Math.abs(best.timestamp - at)) best = point;
+  }
+  return best && Math.abs(best.timestamp - at) <= PRICE_TOLERANCE && best.price > 0 ? best.price : null;
+}
+
+const validForecast = (issuedPrice: number, { low, high, confidence }: ForecastIssue['forecasts'][number]) =>
+  Number.isFinite(issuedPrice) && issuedPrice > 0 &&
+  Number.isFinite(low) && Number.isFinite(high) && low >= 0 && high > 0 && low <= high &&
+  Number.isFinite(confidence);
+
+export class ForecastTracker {
+  private records: ForecastRecord[];
+  private persistTimer: NodeJS.Timeout | null = null;
+  private scoreTimer: NodeJS.Timeout | null = null;
+  private scoring: Promise<number> | null = null;
+  private readonly options: ForecastTrackerOptions;
+
+  constructor(
+    private readonly store: ForecastStore,
+    private readonly sources: ForecastSources,
+    options: Partial<ForecastTrackerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.records = store.load() ?? [];
+  }
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  /*
+   * Keep a predictor's forecasts. Repeats of a forecast issued moments ago (the same coin, model,
+   * timeframe, horizon and owner) are skipped so a busy coin does not outweigh the rest. Returns
+   * how many were kept.
+   */
+  record(issue: ForecastIssue, now = Date.now()): number {
+    const interval = issue.interval ?? null;
+    const owner = issue.owner ?? null;
+    let kept = 0;
+    for (const forecast of issue.forecasts) {
+      if (!validForecast(issue.issuedPrice, forecast)) continue;
+      const horizonMs = HORIZON_MS[forecast.horizon];
+      const recent = this.records.some(r =>
+        r.crypto === issue.crypto && r.quote === issue.quote && r.model === issue.model &&
+        r.interval === interval && r.owner === owner && r.horizon === forecast.horizon &&
+        now - r.issuedAt < horizonMs / REISSUE_FRACTION
+      );
+      if (recent) continue;
+      this.records.push({
+        crypto: issue.crypto,
+        quote: issue.quote,
+        model: issue.model,
+        interval,
+        owner,
+        horizon: forecast.horizon,
+        issuedAt: now,
+        dueAt: now + horizonMs,
+        issuedPrice: issue.issuedPrice,
+        low: forecast.low,
+        high: forecast.high,
+        confidence: Math.min(100, Math.max(0, forecast.confidence)),
+        realizedPrice: null,
+        scoredAt: null
+      });
+      kept++;
+    }
+    if (kept > 0) {
+      this.prune(now);
+      this.schedulePersist();
+    }
+    return kept;
+  }
+
+  // Score every forecast that has fallen due, one history read per coin; returns how many were scored
+  scoreDue(now = Date.now()): Promise<number> {
+    if (!this.scoring) {
+      this.scoring = this.score(now).finally(() => {
+        this.scoring = null;
+      });
+    }
+    return this.scoring;
+  }
+
+  // The server's forecasts, plus the dashboard forecasts `owner` posted
+  scoreboard(crypto: string | null, quote: QuoteCurrency, owner: string | null = null): Scoreboard {
+    return buildScoreboard(this.records, crypto, quote, owner);
+  }
+
+  // Score on a timer; the timer does not keep the process alive
+  start() {
+    if (this.scoreTimer) return;
+    const run = () => this.scoreDue().catch(error => console.error('Forecasts: scoring failed:', error.message));
+    this.scoreTimer = setInterval(run, this.options.scoreEvery);
+    this.scoreTimer.unref();
+    void run();
+  }
+
+  stop() {
+    if (this.scoreTimer) {
+      clearInterval(this.scoreTimer);
+      this.scoreTimer = null;
+    }
+  }
+
+  // Called on shutdown so the latest forecasts make it to disk
+  flushSync() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      this.store.save(this.records);
+    } catch (error: any) {
+      console.error('Forecasts: failed to persist on shutdown:', error.message);
+    }
+  }
+
+  private async score(now: number): Promise<number> {
+    const due = new Map<string, ForecastRecord[]>();
+    for (const record of this.records) {
+      if (record.realizedPrice !== null || record.dueAt > now) continue;
+      const key = `${record.crypto}:${record.quote}`;
+      const group = due.get(key);
+      if (group) group.push(record);
+      else due.set(key, [record]);
+    }
+
+    let scored = 0;
+    const expired = new Set<ForecastRecord>();
+    for (const records of due.values()) {
+      const { crypto, quote } = records[0];
+      const from = Math.min(...records.map(r => r.dueAt)) - PRICE_TOLERANCE;
+      const to = Math.max(...records.map(r => r.dueAt)) + PRICE_TOLERANCE;
+      let points: SeriesPoint[] = [];
+      try {
+        points = await this.sources.getPrices(crypto, quote, from, to);
+      } catch (error: any) {
+        console.warn(`Forecasts: no prices to score ${crypto}/${quote}: ${error.message}`);
+      }
+      for (const record of records) {
+        const price = priceAt(points, record.dueAt);
+        if (price !== null) {
+          record.realizedPrice = price;
+          record.scoredAt = now;
+          scored++;
+        } else if (now - record.dueAt > GIVE_UP_AFTER) {
+          expired.add(record);
+        }
+      }
+    }
+
+    if (expired.size > 0) this.records = this.records.filter(r => !expired.has(r));
+    if (scored > 0 || expired.size > 0) this.schedulePersist();
+    return scored;
+  }
+
+  /*
+   * Drop scored forecasts past retention and each user's oldest beyond maxPerOwner. Over maxRecords,
+   * users' forecasts go before the server's, so no one can push out the shared track record.
+   */
+  private prune(now: number) {
+    const { retentionMs, maxRecords, maxPerOwner } = this.options;
+    const perOwner = new Map<string, number>();
+    const kept: ForecastRecord[] = [];
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      const record = this.records[i];
+      if (record.scoredAt !== null && now - record.issuedAt > retentionMs) continue;
+      if (record.owner !== null) {
+        const count = (perOwner.get(record.owner) ?? 0) + 1;
+        perOwner.set(record.owner, count);
+        if (count > maxPerOwner) continue;
+      }
+      kept.push(record);
+    }
+    this.records = kept.reverse();
+
+    if (this.records.length <= maxRecords) return;
+    const evicted = new Set(this.records.filter(r => r.owner !== null).slice(0, this.records.length - maxRecords));
+    this.records = this.records.filter(r => !evicted.has(r));
+    if (this.records.length > maxRecords) this.records = this.records.slice(-maxRecords);
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      try {
+        this.store.save(this.records);
+      } catch (error: any) {
+        console.error('Forecasts: failed to persist:', error.message);
+      }
+    }, this.options.persistDelay);
+    this.persistTimer.unref();
+  }
+}
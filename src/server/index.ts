@@ -2,7 +2,7 @@ import express from 'express';
 import cors from 'cors';
 import axios from 'axios';
 import dotenv from 'dotenv';
-import { WebSocketServer, WebSocket } from 'ws';
+import { WebSocketServer } from 'ws';
 import type { Request, Response, NextFunction } from 'express';
 import http from 'http';
 import session from 'express-session';
@@ -60,6 +60,32 @@ console.log('=======================================');
 
 // Import passport after environment variables are loaded
 import { initializePassport } from './config/passport.js';
+import { SchedulerBusyError, UpstreamScheduler, type RequestPriority } from './scheduler.js';
+import {
+  createMarketDataProvider,
+  DEFAULT_QUOTE,
+  isCandleInterval,
+  isQuoteCurrency,
+  ProviderError,
+  QUOTE_CURRENCIES,
+  type CandleInterval,
+  type QuoteCurrency
+} from './providers/index.js';
+import { createServerCache } from './cache/index.js';
+import { createHistoryStore, type SeriesPoint } from './timeseries/index.js';
+import {
+  AnalysisUnavailableError,
+  PROMPT_VARIABLES,
+  PromptRegistryError,
+  createAnalysisService,
+  createPromptRegistry,
+  type AnalysisStreamEvent
+} from './analysis/index.js';
+import { createBacktestService, type BacktestOptions } from './backtest/index.js';
+import { createForecastTracker, FORECAST_HORIZONS, type ForecastIssue } from './forecasts/index.js';
+import { createModelService, MODEL_KINDS, modelGate, modelId, type ModelKind } from './ml/index.js';
+import { PriceHub } from './priceHub.js';
+import { attachPriceSocket } from './ws/priceSocket.js';
 
 console.log('=== SERVER STARTUP DEBUG ===');
 console.log('NODE_ENV:', process.env.NODE_ENV);
@@ -106,7 +132,7 @@ app.use(cors({
         'http://localhost:5000', // backend dev default
         'http://localhost:3001'  // existing backend default
       ],
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   credentials: true,
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
@@ -162,6 +188,17 @@ const ensureVerified = (req: any, res: Response, next: NextFunction) => {
   next();
 };
 
+// Verified users whose Discord id is listed in ADMIN_DISCORD_IDS (comma-separated)
+const ADMIN_IDS = new Set((process.env.ADMIN_DISCORD_IDS || '').split(',').map(id => id.trim()).filter(Boolean));
+const ensureAdmin = (req: any, res: Response, next: NextFunction) => {
+  ensureVerified(req, res, () => {
+    if (!ADMIN_IDS.has(String(req.user.id))) {
+      return res.status(403).json({ error: 'Admin access required.' });
+    }
+    next();
+  });
+};
+
 // Authentication Routes
 app.get('/api/auth/discord', passport.authenticate('discord'));
 
@@ -286,102 +323,37 @@ app.get('/api/session-test', (req, res) => {
   });
 });
 
-// Rate Limiting Configuration
-const RATE_LIMITS = {
-  COINGECKO: {
-    REQUESTS_PER_MINUTE: 10, // Conservative limit for free tier
-    REQUEST_DELAY: 6000,     // 6 seconds between requests
-    lastRequest: 0
-  },
-  NEWSDATA: {
-    REQUESTS_PER_MINUTE: 5,  // Very conservative for free tier
-    REQUEST_DELAY: 12000,    // 12 seconds between requests  
-    lastRequest: 0
-  }
-};
-
-// Rate limiter utility
-class RateLimiter {
-  private lastRequest: number = 0;
-  private delay: number;
-
-  constructor(delay: number) {
-    this.delay = delay;
-  }
-
-  async waitForNext(): Promise<void> {
-    const timeSinceLastRequest = Date.now() - this.lastRequest;
-    if (timeSinceLastRequest < this.delay) {
-      const waitTime = this.delay - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    this.lastRequest = Date.now();
-  }
-
-  canMakeRequest(): boolean {
-    const timeSinceLastRequest = Date.now() - this.lastRequest;
-    return timeSinceLastRequest >= this.delay;
-  }
-
-  getWaitTime(): number {
-    const timeSinceLastRequest = Date.now() - this.lastRequest;
-    return Math.max(0, this.delay - timeSinceLastRequest);
-  }
-}
-
-// Create rate limiters
-const coinGeckoLimiter = new RateLimiter(RATE_LIMITS.COINGECKO.REQUEST_DELAY);
-const newsDataLimiter = new RateLimiter(RATE_LIMITS.NEWSDATA.REQUEST_DELAY);
+// Upstream schedulers (market-data providers own theirs)
+const newsDataScheduler = new UpstreamScheduler('newsdata', {
+  capacity: 2,
+  refillPerSecond: 5 / 60,  // Very conservative for free tier
+  maxWaitMs: 15000
+});
 
 // NewsData API configuration with rate limiting
 const NEWSDATA_API = 'https://newsdata.io/api/1/news';
 const NEWSDATA_API_KEY = process.env.VITE_NEWSDATA_API_KEY;
 const NEWS_CACHE_DURATION = 30 * 60 * 1000; // 30 minutes - longer cache
-// let lastNewsRequest = 0; // Unused rate limit tracker
-// const NEWS_REQUEST_DELAY = 12000; // Unused delay constant
 
-// Add news endpoint with proper error handling and rate limiting
-app.get('/api/news/:crypto', ensureVerified, async (req: Request, res: Response) => {
-  const { crypto } = req.params;
-  const limit = Math.min(parseInt(req.query.limit as string) || 5, 10); // Cap limit at 10
+// Cached NewsData lookup shared by the news route and the analysis API
+function getCachedNews(crypto: string, limit: number = 5) {
   const cacheKey = `news-${crypto}`;
-
-  try {
-    // Check cache first
-    const cached = cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < NEWS_CACHE_DURATION) {
-      console.log(`Using cached news data for ${crypto}`);
-      return res.json(cached.data);
-    }
-
-    // Check rate limit
-    if (!newsDataLimiter.canMakeRequest()) {
-      if (cached) {
-        console.log(`Rate limited, using cached news data for ${crypto}`);
-        return res.json(cached.data);
-      }
-      return res.status(429).json({ 
-        error: 'News API rate limit exceeded. Please try again later.',
-        articles: [],  // Frontend expects 'articles' not 'news'
-        retryAfter: 30
+  return cache.getOrFetch(cacheKey, NEWS_CACHE_DURATION, async ({ background }) => {
+    // Queued behind other news requests; rejected with the real wait when the queue is too long
+    const response = await newsDataScheduler.schedule(() => {
+      console.log(`Fetching fresh news data for ${crypto}...`);
+      return axios.get(NEWSDATA_API, {
+        params: {
+          apikey: NEWSDATA_API_KEY,
+          q: `${crypto} cryptocurrency`,
+          language: 'en',
+          size: limit,
+          country: 'us',
+          category: 'business,technology'
+        },
+        timeout: 10000 // 10 second timeout
       });
-    }
-
-    // Wait for rate limit before making request
-    await newsDataLimiter.waitForNext();
-
-    console.log(`Fetching fresh news data for ${crypto}...`);
-    const response = await axios.get(NEWSDATA_API, {
-      params: {
-        apikey: NEWSDATA_API_KEY,
-        q: `${crypto} cryptocurrency`,
-        language: 'en',
-        size: limit,
-        country: 'us',
-        category: 'business,technology'
-      },
-      timeout: 10000 // 10 second timeout
-    });
+    }, { priority: background ? 'background' : 'interactive', key: cacheKey });
 
     if (!response.data || response.data.status !== "success") {
       throw new Error('Invalid response from NewsData API');
@@ -399,20 +371,26 @@ app.get('/api/news/:crypto', ensureVerified, async (req: Request, res: Response)
         imageUrl: item.image_url || null
       }));
 
-    const result = {
+    console.log(`Successfully fetched ${processedNews.length} news items for ${crypto}`);
+    return {
       articles: processedNews,  // Frontend expects 'articles' not 'news'
       cached: false,
       timestamp: Date.now()
     };
+  });
+}
 
-    // Cache the successful result
-    cache.set(cacheKey, {
-      data: result,
-      timestamp: Date.now()
-    });
+// Add news endpoint with proper error handling and rate limiting
+app.get('/api/news/:crypto', ensureVerified, async (req: Request, res: Response) => {
+  const { crypto } = req.params;
+  const limit = Math.min(parseInt(req.query.limit as string) || 5, 10); // Cap limit at 10
+  const cacheKey = `news-${crypto}`;
 
-    console.log(`Successfully fetched ${processedNews.length} news items for ${crypto}`);
-    return res.json(result);
+  try {
+    const { data, status } = await getCachedNews(crypto, limit);
+
+    res.set('X-Cache', status);
+    return res.json(data);
 
   } catch (error: any) {
     console.error('News API error:', error.response?.data || error.message);
@@ -427,6 +405,15 @@ app.get('/api/news/:crypto', ensureVerified, async (req: Request, res: Response)
         error: 'Using cached data due to API error'
       });
     }
+
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== null) {
+      return res.status(429).json({
+        error: 'News API rate limit exceeded. Please try again later.',
+        articles: [],  // Frontend expects 'articles' not 'news'
+        retryAfter
+      });
+    }
     
     // Return empty array with proper structure if no cache available
     return res.status(500).json({ 
@@ -487,25 +474,45 @@ function analyzeSentiment(text: string): string {
 // Create WebSocket server attached to HTTP server
 const wss = new WebSocketServer({ server });
 
-// CoinGecko API configuration with proper rate limiting
-const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+// Market data upstreams (CoinGecko, exchange, fixtures) with automatic fallback
+const marketData = createMarketDataProvider();
 const CACHE_DURATION = {
   PRICE: 5 * 60 * 1000,      // 5 minutes - longer cache to reduce API calls
   HISTORY: 60 * 60 * 1000,   // 60 minutes (was 30) to reduce CoinGecko pressure
   MARKET: 10 * 60 * 1000     // 10 minutes
 };
 
-// Rate limiting for CoinGecko
-// let lastCoinGeckoRequest = 0; // Unused
-// const COINGECKO_REQUEST_DELAY = 10000; // Unused
+// Seconds a client should back off when every upstream is throttled (null if not rate limited)
+function getRetryAfter(error: unknown): number | null {
+  if (error instanceof ProviderError && error.isRateLimited) {
+    return error.retryAfter || 60;
+  }
+  if (error instanceof SchedulerBusyError) {
+    return error.retryAfter;
+  }
+  return null;
+}
+
+// Cache refreshes nobody is waiting on go to the back of the upstream queues
+function priorityFor(background: boolean, priority: RequestPriority): RequestPriority {
+  return background ? 'background' : priority;
+}
 
-// Cache implementation
-interface CacheEntry {
-  data: any;
-  timestamp: number;
+// `?quote=` on price routes; USD when absent, null when it is not a supported currency
+function parseQuoteParam(value: unknown): QuoteCurrency | null {
+  if (value === undefined || value === '') return DEFAULT_QUOTE;
+  const quote = String(value).toLowerCase();
+  return isQuoteCurrency(quote) ? quote : null;
 }
 
-const cache = new Map<string, CacheEntry>();
+const INVALID_QUOTE_ERROR = `Invalid quote currency. Use one of ${QUOTE_CURRENCIES.join(', ')}.`;
+const INVALID_INTERVAL_ERROR = 'Invalid interval. Use one of 1h, 4h, 1d, 1w.';
+
+// Response cache: survives restarts, LRU-bounded, serves stale entries while refreshing them
+const cache = createServerCache();
+
+// Local price history per coin: deep backfill once, then only new points
+const historyStore = createHistoryStore(marketData);
 
 // Search endpoint for coin search through the backend
 app.get('/api/crypto/search', ensureVerified, async (req: Request, res: Response) => {
@@ -516,43 +523,23 @@ app.get('/api/crypto/search', ensureVerified, async (req: Request, res: Response
       return res.status(400).json({ error: 'Query parameter is required' });
     }
 
-    // Check rate limit before making request
-    if (!coinGeckoLimiter.canMakeRequest()) {
-      return res.status(429).json({
-        error: 'Rate limit exceeded. Please try again later.',
-        retryAfter: coinGeckoLimiter.getWaitTime()
-      });
-    }
-
-    // Wait for rate limit
-    await coinGeckoLimiter.waitForNext();
-
-    console.log(`Searching CoinGecko for: ${query}`);
+    console.log(`Searching ${marketData.name} for: ${query}`);
     
-    // Call CoinGecko search API
-    const response = await axios.get(`${COINGECKO_API}/search`, {
-      params: { query },
-      timeout: 15000
-    });
+    const coins = await marketData.searchCoins(query, { priority: 'search' });
 
     // Return search results (limit to top 10)
-    const coins = response.data.coins?.slice(0, 10) || [];
-    
     res.json({
-      coins: coins.map((coin: any) => ({
-        id: coin.id,
-        symbol: coin.symbol.toUpperCase(),
-        name: coin.name
-      }))
+      coins: coins.slice(0, 10)
     });
 
   } catch (error) {
     console.error('Error searching coins:', error);
     
-    if (axios.isAxiosError(error) && error.response?.status === 429) {
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== null) {
       return res.status(429).json({
-        error: 'CoinGecko rate limit exceeded',
-        retryAfter: 60
+        error: 'Market data rate limit exceeded',
+        retryAfter
       });
     }
     
@@ -560,76 +547,45 @@ app.get('/api/crypto/search', ensureVerified, async (req: Request, res: Response
   }
 });
 
-// Price endpoint with proper rate limiting and error handling
-app.get('/api/crypto/price/:id', ensureVerified, async (req: Request, res: Response) => {
-  const { id } = req.params;
-  const cacheKey = `price-${id}`;
-
-  try {
-    // Check cache first
-    const cached = cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION.PRICE) {
-      console.log(`Using cached price data for ${id}`);
-      return res.json(cached.data);
-    }
-
-    // Check rate limit
-    if (!coinGeckoLimiter.canMakeRequest()) {
-      if (cached) {
-        console.log(`Rate limited, using cached price data for ${id}`);
-        return res.json(cached.data);
-      }
-      return res.status(429).json({ 
-        error: 'CoinGecko API rate limit exceeded. Please try again later.',
-        retryAfter: 30
-      });
-    }
-
-    // Wait for rate limit before making request
-    await coinGeckoLimiter.waitForNext();
-
-    console.log(`Fetching fresh price data for ${id}...`);
-    // Make request to CoinGecko
-    const response = await axios.get(`${COINGECKO_API}/simple/price`, {
-      params: {
-        ids: id,
-        vs_currencies: 'usd',
-        include_24hr_change: true,
-        include_market_cap: true,
-        include_last_updated_at: true
-      },
-      timeout: 15000, // 15 second timeout
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'CryptoSensei-Dashboard/1.0'
-      }
+// Cached price lookup shared by the price route and the analysis API
+function getCachedPrice(id: string, quoteCurrency: QuoteCurrency) {
+  return cache.getOrFetch(`price-${id}-${quoteCurrency}`, CACHE_DURATION.PRICE, async ({ background }) => {
+    console.log(`Fetching fresh price data for ${id} in ${quoteCurrency.toUpperCase()}...`);
+    const quote = await marketData.getPrice(id, {
+      priority: priorityFor(background, 'interactive'),
+      quote: quoteCurrency
     });
 
-    if (!response.data || !response.data[id]) {
-      throw new Error('Invalid response from CoinGecko');
-    }
-
+    console.log(`Successfully fetched price data for ${id}: ${quote.price} ${quoteCurrency.toUpperCase()}`);
     // Format the response
-    const coinData = response.data[id];
-    const formattedData = {
-      price: coinData.usd || 0,
-      change24h: coinData.usd_24h_change || 0,
-      marketCap: coinData.usd_market_cap || 0,
-      lastUpdated: coinData.last_updated_at || Date.now() / 1000,
+    return {
+      quote: quoteCurrency,
+      price: quote.price,
+      change24h: quote.change24h,
+      marketCap: quote.marketCap,
+      lastUpdated: quote.lastUpdated,
       timestamp: Date.now()
     };
+  });
+}
 
-    // Cache the result
-    cache.set(cacheKey, {
-      data: formattedData,
-      timestamp: Date.now()
-    });
+// Price endpoint with proper rate limiting and error handling
+app.get('/api/crypto/price/:id', ensureVerified, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const cacheKey = `price-${id}-${quoteCurrency}`;
 
-    console.log(`Successfully fetched price data for ${id}: $${formattedData.price}`);
-    return res.json(formattedData);
+  try {
+    const { data, status } = await getCachedPrice(id, quoteCurrency);
+
+    res.set('X-Cache', status);
+    return res.json(data);
 
   } catch (error: any) {
-    console.error('Price API error:', error.response?.data || error.message);
+    console.error('Price API error:', error.message);
     
     // Try to return cached data on error
     const cached = cache.get(cacheKey);
@@ -641,9 +597,18 @@ app.get('/api/crypto/price/:id', ensureVerified, async (req: Request, res: Respo
         error: 'Using cached data due to API error'
       });
     }
+
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== null) {
+      return res.status(429).json({ 
+        error: 'Market data rate limit exceeded. Please try again later.',
+        retryAfter
+      });
+    }
     
     // Return fallback data if no cache available
     return res.status(500).json({ 
+      quote: quoteCurrency,
       price: 0,
       change24h: 0,
       marketCap: 0,
@@ -662,96 +627,60 @@ app.get('/api/crypto/prices', ensureVerified, async (req: Request, res: Response
   if (coinIds.length === 0) {
     return res.status(400).json({ error: 'No coin IDs provided' });
   }
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
 
-  try {
-    const results: any = {};
-    const cacheKey = `batch-prices-${coinIds.sort().join(',')}`;
+  const cacheKey = `batch-prices-${quoteCurrency}-${[...coinIds].sort().join(',')}`;
 
-    // Check cache first
-    const cached = cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION.PRICE) {
-      console.log(`Using cached batch price data for ${coinIds.length} coins`);
-      return res.json(cached.data);
-    }
+  try {
+    const { data, status } = await cache.getOrFetch(cacheKey, CACHE_DURATION.PRICE, async ({ background }) => {
+      const results: any = {};
 
-    // Check rate limit
-    if (!coinGeckoLimiter.canMakeRequest()) {
-      if (cached) {
-        console.log(`Rate limited, using cached batch price data for ${coinIds.length} coins`);
-        return res.json(cached.data);
-      }
-      return res.status(429).json({ 
-        error: 'CoinGecko API rate limit exceeded. Please try again later.',
-        retryAfter: 30
+      console.log(`Fetching fresh batch price data for ${coinIds.length} coins...`);
+      const quotes = await marketData.getPrices(coinIds, {
+        priority: priorityFor(background, 'interactive'),
+        quote: quoteCurrency
       });
-    }
-
-    // Wait for rate limit before making request
-    await coinGeckoLimiter.waitForNext();
 
-    console.log(`Fetching fresh batch price data for ${coinIds.length} coins...`);
-    
-    // Make request to CoinGecko for multiple coins
-    const response = await axios.get(`${COINGECKO_API}/simple/price`, {
-      params: {
-        ids: coinIds.join(','),
-        vs_currencies: 'usd',
-        include_24hr_change: true,
-        include_market_cap: true,
-        include_last_updated_at: true
-      },
-      timeout: 15000,
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'CryptoSensei-Dashboard/1.0'
-      }
-    });
-
-    if (!response.data) {
-      throw new Error('Invalid response from CoinGecko');
-    }
-
-    // Format the response for each coin
-    for (const coinId of coinIds) {
-      if (response.data[coinId]) {
-        const coinData = response.data[coinId];
-        results[coinId] = {
-          price: coinData.usd || 0,
-          change24h: coinData.usd_24h_change || 0,
-          marketCap: coinData.usd_market_cap || 0,
-          lastUpdated: coinData.last_updated_at || Date.now() / 1000
-        };
-      } else {
-        // Fallback for missing coins
-        results[coinId] = {
-          price: 0,
-          change24h: 0,
-          marketCap: 0,
-          lastUpdated: Date.now() / 1000,
-          error: 'Coin not found'
-        };
+      // Format the response for each coin
+      for (const coinId of coinIds) {
+        if (quotes[coinId]) {
+          const quote = quotes[coinId];
+          results[coinId] = {
+            price: quote.price,
+            change24h: quote.change24h,
+            marketCap: quote.marketCap,
+            lastUpdated: quote.lastUpdated
+          };
+        } else {
+          // Fallback for missing coins
+          results[coinId] = {
+            price: 0,
+            change24h: 0,
+            marketCap: 0,
+            lastUpdated: Date.now() / 1000,
+            error: 'Coin not found'
+          };
+        }
       }
-    }
-
-    const finalResult = {
-      ...results,
-      timestamp: Date.now()
-    };
 
-    // Cache the result
-    cache.set(cacheKey, {
-      data: finalResult,
-      timestamp: Date.now()
+      console.log(`Successfully fetched batch price data for ${coinIds.length} coins`);
+      return {
+        ...results,
+        quote: quoteCurrency,
+        timestamp: Date.now()
+      };
     });
 
-    console.log(`Successfully fetched batch price data for ${coinIds.length} coins`);
-    return res.json(finalResult);
+    res.set('X-Cache', status);
+    return res.json(data);
 
   } catch (error: any) {
-    console.error('Batch price API error:', error.response?.data || error.message);
+    console.error('Batch price API error:', error.message);
     
     // Try to return cached data on error
-    const cacheKey = `batch-prices-${coinIds.sort().join(',')}`;
     const cached = cache.get(cacheKey);
     if (cached) {
       console.log(`Error occurred, using cached batch price data for ${coinIds.length} coins`);
@@ -761,6 +690,14 @@ app.get('/api/crypto/prices', ensureVerified, async (req: Request, res: Response
         error: 'Using cached data due to API error'
       });
     }
+
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== null) {
+      return res.status(429).json({ 
+        error: 'Market data rate limit exceeded. Please try again later.',
+        retryAfter
+      });
+    }
     
     // Return fallback data if no cache available
     const fallbackResults: any = {};
@@ -776,109 +713,77 @@ app.get('/api/crypto/prices', ensureVerified, async (req: Request, res: Response
     
     return res.status(500).json({ 
       ...fallbackResults,
+      quote: quoteCurrency,
       timestamp: Date.now(),
       error: 'Failed to fetch batch price data. Please try again later.'
     });
   }
 });
 
-// Update the history endpoint to return proper data structure
+// Accepts ms timestamps or anything Date.parse understands (e.g. ISO dates)
+function parseTimeParam(value: unknown): number | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// History from the local time-series store: ?days=N (legacy) or ?from=&to=, optional &interval=1h|4h|1d|1w and &quote=
 app.get('/api/crypto/history/:id', ensureVerified, async (req: Request, res: Response) => {
   const { id } = req.params;
-  const daysParam = req.query.days as string || '1';
-  const days = parseInt(daysParam) || 1;
-  const cacheKey = `history-${id}-${days}`;
-
-  try {
-    // Check cache first
-    const cached = cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION.HISTORY) {
-      console.log(`Using cached historical data for ${id}`);
-      return res.json(cached.data);
-    }
-
-    // Check rate limit
-    if (!coinGeckoLimiter.canMakeRequest()) {
-      if (cached) {
-        console.log(`Rate limited, using cached historical data for ${id}`);
-        return res.json(cached.data);
-      }
-      // Provide a concrete retryAfter hint for clients to back off
-      const retryAfterSec = Math.ceil(coinGeckoLimiter.getWaitTime() / 1000) || 6;
-      return res.status(429).json({ 
-        error: 'CoinGecko API rate limit exceeded. Please try again later.',
-        retryAfter: retryAfterSec
-      });
-    }
-
-    // Wait for rate limit before making request
-    await coinGeckoLimiter.waitForNext();
-
-    console.log(`Fetching historical data for ${id}...`);
-    // Fetch new data
-    const response = await axios.get(`${COINGECKO_API}/coins/${id}/market_chart`, {
-      params: {
-        vs_currency: 'usd',
-        days: days.toString(),
-        interval: days > 30 ? 'daily' : 'hourly'
-      },
-      timeout: 20000, // 20 second timeout for historical data
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'CryptoSensei-Dashboard/1.0'
-      }
-    });
-
-    if (!response.data || !response.data.prices) {
-      throw new Error('Invalid response from CoinGecko');
-    }
-
-    // Process and validate the data
-    const prices = response.data.prices || [];
-    const marketCaps = response.data.market_caps || [];
-    const volumes = response.data.total_volumes || [];
+  const intervalParam = req.query.interval;
+  if (intervalParam !== undefined && !isCandleInterval(intervalParam)) {
+    return res.status(400).json({ error: 'interval must be one of 1h, 4h, 1d, 1w' });
+  }
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
 
-    console.log(`Raw data lengths - Prices: ${prices.length}, Volumes: ${volumes.length}, Market Caps: ${marketCaps.length}`);
+  const days = Math.min(Math.max(parseInt(req.query.days as string) || 1, 1), 5 * 365);
+  const to = parseTimeParam(req.query.to) ?? Date.now();
+  const from = parseTimeParam(req.query.from) ?? to - days * 24 * 60 * 60 * 1000;
+  if (from >= to) {
+    return res.status(400).json({ error: '`from` must be before `to`' });
+  }
+  // Same granularity CoinGecko used to pick for a range: hourly up to 90 days, daily beyond
+  const interval: CandleInterval = isCandleInterval(intervalParam)
+    ? intervalParam
+    : to - from > 90 * 24 * 60 * 60 * 1000 ? '1d' : '1h';
 
-    const clamp = 180; // reduce payload to ease rate/size
-    const processedData = {
-      prices: prices.map((item: [number, number]) => item[1]).slice(-clamp),
-      volumes: volumes.length > 0 ? volumes.map((item: [number, number]) => item[1]).slice(-clamp) : [],
-      timestamps: prices.map((item: [number, number]) => item[0]).slice(-clamp),
+  try {
+    console.log(`Fetching historical data for ${id} (${interval}, ${quoteCurrency.toUpperCase()})...`);
+    const { points, status } = await historyStore.query(
+      id, { from, to, interval }, { priority: 'history', quote: quoteCurrency }
+    );
+    const latest = points[points.length - 1];
+
+    console.log(`Serving ${points.length} ${interval} point(s) for ${id} [${status}]`);
+    res.set('X-Cache', status);
+    return res.json({
+      interval,
+      quote: quoteCurrency,
+      prices: points.map(p => p.price),
+      volumes: points.map(p => p.volume),
+      timestamps: points.map(p => p.timestamp),
       // Remove current_price - it should come from price store
-      market_cap: marketCaps.length > 0 ? marketCaps[marketCaps.length - 1][1] : 0,
-      price_change_24h: calculatePriceChange(prices),
-      total_volume: volumes.length > 0 ? volumes[volumes.length - 1][1] : 0
-    };
-
-    console.log(`Processed data - Prices: ${processedData.prices.length}, Volumes: ${processedData.volumes.length}`);
-
-    // Cache the result
-    cache.set(cacheKey, {
-      data: processedData,
-      timestamp: Date.now()
+      market_cap: latest?.marketCap || 0,
+      price_change_24h: calculatePriceChange(points),
+      total_volume: latest?.volume || 0
     });
 
-    console.log(`Successfully fetched and processed historical data for ${id}`);
-    console.log(`24h change: ${processedData.price_change_24h}`);
-    
-    return res.json(processedData);
-
   } catch (error: any) {
-    console.error('History API error:', error.response?.data || error.message);
-    
-    // Try to return cached data on error
-    const cached = cache.get(cacheKey);
-    if (cached) {
-      console.log(`Error occurred, using cached historical data for ${id}`);
-      return res.json({
-        ...cached.data,
-        cached: true,
-        error: 'Using cached data due to API error'
+    console.error('History API error:', error.message);
+
+    // Provide a concrete retryAfter hint for clients to back off
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== null) {
+      return res.status(429).json({ 
+        error: 'Market data rate limit exceeded. Please try again later.',
+        retryAfter
       });
     }
     
-    // Return fallback data if no cache available
+    // Return fallback data if nothing is stored yet
     return res.status(500).json({ 
       prices: [],
       volumes: [],
@@ -892,88 +797,452 @@ app.get('/api/crypto/history/:id', ensureVerified, async (req: Request, res: Res
   }
 });
 
-// Helper function to calculate 24h price change
-function calculatePriceChange(prices: [number, number][]): number {
-  if (prices.length < 2) return 0;
-  const currentPrice = prices[prices.length - 1][1];
-  const yesterdayPrice = prices[prices.length - 2][1];
-  return parseFloat(((currentPrice - yesterdayPrice) / yesterdayPrice * 100).toFixed(2));
+// Cached candle lookup shared by the OHLC route and the analysis API
+function getCachedCandles(id: string, quoteCurrency: QuoteCurrency, interval: CandleInterval, days: number) {
+  const cacheKey = `ohlc-${id}-${quoteCurrency}-${interval}-${days}`;
+  return cache.getOrFetch(cacheKey, CACHE_DURATION.HISTORY, async ({ background }) => {
+    console.log(`Fetching ${interval} candles for ${id} (${days}d)...`);
+    const candles = await marketData.getCandles(id, interval, days, {
+      priority: priorityFor(background, 'history'),
+      quote: quoteCurrency
+    });
+
+    const clamp = 500; // keep payloads bounded for long ranges on small intervals
+    return { interval, quote: quoteCurrency, candles: candles.slice(-clamp) };
+  });
 }
 
-// WebSocket connection handling
-wss.on('connection', (ws: WebSocket) => {
-  console.log('Client connected');
-  let currentCrypto: string = 'bitcoin';
+// OHLC candles - real highs/lows for ATR, stochastics and support/resistance
+app.get('/api/crypto/ohlc/:id', ensureVerified, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const interval = (req.query.interval as string) || '1h';
+  if (!isCandleInterval(interval)) {
+    return res.status(400).json({ error: INVALID_INTERVAL_ERROR });
+  }
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const days = Math.min(365, Math.max(1, parseInt(req.query.days as string) || 7));
+  const cacheKey = `ohlc-${id}-${quoteCurrency}-${interval}-${days}`;
 
-  const sendPriceUpdate = async () => {
-    try {
-      const cacheKey = `price-${currentCrypto}`;
-      const cached = cache.get(cacheKey);
-      
-      // Use cached data if fresh
-      if (cached && Date.now() - cached.timestamp < CACHE_DURATION.PRICE) {
-        ws.send(JSON.stringify(cached.data));
-        return;
-      }
+  try {
+    const { data, status } = await getCachedCandles(id, quoteCurrency, interval, days);
 
-      // Fetch new price data
-      const response = await axios.get(`${COINGECKO_API}/simple/price`, {
-        params: {
-          ids: currentCrypto,
-          vs_currencies: 'usd',
-          include_24hr_change: true
-        },
-        timeout: 5000,
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'Crypto Trading Dashboard'
-        }
+    res.set('X-Cache', status);
+    return res.json(data);
+  } catch (error: any) {
+    console.error('OHLC API error:', error.message);
+
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      console.log(`Error occurred, using cached candles for ${id}`);
+      return res.json({
+        ...cached.data,
+        cached: true,
+        error: 'Using cached data due to API error'
       });
+    }
 
-      if (response.data && response.data[currentCrypto]) {
-        const data = {
-          [currentCrypto]: {
-            usd: response.data[currentCrypto].usd,
-            usd_24h_change: response.data[currentCrypto].usd_24h_change
-          }
-        };
-
-        // Cache the data
-        cache.set(cacheKey, {
-          data,
-          timestamp: Date.now()
-        });
-
-        // Send to client
-        ws.send(JSON.stringify(data));
-      }
-    } catch (error) {
-      console.error('Error fetching price update:', error);
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== null) {
+      return res.status(429).json({
+        error: 'Market data rate limit exceeded. Please try again later.',
+        retryAfter
+      });
     }
+
+    return res.status(500).json({
+      interval,
+      quote: quoteCurrency,
+      candles: [],
+      error: 'Failed to fetch candle data. Please try again later.'
+    });
+  }
+});
+
+// Every issued forecast, scored against the stored hourly price once its horizon has passed
+const forecastTracker = createForecastTracker({
+  getPrices: async (id, quote, from, to) =>
+    (await historyStore.query(id, { from, to, interval: '1h' }, { priority: 'background', quote })).points
+});
+forecastTracker.start();
+
+// Indicators plus the LLM narrative. LLM keys, prompt versions and the 15-minute AI cache live here, shared by every user
+const promptRegistry = createPromptRegistry();
+const analysisService = createAnalysisService({
+  getPrice: async (id, quote) => (await getCachedPrice(id, quote)).data,
+  getHistory: async (id, quote, days, interval) => {
+    const to = Date.now();
+    const { points } = await historyStore.query(
+      id, { from: to - days * 24 * 60 * 60 * 1000, to, interval }, { priority: 'history', quote }
+    );
+    return points;
+  },
+  getCandles: async (id, quote, interval, days) => (await getCachedCandles(id, quote, interval, days)).data.candles,
+  getNews: async id => (await getCachedNews(id)).data.articles
+}, cache, promptRegistry, forecastTracker);
+
+// Market analysis for a coin: ?quote= as on the price routes, ?interval=1h|4h|1d|1w (1h default), ?ai=false for indicators only (fast)
+app.get('/api/analysis/:id', ensureVerified, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const interval = req.query.interval ?? '1h';
+  if (!isCandleInterval(interval)) {
+    return res.status(400).json({ error: INVALID_INTERVAL_ERROR });
+  }
+  const ai = req.query.ai !== 'false' && req.query.ai !== '0';
+
+  try {
+    console.log(`Analysing ${id} (${interval}) in ${quoteCurrency.toUpperCase()}${ai ? '' : ' (no AI)'}...`);
+    return res.json(await analysisService.analyze(id, quoteCurrency, { ai, interval, subject: (req.user as any).id }));
+  } catch (error: any) {
+    console.error('Analysis API error:', error.message);
+    const { status, body } = analysisErrorResponse(error);
+    return res.status(status).json(body);
+  }
+});
+
+// Server-sent events: indicators right away, then the AI narrative as it is generated (see AnalysisStreamEvent)
+app.get('/api/analysis/:id/stream', ensureVerified, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const interval = req.query.interval ?? '1h';
+  if (!isCandleInterval(interval)) {
+    return res.status(400).json({ error: INVALID_INTERVAL_ERROR });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // keep nginx from buffering the stream
+  });
+  const send = (event: AnalysisStreamEvent) => {
+    if (!res.writableEnded) res.write(`data: ${JSON.stringify(event)}\n\n`);
   };
 
-  let updateInterval = setInterval(sendPriceUpdate, 5000);
+  // Stop generating for a client that went away
+  const aborted = new AbortController();
+  res.on('close', () => aborted.abort());
 
-  ws.on('message', async (message: string) => {
-    try {
-      const data = JSON.parse(message);
-      if (data.type === 'subscribe' && data.crypto) {
-        currentCrypto = data.crypto;
-        clearInterval(updateInterval);
-        await sendPriceUpdate(); // Send immediate update
-        updateInterval = setInterval(sendPriceUpdate, 5000);
-      }
-    } catch (error) {
-      console.error('WebSocket message error:', error);
+  try {
+    console.log(`Streaming analysis of ${id} (${interval}) in ${quoteCurrency.toUpperCase()}...`);
+    await analysisService.analyzeStream(id, quoteCurrency, send, { subject: (req.user as any).id, signal: aborted.signal, interval });
+  } catch (error: any) {
+    console.error('Analysis stream error:', error.message);
+    send({ type: 'error', ...analysisErrorResponse(error).body });
+  }
+  res.end();
+});
+
+// Trend, momentum and key levels on 1h/4h/1d/1w and how far they agree (see Confluence)
+app.get('/api/analysis/:id/confluence', ensureVerified, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+
+  try {
+    return res.json(await analysisService.confluence(id, quoteCurrency));
+  } catch (error: any) {
+    console.error('Confluence API error:', error.message);
+    const { status, body } = analysisErrorResponse(error);
+    return res.status(status).json(body);
+  }
+});
+
+// Strategy backtests: the strategy generator replayed over past candles with fees and slippage (see BacktestResult)
+const backtestService = createBacktestService({
+  getCandles: (id, quote, interval, days) => marketData.getCandles(id, interval, days, { priority: 'history', quote })
+}, cache);
+
+// Default and longest range per interval; a backtest needs its warmup (100 candles) plus 50 to
+// replay, so weekly ones need at least 150 weeks
+const BACKTEST_DAYS: Record<CandleInterval, number> = { '1h': 90, '4h': 180, '1d': 365, '1w': 1400 };
+const MAX_BACKTEST_DAYS: Record<CandleInterval, number> = { '1h': 365, '4h': 365, '1d': 365, '1w': 5 * 365 };
+
+// Options from the query string; a string is the reason they are invalid
+function parseBacktestOptions(query: Request['query']): Partial<BacktestOptions> | string {
+  const options: Partial<BacktestOptions> = {};
+  const fraction = (name: 'feeRate' | 'slippage') => {
+    if (query[name] === undefined) return true;
+    const value = Number(query[name]);
+    if (!Number.isFinite(value) || value < 0 || value > 0.05) return false;
+    options[name] = value;
+    return true;
+  };
+  if (!fraction('feeRate') || !fraction('slippage')) return 'feeRate and slippage must be fractions between 0 and 0.05';
+  if (query.minConfidence !== undefined) {
+    const value = Number(query.minConfidence);
+    if (!Number.isFinite(value) || value < 0 || value > 100) return 'minConfidence must be between 0 and 100';
+    options.minConfidence = value;
+  }
+  if (query.stop !== undefined) {
+    if (query.stop !== 'tight' && query.stop !== 'normal' && query.stop !== 'wide') return 'stop must be tight, normal or wide';
+    options.stop = query.stop;
+  }
+  if (query.target !== undefined) {
+    if (query.target !== 'primary' && query.target !== 'secondary' && query.target !== 'final') return 'target must be primary, secondary or final';
+    options.target = query.target;
+  }
+  if (query.breakouts !== undefined) options.breakouts = query.breakouts !== 'false' && query.breakouts !== '0';
+  return options;
+}
+
+// ?quote=, ?interval=1h|4h|1d|1w (1h default), ?days= (defaults per interval), then the BacktestOptions
+app.get('/api/backtest/:id', ensureVerified, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const interval = req.query.interval ?? '1h';
+  if (!isCandleInterval(interval)) {
+    return res.status(400).json({ error: INVALID_INTERVAL_ERROR });
+  }
+  const days = Math.min(MAX_BACKTEST_DAYS[interval], Math.max(1, parseInt(req.query.days as string) || BACKTEST_DAYS[interval]));
+  const options = parseBacktestOptions(req.query);
+  if (typeof options === 'string') {
+    return res.status(400).json({ error: options });
+  }
+
+  try {
+    console.log(`Backtesting ${id} (${interval}, ${days}d) in ${quoteCurrency.toUpperCase()}...`);
+    return res.json(await backtestService.run(id, quoteCurrency, interval, days, options));
+  } catch (error: any) {
+    console.error('Backtest API error:', error.message);
+    const { status, body } = analysisErrorResponse(error);
+    return res.status(status).json(body);
+  }
+});
+
+// Forecasts made in the browser (the advanced analysis ranges and the LSTM points); a string is the reason they are invalid
+function parseForecastBody(body: any): Pick<ForecastIssue, 'model' | 'forecasts'> | string {
+  if (body?.model !== 'advanced' && body?.model !== 'lstm') return 'model must be advanced or lstm';
+  if (!Array.isArray(body.forecasts) || body.forecasts.length === 0 || body.forecasts.length > FORECAST_HORIZONS.length) {
+    return `forecasts must hold one entry per horizon (${FORECAST_HORIZONS.join(', ')})`;
+  }
+  const forecasts: ForecastIssue['forecasts'] = [];
+  for (const entry of body.forecasts) {
+    const { horizon, low, high, confidence } = entry ?? {};
+    if (!FORECAST_HORIZONS.includes(horizon)) return `horizon must be one of ${FORECAST_HORIZONS.join(', ')}`;
+    if (![low, high, confidence].every(v => typeof v === 'number' && Number.isFinite(v))) {
+      return 'low, high and confidence must be numbers';
     }
-  });
+    if (low < 0 || high <= 0 || low > high || confidence < 0 || confidence > 100) {
+      return 'low must not exceed high, prices must be positive and confidence between 0 and 100';
+    }
+    forecasts.push({ horizon, low, high, confidence });
+  }
+  return { model: body.model, forecasts };
+}
+
+// Record forecasts shown on the dashboard for the posting user's scoreboard; the issue price is the
+// server's, so clients cannot shift the baseline
+app.post('/api/forecasts/:id', ensureVerified, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const parsed = parseForecastBody(req.body);
+  if (typeof parsed === 'string') {
+    return res.status(400).json({ error: parsed });
+  }
+
+  try {
+    const { data } = await getCachedPrice(id, quoteCurrency);
+    const recorded = forecastTracker.record({
+      crypto: id, quote: quoteCurrency, owner: String((req.user as any).id), issuedPrice: data.price, ...parsed
+    });
+    return res.status(201).json({ recorded });
+  } catch (error: any) {
+    console.error('Forecast API error:', error.message);
+    const { status, body } = analysisErrorResponse(error);
+    return res.status(status).json(body);
+  }
+});
+
+// Hit rate, MAPE and calibration per model, timeframe and horizon, with the user's own dashboard forecasts:
+// ?quote=, ?crypto= for one coin (all coins by default)
+app.get('/api/forecasts/scoreboard', ensureVerified, (req: Request, res: Response) => {
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const crypto = typeof req.query.crypto === 'string' && req.query.crypto ? req.query.crypto : null;
+  res.json(forecastTracker.scoreboard(crypto, quoteCurrency, String((req.user as any).id)));
+});
+
+// Trained TF.js models per coin and timeframe, trained in a worker thread when first asked for and again once a day
+const modelService = createModelService({
+  getCandles: (id, quote, interval, days) => marketData.getCandles(id, interval, days, { priority: 'background', quote })
+});
+
+const isModelKind = (value: unknown): value is ModelKind => MODEL_KINDS.includes(value as ModelKind);
+const INVALID_MODEL_KIND_ERROR = `Invalid model kind. Use one of ${MODEL_KINDS.join(', ')}.`;
+
+// Latest version of every trained model with its evaluation report and whether the dashboard
+// trusts it (?crypto= and ?quote= narrow it), and what is training now
+app.get('/api/models', ensureVerified, (req: Request, res: Response) => {
+  const quoteCurrency = req.query.quote === undefined ? undefined : parseQuoteParam(req.query.quote);
+  if (quoteCurrency === null) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const crypto = typeof req.query.crypto === 'string' && req.query.crypto ? req.query.crypto : undefined;
+  const models = modelService.registry.list({ crypto, quote: quoteCurrency }).map(meta => ({ ...meta, gate: modelGate(meta) }));
+  res.json({ models, training: modelService.status() });
+});
+
+// Weights and metadata for inference in the dashboard: ?quote=, ?interval= (1h default). 404 while the first version trains
+app.get('/api/models/:kind/:id', ensureVerified, (req: Request, res: Response) => {
+  const { kind, id } = req.params;
+  if (!isModelKind(kind)) {
+    return res.status(400).json({ error: INVALID_MODEL_KIND_ERROR });
+  }
+  const quoteCurrency = parseQuoteParam(req.query.quote);
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  const interval = req.query.interval ?? '1h';
+  if (!isCandleInterval(interval)) {
+    return res.status(400).json({ error: INVALID_INTERVAL_ERROR });
+  }
+
+  const { model, training } = modelService.get({ kind, crypto: id, quote: quoteCurrency, interval });
+  if (!model) {
+    return res.status(404).json({ error: training ? 'Model is training. Try again in a few minutes.' : 'No trained model.', training });
+  }
+  res.set('Cache-Control', 'private, max-age=300');
+  res.json(model);
+});
 
-  ws.on('close', () => {
-    console.log('Client disconnected');
-    clearInterval(updateInterval);
+// Queue training now: { crypto, quote?, interval?, kind? } (usd, 1h and every kind by default)
+app.post('/api/admin/models/train', ensureAdmin, (req: Request, res: Response) => {
+  const { crypto, kind } = req.body || {};
+  const quoteCurrency = parseQuoteParam(req.body?.quote);
+  const interval = req.body?.interval ?? '1h';
+  if (typeof crypto !== 'string' || !crypto) {
+    return res.status(400).json({ error: 'crypto is required' });
+  }
+  if (kind !== undefined && !isModelKind(kind)) {
+    return res.status(400).json({ error: INVALID_MODEL_KIND_ERROR });
+  }
+  if (!quoteCurrency) {
+    return res.status(400).json({ error: INVALID_QUOTE_ERROR });
+  }
+  if (!isCandleInterval(interval)) {
+    return res.status(400).json({ error: INVALID_INTERVAL_ERROR });
+  }
+
+  const keys = (kind ? [kind as ModelKind] : MODEL_KINDS).map(k => ({ kind: k, crypto, quote: quoteCurrency, interval }));
+  keys.forEach(key => modelService.train(key).catch(() => {})); // failures are logged by the service
+  res.status(202).json({ queued: keys.map(modelId), training: modelService.status() });
+});
+
+// Prompt versions: list them, publish a new one, pick the active one and run an A/B test against it
+app.get('/api/admin/prompts', ensureAdmin, (_req: Request, res: Response) => {
+  res.json({
+    active: promptRegistry.active.version,
+    experiment: promptRegistry.experiment,
+    variables: PROMPT_VARIABLES,
+    templates: promptRegistry.list()
   });
 });
 
+app.post('/api/admin/prompts', ensureAdmin, (req: Request, res: Response) => {
+  const { version, description, template } = req.body || {};
+  if (typeof version !== 'string' || typeof template !== 'string') {
+    return res.status(400).json({ error: 'version and template are required strings' });
+  }
+  handlePromptChange(res, () => promptRegistry.add(version, typeof description === 'string' ? description : '', template), 201);
+});
+
+app.put('/api/admin/prompts/active', ensureAdmin, (req: Request, res: Response) => {
+  handlePromptChange(res, () => promptRegistry.activate(String(req.body?.version)));
+});
+
+app.put('/api/admin/prompts/experiment', ensureAdmin, (req: Request, res: Response) => {
+  handlePromptChange(res, () => promptRegistry.startExperiment(String(req.body?.candidate), Number(req.body?.share)));
+});
+
+app.delete('/api/admin/prompts/experiment', ensureAdmin, (_req: Request, res: Response) => {
+  promptRegistry.stopExperiment();
+  res.status(204).end();
+});
+
+function handlePromptChange(res: Response, change: () => unknown, status = 200) {
+  try {
+    res.status(status).json(change());
+  } catch (error: any) {
+    if (error instanceof PromptRegistryError) {
+      return res.status(error.status).json({ error: error.message, details: error.details });
+    }
+    console.error('Prompt registry error:', error.message);
+    res.status(500).json({ error: 'Failed to update prompts' });
+  }
+}
+
+function analysisErrorResponse(error: unknown): { status: number; body: { error: string; retryAfter?: number } } {
+  if (error instanceof AnalysisUnavailableError) {
+    return { status: 503, body: { error: error.message } };
+  }
+
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== null) {
+    return {
+      status: 429,
+      body: { error: 'Market data rate limit exceeded. Please try again later.', retryAfter }
+    };
+  }
+
+  return { status: 500, body: { error: 'Failed to analyse market data. Please try again later.' } };
+}
+
+// Upstream queue depth and expected wait, per upstream
+app.get('/api/status/upstreams', ensureVerified, (_req: Request, res: Response) => {
+  const watchedCoins = Object.fromEntries(
+    Array.from(priceHubs.entries()).map(([quote, hub]) => [quote, hub.watchedCoins])
+  );
+  res.json({ upstreams: UpstreamScheduler.stats(), cacheEntries: cache.size, watchedCoins });
+});
+
+// Helper function to calculate 24h price change (against the last point at least a day older)
+function calculatePriceChange(points: SeriesPoint[]): number {
+  if (points.length < 2) return 0;
+  const latest = points[points.length - 1];
+  const dayAgo = [...points].reverse().find(p => p.timestamp <= latest.timestamp - 24 * 60 * 60 * 1000)
+    || points[0];
+  return parseFloat(((latest.price - dayAgo.price) / dayAgo.price * 100).toFixed(2));
+}
+
+// Shared price pollers for all WebSocket clients, one per quote currency: one batched upstream call per tick
+const priceHubs = new Map<QuoteCurrency, PriceHub>();
+function priceHubFor(quote: QuoteCurrency): PriceHub {
+  let hub = priceHubs.get(quote);
+  if (!hub) {
+    hub = new PriceHub(
+      ids => marketData.getPrices(ids, { priority: 'background', quote }),
+      { intervalMs: parseInt(process.env.PRICE_HUB_INTERVAL_MS || '') || 15000 }
+    );
+    priceHubs.set(quote, hub);
+  }
+  return hub;
+}
+
+// WebSocket price stream (protocol in ./ws/protocol.ts)
+attachPriceSocket(wss, priceHubFor, {
+  heartbeatMs: parseInt(process.env.WS_HEARTBEAT_MS || '') || 30000
+});
+
 // Handle React Router (serve index.html for all non-API routes) - Production only
 if (process.env.NODE_ENV === 'production') {
   app.get('*', (req, res) => {
@@ -1008,6 +1277,8 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received. Shutting down gracefully...');
+  cache.flushSync();
+  forecastTracker.flushSync();
   server.close(() => {
     process.exit(0);
   });
@@ -1015,6 +1286,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received. Shutting down gracefully...');
+  cache.flushSync();
+  forecastTracker.flushSync();
   server.close(() => {
     process.exit(0);
   });
@@ -0,0 +1,31 @@
+import path from 'path';
+import { ModelRegistry } from './registry.js';
+import { ModelService, type ModelSources } from './service.js';
+import { FileModelStore, MemoryModelStore } from './store.js';
+
+export { ModelRegistry } from './registry.js';
+export { ModelService, TRAINING_DAYS, trainInWorker } from './service.js';
+export type { ModelServiceOptions, ModelSources, ModelTrainer } from './service.js';
+export { MIN_DIRECTION_ACCURACY, MIN_TEST_SAMPLES, modelGate } from '../../shared/ml/gate.js';
+export type { ModelGate } from '../../shared/ml/gate.js';
+export { DEFAULT_TRAINING_OPTIONS, trainModel } from './trainer.js';
+export type { TrainedModel, TrainingOptions } from './trainer.js';
+export { MODEL_KINDS, modelId } from '../../shared/ml/types.js';
+export type { ModelArtifactsJSON, ModelKey, ModelKind, ModelMeta, ModelMetrics, StoredModel, TargetMetrics } from '../../shared/ml/types.js';
+
+// Build the registry from MODEL_STORE (`file` or `memory`) and MODEL_DIR
+export function createModelRegistry(): ModelRegistry {
+  const storeName = (process.env.MODEL_STORE || 'file').trim().toLowerCase();
+  const store = storeName === 'memory'
+    ? new MemoryModelStore()
+    : new FileModelStore(path.resolve(process.env.MODEL_DIR || 'data/models'));
+  return new ModelRegistry(store);
+}
+
+// MODEL_TRAINING=off leaves training to the admin API and the command line; MODEL_COINS picks the
+// coins trained on first use (comma-separated CoinGecko ids)
+export function createModelService(sources: ModelSources): ModelService {
+  const background = (process.env.MODEL_TRAINING || 'background').trim().toLowerCase() !== 'off';
+  const coins = (process.env.MODEL_COINS || 'bitcoin,ethereum').split(',').map(c => c.trim().toLowerCase()).filter(Boolean);
+  return new ModelService(createModelRegistry(), sources, undefined, { background, coins });
+}
@@ -0,0 +1,91 @@
+import { ModelVersionExistsError, type ModelStore } from './store.js';
+import type { TrainedModel } from './trainer.js';
+import { modelId, type ModelKey, type ModelMeta, type StoredModel } from '../../shared/ml/types.js';
+
+const KEEP_VERSIONS = 3; // older versions of a model are deleted
+const MAX_SAVE_ATTEMPTS = 3;
+
+/*
+ * Versions of every trained model. Metadata is held in memory; weights are read from the store
+ * when a model is asked for, since the dashboard caches what it has loaded. The store is listed
+ * again on every lookup, so versions the models:train command adds or prunes show up here too.
+ */
+export class ModelRegistry {
+  private readonly versions = new Map<string, ModelMeta[]>(); // oldest first
+  private readonly unreadable = new Set<string>(); // not retried on every lookup
+
+  constructor(private readonly store: ModelStore) {
+    this.refresh();
+  }
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  // Latest version of each model, newest first; narrowed by any of the key fields
+  list(filter: Partial<ModelKey> = {}): ModelMeta[] {
+    this.refresh();
+    return Array.from(this.versions.values(), versions => versions[versions.length - 1])
+      .filter(meta => (Object.keys(filter) as Array<keyof ModelKey>).every(k => filter[k] === undefined || meta[k] === filter[k]))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  history(key: ModelKey): ModelMeta[] {
+    this.refresh();
+    return [...(this.versions.get(modelId(key)) ?? [])];
+  }
+
+  latest(key: ModelKey): ModelMeta | null {
+    this.refresh();
+    const versions = this.versions.get(modelId(key));
+    return versions?.[versions.length - 1] ?? null;
+  }
+
+  load(key: ModelKey, version?: number): StoredModel | null {
+    const meta = version === undefined ? this.latest(key) : this.history(key).find(m => m.version === version);
+    return meta ? this.store.load(meta) : null;
+  }
+
+  // Store a freshly trained model as the next version and drop the oldest beyond KEEP_VERSIONS.
+  // Should another process take that version first, the one after it is used.
+  add({ meta, artifacts }: TrainedModel): ModelMeta {
+    for (let attempt = 1; ; attempt++) {
+      const versioned: ModelMeta = { ...meta, version: (this.latest(meta)?.version ?? 0) + 1 };
+      try {
+        this.store.save({ meta: versioned, artifacts });
+      } catch (error) {
+        if (error instanceof ModelVersionExistsError && attempt < MAX_SAVE_ATTEMPTS) continue;
+        throw error;
+      }
+      this.index(versioned);
+
+      const versions = this.versions.get(modelId(meta))!;
+      while (versions.length > KEEP_VERSIONS) this.store.remove(versions.shift()!);
+      return versioned;
+    }
+  }
+
+  // Index versions new to the store and forget the ones gone from it; weights are only read for new ones
+  private refresh() {
+    const stored = new Map(this.store.list().map(v => [`${modelId(v)}:${v.version}`, v]));
+    for (const [id, versions] of this.versions) {
+      const kept = versions.filter(meta => stored.delete(`${id}:${meta.version}`));
+      if (kept.length > 0) this.versions.set(id, kept);
+      else this.versions.delete(id);
+    }
+    for (const [key, version] of stored) {
+      if (this.unreadable.has(key)) continue;
+      const model = this.store.load(version);
+      if (model) this.index(model.meta);
+      else this.unreadable.add(key);
+    }
+  }
+
+  private index(meta: ModelMeta) {
+    const id = modelId(meta);
+    const versions = this.versions.get(id) ?? [];
+    versions.push(meta);
+    versions.sort((a, b) => a.version - b.version);
+    this.versions.set(id, versions);
+  }
+}
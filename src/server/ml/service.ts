@@ -0,0 +1,133 @@
+/*
+ * Keeps the registry fresh: a model asked for that is missing or older than `maxAge` is queued
+ * for training, and the last version keeps being served meanwhile. Only models of `coins` and
+ * models already in the registry are trained this way; anything else waits for train(). Jobs run
+ * one at a time in a worker thread, so training never competes with itself for the CPU.
+ */
+import { Worker } from 'worker_threads';
+import type { Candle, CandleInterval } from '../providers/types.js';
+import type { QuoteCurrency } from '../../shared/quotes.js';
+import type { ModelRegistry } from './registry.js';
+import type { TrainedModel } from './trainer.js';
+import { modelId, type ModelKey, type ModelMeta, type StoredModel } from '../../shared/ml/types.js';
+import type { TrainingJob, TrainingReply } from './worker.js';
+
+export interface ModelSources {
+  getCandles(id: string, quote: QuoteCurrency, interval: CandleInterval, days: number): Promise<Candle[]>;
+}
+
+export type ModelTrainer = (job: TrainingJob) => Promise<TrainedModel>;
+
+export interface ModelServiceOptions {
+  background: boolean; // false: only explicit train() calls (admin API, command line) train
+  coins: string[]; // trained on first use; other coins only once an explicit train() has added them
+  maxQueued: number; // jobs waiting or running before background requests stop queueing more
+  maxAge: number; // ms before a model is retrained on its next use
+  retryAfter: number; // ms before a failed model is queued again on its own
+}
+
+const DEFAULT_OPTIONS: ModelServiceOptions = {
+  background: true,
+  coins: ['bitcoin', 'ethereum'],
+  maxQueued: 12,
+  maxAge: 24 * 60 * 60 * 1000,
+  retryAfter: 6 * 60 * 60 * 1000
+};
+
+// History per timeframe (the providers page ranges past their per-request candle limit): 90 days of
+// hourly candles, and 30D targets need a year of the coarser ones
+export const TRAINING_DAYS: Record<CandleInterval, number> = { '1h': 90, '4h': 365, '1d': 365, '1w': 365 };
+
+// Under tsx (server:dev) the worker is the .ts source; workers do not inherit tsx, so it is registered first
+function spawnWorker(workerData: TrainingJob): Worker {
+  if (!import.meta.url.endsWith('.ts')) return new Worker(new URL('./worker.js', import.meta.url), { workerData });
+  const source = JSON.stringify(new URL('./worker.ts', import.meta.url).href);
+  return new Worker(
+    `import('tsx/esm/api').then(({ register }) => { register(); return import(${source}); })`,
+    { eval: true, workerData }
+  );
+}
+
+// Train in a worker thread
+export const trainInWorker: ModelTrainer = job =>
+  new Promise((resolve, reject) => {
+    const worker = spawnWorker(job);
+    worker.once('message', (reply: TrainingReply) => {
+      if (reply.ok === true) resolve(reply.model);
+      else reject(new Error(reply.error));
+    });
+    worker.once('error', reject);
+    worker.once('exit', code => reject(new Error(`training worker exited with code ${code}`))); // no-op once settled
+  });
+
+export class ModelService {
+  private readonly jobs = new Map<string, Promise<ModelMeta>>(); // queued or running, by model id
+  private readonly failedAt = new Map<string, number>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private running: string | null = null;
+  private readonly options: ModelServiceOptions;
+
+  constructor(
+    readonly registry: ModelRegistry,
+    private readonly sources: ModelSources,
+    private readonly trainer: ModelTrainer = trainInWorker,
+    options: Partial<ModelServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Latest weights, queueing a retrain in the background when they are missing or stale
+  get(key: ModelKey, now = Date.now()): { model: StoredModel | null; training: boolean } {
+    const model = this.registry.load(key);
+    const id = modelId(key);
+    const stale = !model || now - model.meta.createdAt > this.options.maxAge;
+    const failedAt = this.failedAt.get(id);
+    const backingOff = failedAt !== undefined && now - failedAt < this.options.retryAfter;
+    const known = model !== null || this.options.coins.includes(key.crypto);
+    const queueFull = this.jobs.size >= this.options.maxQueued && !this.jobs.has(id);
+    if (stale && this.options.background && known && !backingOff && !queueFull) {
+      this.train(key).catch(() => {}); // logged in run()
+    }
+    return { model, training: this.jobs.has(id) };
+  }
+
+  // Queue a training run; asking again for a model already queued joins that run
+  train(key: ModelKey): Promise<ModelMeta> {
+    const id = modelId(key);
+    const existing = this.jobs.get(id);
+    if (existing) return existing;
+
+    const job = this.queue.then(() => this.run(key));
+    this.queue = job.catch(() => {});
+    this.jobs.set(id, job);
+    job.finally(() => this.jobs.delete(id)).catch(() => {});
+    return job;
+  }
+
+  status(): { running: string | null; queued: string[] } {
+    return { running: this.running, queued: [...this.jobs.keys()].filter(id => id !== this.running) };
+  }
+
+  private async run(key: ModelKey): Promise<ModelMeta> {
+    const id = modelId(key);
+    this.running = id;
+    const started = Date.now();
+    try {
+      const candles = await this.sources.getCandles(key.crypto, key.quote, key.interval, TRAINING_DAYS[key.interval]);
+      const meta = this.registry.add(await this.trainer({ key, candles }));
+      this.failedAt.delete(id);
+      console.log(`Models: trained ${id} v${meta.version} on ${candles.length} candles in ${Math.round((Date.now() - started) / 1000)}s`);
+      return meta;
+    } catch (error: any) {
+      const now = Date.now();
+      for (const [failed, at] of this.failedAt) {
+        if (now - at >= this.options.retryAfter) this.failedAt.delete(failed);
+      }
+      this.failedAt.set(id, now);
+      console.error(`Models: training ${id} failed:`, error.message);
+      throw error;
+    } finally {
+      this.running = null;
+    }
+  }
+}
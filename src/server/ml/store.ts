@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import type { ModelKey, ModelKind, StoredModel } from '../../shared/ml/types.js';
+import type { CandleInterval } from '../../shared/candles.js';
+import type { QuoteCurrency } from '../../shared/quotes.js';
+
+// One stored version of a model, without reading its weights
+export type ModelVersion = ModelKey & { version: number };
+
+/*
+ * Where model versions live. Another process (the models:train command) may write to the same
+ * store, so callers list it again instead of trusting what they saw earlier.
+ */
+export interface ModelStore {
+  readonly name: string;
+  list(): ModelVersion[];
+  load(version: ModelVersion): StoredModel | null;
+  save(model: StoredModel): void; // throws ModelVersionExistsError rather than replace a version
+  remove(version: ModelVersion): void;
+}
+
+export class ModelVersionExistsError extends Error {
+  constructor(version: ModelVersion) {
+    super(`Model ${fileName(version)} is already stored`);
+    this.name = 'ModelVersionExistsError';
+  }
+}
+
+const fileName = ({ kind, crypto, quote, interval, version }: ModelVersion) => `${kind}-${crypto}-${quote}-${interval}-v${version}.json`;
+// Coin ids may contain dashes; the other parts never do
+const FILE_NAME = /^([a-z]+)-(.+)-([a-z]+)-(\w+)-v(\d+)\.json$/;
+
+function parseFileName(file: string): ModelVersion | null {
+  const match = FILE_NAME.exec(file);
+  if (!match) return null;
+  const [, kind, crypto, quote, interval, version] = match;
+  return {
+    kind: kind as ModelKind,
+    crypto,
+    quote: quote as QuoteCurrency,
+    interval: interval as CandleInterval,
+    version: Number(version)
+  };
+}
+
+// Process-local only; models are retrained after a restart
+export class MemoryModelStore implements ModelStore {
+  readonly name = 'memory';
+  private readonly models = new Map<string, StoredModel>();
+
+  list(): ModelVersion[] {
+    return Array.from(this.models.values(), m => m.meta);
+  }
+
+  load(version: ModelVersion): StoredModel | null {
+    return this.models.get(fileName(version)) ?? null;
+  }
+
+  save(model: StoredModel): void {
+    if (this.models.has(fileName(model.meta))) throw new ModelVersionExistsError(model.meta);
+    this.models.set(fileName(model.meta), model);
+  }
+
+  remove(version: ModelVersion): void {
+    this.models.delete(fileName(version));
+  }
+}
+
+// One JSON file per model version, written to a temp file and linked into place, which fails
+// instead of replacing a version another process has just written
+export class FileModelStore implements ModelStore {
+  readonly name = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  // From the file names alone, so listing does not read any weights
+  list(): ModelVersion[] {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.dir);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') console.warn(`Models: could not list ${this.dir}: ${error.message}`);
+      return [];
+    }
+    return files.flatMap(file => parseFileName(file) ?? []);
+  }
+
+  load(version: ModelVersion): StoredModel | null {
+    return this.read(path.join(this.dir, fileName(version)));
+  }
+
+  save(model: StoredModel): void {
+    const file = path.join(this.dir, fileName(model.meta));
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, ...model }));
+    try {
+      fs.linkSync(tmp, file);
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') throw new ModelVersionExistsError(model.meta);
+      throw error;
+    } finally {
+      fs.rmSync(tmp, { force: true });
+    }
+  }
+
+  remove(version: ModelVersion): void {
+    fs.rmSync(path.join(this.dir, fileName(version)), { force: true });
+  }
+
+  private read(file: string): StoredModel | null {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      return parsed?.meta && parsed?.artifacts ? { meta: parsed.meta, artifacts: parsed.artifacts } : null;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') console.warn(`Models: could not read ${file}: ${error.message}`);
+      return null;
+    }
+  }
+}
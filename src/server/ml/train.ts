@@ -0,0 +1,58 @@
+/*
+ * Offline training: npm run models:train -- <coin> [interval] [quote] [kind]
+ * Trains in this process (interval 1h, quote usd and every kind by default), stores the result
+ * where the server's registry reads it, as the next version, and prints its evaluation report.
+ */
+import dotenv from 'dotenv';
+import * as tf from '@tensorflow/tfjs';
+import { createMarketDataProvider, isCandleInterval, isQuoteCurrency } from '../providers/index.js';
+import {
+  createModelRegistry,
+  MODEL_KINDS,
+  modelGate,
+  modelId,
+  TRAINING_DAYS,
+  trainModel,
+  type ModelKind,
+  type ModelMeta,
+  type TargetMetrics
+} from './index.js';
+
+dotenv.config();
+
+const cell = (metrics: TargetMetrics) =>
+  `${metrics.mae.toFixed(3)}${metrics.directionAccuracy === null ? '' : ` / ${metrics.directionAccuracy.toFixed(1)}%`}`;
+
+// Per output: validation, test and the baseline on the test windows
+function printReport(meta: ModelMeta) {
+  const { metrics } = meta;
+  console.log(`Stored v${meta.version} after ${meta.epochs} epochs: ${metrics.samples} training, ${metrics.validationSamples} validation, ${metrics.testSamples} test windows`);
+  console.table(Object.fromEntries(metrics.targets.map((target, i) => [
+    `${target.name} (${target.candles} candles)`,
+    { validation: cell(metrics.validation[i]), test: cell(target), baseline: cell(metrics.baseline[i]) }
+  ])));
+  const gate = modelGate(meta);
+  console.log(`${gate.passed ? 'Passes' : 'Fails'} the confidence gate: ${gate.reason}`);
+}
+
+async function main() {
+  const [crypto, interval = '1h', quote = 'usd', kind] = process.argv.slice(2);
+  if (!crypto || !isCandleInterval(interval) || !isQuoteCurrency(quote) || (kind && !MODEL_KINDS.includes(kind as ModelKind))) {
+    console.error(`Usage: npm run models:train -- <coin> [1h|4h|1d|1w] [quote] [${MODEL_KINDS.join('|')}]`);
+    process.exit(1);
+  }
+
+  await tf.setBackend('cpu');
+  const registry = createModelRegistry();
+  const candles = await createMarketDataProvider().getCandles(crypto, interval, TRAINING_DAYS[interval], { priority: 'history', quote });
+  for (const k of kind ? [kind as ModelKind] : MODEL_KINDS) {
+    const key = { kind: k, crypto, quote, interval };
+    console.log(`Training ${modelId(key)} on ${candles.length} candles...`);
+    printReport(registry.add(await trainModel(key, candles)));
+  }
+}
+
+main().catch(error => {
+  console.error('Training failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,284 @@
+/*
+ * Trains one model on one coin's candles. The windows are split by time into training,
+ * validation (early stopping) and a most recent test set, so the stored report says how the model
+ * did on candles it never saw, next to a baseline without a model. Runs in a worker thread in the
+ * server (see worker.ts) or inline from the command line (see train.ts).
+ */
+import * as tf from '@tensorflow/tfjs';
+import type { Candle } from '../providers/types.js';
+import { indicatorSeries } from '../../shared/analysis/engine.js';
+import { analyzeStructure } from '../../shared/analysis/swings.js';
+import {
+  horizonCandles,
+  LEVEL_FEATURES,
+  LEVEL_LOOKAHEAD,
+  LEVEL_OUTPUTS,
+  LEVEL_WINDOW,
+  levelFeatures,
+  levelOutputs,
+  levelTargets,
+  PRICE_FEATURES,
+  PRICE_HORIZONS,
+  PRICE_WINDOW,
+  priceFromOutput,
+  priceTarget,
+  priceWindow,
+  TREND_FEATURES,
+  TREND_LOOKAHEAD,
+  TREND_WINDOW,
+  trendFeatures,
+  trendTarget
+} from '../../shared/ml/features.js';
+import type { ModelKey, ModelMeta, StoredModel, TargetMetrics } from '../../shared/ml/types.js';
+
+export interface TrainingOptions {
+  epochs: number; // at most; training stops early when the validation loss stops improving
+  batchSize: number;
+  validationSplit: number; // share of the windows after the training ones, for early stopping
+  testSplit: number; // share of the most recent windows, for the report only
+  patience: number; // epochs without a better validation loss before stopping
+  maxSamples: number; // longer histories are subsampled evenly
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  epochs: 30,
+  batchSize: 32,
+  validationSplit: 0.15,
+  testSplit: 0.15,
+  patience: 5,
+  maxSamples: 1000
+};
+
+// A model as trained, before the registry gives it a version
+export type TrainedModel = { meta: Omit<ModelMeta, 'version'>; artifacts: StoredModel['artifacts'] };
+
+const WARMUP = 50; // candles before the indicators settle
+const MIN_SAMPLES = 100;
+
+interface Dataset {
+  inputs: number[][][] | number[][];
+  targets: number[][];
+  indices: number[]; // candle at the end of each input
+  closes: number[]; // close at the end of each input, to turn price outputs back into prices
+  baseline?: number[][]; // the rule's outputs per window, for level models
+  names: string[]; // per output
+  lookahead: number[]; // candles per output
+}
+
+// Sample indices from `first` to `last`, evenly thinned to at most `max`
+function sampleIndices(first: number, last: number, max: number): number[] {
+  const step = Math.max(1, Math.ceil((last - first + 1) / max));
+  const indices: number[] = [];
+  for (let i = first; i <= last; i += step) indices.push(i);
+  return indices;
+}
+
+function priceDataset(key: ModelKey, candles: Candle[], maxSamples: number): Dataset {
+  const points = indicatorSeries(candles);
+  const lookahead = horizonCandles(key.interval);
+  const indices = sampleIndices(Math.max(WARMUP, PRICE_WINDOW - 1), candles.length - 1 - Math.max(...lookahead), maxSamples);
+  return {
+    inputs: indices.map(i => priceWindow(candles, points, i)),
+    targets: indices.map(i => lookahead.map(h => priceTarget(candles[i].close, candles[i + h].close))),
+    indices,
+    closes: indices.map(i => candles[i].close),
+    names: [...PRICE_HORIZONS],
+    lookahead
+  };
+}
+
+function trendDataset(candles: Candle[], maxSamples: number): Dataset {
+  const indices = sampleIndices(Math.max(WARMUP, TREND_WINDOW - 1), candles.length - 1 - TREND_LOOKAHEAD, maxSamples);
+  return {
+    inputs: indices.map(i => trendFeatures(candles, i)),
+    targets: indices.map(i => [trendTarget(candles, i)]),
+    indices,
+    closes: indices.map(i => candles[i].close),
+    names: ['direction'],
+    lookahead: [TREND_LOOKAHEAD]
+  };
+}
+
+// Swings need the full window behind them, as the live analysis reads them
+function levelDataset(candles: Candle[], maxSamples: number): Dataset {
+  const points = indicatorSeries(candles);
+  const indices = sampleIndices(LEVEL_WINDOW - 1, candles.length - 1 - LEVEL_LOOKAHEAD, maxSamples);
+  return {
+    inputs: indices.map(i => levelFeatures(candles, points, i)),
+    targets: indices.map(i => levelTargets(candles, points, i)),
+    indices,
+    closes: indices.map(i => candles[i].close),
+    baseline: indices.map(i => {
+      const window = candles.slice(i + 1 - LEVEL_WINDOW, i + 1);
+      return levelOutputs(analyzeStructure(window, candles[i].close).levels, points[i]);
+    }),
+    names: [...LEVEL_OUTPUTS],
+    lookahead: LEVEL_OUTPUTS.map(() => LEVEL_LOOKAHEAD)
+  };
+}
+
+function dataset(key: ModelKey, candles: Candle[], maxSamples: number): Dataset {
+  if (key.kind === 'price') return priceDataset(key, candles, maxSamples);
+  return key.kind === 'trend' ? trendDataset(candles, maxSamples) : levelDataset(candles, maxSamples);
+}
+
+/*
+ * Window rows for each split, oldest first. A window whose target reaches into the next split's
+ * candles is dropped, so no split learns from prices the next one is scored on. The gap is the
+ * shortest lookahead: the price model's longer horizons would purge most of an hourly history,
+ * so their validation and test scores can read a little high.
+ */
+function splitByTime(data: Dataset, options: TrainingOptions): { train: number[]; validation: number[]; test: number[] } {
+  const count = data.indices.length;
+  const validationFrom = Math.floor(count * (1 - options.validationSplit - options.testSplit));
+  const testFrom = Math.floor(count * (1 - options.testSplit));
+  const gap = Math.min(...data.lookahead);
+  const rows = (from: number, to: number, before?: number) => {
+    const result: number[] = [];
+    for (let row = from; row < to; row++) {
+      if (before === undefined || data.indices[row] + gap < before) result.push(row);
+    }
+    return result;
+  };
+  return {
+    train: rows(0, validationFrom, data.indices[validationFrom]),
+    validation: rows(validationFrom, testFrom, data.indices[testFrom]),
+    test: rows(testFrom, count)
+  };
+}
+
+// The dashboard's price LSTM, slimmed down so it trains on a CPU; small dense nets for trend and levels
+function createModel(key: ModelKey, outputs: number): tf.Sequential {
+  const model = tf.sequential();
+  if (key.kind === 'price') {
+    model.add(tf.layers.lstm({ units: 64, returnSequences: true, inputShape: [PRICE_WINDOW, PRICE_FEATURES.length] }));
+    model.add(tf.layers.dropout({ rate: 0.2 }));
+    model.add(tf.layers.lstm({ units: 32, returnSequences: false }));
+    model.add(tf.layers.dropout({ rate: 0.2 }));
+    model.add(tf.layers.dense({ units: 16, activation: 'relu' }));
+    model.add(tf.layers.dense({ units: outputs }));
+    // Huber is more robust to the odd crash candle than squared error
+    model.compile({ optimizer: tf.train.adam(0.001), loss: (yTrue: tf.Tensor, yPred: tf.Tensor) => tf.losses.huberLoss(yTrue, yPred) });
+  } else if (key.kind === 'trend') {
+    model.add(tf.layers.dense({ units: 32, activation: 'relu', inputShape: [TREND_FEATURES.length] }));
+    model.add(tf.layers.dropout({ rate: 0.2 }));
+    model.add(tf.layers.dense({ units: 16, activation: 'relu' }));
+    model.add(tf.layers.dense({ units: outputs, activation: 'tanh' }));
+    model.compile({ optimizer: tf.train.adam(0.001), loss: 'meanSquaredError' });
+  } else {
+    model.add(tf.layers.dense({ units: 64, activation: 'relu', inputShape: [LEVEL_FEATURES.length] }));
+    model.add(tf.layers.dropout({ rate: 0.2 }));
+    model.add(tf.layers.dense({ units: 32, activation: 'relu' }));
+    model.add(tf.layers.dense({ units: outputs }));
+    model.compile({ optimizer: tf.train.adam(0.001), loss: (yTrue: tf.Tensor, yPred: tf.Tensor) => tf.losses.huberLoss(yTrue, yPred) });
+  }
+  return model;
+}
+
+// Error and hit rate of the predicted direction per output over `rows`, each predicted by `guessFor`
+function targetMetrics(key: ModelKey, data: Dataset, rows: number[], guessFor: (row: number, output: number) => number): TargetMetrics[] {
+  return data.names.map((name, o) => {
+    let error = 0;
+    let hits = 0;
+    for (const row of rows) {
+      const actual = data.targets[row][o];
+      const guess = guessFor(row, o);
+      if (key.kind === 'price') {
+        const close = data.closes[row];
+        error += Math.abs(priceFromOutput(close, guess) / priceFromOutput(close, actual) - 1) * 100;
+      } else {
+        error += Math.abs(guess - actual);
+      }
+      if (Math.sign(guess) === Math.sign(actual)) hits++;
+    }
+    return {
+      name,
+      candles: data.lookahead[o],
+      mae: Math.round((error / rows.length) * 1000) / 1000,
+      directionAccuracy: key.kind === 'level' ? null : Math.round((hits / rows.length) * 1000) / 10
+    };
+  });
+}
+
+// Outputs for the given windows, one row each
+async function predictRows(model: tf.Sequential, inputs: tf.Tensor, rows: number[]): Promise<Map<number, number[]>> {
+  const selected = tf.gather(inputs, rows);
+  const output = model.predict(selected) as tf.Tensor;
+  const values = (await output.array()) as number[][];
+  selected.dispose();
+  output.dispose();
+  return new Map(rows.map((row, i) => [row, values[i]]));
+}
+
+export async function trainModel(key: ModelKey, candles: Candle[], overrides: Partial<TrainingOptions> = {}): Promise<TrainedModel> {
+  const options = { ...DEFAULT_TRAINING_OPTIONS, ...overrides };
+  const data = dataset(key, candles, options.maxSamples);
+  const split = splitByTime(data, options);
+  if (split.train.length < MIN_SAMPLES || split.validation.length === 0 || split.test.length === 0) {
+    throw new RangeError(`${split.train.length} training windows from ${candles.length} ${key.interval} candles, need ${MIN_SAMPLES}`);
+  }
+
+  const model = createModel(key, data.names.length);
+  const inputs = key.kind === 'price'
+    ? tf.tensor3d(data.inputs as number[][][])
+    : tf.tensor2d(data.inputs as number[][]);
+  const targets = tf.tensor2d(data.targets);
+  const trainInputs = tf.gather(inputs, split.train);
+  const trainTargets = tf.gather(targets, split.train);
+  const validationInputs = tf.gather(inputs, split.validation);
+  const validationTargets = tf.gather(targets, split.validation);
+
+  try {
+    const history = await model.fit(trainInputs, trainTargets, {
+      epochs: options.epochs,
+      batchSize: options.batchSize,
+      validationData: [validationInputs, validationTargets],
+      shuffle: true,
+      verbose: 0,
+      callbacks: [tf.callbacks.earlyStopping({ monitor: 'val_loss', patience: options.patience })]
+    });
+    const last = (name: string) => Number(history.history[name]?.[history.history[name].length - 1] ?? NaN);
+
+    const predicted = await predictRows(model, inputs, [...split.validation, ...split.test]);
+    const byModel = (row: number, o: number) => predicted.get(row)![o];
+    // Price and trend baseline: the mean target of the training windows, the drift a model has to beat
+    const drift = data.names.map((_, o) => split.train.reduce((sum, row) => sum + data.targets[row][o], 0) / split.train.length);
+    const byRule = (row: number, o: number) => (data.baseline ? data.baseline[row][o] : drift[o]);
+
+    let artifacts: tf.io.ModelArtifacts | null = null;
+    await model.save(tf.io.withSaveHandler(async saved => {
+      artifacts = saved;
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+    }));
+    const { modelTopology, weightSpecs, weightData } = artifacts!;
+
+    return {
+      meta: {
+        ...key,
+        createdAt: Date.now(),
+        trainingWindow: { from: candles[0].timestamp, to: candles[candles.length - 1].timestamp, candles: candles.length },
+        windowSize: key.kind === 'price' ? PRICE_WINDOW : 1,
+        features: key.kind === 'price' ? PRICE_FEATURES : key.kind === 'trend' ? TREND_FEATURES : LEVEL_FEATURES,
+        epochs: history.epoch.length,
+        metrics: {
+          trainLoss: last('loss'),
+          valLoss: last('val_loss'),
+          samples: split.train.length,
+          validationSamples: split.validation.length,
+          testSamples: split.test.length,
+          validation: targetMetrics(key, data, split.validation, byModel),
+          targets: targetMetrics(key, data, split.test, byModel),
+          baseline: targetMetrics(key, data, split.test, byRule)
+        }
+      },
+      artifacts: {
+        modelTopology: modelTopology as object,
+        weightSpecs: weightSpecs ?? [],
+        weightData: Buffer.from(weightData as ArrayBuffer).toString('base64')
+      }
+    };
+  } finally {
+    tf.dispose([inputs, targets, trainInputs, trainTargets, validationInputs, validationTargets]);
+    model.dispose();
+  }
+}
@@ -0,0 +1,27 @@
+/*
+ * Worker thread entry: trains one model off the server's event loop. TF.js on the CPU backend
+ * holds the thread for seconds per batch, which the HTTP server cannot afford.
+ */
+import { parentPort, workerData } from 'worker_threads';
+import * as tf from '@tensorflow/tfjs';
+import type { Candle } from '../providers/types.js';
+import { trainModel, type TrainedModel, type TrainingOptions } from './trainer.js';
+import type { ModelKey } from '../../shared/ml/types.js';
+
+export interface TrainingJob {
+  key: ModelKey;
+  candles: Candle[];
+  options?: Partial<TrainingOptions>;
+}
+
+export type TrainingReply = { ok: true; model: TrainedModel } | { ok: false; error: string };
+
+if (parentPort) {
+  const job = workerData as TrainingJob;
+  tf.setBackend('cpu')
+    .then(() => trainModel(job.key, job.candles, job.options))
+    .then(
+      model => parentPort!.postMessage({ ok: true, model } satisfies TrainingReply),
+      (error: Error) => parentPort!.postMessage({ ok: false, error: error.message } satisfies TrainingReply)
+    );
+}
@@ -0,0 +1,127 @@
+import type { PriceQuote } from './providers/index.js';
+
+// One callback per poll with every quote this subscriber watches that came back
+export interface PriceSubscriber {
+  onQuotes(quotes: Record<string, PriceQuote>): void;
+  onError?(error: Error, ids: string[]): void;
+}
+
+export type QuoteFetcher = (ids: string[]) => Promise<Record<string, PriceQuote>>;
+
+export interface PriceHubOptions {
+  intervalMs: number;
+}
+
+/*
+ * One poller for every WebSocket client. Coins are ref-counted by their subscribers: the hub
+ * fetches all watched coins in a single batch per tick and stops polling a coin (and the
+ * whole loop) once nobody is watching.
+ */
+export class PriceHub {
+  private watchers = new Map<string, Set<PriceSubscriber>>();
+  private latest = new Map<string, PriceQuote>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private queued = new Set<string>(); // added while a poll was in flight
+
+  constructor(private readonly fetchQuotes: QuoteFetcher, private readonly options: PriceHubOptions) {}
+
+  get watchedCoins(): string[] {
+    return Array.from(this.watchers.keys());
+  }
+
+  // Last known quotes, so late joiners can be sent a snapshot straight away
+  latestFor(ids: string[]): Record<string, PriceQuote> {
+    const quotes: Record<string, PriceQuote> = {};
+    for (const id of ids) {
+      const quote = this.latest.get(id);
+      if (quote) quotes[id] = quote;
+    }
+    return quotes;
+  }
+
+  subscribe(subscriber: PriceSubscriber, ids: string[]) {
+    const added: string[] = [];
+    for (const id of ids) {
+      let subscribers = this.watchers.get(id);
+      if (!subscribers) {
+        subscribers = new Set();
+        this.watchers.set(id, subscribers);
+        added.push(id);
+      }
+      subscribers.add(subscriber);
+    }
+
+    if (added.length > 0) {
+      console.log(`Price hub: now watching ${this.watchers.size} coin(s), added ${added.join(',')}`);
+      this.ensurePolling();
+      // Newly watched coins should not wait a full interval for their first quote; with a poll
+      // in flight they are fetched right after it
+      const fresh = added.filter(id => !this.latest.has(id));
+      if (this.polling) fresh.forEach(id => this.queued.add(id));
+      else this.poll(fresh);
+    }
+  }
+
+  unsubscribe(subscriber: PriceSubscriber, ids?: string[]) {
+    for (const id of ids || this.watchedCoins) {
+      const subscribers = this.watchers.get(id);
+      if (!subscribers) continue;
+      subscribers.delete(subscriber);
+      if (subscribers.size === 0) {
+        this.watchers.delete(id);
+        this.latest.delete(id);
+      }
+    }
+
+    if (this.watchers.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('Price hub: no watchers left, polling stopped');
+    }
+  }
+
+  private ensurePolling() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(this.watchedCoins), this.options.intervalMs);
+  }
+
+  private async poll(ids: string[]) {
+    // Skip a tick rather than stacking requests when the upstream is slow
+    if (ids.length === 0 || this.polling) return;
+    this.polling = true;
+
+    try {
+      const quotes = await this.fetchQuotes(ids);
+      const batches = new Map<PriceSubscriber, Record<string, PriceQuote>>();
+      for (const [id, quote] of Object.entries(quotes)) {
+        const subscribers = this.watchers.get(id);
+        if (!subscribers) continue; // unsubscribed while the request was in flight
+        this.latest.set(id, quote);
+        subscribers.forEach(subscriber => {
+          const batch = batches.get(subscriber) || {};
+          batch[id] = quote;
+          batches.set(subscriber, batch);
+        });
+      }
+      batches.forEach((batch, subscriber) => subscriber.onQuotes(batch));
+    } catch (error: any) {
+      console.error('Price hub: failed to fetch quotes:', error.message);
+      const notified = new Set<PriceSubscriber>();
+      for (const id of ids) {
+        this.watchers.get(id)?.forEach(subscriber => notified.add(subscriber));
+      }
+      notified.forEach(subscriber => subscriber.onError?.(error, ids.filter(id => this.watchers.get(id)?.has(subscriber))));
+    } finally {
+      this.polling = false;
+      this.pollQueued();
+    }
+  }
+
+  // Coins added during the last poll that are still watched and have no quote yet
+  private pollQueued() {
+    const ids = Array.from(this.queued).filter(id => this.watchers.has(id) && !this.latest.has(id));
+    this.queued.clear();
+    if (ids.length > 0) this.poll(ids);
+  }
+}
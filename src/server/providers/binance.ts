@@ -0,0 +1,194 @@
+import axios from 'axios';
+import { UpstreamScheduler, type RequestPriority } from '../scheduler.js';
+import { CANDLE_INTERVAL_MS } from '../../shared/candles.js';
+import { ProviderError, toProviderError } from './errors.js';
+import {
+  DEFAULT_QUOTE,
+  type Candle, type CandleInterval, type CoinMetadata, type CoinSearchResult, type HistorySeries,
+  type MarketDataProvider, type PriceQuote, type QuoteCurrency, type RequestOptions
+} from './types.js';
+
+// Binance allows 6000 request weight/minute per IP; klines and batch tickers cost 2-40 each
+const RATE = { capacity: 20, refillPerSecond: 5, maxWaitMs: 5000 };
+const MAX_KLINES = 1000; // per /klines request
+
+// Quote asset of the spot pair used for each quote currency (USD is approximated by USDT)
+const QUOTE_ASSETS: Record<QuoteCurrency, string> = {
+  usd: 'USDT',
+  eur: 'EUR',
+  gbp: 'GBP',
+  btc: 'BTC',
+  eth: 'ETH'
+};
+
+// The dashboard keys coins by CoinGecko id; map the ones Binance lists
+const SYMBOLS: Record<string, { symbol: string; name: string }> = {
+  'bitcoin': { symbol: 'BTC', name: 'Bitcoin' },
+  'ethereum': { symbol: 'ETH', name: 'Ethereum' },
+  'binancecoin': { symbol: 'BNB', name: 'BNB' },
+  'cardano': { symbol: 'ADA', name: 'Cardano' },
+  'solana': { symbol: 'SOL', name: 'Solana' },
+  'ripple': { symbol: 'XRP', name: 'XRP' },
+  'dogecoin': { symbol: 'DOGE', name: 'Dogecoin' },
+  'polkadot': { symbol: 'DOT', name: 'Polkadot' },
+  'avalanche-2': { symbol: 'AVAX', name: 'Avalanche' },
+  'chainlink': { symbol: 'LINK', name: 'Chainlink' },
+  'litecoin': { symbol: 'LTC', name: 'Litecoin' },
+  'tron': { symbol: 'TRX', name: 'TRON' },
+  'near': { symbol: 'NEAR', name: 'NEAR Protocol' },
+  'uniswap': { symbol: 'UNI', name: 'Uniswap' },
+  'cosmos': { symbol: 'ATOM', name: 'Cosmos Hub' },
+  'injective-protocol': { symbol: 'INJ', name: 'Injective' },
+  'render-token': { symbol: 'RENDER', name: 'Render' },
+  'sui': { symbol: 'SUI', name: 'Sui' },
+  'aptos': { symbol: 'APT', name: 'Aptos' },
+  'arbitrum': { symbol: 'ARB', name: 'Arbitrum' }
+};
+
+// Exchange-style provider backed by Binance spot tickers and klines (USDT, EUR, GBP, BTC and ETH pairs)
+export class BinanceProvider implements MarketDataProvider {
+  readonly name = 'binance';
+  private baseUrl = process.env.BINANCE_API_URL || 'https://api.binance.com/api/v3';
+  private scheduler = new UpstreamScheduler(this.name, RATE);
+
+  private pairFor(id: string, quote: QuoteCurrency = DEFAULT_QUOTE): string {
+    const entry = SYMBOLS[id];
+    const quoteAsset = QUOTE_ASSETS[quote];
+    if (!entry || entry.symbol === quoteAsset) {
+      throw new ProviderError(this.name, `No ${quoteAsset} pair known for ${id}`, { status: 404 });
+    }
+    return `${entry.symbol}${quoteAsset}`;
+  }
+
+  private async get(
+    path: string,
+    params: Record<string, unknown>,
+    priority: RequestPriority,
+    timeout = 15000
+  ) {
+    try {
+      return await this.scheduler.schedule(async () => {
+        const response = await axios.get(`${this.baseUrl}${path}`, { params, timeout });
+        return response.data;
+      }, { priority, key: `${path}?${JSON.stringify(params)}` });
+    } catch (error) {
+      const wrapped = toProviderError(this.name, error);
+      // Binance answers 418 once an IP keeps ignoring 429s; treat both as throttling
+      if (wrapped.status === 418) {
+        throw new ProviderError(this.name, wrapped.message, { status: 429, retryAfter: wrapped.retryAfter });
+      }
+      // 400 is "Invalid symbol": the pair is not listed in this quote asset
+      if (wrapped.status === 400) {
+        throw new ProviderError(this.name, wrapped.message, { status: 404 });
+      }
+      throw wrapped;
+    }
+  }
+
+  private toQuote(ticker: any): PriceQuote {
+    return {
+      price: parseFloat(ticker.lastPrice) || 0,
+      change24h: parseFloat(ticker.priceChangePercent) || 0,
+      marketCap: 0, // Not available from the exchange
+      lastUpdated: (ticker.closeTime || Date.now()) / 1000
+    };
+  }
+
+  async getPrice(id: string, options: RequestOptions = {}): Promise<PriceQuote> {
+    const ticker = await this.get(
+      '/ticker/24hr', { symbol: this.pairFor(id, options.quote) }, options.priority || 'interactive'
+    );
+    return this.toQuote(ticker);
+  }
+
+  async getPrices(ids: string[], options: RequestOptions = {}): Promise<Record<string, PriceQuote>> {
+    const quoteAsset = QUOTE_ASSETS[options.quote || DEFAULT_QUOTE];
+    const supported = ids.filter(id => SYMBOLS[id] && SYMBOLS[id].symbol !== quoteAsset);
+    if (supported.length === 0) return {};
+
+    const tickers = await this.get('/ticker/24hr', {
+      symbols: JSON.stringify(supported.map(id => this.pairFor(id, options.quote)))
+    }, options.priority || 'interactive');
+
+    const result: Record<string, PriceQuote> = {};
+    for (const id of supported) {
+      const ticker = (tickers || []).find((t: any) => t.symbol === this.pairFor(id, options.quote));
+      if (ticker) result[id] = this.toQuote(ticker);
+    }
+    return result;
+  }
+
+  async getHistory(id: string, days: number, options: RequestOptions = {}): Promise<HistorySeries> {
+    // Mirror CoinGecko's granularity: hourly up to 30 days, daily beyond
+    const interval = days > 30 ? '1d' : '1h';
+    const limit = Math.min(1000, days > 30 ? days : days * 24);
+    const klines = await this.get(
+      '/klines', { symbol: this.pairFor(id, options.quote), interval, limit }, options.priority || 'history', 20000
+    );
+
+    if (!Array.isArray(klines)) {
+      throw new ProviderError(this.name, 'Invalid response from Binance');
+    }
+
+    // Kline: [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+    return {
+      prices: klines.map((k: any[]) => [k[0], parseFloat(k[4])] as [number, number]),
+      volumes: klines.map((k: any[]) => [k[0], parseFloat(k[7])] as [number, number]),
+      marketCaps: []
+    };
+  }
+
+  // Binance supports every dashboard interval natively; ranges beyond MAX_KLINES candles are paged from the oldest
+  async getCandles(id: string, interval: CandleInterval, days: number, options: RequestOptions = {}): Promise<Candle[]> {
+    const symbol = this.pairFor(id, options.quote);
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+    const count = Math.max(1, Math.ceil(days * CANDLE_INTERVAL_MS['1d'] / intervalMs));
+    if (count <= MAX_KLINES) return this.getKlines({ symbol, interval, limit: count }, options);
+
+    const candles: Candle[] = [];
+    // Aligned to the interval, so repeated requests within a candle share their page keys
+    let startTime = (Math.floor(Date.now() / intervalMs) - count + 1) * intervalMs;
+    while (candles.length < count) {
+      const limit = Math.min(MAX_KLINES, count - candles.length);
+      const page = await this.getKlines({ symbol, interval, startTime, limit }, options);
+      candles.push(...page);
+      if (page.length < limit) break; // reached the current candle, or the pair is younger than the range
+      startTime = page[page.length - 1].timestamp + 1;
+    }
+    return candles;
+  }
+
+  private async getKlines(params: Record<string, unknown>, options: RequestOptions): Promise<Candle[]> {
+    const klines = await this.get('/klines', params, options.priority || 'history', 20000);
+
+    if (!Array.isArray(klines)) {
+      throw new ProviderError(this.name, 'Invalid response from Binance');
+    }
+
+    return klines.map((k: any[]) => ({
+      timestamp: k[0],
+      open: parseFloat(k[1]),
+      high: parseFloat(k[2]),
+      low: parseFloat(k[3]),
+      close: parseFloat(k[4]),
+      volume: parseFloat(k[7])
+    }));
+  }
+
+  async searchCoins(query: string): Promise<CoinSearchResult[]> {
+    const q = query.trim().toLowerCase();
+    return Object.entries(SYMBOLS)
+      .filter(([id, { symbol, name }]) =>
+        id.includes(q) || symbol.toLowerCase().includes(q) || name.toLowerCase().includes(q)
+      )
+      .map(([id, { symbol, name }]) => ({ id, symbol, name }));
+  }
+
+  async getMetadata(id: string): Promise<CoinMetadata> {
+    const entry = SYMBOLS[id];
+    if (!entry) {
+      throw new ProviderError(this.name, `Unknown coin: ${id}`, { status: 404 });
+    }
+    return { id, symbol: entry.symbol, name: entry.name };
+  }
+}
@@ -0,0 +1,164 @@
+import axios from 'axios';
+import { UpstreamScheduler, type RequestPriority } from '../scheduler.js';
+import { CANDLE_INTERVAL_MS, resampleCandles, trimToDays } from '../../shared/candles.js';
+import { ProviderError, toProviderError } from './errors.js';
+import {
+  DEFAULT_QUOTE,
+  type Candle, type CandleInterval, type CoinMetadata, type CoinSearchResult, type HistorySeries,
+  type MarketDataProvider, type PriceQuote, type RequestOptions
+} from './types.js';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+// Free tier: stay around 10 requests/minute with a small burst for page loads
+const RATE = { capacity: 3, refillPerSecond: 10 / 60, maxWaitMs: 5000 };
+const OHLC_DAYS = [1, 7, 14, 30, 90, 180, 365]; // the only ranges /ohlc accepts
+
+// /ohlc picks its own candle size from the requested range
+function ohlcGranularityMs(days: number): number {
+  if (days <= 2) return 30 * 60 * 1000;
+  if (days <= 30) return CANDLE_INTERVAL_MS['4h'];
+  return 4 * CANDLE_INTERVAL_MS['1d'];
+}
+
+export class CoinGeckoProvider implements MarketDataProvider {
+  readonly name = 'coingecko';
+  private scheduler = new UpstreamScheduler(this.name, RATE);
+  private apiKey = process.env.COINGECKO_API_KEY || process.env.VITE_COINGECKO_API_KEY;
+
+  private async get(
+    path: string,
+    params: Record<string, unknown>,
+    priority: RequestPriority,
+    timeout = 15000
+  ) {
+    // Long queues are rejected with the real wait so the fallback chain can try the next upstream
+    try {
+      return await this.scheduler.schedule(async () => {
+        const response = await axios.get(`${COINGECKO_API}${path}`, {
+          params,
+          timeout,
+          headers: {
+            'Accept': 'application/json',
+            'User-Agent': 'CryptoSensei-Dashboard/1.0',
+            ...(this.apiKey ? { 'x-cg-demo-api-key': this.apiKey } : {})
+          }
+        });
+        return response.data;
+      }, { priority, key: `${path}?${JSON.stringify(params)}` });
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  async getPrice(id: string, options: RequestOptions = {}): Promise<PriceQuote> {
+    const prices = await this.getPrices([id], options);
+    if (!prices[id]) {
+      throw new ProviderError(this.name, `Coin not found: ${id}`, { status: 404 });
+    }
+    return prices[id];
+  }
+
+  async getPrices(ids: string[], options: RequestOptions = {}): Promise<Record<string, PriceQuote>> {
+    const quote = options.quote || DEFAULT_QUOTE;
+    const data = await this.get('/simple/price', {
+      ids: ids.join(','),
+      vs_currencies: quote,
+      include_24hr_change: true,
+      include_market_cap: true,
+      include_last_updated_at: true
+    }, options.priority || 'interactive');
+
+    if (!data) {
+      throw new ProviderError(this.name, 'Invalid response from CoinGecko');
+    }
+
+    const result: Record<string, PriceQuote> = {};
+    for (const id of ids) {
+      const coinData = data[id];
+      if (!coinData) continue;
+      result[id] = {
+        price: coinData[quote] || 0,
+        change24h: coinData[`${quote}_24h_change`] || 0,
+        marketCap: coinData[`${quote}_market_cap`] || 0,
+        lastUpdated: coinData.last_updated_at || Date.now() / 1000
+      };
+    }
+    return result;
+  }
+
+  async getHistory(id: string, days: number, options: RequestOptions = {}): Promise<HistorySeries> {
+    const data = await this.get(`/coins/${id}/market_chart`, {
+      vs_currency: options.quote || DEFAULT_QUOTE,
+      days: days.toString(),
+      interval: days > 30 ? 'daily' : 'hourly'
+    }, options.priority || 'history', 20000); // 20 second timeout for historical data
+
+    if (!data || !data.prices) {
+      throw new ProviderError(this.name, 'Invalid response from CoinGecko');
+    }
+
+    return {
+      prices: data.prices || [],
+      volumes: data.total_volumes || [],
+      marketCaps: data.market_caps || []
+    };
+  }
+
+  async getCandles(id: string, interval: CandleInterval, days: number, options: RequestOptions = {}): Promise<Candle[]> {
+    const rangeDays = OHLC_DAYS.find(d => d >= days) || OHLC_DAYS[OHLC_DAYS.length - 1];
+    const nativeMs = ohlcGranularityMs(rangeDays);
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+
+    // Candles can only be merged, not split; let the chain ask an exchange instead
+    if (intervalMs % nativeMs !== 0) {
+      throw new ProviderError(this.name, `Interval ${interval} unavailable for ${rangeDays}d range`, { status: 404 });
+    }
+
+    const data = await this.get(`/coins/${id}/ohlc`, {
+      vs_currency: options.quote || DEFAULT_QUOTE,
+      days: rangeDays.toString()
+    }, options.priority || 'history', 20000);
+
+    if (!Array.isArray(data)) {
+      throw new ProviderError(this.name, 'Invalid response from CoinGecko');
+    }
+
+    // [time, open, high, low, close]; time is the candle close, and the endpoint carries no volume
+    const candles: Candle[] = data.map((row: number[]) => ({
+      timestamp: row[0] - nativeMs,
+      open: row[1],
+      high: row[2],
+      low: row[3],
+      close: row[4],
+      volume: 0
+    }));
+
+    return trimToDays(intervalMs === nativeMs ? candles : resampleCandles(candles, intervalMs), days);
+  }
+
+  async searchCoins(query: string, options: RequestOptions = {}): Promise<CoinSearchResult[]> {
+    const data = await this.get('/search', { query }, options.priority || 'search');
+    return (data?.coins || []).map((coin: any) => ({
+      id: coin.id,
+      symbol: String(coin.symbol || '').toUpperCase(),
+      name: coin.name
+    }));
+  }
+
+  async getMetadata(id: string, options: RequestOptions = {}): Promise<CoinMetadata> {
+    const data = await this.get(`/coins/${id}`, {
+      localization: false,
+      tickers: false,
+      market_data: false,
+      community_data: false,
+      developer_data: false
+    }, options.priority || 'search');
+
+    return {
+      id: data.id,
+      symbol: String(data.symbol || '').toUpperCase(),
+      name: data.name,
+      image: data.image?.small
+    };
+  }
+}
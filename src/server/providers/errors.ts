@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { SchedulerBusyError } from '../scheduler.js';
+
+// Raised by providers so the fallback chain can tell throttling apart from other failures
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfter?: number; // seconds
+
+  constructor(provider: string, message: string, options: { status?: number; retryAfter?: number } = {}) {
+    super(`[${provider}] ${message}`);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+// Normalize axios/unknown failures into a ProviderError, keeping the upstream status and Retry-After hint
+export function toProviderError(provider: string, error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+
+  // Our own queue is saturated: same as being throttled, with an exact wait
+  if (error instanceof SchedulerBusyError) {
+    return new ProviderError(provider, error.message, { status: 429, retryAfter: error.retryAfter });
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const retryAfterHeader = Number(error.response?.headers?.['retry-after']);
+    return new ProviderError(provider, error.message, {
+      status,
+      retryAfter: Number.isFinite(retryAfterHeader) && retryAfterHeader > 0 ? retryAfterHeader : undefined
+    });
+  }
+
+  return new ProviderError(provider, error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,153 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CANDLE_INTERVAL_MS, resampleCandles, trimToDays } from '../../shared/candles.js';
+import { ProviderError } from './errors.js';
+import {
+  DEFAULT_QUOTE,
+  type Candle, type CandleInterval, type CoinMetadata, type CoinSearchResult, type HistorySeries,
+  type MarketDataProvider, type PriceQuote, type RequestOptions
+} from './types.js';
+
+/*
+ * File-backed provider for offline development, demos and as a last-resort fallback.
+ * Each coin lives in `<dir>/<coin-id>.json`:
+ *   {
+ *     "id": "bitcoin", "symbol": "BTC", "name": "Bitcoin",
+ *     "price": { "price": 65000, "change24h": 1.2, "marketCap": 1.2e12 },
+ *     "history": { "prices": [[ts, v], ...], "total_volumes": [[ts, v], ...], "market_caps": [[ts, v], ...] },
+ *     "ohlc": [[ts, open, high, low, close, volume], ...]
+ *   }
+ * `ohlc` is optional and should be hourly; coarser intervals are resampled from it.
+ * Fixture prices are USD; other quote currencies fall through to the next provider.
+ */
+interface FixtureFile {
+  id: string;
+  symbol: string;
+  name: string;
+  price: { price: number; change24h?: number; marketCap?: number; lastUpdated?: number };
+  history?: {
+    prices?: [number, number][];
+    total_volumes?: [number, number][];
+    market_caps?: [number, number][];
+  };
+  ohlc?: [number, number, number, number, number, number?][];
+}
+
+export class FixtureProvider implements MarketDataProvider {
+  readonly name = 'fixture';
+  private files = new Map<string, FixtureFile>();
+
+  constructor(private readonly dir: string) {}
+
+  private async load(id: string): Promise<FixtureFile> {
+    const cached = this.files.get(id);
+    if (cached) return cached;
+
+    // Coin ids are used as file names; refuse anything that could escape the fixture dir
+    if (!/^[a-z0-9-]+$/i.test(id)) {
+      throw new ProviderError(this.name, `Invalid coin id: ${id}`, { status: 404 });
+    }
+
+    try {
+      const raw = await fs.readFile(path.join(this.dir, `${id}.json`), 'utf-8');
+      const fixture = JSON.parse(raw) as FixtureFile;
+      this.files.set(id, fixture);
+      return fixture;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new ProviderError(this.name, `No fixture for ${id}`, { status: 404 });
+      }
+      throw new ProviderError(this.name, `Failed to read fixture for ${id}: ${error.message}`);
+    }
+  }
+
+  private assertUsd(options: RequestOptions) {
+    const quote = options.quote || DEFAULT_QUOTE;
+    if (quote !== 'usd') {
+      throw new ProviderError(this.name, `Fixtures are quoted in USD, not ${quote.toUpperCase()}`, { status: 404 });
+    }
+  }
+
+  private async listIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.dir);
+      return entries.filter(f => f.endsWith('.json')).map(f => f.replace(/\.json$/, ''));
+    } catch {
+      return [];
+    }
+  }
+
+  async getPrice(id: string, options: RequestOptions = {}): Promise<PriceQuote> {
+    this.assertUsd(options);
+    const { price } = await this.load(id);
+    return {
+      price: price.price || 0,
+      change24h: price.change24h || 0,
+      marketCap: price.marketCap || 0,
+      lastUpdated: price.lastUpdated || Date.now() / 1000
+    };
+  }
+
+  async getPrices(ids: string[], options: RequestOptions = {}): Promise<Record<string, PriceQuote>> {
+    this.assertUsd(options);
+    const result: Record<string, PriceQuote> = {};
+    for (const id of ids) {
+      try {
+        result[id] = await this.getPrice(id);
+      } catch {
+        // Missing fixtures are simply left out, like unknown ids upstream
+      }
+    }
+    return result;
+  }
+
+  async getHistory(id: string, days: number, options: RequestOptions = {}): Promise<HistorySeries> {
+    this.assertUsd(options);
+    const { history } = await this.load(id);
+    const prices = history?.prices || [];
+    if (prices.length === 0) {
+      throw new ProviderError(this.name, `Fixture for ${id} has no history`, { status: 404 });
+    }
+
+    // Window relative to the last recorded point so fixtures do not go stale over time
+    const end = prices[prices.length - 1][0];
+    const start = end - days * 24 * 60 * 60 * 1000;
+    const inWindow = (series: [number, number][] = []) => series.filter(([ts]) => ts >= start);
+
+    return {
+      prices: inWindow(prices),
+      volumes: inWindow(history?.total_volumes),
+      marketCaps: inWindow(history?.market_caps)
+    };
+  }
+
+  async getCandles(id: string, interval: CandleInterval, days: number, options: RequestOptions = {}): Promise<Candle[]> {
+    this.assertUsd(options);
+    const { ohlc } = await this.load(id);
+    if (!ohlc || ohlc.length === 0) {
+      throw new ProviderError(this.name, `Fixture for ${id} has no candles`, { status: 404 });
+    }
+
+    const candles: Candle[] = ohlc.map(([timestamp, open, high, low, close, volume]) => ({
+      timestamp, open, high, low, close, volume: volume || 0
+    }));
+    return trimToDays(resampleCandles(candles, CANDLE_INTERVAL_MS[interval]), days);
+  }
+
+  async searchCoins(query: string): Promise<CoinSearchResult[]> {
+    const q = query.trim().toLowerCase();
+    const results: CoinSearchResult[] = [];
+    for (const id of await this.listIds()) {
+      const { symbol, name } = await this.load(id);
+      if (id.includes(q) || symbol.toLowerCase().includes(q) || name.toLowerCase().includes(q)) {
+        results.push({ id, symbol: symbol.toUpperCase(), name });
+      }
+    }
+    return results;
+  }
+
+  async getMetadata(id: string): Promise<CoinMetadata> {
+    const { symbol, name } = await this.load(id);
+    return { id, symbol: symbol.toUpperCase(), name };
+  }
+}
@@ -0,0 +1,158 @@
+import path from 'path';
+import { CoinGeckoProvider } from './coingecko.js';
+import { BinanceProvider } from './binance.js';
+import { FixtureProvider } from './fixture.js';
+import { ProviderError, toProviderError } from './errors.js';
+import type {
+  Candle, CandleInterval, CoinMetadata, CoinSearchResult, HistorySeries, MarketDataProvider, PriceQuote, RequestOptions
+} from './types.js';
+
+export * from './types.js';
+export { ProviderError } from './errors.js';
+export { isCandleInterval } from '../../shared/candles.js';
+
+const DEFAULT_PROVIDERS = 'coingecko,binance';
+const DEFAULT_COOLDOWN_SECONDS = 60; // when an upstream throttles us without a Retry-After hint
+
+/*
+ * Tries each upstream in order. A provider that throttles us is benched until its
+ * Retry-After elapses, so the next request goes straight to the next provider instead
+ * of waiting on the one that is known to be limited.
+ */
+export class FallbackProvider implements MarketDataProvider {
+  readonly name: string;
+  private cooldownUntil = new Map<string, number>();
+
+  constructor(private readonly providers: MarketDataProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('FallbackProvider requires at least one provider');
+    }
+    this.name = providers.map(p => p.name).join('>');
+  }
+
+  private available(): MarketDataProvider[] {
+    const now = Date.now();
+    return this.providers.filter(p => (this.cooldownUntil.get(p.name) || 0) <= now);
+  }
+
+  // Seconds until the first benched provider becomes usable again
+  private nextAvailableIn(): number {
+    const now = Date.now();
+    const waits = this.providers.map(p => Math.max(0, (this.cooldownUntil.get(p.name) || 0) - now));
+    return Math.ceil(Math.min(...waits) / 1000);
+  }
+
+  private recordFailure(provider: MarketDataProvider, error: ProviderError) {
+    if (error.isRateLimited) {
+      const seconds = error.retryAfter || DEFAULT_COOLDOWN_SECONDS;
+      this.cooldownUntil.set(provider.name, Date.now() + seconds * 1000);
+      console.warn(`Market data: ${provider.name} rate limited, benched for ${seconds}s`);
+    } else if (!error.isNotFound) {
+      console.warn(`Market data: ${provider.name} failed: ${error.message}`);
+    }
+  }
+
+  private summarize(errors: ProviderError[], operation: string): ProviderError {
+    if (errors.length === 0 || errors.every(e => e.isRateLimited)) {
+      return new ProviderError(this.name, `All upstreams rate limited (${operation})`, {
+        status: 429,
+        retryAfter: this.nextAvailableIn() || DEFAULT_COOLDOWN_SECONDS
+      });
+    }
+    if (errors.every(e => e.isNotFound || e.isRateLimited)) {
+      return new ProviderError(this.name, `Not found (${operation})`, { status: 404 });
+    }
+    return errors.find(e => !e.isRateLimited && !e.isNotFound) || errors[errors.length - 1];
+  }
+
+  private async attempt<T>(operation: string, call: (provider: MarketDataProvider) => Promise<T>): Promise<T> {
+    const errors: ProviderError[] = [];
+    for (const provider of this.available()) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        const wrapped = toProviderError(provider.name, error);
+        this.recordFailure(provider, wrapped);
+        errors.push(wrapped);
+      }
+    }
+    throw this.summarize(errors, operation);
+  }
+
+  getPrice(id: string, options?: RequestOptions): Promise<PriceQuote> {
+    return this.attempt(`price ${id}`, p => p.getPrice(id, options));
+  }
+
+  // Batch lookups are filled across providers: ids one upstream lacks are asked of the next
+  async getPrices(ids: string[], options?: RequestOptions): Promise<Record<string, PriceQuote>> {
+    const result: Record<string, PriceQuote> = {};
+    const errors: ProviderError[] = [];
+    let missing = [...ids];
+
+    for (const provider of this.available()) {
+      if (missing.length === 0) break;
+      try {
+        const partial = await provider.getPrices(missing, options);
+        Object.assign(result, partial);
+        missing = missing.filter(id => !partial[id]);
+      } catch (error) {
+        const wrapped = toProviderError(provider.name, error);
+        this.recordFailure(provider, wrapped);
+        errors.push(wrapped);
+      }
+    }
+
+    if (Object.keys(result).length === 0 && errors.length > 0) {
+      throw this.summarize(errors, `prices ${ids.join(',')}`);
+    }
+    return result;
+  }
+
+  getHistory(id: string, days: number, options?: RequestOptions): Promise<HistorySeries> {
+    return this.attempt(`history ${id}`, p => p.getHistory(id, days, options));
+  }
+
+  getCandles(id: string, interval: CandleInterval, days: number, options?: RequestOptions): Promise<Candle[]> {
+    return this.attempt(`candles ${id} ${interval}`, p => p.getCandles(id, interval, days, options));
+  }
+
+  searchCoins(query: string, options?: RequestOptions): Promise<CoinSearchResult[]> {
+    return this.attempt(`search ${query}`, p => p.searchCoins(query, options));
+  }
+
+  getMetadata(id: string, options?: RequestOptions): Promise<CoinMetadata> {
+    return this.attempt(`metadata ${id}`, p => p.getMetadata(id, options));
+  }
+}
+
+function createProvider(name: string): MarketDataProvider | null {
+  switch (name) {
+    case 'coingecko':
+      return new CoinGeckoProvider();
+    case 'binance':
+      return new BinanceProvider();
+    case 'fixture':
+      return new FixtureProvider(
+        path.resolve(process.env.MARKET_DATA_FIXTURE_DIR || 'fixtures/market-data')
+      );
+    default:
+      console.warn(`Market data: unknown provider "${name}" ignored`);
+      return null;
+  }
+}
+
+// Build the upstream chain from MARKET_DATA_PROVIDERS (comma-separated, in priority order)
+export function createMarketDataProvider(): FallbackProvider {
+  const names = (process.env.MARKET_DATA_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(',')
+    .map(n => n.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names
+    .map(createProvider)
+    .filter((p): p is MarketDataProvider => p !== null);
+
+  const chain = new FallbackProvider(providers.length > 0 ? providers : [new CoinGeckoProvider()]);
+  console.log(`Market data providers: ${chain.name}`);
+  return chain;
+}
@@ -0,0 +1,52 @@
+// Shared contract for upstream market-data sources (CoinGecko, exchanges, fixtures)
+
+import type { Candle, CandleInterval } from '../../shared/candles.js';
+import type { QuoteCurrency } from '../../shared/quotes.js';
+import type { RequestPriority } from '../scheduler.js';
+
+export type { Candle, CandleInterval } from '../../shared/candles.js';
+export { DEFAULT_QUOTE, QUOTE_CURRENCIES, isQuoteCurrency, type QuoteCurrency } from '../../shared/quotes.js';
+
+// Callers may override the default queue class of an operation (e.g. background refreshes)
+// and the currency prices are quoted in (USD unless given)
+export interface RequestOptions {
+  priority?: RequestPriority;
+  quote?: QuoteCurrency;
+}
+
+export interface PriceQuote {
+  price: number;
+  change24h: number;
+  marketCap: number;
+  lastUpdated: number; // unix seconds
+}
+
+// Raw [timestamp(ms), value] tuples, same shape CoinGecko's market_chart returns
+export interface HistorySeries {
+  prices: [number, number][];
+  volumes: [number, number][];
+  marketCaps: [number, number][];
+}
+
+export interface CoinSearchResult {
+  id: string;
+  symbol: string;
+  name: string;
+}
+
+export interface CoinMetadata {
+  id: string;
+  symbol: string;
+  name: string;
+  image?: string;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  getPrice(id: string, options?: RequestOptions): Promise<PriceQuote>;
+  getPrices(ids: string[], options?: RequestOptions): Promise<Record<string, PriceQuote>>;
+  getHistory(id: string, days: number, options?: RequestOptions): Promise<HistorySeries>;
+  getCandles(id: string, interval: CandleInterval, days: number, options?: RequestOptions): Promise<Candle[]>;
+  searchCoins(query: string, options?: RequestOptions): Promise<CoinSearchResult[]>;
+  getMetadata(id: string, options?: RequestOptions): Promise<CoinMetadata>;
+}
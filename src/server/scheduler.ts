@@ -0,0 +1,183 @@
+// Per-upstream request scheduler: token bucket, priority queue and in-flight coalescing
+
+export type RequestPriority = 'interactive' | 'history' | 'search' | 'background';
+
+// Lower rank is served first
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  interactive: 0,
+  history: 1,
+  search: 2,
+  background: 3
+};
+
+export interface SchedulerOptions {
+  capacity: number; // burst size (tokens the bucket holds)
+  refillPerSecond: number; // sustained request rate
+  maxWaitMs: number; // reject instead of queueing when the estimated wait is longer
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  key?: string; // identical keys share one upstream call while it is queued or running
+}
+
+export interface QueueStats {
+  upstream: string;
+  queueDepth: number;
+  queued: Record<RequestPriority, number>;
+  inflight: number;
+  tokens: number;
+  estimatedWaitMs: number; // for a new interactive request
+}
+
+// Raised when a request would wait longer than the upstream's maxWaitMs
+export class SchedulerBusyError extends Error {
+  readonly upstream: string;
+  readonly queueDepth: number;
+  readonly estimatedWaitMs: number;
+
+  constructor(upstream: string, queueDepth: number, estimatedWaitMs: number) {
+    super(`${upstream} queue is full (${queueDepth} queued, ~${Math.ceil(estimatedWaitMs / 1000)}s wait)`);
+    this.name = 'SchedulerBusyError';
+    this.upstream = upstream;
+    this.queueDepth = queueDepth;
+    this.estimatedWaitMs = estimatedWaitMs;
+  }
+
+  // Seconds until a request of the same priority would be sent
+  get retryAfter(): number {
+    return Math.max(1, Math.ceil(this.estimatedWaitMs / 1000));
+  }
+}
+
+interface QueuedTask {
+  priority: RequestPriority;
+  seq: number;
+  key?: string;
+  run: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+export class UpstreamScheduler {
+  private static registry = new Map<string, UpstreamScheduler>();
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: QueuedTask[] = [];
+  private pending = new Map<string, Promise<any>>();
+  private running = 0;
+  private seq = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(readonly name: string, private readonly options: SchedulerOptions) {
+    this.tokens = options.capacity;
+    UpstreamScheduler.registry.set(name, this);
+  }
+
+  // Queue snapshots for every upstream created in this process
+  static stats(): QueueStats[] {
+    return Array.from(UpstreamScheduler.registry.values()).map(s => s.stats());
+  }
+
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const priority = options.priority || 'interactive';
+
+    if (options.key) {
+      const existing = this.pending.get(options.key);
+      if (existing) {
+        this.promote(options.key, priority);
+        return existing;
+      }
+    }
+
+    const waitMs = this.estimateWait(priority);
+    if (waitMs > this.options.maxWaitMs) {
+      return Promise.reject(new SchedulerBusyError(this.name, this.queue.length, waitMs));
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      this.enqueue({ priority, seq: this.seq++, key: options.key, run: task, resolve, reject });
+    });
+
+    if (options.key) {
+      const key = options.key;
+      this.pending.set(key, promise);
+      const release = () => this.pending.delete(key);
+      promise.then(release, release);
+    }
+
+    this.drain();
+    return promise;
+  }
+
+  // Milliseconds before a new request at `priority` would be sent
+  estimateWait(priority: RequestPriority = 'interactive'): number {
+    this.refill();
+    const rank = PRIORITY_RANK[priority];
+    const ahead = this.queue.filter(t => PRIORITY_RANK[t.priority] <= rank).length;
+    const missing = ahead + 1 - this.tokens;
+    return missing <= 0 ? 0 : Math.ceil((missing / this.options.refillPerSecond) * 1000);
+  }
+
+  stats(): QueueStats {
+    const queued: Record<RequestPriority, number> = { interactive: 0, history: 0, search: 0, background: 0 };
+    for (const task of this.queue) queued[task.priority]++;
+
+    return {
+      upstream: this.name,
+      queueDepth: this.queue.length,
+      queued,
+      inflight: this.running,
+      tokens: Number(this.tokens.toFixed(2)),
+      estimatedWaitMs: this.estimateWait('interactive')
+    };
+  }
+
+  // A higher-priority request joining a queued task moves the task up to its priority
+  private promote(key: string, priority: RequestPriority) {
+    const index = this.queue.findIndex(t => t.key === key);
+    if (index === -1 || PRIORITY_RANK[this.queue[index].priority] <= PRIORITY_RANK[priority]) return;
+
+    const [task] = this.queue.splice(index, 1);
+    this.enqueue({ ...task, priority, seq: this.seq++ });
+    this.drain();
+  }
+
+  private enqueue(task: QueuedTask) {
+    // Keep the queue ordered by priority, FIFO within a priority
+    const index = this.queue.findIndex(t =>
+      PRIORITY_RANK[t.priority] > PRIORITY_RANK[task.priority]
+    );
+    if (index === -1) this.queue.push(task);
+    else this.queue.splice(index, 0, task);
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.capacity, this.tokens + elapsed * this.options.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain() {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const task = this.queue.shift()!;
+      this.tokens -= 1;
+      this.running++;
+      task.run()
+        .then(task.resolve, task.reject)
+        .finally(() => { this.running--; });
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const delay = Math.ceil(((1 - this.tokens) / this.options.refillPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, Math.max(delay, 10));
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { CANDLE_INTERVAL_MS } from '../../shared/candles.js';
+import {
+  DEFAULT_QUOTE, type CandleInterval, type HistorySeries, type QuoteCurrency, type RequestOptions
+} from '../providers/index.js';
+import type { SeriesPoint, SeriesRecord, SeriesResolution, TimeSeriesStore } from './store.js';
+
+export type HistoryFetcher = (id: string, days: number, options: RequestOptions) => Promise<HistorySeries>;
+
+export interface HistoryQuery {
+  from: number; // ms, inclusive
+  to: number; // ms, inclusive
+  interval: CandleInterval;
+}
+
+// HIT: served from the store, MISS: synced with the upstream first, STALE: sync failed, stored points served
+export type HistoryStatus = 'HIT' | 'MISS' | 'STALE';
+
+export interface HistoryResult {
+  points: SeriesPoint[];
+  resolution: SeriesResolution;
+  status: HistoryStatus;
+}
+
+interface ResolutionPolicy {
+  backfillDays: number; // depth of the first fetch, and the most any sync asks for (CoinGecko's free tier stops at 365 days)
+  retentionDays: number; // older points are dropped
+  refreshMs: number; // how long a synced series is served without asking the upstream
+}
+
+const DAY_MS = CANDLE_INTERVAL_MS['1d'];
+
+// The upstreams only return hourly samples up to 30 days back, so the hourly series fills up to
+// its retention through later syncs
+const POLICIES: Record<SeriesResolution, ResolutionPolicy> = {
+  '1h': { backfillDays: 30, retentionDays: 90, refreshMs: 15 * 60 * 1000 },
+  '1d': { backfillDays: 365, retentionDays: 5 * 365, refreshMs: 60 * 60 * 1000 }
+};
+
+// Intraday intervals are built from the hourly series, everything else from the daily one
+export function resolutionFor(interval: CandleInterval): SeriesResolution {
+  return CANDLE_INTERVAL_MS[interval] < DAY_MS ? '1h' : '1d';
+}
+
+// Collapse raw upstream samples (5m, hourly or daily depending on the range) to the last one per bucket
+export function bucketHistory(history: HistorySeries, stepMs: number): SeriesPoint[] {
+  const volumes = new Map(history.volumes.map(([ts, v]) => [ts, v]));
+  const marketCaps = new Map(history.marketCaps.map(([ts, v]) => [ts, v]));
+  const buckets = new Map<number, SeriesPoint>();
+
+  for (const [ts, price] of [...history.prices].sort((a, b) => a[0] - b[0])) {
+    if (!Number.isFinite(price) || price <= 0) continue;
+    const timestamp = Math.floor(ts / stepMs) * stepMs;
+    buckets.set(timestamp, {
+      timestamp,
+      price,
+      volume: volumes.get(ts) ?? 0,
+      marketCap: marketCaps.get(ts) ?? 0
+    });
+  }
+
+  return Array.from(buckets.values());
+}
+
+// Whether the samples are at least as fine as `stepMs`, going by the median spacing (upstreams
+// thin out long ranges, and daily samples must never be stored as an hourly series)
+export function matchesResolution(history: HistorySeries, stepMs: number): boolean {
+  const timestamps = history.prices.map(([ts]) => ts).sort((a, b) => a - b);
+  const gaps = timestamps.slice(1).map((ts, i) => ts - timestamps[i]).sort((a, b) => a - b);
+  return gaps.length === 0 || gaps[Math.floor(gaps.length / 2)] <= stepMs * 1.5;
+}
+
+// Newer samples replace stored ones in the same bucket (the latest bucket is still forming)
+function mergePoints(existing: SeriesPoint[], incoming: SeriesPoint[], cutoff: number): SeriesPoint[] {
+  const byTimestamp = new Map(existing.map(p => [p.timestamp, p]));
+  incoming.forEach(p => byTimestamp.set(p.timestamp, p));
+  return Array.from(byTimestamp.values())
+    .filter(p => p.timestamp >= cutoff)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Coarser buckets keep their last point, matching how the native series are built
+function resamplePoints(points: SeriesPoint[], intervalMs: number): SeriesPoint[] {
+  const buckets = new Map<number, SeriesPoint>();
+  for (const point of points) {
+    const timestamp = Math.floor(point.timestamp / intervalMs) * intervalMs;
+    buckets.set(timestamp, { ...point, timestamp });
+  }
+  return Array.from(buckets.values());
+}
+
+/*
+ * Per-coin price history kept locally at hourly and daily resolution, one series per quote currency. The first query for a
+ * series backfills its full depth; later ones only fetch the days since the last stored point,
+ * and at most once per `refreshMs`. Queries are answered from the store for any range.
+ */
+export class HistoryStore {
+  private series = new Map<string, SeriesRecord>();
+  private syncing = new Map<string, Promise<{ record: SeriesRecord; status: HistoryStatus }>>();
+
+  constructor(private readonly fetchHistory: HistoryFetcher, private readonly store: TimeSeriesStore) {}
+
+  async query(id: string, query: HistoryQuery, options: RequestOptions = {}): Promise<HistoryResult> {
+    const resolution = resolutionFor(query.interval);
+    const { record, status } = await this.sync(id, options.quote || DEFAULT_QUOTE, resolution, options);
+
+    const intervalMs = CANDLE_INTERVAL_MS[query.interval];
+    const inRange = record.points.filter(p => p.timestamp >= query.from && p.timestamp <= query.to);
+    const points = intervalMs === CANDLE_INTERVAL_MS[resolution] ? inRange : resamplePoints(inRange, intervalMs);
+
+    return { points, resolution, status };
+  }
+
+  private sync(id: string, quote: QuoteCurrency, resolution: SeriesResolution, options: RequestOptions) {
+    const key = `${id}:${quote}:${resolution}`;
+    const existing = this.syncing.get(key);
+    if (existing) return existing;
+
+    const pending = this.syncSeries(id, quote, resolution, options).finally(() => this.syncing.delete(key));
+    this.syncing.set(key, pending);
+    return pending;
+  }
+
+  private async syncSeries(
+    id: string,
+    quote: QuoteCurrency,
+    resolution: SeriesResolution,
+    options: RequestOptions
+  ): Promise<{ record: SeriesRecord; status: HistoryStatus }> {
+    const key = `${id}:${quote}:${resolution}`;
+    const policy = POLICIES[resolution];
+
+    let record = this.series.get(key) || await this.store.load(id, quote, resolution);
+    if (record) this.series.set(key, record);
+
+    const now = Date.now();
+    if (record && record.points.length > 0 && now - record.fetchedAt < policy.refreshMs) {
+      return { record, status: 'HIT' };
+    }
+
+    // Backfill the full depth once; afterwards only the gap since the last stored bucket, up to the
+    // backfill depth (a longer gap stays a hole rather than being filled with coarser samples)
+    const last = record?.points[record.points.length - 1];
+    const gapDays = last ? (now - last.timestamp) / DAY_MS : Infinity;
+    const days = gapDays >= policy.backfillDays ? policy.backfillDays : Math.max(1, Math.ceil(gapDays));
+
+    try {
+      const history = await this.fetchHistory(id, days, { ...options, quote });
+      if (!matchesResolution(history, CANDLE_INTERVAL_MS[resolution])) {
+        throw new Error(`upstream returned samples coarser than ${resolution} for ${days}d`);
+      }
+      const incoming = bucketHistory(history, CANDLE_INTERVAL_MS[resolution]);
+      const points = mergePoints(record?.points || [], incoming, now - policy.retentionDays * DAY_MS);
+      const updated: SeriesRecord = { id, quote, resolution, points, fetchedAt: now };
+      if (points.length === 0) return { record: updated, status: 'MISS' };
+
+      this.series.set(key, updated);
+      this.store.save(updated).catch(error => {
+        console.warn(`Time series: failed to persist ${key}: ${error.message}`);
+      });
+      console.log(`Time series: ${last ? 'appended' : 'backfilled'} ${incoming.length} ${resolution} point(s) for ${id} (${days}d fetched, ${points.length} stored)`);
+      return { record: updated, status: 'MISS' };
+    } catch (error: any) {
+      if (record && record.points.length > 0) {
+        console.warn(`Time series: sync of ${key} failed, serving stored points: ${error.message}`);
+        return { record, status: 'STALE' };
+      }
+      throw error;
+    }
+  }
+}
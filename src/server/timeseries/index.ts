@@ -0,0 +1,18 @@
+import path from 'path';
+import type { MarketDataProvider } from '../providers/index.js';
+import { HistoryStore } from './historyStore.js';
+import { FileTimeSeriesStore, MemoryTimeSeriesStore } from './store.js';
+
+export { HistoryStore, resolutionFor } from './historyStore.js';
+export type { HistoryQuery, HistoryResult, HistoryStatus } from './historyStore.js';
+export type { SeriesPoint, SeriesResolution } from './store.js';
+
+// Build the history store from TIMESERIES_STORE (`file` or `memory`) and TIMESERIES_DIR
+export function createHistoryStore(provider: MarketDataProvider): HistoryStore {
+  const storeName = (process.env.TIMESERIES_STORE || 'file').trim().toLowerCase();
+  const store = storeName === 'memory'
+    ? new MemoryTimeSeriesStore()
+    : new FileTimeSeriesStore(path.resolve(process.env.TIMESERIES_DIR || '.cache/timeseries'));
+
+  return new HistoryStore((id, days, options) => provider.getHistory(id, days, options), store);
+}
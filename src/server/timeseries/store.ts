@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import type { QuoteCurrency } from '../providers/index.js';
+
+// Native resolutions the store keeps; coarser query intervals are resampled from these
+export type SeriesResolution = '1h' | '1d';
+
+export interface SeriesPoint {
+  timestamp: number; // bucket start (ms)
+  price: number;
+  volume: number;
+  marketCap: number;
+}
+
+export interface SeriesRecord {
+  id: string;
+  quote: QuoteCurrency;
+  resolution: SeriesResolution;
+  points: SeriesPoint[]; // ascending, one per bucket
+  fetchedAt: number; // ms of the last successful upstream sync
+}
+
+export interface TimeSeriesStore {
+  readonly name: string;
+  load(id: string, quote: QuoteCurrency, resolution: SeriesResolution): Promise<SeriesRecord | null>;
+  save(record: SeriesRecord): Promise<void>;
+}
+
+// Process-local only; every restart backfills from scratch
+export class MemoryTimeSeriesStore implements TimeSeriesStore {
+  readonly name = 'memory';
+  private records = new Map<string, SeriesRecord>();
+
+  async load(id: string, quote: QuoteCurrency, resolution: SeriesResolution): Promise<SeriesRecord | null> {
+    return this.records.get(`${id}:${quote}:${resolution}`) || null;
+  }
+
+  async save(record: SeriesRecord): Promise<void> {
+    this.records.set(`${record.id}:${record.quote}:${record.resolution}`, record);
+  }
+}
+
+/*
+ * One JSON file per coin, quote currency and resolution under `dir`. Written via temp file + rename like the
+ * response cache, so an interrupted write keeps the previous series intact. Saves of one file run one after
+ * another, so an older series never lands after a newer one.
+ */
+export class FileTimeSeriesStore implements TimeSeriesStore {
+  readonly name = 'file';
+  private writing = new Map<string, Promise<void>>(); // last save per file
+
+  constructor(private readonly dir: string) {}
+
+  private fileFor(id: string, quote: QuoteCurrency, resolution: SeriesResolution): string {
+    // Coin ids are already slug-like; anything else must not escape the directory
+    const safeId = id.toLowerCase().replace(/[^a-z0-9-]/g, '_');
+    return path.join(this.dir, `${safeId}-${quote}-${resolution}.json`);
+  }
+
+  async load(id: string, quote: QuoteCurrency, resolution: SeriesResolution): Promise<SeriesRecord | null> {
+    const file = this.fileFor(id, quote, resolution);
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+      return Array.isArray(parsed?.points) ? parsed : null;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn(`Time series: could not read ${file}, backfilling again: ${error.message}`);
+      }
+      return null;
+    }
+  }
+
+  save(record: SeriesRecord): Promise<void> {
+    const file = this.fileFor(record.id, record.quote, record.resolution);
+    const write = (this.writing.get(file) || Promise.resolve()).catch(() => {}).then(async () => {
+      const tmp = `${file}.tmp`;
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(tmp, JSON.stringify({ version: 1, ...record }));
+      await fs.promises.rename(tmp, file);
+    });
+    this.writing.set(file, write);
+    write.finally(() => {
+      if (this.writing.get(file) === write) this.writing.delete(file);
+    }).catch(() => {});
+    return write;
+  }
+}
@@ -0,0 +1,204 @@
+import { WebSocket, type WebSocketServer } from 'ws';
+import type { PriceHub, PriceSubscriber } from '../priceHub.js';
+import { QUOTE_CURRENCIES, type QuoteCurrency } from '../../shared/quotes.js';
+import {
+  MAX_SUBSCRIPTIONS,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  WS_CLOSE_PROTOCOL_ERROR,
+  diffTick,
+  isValidSymbol,
+  parseClientMessage,
+  toPriceTick,
+  type ClientMessage,
+  type PriceTick,
+  type ServerMessage,
+  type WsErrorCode
+} from '../../shared/ws/protocol.js';
+
+export interface PriceSocketOptions {
+  heartbeatMs: number;
+}
+
+// One shared hub per quote currency
+export type PriceHubLookup = (quote: QuoteCurrency) => PriceHub;
+
+// Highest version both sides speak, or null when the client is too old for this server
+function negotiateVersion(clientVersion: number): number | null {
+  const usable = SUPPORTED_PROTOCOL_VERSIONS.filter(v => v <= clientVersion);
+  return usable.length > 0 ? Math.max(...usable) : null;
+}
+
+// Per quote currency: the watched symbols, what the client already has, and the hub subscription
+interface QuoteChannel {
+  watching: Set<string>;
+  lastSent: Map<string, PriceTick>;
+  subscriber: PriceSubscriber;
+}
+
+/*
+ * One session per socket: handshake, subscription bookkeeping against the shared price hubs,
+ * and snapshot/delta encoding. `lastSent` holds what the client already has so deltas only
+ * carry changed fields.
+ */
+function handleConnection(ws: WebSocket, hubFor: PriceHubLookup, options: PriceSocketOptions) {
+  const channels = new Map<QuoteCurrency, QuoteChannel>();
+  let version: number | null = null;
+  let seq = 0;
+
+  const send = (message: ServerMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const sendError = (code: WsErrorCode, message: string, symbols?: string[]) => {
+    send({ type: 'error', code, message, ...(symbols ? { symbols } : {}) });
+  };
+
+  const subscriptionCount = () =>
+    Array.from(channels.values()).reduce((total, channel) => total + channel.watching.size, 0);
+
+  const channelFor = (quote: QuoteCurrency): QuoteChannel => {
+    const existing = channels.get(quote);
+    if (existing) return existing;
+
+    const watching = new Set<string>();
+    const lastSent = new Map<string, PriceTick>();
+    const subscriber: PriceSubscriber = {
+      onQuotes(quotes) {
+        const changes: Record<string, Partial<PriceTick>> = {};
+        for (const [id, priceQuote] of Object.entries(quotes)) {
+          if (!watching.has(id)) continue;
+          const tick = toPriceTick(priceQuote);
+          const diff = diffTick(lastSent.get(id), tick);
+          lastSent.set(id, tick);
+          if (Object.keys(diff).length > 0) changes[id] = diff;
+        }
+        if (Object.keys(changes).length > 0) send({ type: 'delta', seq: ++seq, quote, changes });
+      },
+      onError(_error, ids) {
+        sendError('UPSTREAM_UNAVAILABLE', `${quote.toUpperCase()} price upstream unavailable, retrying on the next tick`, ids);
+      }
+    };
+
+    const channel = { watching, lastSent, subscriber };
+    channels.set(quote, channel);
+    return channel;
+  };
+
+  const sendSubscriptions = () => {
+    const subscriptions: Partial<Record<QuoteCurrency, string[]>> = {};
+    channels.forEach((channel, quote) => {
+      if (channel.watching.size > 0) subscriptions[quote] = Array.from(channel.watching);
+    });
+    send({ type: 'subscriptions', subscriptions });
+  };
+
+  const subscribe = (symbols: string[], quote: QuoteCurrency) => {
+    const invalid = symbols.filter(s => !isValidSymbol(s));
+    if (invalid.length > 0) {
+      sendError('INVALID_SYMBOL', 'Symbols must be lowercase coin ids', invalid);
+    }
+
+    const channel = channelFor(quote);
+    const fresh = Array.from(new Set(symbols.filter(s => isValidSymbol(s) && !channel.watching.has(s))));
+    const room = MAX_SUBSCRIPTIONS - subscriptionCount();
+    const accepted = fresh.slice(0, Math.max(0, room));
+    if (accepted.length < fresh.length) {
+      sendError('TOO_MANY_SUBSCRIPTIONS', `At most ${MAX_SUBSCRIPTIONS} symbol/quote pairs per connection`, fresh.slice(accepted.length));
+    }
+
+    accepted.forEach(s => channel.watching.add(s));
+    sendSubscriptions();
+    if (accepted.length === 0) return;
+
+    // Snapshot what the hub already knows; coins it has never seen arrive as full deltas
+    const hub = hubFor(quote);
+    const prices: Record<string, PriceTick> = {};
+    for (const [id, priceQuote] of Object.entries(hub.latestFor(accepted))) {
+      prices[id] = toPriceTick(priceQuote);
+      channel.lastSent.set(id, prices[id]);
+    }
+    send({ type: 'snapshot', seq: ++seq, quote, prices });
+    hub.subscribe(channel.subscriber, accepted);
+  };
+
+  const unsubscribe = (symbols?: string[], quote?: QuoteCurrency) => {
+    for (const channelQuote of quote ? [quote] : QUOTE_CURRENCIES) {
+      const channel = channels.get(channelQuote);
+      if (!channel) continue;
+      const dropped = (symbols || Array.from(channel.watching)).filter(s => channel.watching.has(s));
+      hubFor(channelQuote).unsubscribe(channel.subscriber, dropped);
+      dropped.forEach(s => {
+        channel.watching.delete(s);
+        channel.lastSent.delete(s);
+      });
+    }
+    sendSubscriptions();
+  };
+
+  const handle = (message: ClientMessage) => {
+    if (message.type === 'ping') {
+      send({ type: 'pong', ts: message.ts ?? Date.now() });
+      return;
+    }
+
+    if (message.type === 'hello') {
+      const negotiated = negotiateVersion(message.version);
+      if (negotiated === null) {
+        sendError('UNSUPPORTED_VERSION', `Supported protocol versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`);
+        ws.close(WS_CLOSE_PROTOCOL_ERROR, 'Unsupported protocol version');
+        return;
+      }
+      version = negotiated;
+      console.log(`WebSocket client ${message.client || 'unknown'} speaking protocol v${version}`);
+      send({
+        type: 'hello',
+        version,
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        heartbeatMs: options.heartbeatMs,
+        maxSubscriptions: MAX_SUBSCRIPTIONS,
+        quotes: QUOTE_CURRENCIES,
+        serverTime: Date.now()
+      });
+      return;
+    }
+
+    if (version === null) {
+      sendError('HELLO_REQUIRED', 'Send a hello message before subscribing');
+      return;
+    }
+
+    if (message.type === 'subscribe') subscribe(message.symbols, message.quote);
+    else unsubscribe(message.symbols, message.quote);
+  };
+
+  const heartbeat = setInterval(() => {
+    if (version !== null) send({ type: 'heartbeat', ts: Date.now() });
+  }, options.heartbeatMs);
+
+  ws.on('message', (raw: Buffer) => {
+    const parsed = parseClientMessage(raw.toString());
+    if (parsed.ok === false) {
+      sendError(parsed.code, parsed.error);
+      return;
+    }
+    try {
+      handle(parsed.message);
+    } catch (error) {
+      console.error('WebSocket message error:', error);
+    }
+  });
+
+  ws.on('close', () => {
+    console.log('Client disconnected');
+    clearInterval(heartbeat);
+    channels.forEach((channel, quote) => hubFor(quote).unsubscribe(channel.subscriber));
+    channels.clear();
+  });
+}
+
+export function attachPriceSocket(wss: WebSocketServer, hubFor: PriceHubLookup, options: PriceSocketOptions) {
+  wss.on('connection', (ws: WebSocket) => {
+    console.log('Client connected');
+    handleConnection(ws, hubFor, options);
+  });
+}
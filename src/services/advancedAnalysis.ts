@@ -1,9 +1,35 @@
-import { api } from './api';
 import * as tf from '@tensorflow/tfjs';
-import { mlModels } from './ml/models';
+import { mlModels, type LoadedModel } from './ml/models';
+import type { Checkpoint } from './worker/protocol';
 import { strategyGenerator } from './strategy/strategyGenerator';
-import { TechnicalSignals } from './types';
-import { priceStore } from './priceStore';
+import {
+  BreakoutEntry,
+  Candle,
+  ChartPattern,
+  Confluence,
+  Divergence,
+  FibonacciLevels,
+  QuoteCurrency,
+  StoredModel,
+  TechnicalSignals,
+  TrendSystems
+} from './types';
+import { roundPrice } from '../lib/currency';
+import { calculateATR, calculateStochastic } from './candles';
+import {
+  analyzeTrendSystems,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  calculateStochRSI,
+  calculateVolatility
+} from '../shared/analysis/indicators';
+import { emaSeries, indicatorSeries, volatilitySeries } from '../shared/analysis/engine';
+import { analyzeStructure, findSwings } from '../shared/analysis/swings';
+import { findDivergences } from '../shared/analysis/divergences';
+import { findChartPatterns } from '../shared/analysis/patterns';
+import { levelFeatures, levelsFromOutput, trendFeatures } from '../shared/ml/features';
+import { modelGate } from '../shared/ml/gate';
 
 // Export the interface
 export interface AdvancedAnalysis {
@@ -18,20 +44,27 @@ export interface AdvancedAnalysis {
       resistance: number;
       strongResistance: number;
     };
+    fibonacci: FibonacciLevels | null;
   };
+  chartPatterns: ChartPattern[]; // from the hourly swings, latest of each type
+  confluence: Confluence | null; // trend, momentum and levels across 1h/4h/1d/1w; null when the server has none
   technicalSignals: {
     trend: {
       primary: string;
       secondary: string;
       strength: number;
+      ichimoku: TrendSystems['ichimoku'] | null;
+      supertrend: TrendSystems['supertrend'] | null;
     };
     momentum: {
       rsi: { value: number; signal: string; };
       macd: { value: number; signal: string; };
       stochRSI: { value: number; signal: string; };
+      stochastic: { value: number; signal: string; };
     };
     volatility: {
       current: number;
+      atr: number;
       trend: string;
       risk: 'low' | 'medium' | 'high';
     };
@@ -40,6 +73,7 @@ export interface AdvancedAnalysis {
       trend: string;
       significance: 'weak' | 'moderate' | 'strong';
     };
+    divergences: Divergence[];
   };
   sentimentAnalysis: {
     overall: {
@@ -110,24 +144,47 @@ export interface AdvancedAnalysis {
       secondary: number;
       final: number;
     };
+    breakouts: BreakoutEntry[];
     timeframe: string;
     rationale: string[];
   };
 }
 
+// Everything the analysis reads, fetched on the main thread and handed to the analysis worker
+export interface AnalysisInputs {
+  crypto: string;
+  quote: QuoteCurrency;
+  currentPrice: number;
+  prices: number[];
+  volumes: number[];
+  candles: Candle[];
+  sentiment: any;
+  news: any[];
+  confluence: Confluence | null;
+  models: AnalysisModels; // null where the server has not trained one yet
+}
+
+interface AnalysisModels {
+  trend: StoredModel | null;
+  level: StoredModel | null;
+}
+
+export const ANALYSIS_STAGES = ['Chart patterns', 'Technical signals', 'Market phase', 'Price targets', 'Risk', 'Sentiment and strategy'] as const;
+type AnalysisStage = typeof ANALYSIS_STAGES[number];
+
 class AdvancedAnalysisService {
-  private async calculateMarketPhase(prices: number[], volumeData: number[], _crypto: string) {
+  private async calculateMarketPhase(prices: number[], volumeData: number[], candles: Candle[], crypto: string, models: AnalysisModels) {
     try {
-      if (!Array.isArray(prices) || !Array.isArray(volumeData)) {
+      if (!Array.isArray(prices) || !Array.isArray(volumeData) || !Array.isArray(candles)) {
         throw new Error('Invalid input data');
       }
 
       const currentPrice = prices[prices.length - 1];
 
       // Calculate moving averages
-      const ma20 = this.calculateSMA(prices, 20);
-      const ma50 = this.calculateSMA(prices, 50);
-      const ma200 = this.calculateSMA(prices, 200);
+      const ma20 = calculateSMA(prices, 20);
+      const ma50 = calculateSMA(prices, 50);
+      const ma200 = calculateSMA(prices, 200);
 
       // Calculate trend structure
       const trendStructure = {
@@ -138,26 +195,11 @@ class AdvancedAnalysisService {
         ma20AboveMA50: ma20 > ma50
       };
 
-      // Calculate support and resistance using recent price action
-      const recentPrices = prices.slice(-20);
-      const highPrice = Math.max(...recentPrices);
-      const lowPrice = Math.min(...recentPrices);
-
-      // Calculate dynamic support and resistance using multiple factors
-      const support = Math.max(
-        lowPrice,
-        Math.min(ma20, ma50) * 0.995, // 0.5% below lowest MA
-        currentPrice * 0.95 // Maximum 5% below current price
-      );
-
-      const resistance = Math.max(
-        Math.min(
-          highPrice,
-          Math.max(ma20, ma50) * 1.005, // 0.5% above highest MA
-          currentPrice * 1.05 // Maximum 5% above current price
-        ),
-        support * 1.01 // Ensure resistance is above support
-      );
+      // Support and resistance from the coin's trained level model once it beats the structure on
+      // held-out candles, else from swing highs/lows and the Fibonacci levels of the dominant swing
+      const { fibonacci, levels: structure } = analyzeStructure(candles, currentPrice);
+      const levels = (await this.predictKeyLevels(candles, crypto, models.level)) ?? structure;
+      const { support, resistance } = levels;
 
       // Determine market phase
       let phase = 'sideways';
@@ -172,7 +214,7 @@ class AdvancedAnalysisService {
       }
 
       // Calculate trend strength
-      const trendStrength = await this.analyzeTrendStrength(prices, volumeData);
+      const trendStrength = await this.analyzeTrendStrength(candles, crypto, models.trend);
       const phaseStrength = Math.abs(trendStrength);
 
       // Calculate confidence
@@ -185,19 +227,19 @@ class AdvancedAnalysisService {
 
       // Ensure all values are valid numbers
       const keyLevels = {
-        strongSupport: Number((support * 0.99).toFixed(2)),
-        support: Number(support.toFixed(2)),
-        pivot: Number(currentPrice.toFixed(2)),
-        resistance: Number(resistance.toFixed(2)),
-        strongResistance: Number((resistance * 1.01).toFixed(2))
+        strongSupport: roundPrice(levels.strongSupport),
+        support: roundPrice(support),
+        pivot: roundPrice(currentPrice),
+        resistance: roundPrice(resistance),
+        strongResistance: roundPrice(levels.strongResistance)
       };
 
       // Validate key levels
       if (isNaN(keyLevels.resistance) || keyLevels.resistance === 0) {
-        keyLevels.resistance = Number((currentPrice * 1.05).toFixed(2)); // 5% above current price
+        keyLevels.resistance = roundPrice(currentPrice * 1.05); // 5% above current price
       }
       if (isNaN(keyLevels.strongResistance) || keyLevels.strongResistance === 0) {
-        keyLevels.strongResistance = Number((keyLevels.resistance * 1.01).toFixed(2));
+        keyLevels.strongResistance = roundPrice(keyLevels.resistance * 1.01);
       }
 
       console.log('Market Phase Calculation:', {
@@ -207,14 +249,16 @@ class AdvancedAnalysisService {
         ma200,
         support,
         resistance,
-        keyLevels
+        keyLevels,
+        fibonacci
       });
 
       return {
         phase,
         strength: Number(phaseStrength.toFixed(2)),
         confidence: Number(confidence.toFixed(2)),
-        keyLevels
+        keyLevels,
+        fibonacci
       };
     } catch (error) {
       console.error('Error calculating market phase:', error);
@@ -229,27 +273,52 @@ class AdvancedAnalysisService {
           pivot: prices[prices.length - 1] || 0,
           resistance: 0,
           strongResistance: 0
-        }
+        },
+        fibonacci: null
       };
     }
   }
 
  
 
-  private async analyzeTrendStrength(prices: number[], volumes: number[]) {
-    // Calculate multiple trend indicators
-    const adx = this.calculateADX(prices, 14);
-    const trendIntensity = this.calculateTrendIntensity(prices);
-    const priceROC = this.calculatePriceROC(prices);
-    const volumeTrend = this.calculateVolumeTrend(volumes);
+  // The coin's trained model, loaded only when it passes its confidence gate
+  private async trustedModel(stored: StoredModel | null, crypto: string): Promise<LoadedModel | null> {
+    if (!stored) return null;
 
-    // Combine indicators with ML model
-    const model = await this.getTrendModel();
-    const prediction = await model.predict(tf.tensor2d([
-      [adx, trendIntensity, priceROC, volumeTrend]
-    ])) as tf.Tensor;
+    const gate = modelGate(stored.meta);
+    if (!gate.passed) {
+      console.info(`[advancedAnalysis] Not using ${stored.meta.kind} model v${stored.meta.version} for ${crypto}: ${gate.reason}`);
+      return null;
+    }
+    return mlModels.load(stored).catch(error => {
+      console.warn(`[advancedAnalysis] ${stored.meta.kind} model for ${crypto} unavailable:`, error.message);
+      return null;
+    });
+  }
 
-    return (await prediction.data())[0];
+  // Where the level model expects price to turn next, when it straddles the current price
+  private async predictKeyLevels(candles: Candle[], crypto: string, stored: StoredModel | null) {
+    const loaded = await this.trustedModel(stored, crypto);
+    if (!loaded) return null;
+
+    const points = indicatorSeries(candles);
+    const point = points[points.length - 1];
+    const outputs = tf.tidy(() => Array.from((loaded.model.predict(tf.tensor2d([levelFeatures(candles, points)])) as tf.Tensor).dataSync()));
+    const levels = levelsFromOutput(point, outputs);
+    return levels.support < point.close && levels.resistance > point.close ? levels : null;
+  }
+
+  // Signed trend strength (-1 to 1) from the coin's trained trend model; until the server has
+  // trained one that passes its gate, the distance from the MA50 in ATRs, as the backtester reads it
+  private async analyzeTrendStrength(candles: Candle[], crypto: string, stored: StoredModel | null): Promise<number> {
+    const loaded = await this.trustedModel(stored, crypto);
+    if (loaded) {
+      return tf.tidy(() => (loaded.model.predict(tf.tensor2d([trendFeatures(candles)])) as tf.Tensor).dataSync()[0]);
+    }
+
+    const point = indicatorSeries(candles).pop();
+    if (!point || !(point.atr > 0)) return 0.5;
+    return Math.max(-1, Math.min(1, (point.close - point.ma50) / (3 * point.atr)));
   }
 
   private async predictPriceTargets(data: {
@@ -394,7 +463,7 @@ class AdvancedAnalysisService {
 
   private calculateFundamentalRisk(prices: number[], volumes: number[]): number {
     // Calculate fundamental risk based on price and volume patterns
-    const volatility = this.calculateVolatility(prices);
+    const volatility = calculateVolatility(prices);
     const volumeChange = volumes[volumes.length - 1] / volumes[volumes.length - 2];
     const priceChange = (prices[prices.length - 1] - prices[prices.length - 2]) / prices[prices.length - 2];
 
@@ -443,11 +512,6 @@ class AdvancedAnalysisService {
     return 'neutral';
   }
 
-  private async getTrendModel() {
-    return await mlModels.getTrendModel();
-  }
-
-
   private calculateConfidence(indicators: number[]): number {
     try {
       if (!indicators || indicators.length === 0) {
@@ -479,7 +543,7 @@ class AdvancedAnalysisService {
     }
   }
 
-  private async calculateTechnicalSignals(priceData: any, volumeData: any): Promise<TechnicalSignals> {
+  private async calculateTechnicalSignals(priceData: any, volumeData: any, candles: Candle[]): Promise<TechnicalSignals> {
     try {
       // Additional validation
   if (!Array.isArray(priceData.prices) || priceData.prices.length < 60) {
@@ -493,34 +557,32 @@ class AdvancedAnalysisService {
 
       // Calculate moving averages first
       const smaResults = {
-        ma20: this.calculateSMA(prices, 20),
-        ma50: this.calculateSMA(prices, 50),
-        ma200: this.calculateSMA(prices, 200)
+        ma20: calculateSMA(prices, 20),
+        ma50: calculateSMA(prices, 50),
+        ma200: calculateSMA(prices, 200)
       };
 
       // Calculate indicators using full dataset
-  const rsi = this.calculateRSI(prices, 14);
-      const macd = {
-        value: this.calculateMACD(prices),
-        signal: this.calculateMACDSignal(prices),
-        histogram: this.calculateMACDHistogram(prices)
-      };
-  const stochRSI = this.calculateStochRSI(prices, 14);
+  const rsi = calculateRSI(prices, 14);
+      const macd = calculateMACD(prices);
+  const stochRSI = calculateStochRSI(prices, 14);
+      const stochastic = calculateStochastic(candles, 14, 3);
+      const atr = calculateATR(candles, 14);
       
       // Calculate volume metrics using more data
       const volumeChange = volumes.length > 0 ? 
         this.calculateVolumeRatio(volumes.slice(-100)) : 1;
       
-      // Calculate volatility using more data
-  const volatility = this.calculateVolatility(prices.slice(-100));
+      // Annualised over the last 100 returns
+  const volatility = calculateVolatility(prices);
 
       // Calculate trends using full dataset and moving averages
-      const primaryTrend = this.determineTrendDirection(prices, smaResults);
+      const series = indicatorSeries(candles);
+      const trendSystems = analyzeTrendSystems(series);
+      const divergences = findDivergences(series, findSwings(candles));
+      const primaryTrend = this.determineTrendDirection(prices, smaResults, trendSystems);
       const secondaryTrend = this.determineSecondaryTrend(prices);
-      const volumeProfile = this.calculateVolumeProfile(
-        prices.slice(-200),
-        volumes.slice(-200)
-      );
+      const volumeProfile = this.calculateVolumeProfile(candles.slice(-200), volumes);
   const trendStrength = Number.isFinite(volumeProfile.strength) ? volumeProfile.strength : 0.5;
 
       console.log('Technical Calculations:', {
@@ -530,6 +592,8 @@ class AdvancedAnalysisService {
         rsi,
         macd,
         stochRSI,
+        stochastic,
+        atr,
         volumeChange,
         volatility,
         trendStrength
@@ -539,7 +603,9 @@ class AdvancedAnalysisService {
         trend: {
           primary: primaryTrend || 'neutral',
           secondary: secondaryTrend || 'neutral',
-          strength: Number(trendStrength.toFixed(2))
+          strength: Number(trendStrength.toFixed(2)),
+          ichimoku: trendSystems?.ichimoku ?? null,
+          supertrend: trendSystems?.supertrend ?? null
         },
         momentum: {
           rsi: {
@@ -548,19 +614,20 @@ class AdvancedAnalysisService {
           },
           macd: {
             value: Number((Number.isFinite(macd.value) ? macd.value : 0).toFixed(2)),
-            signal: this.interpretMACD(
-              Number.isFinite(macd.value) ? macd.value : 0,
-              Number.isFinite(macd.signal) ? macd.signal : 0,
-              Number.isFinite(macd.histogram) ? macd.histogram : 0
-            )
+            signal: macd.interpretation
           },
           stochRSI: {
             value: Number((Number.isFinite(stochRSI) ? stochRSI : 50).toFixed(2)),
             signal: this.interpretStochRSI(Number.isFinite(stochRSI) ? stochRSI : 50)
+          },
+          stochastic: {
+            value: Number((Number.isFinite(stochastic.k) ? stochastic.k : 50).toFixed(2)),
+            signal: this.interpretStochastic(stochastic.k, stochastic.d)
           }
         },
         volatility: {
           current: Number((Number.isFinite(volatility) ? volatility : 30).toFixed(2)),
+          atr: Number.isFinite(atr) ? atr : 0,
           trend: this.determineVolatilityTrend(prices.slice(-100)),
           risk: this.categorizeVolatilityRisk(volatility)
         },
@@ -569,7 +636,8 @@ class AdvancedAnalysisService {
           trend: this.determineVolumeTrend(volumes.slice(-100)),
           significance: volumeProfile.strength > 0.7 ? 'strong' :
                        volumeProfile.strength > 0.4 ? 'moderate' : 'weak'
-        }
+        },
+        divergences
       };
     } catch (error) {
       console.error('Error calculating technical signals:', error);
@@ -577,7 +645,12 @@ class AdvancedAnalysisService {
     }
   }
 
-  private determineTrendDirection(prices: number[], smaResults: { ma20: number; ma50: number; ma200: number }): string {
+  // MA structure and slope set the trend; Ichimoku and Supertrend agreeing or disagreeing moves it one step
+  private determineTrendDirection(
+    prices: number[],
+    smaResults: { ma20: number; ma50: number; ma200: number },
+    trendSystems: TrendSystems | null
+  ): string {
     const currentPrice = prices[prices.length - 1];
     const { ma20, ma50, ma200 } = smaResults;
 
@@ -591,17 +664,21 @@ class AdvancedAnalysisService {
     const shortTermTrend = this.calculatePriceSlope(shortTermPrices);
 
     // Determine trend based on moving averages and price position
+    let level = 0;
     if (aboveMa20 && aboveMa50 && aboveMa200 && shortTermTrend > 0) {
-      return 'Strong Bullish';
+      level = 2;
     } else if (aboveMa20 && aboveMa50 && shortTermTrend > 0) {
-      return 'Bullish';
+      level = 1;
     } else if (!aboveMa20 && !aboveMa50 && !aboveMa200 && shortTermTrend < 0) {
-      return 'Strong Bearish';
+      level = -2;
     } else if (!aboveMa20 && !aboveMa50 && shortTermTrend < 0) {
-      return 'Bearish';
-    } else {
-      return 'Neutral';
+      level = -1;
     }
+
+    if (trendSystems?.bias === 'bullish') level = Math.min(2, level + 1);
+    if (trendSystems?.bias === 'bearish') level = Math.max(-2, level - 1);
+
+    return ['Strong Bearish', 'Bearish', 'Neutral', 'Bullish', 'Strong Bullish'][level + 2];
   }
 
   private calculatePriceSlope(prices: number[]): number {
@@ -625,159 +702,16 @@ class AdvancedAnalysisService {
     return slope;
   }
 
-  private calculateRSI(prices: number[], period: number = 14): number {
-    try {
-      if (!Array.isArray(prices) || prices.length < period + 1) {
-        return 50;
-      }
-
-      let gains = 0;
-      let losses = 0;
-
-      // Calculate initial gains and losses
-      for (let i = 1; i < period + 1; i++) {
-        const difference = prices[i] - prices[i - 1];
-        if (difference >= 0) {
-          gains += difference;
-        } else {
-          losses -= difference;
-        }
-      }
-
-      let avgGain = gains / period;
-      let avgLoss = losses / period;
-
-      // Calculate RSI using Wilder's smoothing
-      for (let i = period + 1; i < prices.length; i++) {
-        const difference = prices[i] - prices[i - 1];
-        avgGain = ((avgGain * (period - 1)) + Math.max(0, difference)) / period;
-        avgLoss = ((avgLoss * (period - 1)) + Math.max(0, -difference)) / period;
-      }
-
-      const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-      const rsi = 100 - (100 / (1 + rs));
-
-      return isNaN(rsi) ? 50 : rsi;
-    } catch (error) {
-      console.error('Error calculating RSI:', error);
-      return 50;
-    }
-  }
-
-  private calculateMACD(prices: number[]): number {
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    return ema12[ema12.length - 1] - ema26[ema26.length - 1];
-  }
-
-  private calculateMACDSignal(prices: number[]): number {
-    const macdLine = [];
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    
-    for (let i = 0; i < ema12.length; i++) {
-      macdLine.push(ema12[i] - ema26[i]);
-    }
-    
-    const signal = this.calculateEMA(macdLine, 9);
-    return signal[signal.length - 1];
-  }
-
-  private calculateMACDHistogram(prices: number[]): number {
-    const macd = this.calculateMACD(prices);
-    const signal = this.calculateMACDSignal(prices);
-    return macd - signal;
-  }
-
-  private calculateVolatility(prices: number[]): number {
-    try {
-      if (!Array.isArray(prices) || prices.length < 2) {
-        return 30;
-      }
-
-      const returns = prices.slice(1).map((price, i) => 
-        Math.log(price / prices[i])
-      );
-      
-      const avgReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-      const squaredDiffs = returns.map(ret => Math.pow(ret - avgReturn, 2));
-      const variance = squaredDiffs.reduce((sum, diff) => sum + diff, 0) / returns.length;
-      const volatility = Math.sqrt(variance) * Math.sqrt(365) * 100;
-
-      return isNaN(volatility) ? 30 : Math.min(100, Math.max(0, volatility));
-    } catch (error) {
-      console.error('Error calculating volatility:', error);
-      return 30;
-    }
-  }
-
-  private calculateVolumeTrend(volumes: number[]): number {
-    if (!volumes || volumes.length < 20) return 0;
-    
-    const recentAvg = volumes.slice(-5).reduce((a, b) => a + b, 0) / 5;
-    const historicalAvg = volumes.slice(-20).reduce((a, b) => a + b, 0) / 20;
-    
-    return (recentAvg - historicalAvg) / historicalAvg;
-  }
-
-  private calculateTrueRange(prices: number[]): number[] {
-    const tr = [];
-    for (let i = 1; i < prices.length; i++) {
-      const high = prices[i];
-      const low = prices[i - 1];
-      const previousClose = prices[i - 1];
-      
-      tr.push(Math.max(
-        high - low,
-        Math.abs(high - previousClose),
-        Math.abs(low - previousClose)
-      ));
-    }
-    return tr;
-  }
-
-  private calculateADX(prices: number[], period: number = 14): number {
-    const tr = this.calculateTrueRange(prices);
-    const atr = tr.slice(-period).reduce((a, b) => a + b, 0) / period;
-    const dmPlus = [];
-    const dmMinus = [];
-    
-    for (let i = 1; i < prices.length; i++) {
-      const high = prices[i];
-      const low = prices[i - 1];
-      dmPlus.push(Math.max(0, high - prices[i - 1]));
-      dmMinus.push(Math.max(0, prices[i - 1] - low));
-    }
-    
-    const diPlus = (dmPlus.reduce((a, b) => a + b, 0) / period) / atr * 100;
-    const diMinus = (dmMinus.reduce((a, b) => a + b, 0) / period) / atr * 100;
-    
-    return Math.abs(diPlus - diMinus) / (diPlus + diMinus) * 100;
-  }
-
-  private calculateTrendIntensity(prices: number[]): number {
-    const returns = prices.slice(1).map((price, i) => 
-      (price - prices[i]) / prices[i]
-    );
-    
-    const positiveReturns = returns.filter(r => r > 0).length;
-    const negativeReturns = returns.filter(r => r < 0).length;
-    
-    return (positiveReturns - negativeReturns) / returns.length;
-  }
-
-  private calculatePriceROC(prices: number[]): number {
-    const period = 14;
-    if (prices.length < period) return 0;
-    
-    const currentPrice = prices[prices.length - 1];
-    const oldPrice = prices[prices.length - period];
-    
-    return ((currentPrice - oldPrice) / oldPrice) * 100;
-  }
+  // Volume-at-price: each candle's volume is spread evenly across the bins its high-low range covers
+  private calculateVolumeProfile(candles: Candle[], fallbackVolumes: number[] = [], binCount: number = 24) {
+    // Some upstreams have no candle volume; borrow the history volumes aligned from the end
+    const hasCandleVolume = candles.some(c => c.volume > 0);
+    const volumes = candles.map((c, i) => {
+      if (hasCandleVolume) return c.volume;
+      return fallbackVolumes[fallbackVolumes.length - candles.length + i] || 0;
+    });
 
-  private calculateVolumeProfile(prices: number[], volumes: number[]) {
-    if (!prices?.length || !volumes?.length) {
+    if (!candles?.length || !volumes.some(v => v > 0)) {
       return {
         poc: 0,
         valueArea: { high: 0, low: 0 },
@@ -789,16 +723,22 @@ class AdvancedAnalysisService {
       };
     }
 
-    const currentPrice = prices[prices.length - 1];
+    const currentPrice = candles[candles.length - 1].close;
+    const rangeLow = Math.min(...candles.map(c => c.low));
+    const rangeHigh = Math.max(...candles.map(c => c.high));
+    const binSize = (rangeHigh - rangeLow) / binCount || currentPrice * 0.001;
+    const binPrice = (bin: number) => rangeLow + (bin + 0.5) * binSize;
     const priceVolume = new Map<number, number>();
     
-    // Calculate volume at price levels
-    prices.forEach((price, i) => {
-      const roundedPrice = Math.round(price / 10) * 10;
-      priceVolume.set(
-        roundedPrice,
-        (priceVolume.get(roundedPrice) || 0) + volumes[i]
-      );
+    // Calculate volume at price levels (keyed by bin mid-price)
+    candles.forEach((candle, i) => {
+      const firstBin = Math.min(binCount - 1, Math.floor((candle.low - rangeLow) / binSize));
+      const lastBin = Math.min(binCount - 1, Math.floor((candle.high - rangeLow) / binSize));
+      const share = volumes[i] / (lastBin - firstBin + 1);
+      for (let bin = firstBin; bin <= lastBin; bin++) {
+        const price = binPrice(bin);
+        priceVolume.set(price, (priceVolume.get(price) || 0) + share);
+      }
     });
 
     // Find POC (Point of Control)
@@ -847,8 +787,8 @@ class AdvancedAnalysisService {
   }
 
   private determineSecondaryTrend(prices: number[]): string {
-    const shortMAValues = this.calculateEMA(prices.slice(-20), 5);
-    const mediumMAValues = this.calculateEMA(prices.slice(-20), 10);
+    const shortMAValues = emaSeries(prices.slice(-20), 5);
+    const mediumMAValues = emaSeries(prices.slice(-20), 10);
     
     const shortMA = shortMAValues[shortMAValues.length - 1];
     const mediumMA = mediumMAValues[mediumMAValues.length - 1];
@@ -861,8 +801,9 @@ class AdvancedAnalysisService {
   private determineVolatilityTrend(prices: number[]): string {
     if (!prices || prices.length < 100) return 'stable';
     
-    const currentVol = this.calculateVolatility(prices.slice(-50));
-    const previousVol = this.calculateVolatility(prices.slice(-100, -50));
+    const volatility = volatilitySeries(prices, 50);
+    const currentVol = volatility[volatility.length - 1];
+    const previousVol = volatility[volatility.length - 51];
     
     if (currentVol > previousVol * 1.2) return 'increasing';
     if (currentVol < previousVol * 0.8) return 'decreasing';
@@ -881,6 +822,14 @@ class AdvancedAnalysisService {
     return 'neutral';
   }
 
+  private interpretStochastic(k: number, d: number): string {
+    if (!Number.isFinite(k) || !Number.isFinite(d)) return 'neutral';
+    const cross = k > d ? 'rising' : 'falling';
+    if (k > 80) return `overbought, ${cross}`;
+    if (k < 20) return `oversold, ${cross}`;
+    return `neutral, ${cross}`;
+  }
+
   private interpretStochRSI(stochRSI: number): string {
     if (stochRSI > 80) return 'extremely overbought';
     if (stochRSI > 60) return 'overbought';
@@ -889,59 +838,6 @@ class AdvancedAnalysisService {
     return 'neutral';
   }
 
-  // Update the calculateEMA method to handle arrays
-  private calculateEMA(prices: number[], period: number): number[] {
-    const k = 2 / (period + 1);
-    const ema = [prices[0]];
-    
-    for (let i = 1; i < prices.length; i++) {
-      ema.push(prices[i] * k + ema[i - 1] * (1 - k));
-    }
-    
-    return ema;
-  }
-
-  // Update the calculateStochRSI method to handle arrays
-  private calculateStochRSI(prices: number[], period: number = 14): number {
-    const rsiValues = this.calculateRSIArray(prices, period);
-    const minRSI = Math.min(...rsiValues);
-    const maxRSI = Math.max(...rsiValues);
-    const currentRSI = rsiValues[rsiValues.length - 1];
-    
-    return ((currentRSI - minRSI) / (maxRSI - minRSI)) * 100;
-  }
-
-  private calculateRSIArray(prices: number[], period: number = 14): number[] {
-    const rsiValues = [];
-    let gains = 0;
-    let losses = 0;
-
-    // Calculate initial average gain and loss
-    for (let i = 1; i < period + 1; i++) {
-      const difference = prices[i] - prices[i - 1];
-      if (difference >= 0) {
-        gains += difference;
-      } else {
-        losses -= difference;
-      }
-    }
-
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    // Calculate RSI values
-    for (let i = period + 1; i < prices.length; i++) {
-      const difference = prices[i] - prices[i - 1];
-      avgGain = ((avgGain * (period - 1)) + Math.max(0, difference)) / period;
-      avgLoss = ((avgLoss * (period - 1)) + Math.max(0, -difference)) / period;
-      
-      const rs = avgGain / avgLoss;
-      rsiValues.push(100 - (100 / (1 + rs)));
-    }
-
-    return rsiValues;
-  }
-
   // Update the calculateVolumeRatio method to handle arrays
   private calculateVolumeRatio(volumes: number[]): number {
     try {
@@ -960,33 +856,6 @@ class AdvancedAnalysisService {
     }
   }
 
-  // Update the interpretMACD method to handle arrays
-  private interpretMACD(value: number, signal: number, histogram: number): string {
-    let interpretation = '';
-
-    if (histogram > 0) {
-      interpretation = histogram > histogram * 0.1 
-        ? 'Strong bullish momentum' 
-        : 'Bullish momentum';
-    } else {
-      interpretation = histogram < -histogram * 0.1 
-        ? 'Strong bearish momentum' 
-        : 'Bearish momentum';
-    }
-
-    if (value > 0 && signal > 0) {
-      interpretation += ', upward trend';
-    } else if (value < 0 && signal < 0) {
-      interpretation += ', downward trend';
-    }
-
-    if (Math.abs(value - signal) < 0.1) {
-      interpretation += ', potential trend reversal';
-    }
-
-    return interpretation;
-  }
-
   private generateRiskWarnings(volatility: number, trendStrength: number, volumeRatio: number): string[] {
     const warnings: string[] = [];
     
@@ -997,157 +866,69 @@ class AdvancedAnalysisService {
     return warnings.length ? warnings : ['No significant risks detected'];
   }
 
-  async getFullAnalysis(crypto: string): Promise<AdvancedAnalysis> {
-    try {
-  // Normalize crypto id for APIs
-  const id = (crypto || '').trim().toLowerCase();
-
-  // Get current price from centralized price store
-  let priceData = await priceStore.getPrice(id);
-      // Preflight: if price is 0 on first switch, wait briefly for readiness to reduce retries later
-      if (!priceData.price || priceData.price <= 0) {
-        const startWait = Date.now();
-        while (Date.now() - startWait < 1200) {
-          await new Promise(r => setTimeout(r, 200));
-          priceData = await priceStore.getPrice(id);
-          if (priceData.price && priceData.price > 0) break;
-        }
-      }
-      
-      // Fetch historical data with a short readiness retry if needed
-  let historicalData = await api.getHistoricalData(id);
-      if (!historicalData?.prices?.length || historicalData.prices.length < 60) {
-        for (let i = 0; i < 4; i++) {
-          await new Promise(r => setTimeout(r, 250));
-          historicalData = await api.getHistoricalData(id);
-          if (historicalData?.prices?.length && historicalData.prices.length >= 60) break;
-        }
-      }
-      console.log('Raw Historical Data:', historicalData);
+  // The analysis itself, run in the analysis worker on what getFullAnalysis (fullAnalysis.ts) fetched
+  async analyze(inputs: AnalysisInputs, checkpoint: Checkpoint = async () => {}): Promise<AdvancedAnalysis> {
+    const { crypto, quote, currentPrice, prices, volumes, candles, sentiment, news, confluence, models } = inputs;
+    const stage = (name: AnalysisStage) =>
+      checkpoint({ stage: name, step: ANALYSIS_STAGES.indexOf(name) + 1, steps: ANALYSIS_STAGES.length });
 
-      // Validate the data
-  if (!historicalData?.prices?.length || historicalData.prices.length < 60) {
-        console.error('Invalid or insufficient historical data:', historicalData);
-        return this.getDefaultAnalysis(crypto);
-      }
+    await stage('Chart patterns');
+    const chartPatterns = findChartPatterns(candles);
 
-      // Process the data - use price from price store
-      const processedData = {
-        prices: historicalData.prices.filter((p: number) => Number.isFinite(p) && p > 0),
-        volumes: (historicalData.volumes && historicalData.volumes.length === historicalData.prices.length)
-          ? historicalData.volumes
-          : Array(historicalData.prices.length).fill(0),
-        current_price: priceData.price, // initial current price from store
-        market_cap: historicalData.market_cap || 0,
-        price_change_24h: priceData.change24h // Use change24h from centralized store
-      };
-
-      // If current price isn't ready yet (common right after switching assets),
-      // try to recover using historical last price or a short retry from the store
-  if (!processedData.current_price || processedData.current_price <= 0) {
-        const lastHistPrice = processedData.prices[processedData.prices.length - 1];
-        if (lastHistPrice && lastHistPrice > 0) {
-          console.warn(`[advancedAnalysis] Using last historical price for ${id} as fallback:`, lastHistPrice);
-          processedData.current_price = lastHistPrice;
-        } else {
-          console.warn(`[advancedAnalysis] Current price not ready for ${id}. Retrying price store briefly...`);
-          for (let attempt = 1; attempt <= 2; attempt++) {
-            // wait 400ms then retry getting price from store
-            await new Promise(r => setTimeout(r, 400));
-            priceData = await priceStore.getPrice(id);
-            if (priceData.price && priceData.price > 0) {
-              processedData.current_price = priceData.price;
-              console.warn(`[advancedAnalysis] Recovered current price for ${id} on attempt ${attempt}:`, priceData.price);
-              break;
-            }
-          }
-        }
-      }
-
-      // Final validation of processed data
-      if (processedData.current_price <= 0 || processedData.prices.length === 0) {
-        console.error('[advancedAnalysis] Invalid processed data after fallbacks:', {
-          hasPrices: processedData.prices.length,
-          currentPrice: processedData.current_price
-        });
-        return this.getDefaultAnalysis(id);
-      }
-
-      console.log('Processed Data:', {
-        pricesLength: processedData.prices.length,
-        firstPrice: processedData.prices[0],
-        lastPrice: processedData.prices[processedData.prices.length - 1],
-        currentPrice: processedData.current_price,
-        marketCap: processedData.market_cap,
-        priceChange24h: processedData.price_change_24h
-      });
-
-      // Calculate technical signals
-      const technicalSignals = await this.calculateTechnicalSignals(
-        { 
-          prices: processedData.prices,
-          current_price: processedData.current_price 
-        },
-        processedData.volumes
-      );
+    await stage('Technical signals');
+    const technicalSignals = await this.calculateTechnicalSignals({ prices, current_price: currentPrice }, volumes, candles);
 
-      // Calculate market phase with processed data
-      const marketCondition = await this.calculateMarketPhase(
-        processedData.prices,
-        processedData.volumes,
-        id
-      );
+    await stage('Market phase');
+    const marketCondition = await this.calculateMarketPhase(prices, volumes, candles, crypto, models);
 
-      // Get sentiment and news data
-  const sentiment = await api.getSentiment(id);
-  const newsData = await api.getNews(id);
+    await stage('Price targets');
+    const predictions = await this.predictPriceTargets({
+      prices,
+      volumes,
+      currentPrice,
+      volatility: technicalSignals.volatility.current,
+      sentiment: Number.isFinite(sentiment?.[0]?.volume) ? sentiment[0].volume : 50
+    });
 
-      // Calculate predictions with processed data
-      const predictions = await this.predictPriceTargets({
-        prices: processedData.prices,
-        volumes: processedData.volumes,
-        currentPrice: processedData.current_price,
+    await stage('Risk');
+    const riskAnalysis = await this.analyzeRisk(
+      {
+        prices,
+        volumes,
         volatility: technicalSignals.volatility.current,
-        sentiment: Number.isFinite(sentiment?.[0]?.volume) ? sentiment[0].volume : 50
-      });
-
-      // Calculate risk analysis with processed data
-      const riskAnalysis = await this.analyzeRisk(
-        {
-          prices: processedData.prices,
-          volumes: processedData.volumes,
-          volatility: technicalSignals.volatility.current,
-          trendStrength: technicalSignals.trend.strength
-        },
-        { news: newsData?.news || [], sentiment }
-      );
+        trendStrength: technicalSignals.trend.strength
+      },
+      { news, sentiment }
+    );
 
-      console.log('Analysis Components:', {
-        technicalSignals,
-        marketCondition,
-        predictions,
-        riskAnalysis
-      });
+    console.log('Analysis Components:', {
+      technicalSignals,
+      marketCondition,
+      predictions,
+      riskAnalysis
+    });
 
-      return {
+    await stage('Sentiment and strategy');
+    return {
+      marketCondition,
+      chartPatterns,
+      confluence,
+      technicalSignals,
+      sentimentAnalysis: await this.calculateSentimentAnalysis(news, sentiment, technicalSignals),
+      predictions,
+      riskAnalysis,
+      tradingStrategy: await strategyGenerator.generateStrategy({
+        currentPrice,
         marketCondition,
         technicalSignals,
-        sentimentAnalysis: await this.calculateSentimentAnalysis(newsData?.news || [], sentiment, technicalSignals),
-        predictions,
+        sentimentAnalysis: this.calculateSentimentScore(news, sentiment),
         riskAnalysis,
-        tradingStrategy: await strategyGenerator.generateStrategy({
-          currentPrice: processedData.current_price,
-          marketCondition,
-          technicalSignals,
-          sentimentAnalysis: this.calculateSentimentScore(newsData?.news || [], sentiment),
-          riskAnalysis,
-          predictions
-        })
-      };
-    } catch (error) {
-  console.error('Error in advanced analysis:', error);
-  return this.getDefaultAnalysis((crypto || '').trim().toLowerCase());
-    }
+        predictions,
+        chartPatterns,
+        confluence,
+        quote
+      })
+    };
   }
 
   private async calculateSentimentAnalysis(newsData: any[], sentiment: any, technicalSignals: any) {
@@ -1365,10 +1146,6 @@ class AdvancedAnalysisService {
 
 
   // Remove default analysis - safer for trading
-  private getDefaultAnalysis(crypto: string): AdvancedAnalysis {
-    throw new Error(`Analysis unavailable for ${crypto}. Please ensure you have an active internet connection and try again.`);
-  }
-
   private determineVolumeTrend(volumes: number[]): string {
     if (!volumes || volumes.length < 100) return 'neutral';
     
@@ -1379,22 +1156,6 @@ class AdvancedAnalysisService {
     if (recentAvg < previousAvg * 0.9) return 'decreasing';
     return 'neutral';
   }
-
-  // Update the calculateSMA method to return a single number for the most recent MA
-  private calculateSMA(prices: number[], period: number = 20): number {
-    try {
-      if (!prices || prices.length === 0) return 0;
-      
-      // Calculate SMA for the most recent period
-      const slice = prices.slice(-period);
-      const average = slice.reduce((sum, price) => sum + price, 0) / period;
-      
-      return average;
-    } catch (error) {
-      console.error('Error calculating SMA:', error);
-      return 0;
-    }
-  }
 }
 
 export const advancedAnalysis = new AdvancedAnalysisService();
\ No newline at end of file
@@ -1,1061 +1,30 @@
-import Groq from "groq-sdk";
 import { api } from "./api";
 import { priceStore } from "./priceStore";
+import type { AnalysisStreamEvent, CandleInterval, DetailedAnalysis } from "./types";
 
-const groq = new Groq({
-  apiKey: import.meta.env.VITE_GROQ_API_KEY,
-  dangerouslyAllowBrowser: true
-});
-
-interface TechnicalIndicators {
-  currentPrice: number;
-  price_change_24h: number;
-  rsi: number;
-  macd: {
-    value: number;
-    signal: number;
-    histogram: number;
-    interpretation: string;
-  };
-  ma20: number;
-  ma50: number;
-  ma200: number;
-  volumeChange: number;
-  marketPhase: string;
-  volatility: number;
-  support: number;
-  resistance: number;
-}
-
-interface DetailedAnalysis {
-  summary: string;
-  aiAnalysis: string;
-  priceTargets: {
-    '24H': { range: string; confidence: string };
-    '7D': { range: string; confidence: string };
-    '30D': { range: string; confidence: string };
-  };
-  signals: Array<{
-    text: string;
-    importance: string;
-  }>;
-  strategy: {
-    position: string;
-    entry: string;
-    stop: string;
-    target: string;
-  };
-  marketStructure: {
-    trend: string;
-  };
-}
-
-interface ParsedSections {
-  summary: string[];
-  predictions: {
-    shortTerm: string;
-    midTerm: string;
-    longTerm: string;
-  };
-  signals: Array<{ text: string; type: string }>;
-  strategy: Array<{
-    position: string;
-    entry: string;
-    stop: string;
-    target: string;
-  }>;
-  reasoning: string[];
-}
-
+// Analysis runs on the server (/api/analysis) so the LLM key and its cache never reach the browser
 class AnalysisService {
-  // 15-minute AI cache to throttle Groq calls per crypto
-  private aiCache: Map<string, { timestamp: number; content: string } > = new Map();
-  private readonly AI_MIN_INTERVAL_MS = 15 * 60 * 1000;
-  private readonly MIN_HISTORY_POINTS = 60; // minimum points for stable indicators
-
-  private async waitForPriceReady(crypto: string, maxWaitMs = 1500): Promise<{ price: number; change24h: number; timestamp: number }> {
-    const start = Date.now();
-    // Try immediately first
-    let pd = await priceStore.getPrice(crypto);
-    if (pd.price > 0) return pd;
-    // Retry loop
-    while (Date.now() - start < maxWaitMs) {
-      await new Promise(r => setTimeout(r, 250));
-      pd = await priceStore.getPrice(crypto);
-      if (pd.price > 0) return pd;
-    }
-    return pd; // may be zero; callers handle fallback
-  }
-
-  private async waitForHistoryReady(crypto: string, days: number = 90, maxWaitMs = 3000) {
-    const start = Date.now();
-    let data = await this.getHistoricalData(crypto, days);
-    if (Array.isArray(data?.prices) && data.prices.length >= this.MIN_HISTORY_POINTS) return data;
-    while (Date.now() - start < maxWaitMs) {
-  await new Promise(r => setTimeout(r, 500));
-  console.warn(`[analysis] Waiting for history readiness for ${crypto}...`);
-      data = await this.getHistoricalData(crypto, days);
-      if (Array.isArray(data?.prices) && data.prices.length >= this.MIN_HISTORY_POINTS) return data;
-    }
-    return data;
-  }
-
-  private async getHistoricalData(crypto: string, days: number = 200) {
-    try {
-      console.log(`Fetching historical data for ${crypto}...`);
-      const historicalData = await api.getHistoricalData(crypto, days);
-      console.log('Historical data response:', historicalData);
-      
-      return historicalData;
-    } catch (error) {
-      console.error('Error fetching historical data:', error);
-      throw error;
-    }
-  }
-
-  private calculateRSI(prices: number[], period: number = 14): number {
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 1; i < period + 1; i++) {
-      const difference = prices[i] - prices[i - 1];
-      if (difference >= 0) {
-        gains += difference;
-      } else {
-        losses -= difference;
-      }
-    }
-
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    for (let i = period + 1; i < prices.length; i++) {
-      const difference = prices[i] - prices[i - 1];
-      if (difference >= 0) {
-        avgGain = (avgGain * 13 + difference) / period;
-        avgLoss = (avgLoss * 13) / period;
-      } else {
-        avgGain = (avgGain * 13) / period;
-        avgLoss = (avgLoss * 13 - difference) / period;
-      }
-    }
-
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  private calculateMACD(prices: number[]) {
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    const macdLine = ema12[ema12.length - 1] - ema26[ema26.length - 1];
-    const signalLine = this.calculateEMA([macdLine], 9)[0];
-    const histogram = macdLine - signalLine;
-    
-    return {
-      value: macdLine,
-      signal: signalLine,
-      histogram,
-      interpretation: this.interpretMACD(macdLine, signalLine, histogram)
-    };
-  }
-
-  private interpretMACD(macdLine: number, signalLine: number, histogram: number): string {
-    let interpretation = '';
-
-    if (histogram > 0) {
-      interpretation = histogram > histogram * 0.1 
-        ? 'Strong bullish momentum' 
-        : 'Bullish momentum';
-    } else {
-      interpretation = histogram < -histogram * 0.1 
-        ? 'Strong bearish momentum' 
-        : 'Bearish momentum';
-    }
-
-    if (macdLine > 0 && signalLine > 0) {
-      interpretation += ', upward trend';
-    } else if (macdLine < 0 && signalLine < 0) {
-      interpretation += ', downward trend';
-    }
-
-    if (Math.abs(macdLine - signalLine) < 0.1) {
-      interpretation += ', potential trend reversal';
-    }
-
-    return interpretation;
-  }
-
-  private calculateEMA(prices: number[], period: number): number[] {
-    const multiplier = 2 / (period + 1);
-    const ema = [prices[0]];
-
-    for (let i = 1; i < prices.length; i++) {
-      ema.push(
-        (prices[i] - ema[i - 1]) * multiplier + ema[i - 1]
-      );
-    }
-
-    return ema;
-  }
-
-  private calculateSMA(prices: number[], period: number = 20): number {
-    if (!prices || prices.length === 0) return 0;
-    const slice = prices.slice(-period);
-    return slice.reduce((sum, price) => sum + price, 0) / slice.length;
-  }
-
-  private findSupportResistance(prices: number[]) {
-    if (prices.length < 20) {
-      // Fallback for insufficient data
-      const currentPrice = prices[prices.length - 1];
-      return {
-        support: currentPrice * 0.95,
-        resistance: currentPrice * 1.05
-      };
-    }
-
-    const currentPrice = prices[prices.length - 1];
-    
-    // Use recent 20-50 periods for more relevant levels
-    const veryRecentPrices = prices.slice(-20);
-    
-    const highPrice = Math.max(...veryRecentPrices);
-    const lowPrice = Math.min(...veryRecentPrices);
-    
-    // Calculate moving averages for dynamic levels - Fixed method name
-    const ma20 = this.calculateSMA(prices, 20);
-    const ma50 = this.calculateSMA(prices, 50);
-    
-    // Calculate support using multiple factors
-    const support = Math.max(
-      lowPrice,                           // Recent low
-      Math.min(ma20, ma50) * 0.995,      // 0.5% below lower MA
-      currentPrice * 0.95                 // Max 5% below current price
-    );
-
-    // Calculate resistance using multiple factors
-    const resistance = Math.max(
-      Math.min(
-        highPrice,                        // Recent high
-        Math.max(ma20, ma50) * 1.005,    // 0.5% above higher MA
-        currentPrice * 1.05              // Max 5% above current price
-      ),
-      support * 1.01                     // Ensure resistance is at least 1% above support
-    );
-
-    return { 
-      support: Math.round(support * 100) / 100,      // Round to 2 decimals
-      resistance: Math.round(resistance * 100) / 100  // Round to 2 decimals
-    };
-  }
-
-  private async getMarketSentiment(crypto: string) {
-    try {
-      const newsResponse = await api.getNews(crypto);
-      const newsItems = newsResponse.news; // Extract the news array
-      
-      const positiveCount = newsItems.filter(n => n.sentiment === 'positive').length;
-      const negativeCount = newsItems.filter(n => n.sentiment === 'negative').length;
-      const total = newsItems.length || 1;
-
-      return {
-        newsScore: (positiveCount / total) * 100,
-        socialScore: 0, // Social sentiment data unavailable
-        marketMood: positiveCount > negativeCount ? 'Bullish' : 
-                   negativeCount > positiveCount ? 'Bearish' : 'Neutral'
-      };
-    } catch (error) {
-      console.error('Error getting market sentiment:', error);
-      return {
-        newsScore: 0, // News sentiment data unavailable
-        socialScore: 0,
-        marketMood: 'Neutral'
-      };
-    }
-  }
-
-  private calculateStochRSI(prices: number[], period: number = 14): number {
-    const rsiValues = [];
-    let minRSI = Infinity;
-    let maxRSI = -Infinity;
-    
-    // Calculate RSI values
-    for (let i = period; i < prices.length; i++) {
-      const rsi = this.calculateRSI(prices.slice(i - period, i + 1));
-      rsiValues.push(rsi);
-      minRSI = Math.min(minRSI, rsi);
-      maxRSI = Math.max(maxRSI, rsi);
-    }
-
-    // Calculate Stochastic RSI
-    const lastRSI = rsiValues[rsiValues.length - 1];
-    return ((lastRSI - minRSI) / (maxRSI - minRSI)) * 100;
-  }
-
-  private interpretStochRSI(stochRSI: number): string {
-    if (stochRSI > 80) return 'Extremely overbought';
-    if (stochRSI > 60) return 'Overbought';
-    if (stochRSI < 20) return 'Extremely oversold';
-    if (stochRSI < 40) return 'Oversold';
-    return 'Neutral';
-  }
-
-  private calculateOBV(prices: number[], volumes: number[]): string {
-    let obv = 0;
-    const obvValues = [0];
-
-    for (let i = 1; i < prices.length; i++) {
-      if (prices[i] > prices[i - 1]) {
-        obv += volumes[i];
-      } else if (prices[i] < prices[i - 1]) {
-        obv -= volumes[i];
-      }
-      obvValues.push(obv);
-    }
-
-    // Determine trend
-    const recentOBV = obvValues.slice(-5);
-    const trend = recentOBV[recentOBV.length - 1] > recentOBV[0] ? 'Bullish' : 'Bearish';
-    return trend;
-  }
-
-  private calculateVolumeRatio(volumes: number[], period: number = 20): number {
-  if (!Array.isArray(volumes) || volumes.length === 0) return 1;
-  const window = volumes.slice(-period);
-  const currentVolume = window[window.length - 1] ?? 0;
-  const avgVolume = window.reduce((a, b) => a + b, 0) / Math.max(window.length, 1);
-  if (!Number.isFinite(avgVolume) || avgVolume <= 0) return 1;
-  if (!Number.isFinite(currentVolume)) return 1;
-  return currentVolume / avgVolume;
-  }
-
-  private determineMarketPhase(prices: number[], ma50: number, ma200: number): string {
-    const currentPrice = prices[prices.length - 1];
-    const priceAboveMA50 = currentPrice > ma50;
-    const priceAboveMA200 = currentPrice > ma200;
-    const ma50AboveMA200 = ma50 > ma200;
-
-    if (priceAboveMA50 && priceAboveMA200 && ma50AboveMA200) {
-      return 'Bull Market';
-    } else if (!priceAboveMA50 && !priceAboveMA200 && !ma50AboveMA200) {
-      return 'Bear Market';
-    } else if (priceAboveMA200 && !priceAboveMA50) {
-      return 'Correction';
-    } else {
-      return 'Accumulation';
-    }
-  }
-
-  private calculateVolatility(prices: number[]): number {
-    const returns = prices.slice(1).map((price, i) => 
-      Math.log(price / prices[i])
-    );
-    
-    return Math.sqrt(
-      returns.reduce((sum, ret) => sum + Math.pow(ret, 2), 0) / returns.length
-    ) * Math.sqrt(365) * 100;
-  }
-
-  private async getAIAnalysis(
-    crypto: string,
-    technicalIndicators: TechnicalIndicators,
-    news: any[],
-    sentiment: any
-  ): Promise<string> {
-    // Time-based throttle: return cached AI content if within interval
-    const cached = this.aiCache.get(crypto);
-    if (cached && Date.now() - cached.timestamp < this.AI_MIN_INTERVAL_MS) {
-      return cached.content;
-    }
-
-    const prompt = `
-      Act as an expert quantitative analyst and cryptocurrency trader. Analyze the following comprehensive market data for ${crypto} and provide a detailed strategic analysis:
-
-      PRICE ACTION & TECHNICAL ANALYSIS:
-      • Current Price: ${technicalIndicators.currentPrice} USD
-      • 24h Change: ${technicalIndicators.price_change_24h}%
-      • Key Moving Averages:
-        - MA20: ${technicalIndicators.ma20}
-        - MA50: ${technicalIndicators.ma50}
-        - MA200: ${technicalIndicators.ma200}
-      
-      MOMENTUM INDICATORS:
-      • RSI(14): ${technicalIndicators.rsi} - ${this.interpretRSI(technicalIndicators.rsi)}
-      • MACD: 
-        - Value: ${technicalIndicators.macd.value}
-        - Signal: ${technicalIndicators.macd.signal}
-        - Histogram: ${technicalIndicators.macd.histogram}
-      • Volume Change: ${technicalIndicators.volumeChange}%
-      
-      MARKET STRUCTURE:
-      • Current Market Phase: ${technicalIndicators.marketPhase}
-      • Volatility: ${technicalIndicators.volatility}%
-      • Key Price Levels:
-        - Support: ${technicalIndicators.support}
-        - Resistance: ${technicalIndicators.resistance}
-      
-      MARKET SENTIMENT:
-      • News Sentiment Score: ${sentiment.newsScore}%
-      • Market Mood: ${sentiment.marketMood}
-      • Recent News Headlines:
-      ${news.slice(0, 3).map(n => `  - ${n.title} (${n.sentiment})`).join('\n')}
-      
-      Based on this comprehensive data, provide a detailed analysis in the following HTML structure. Be extremely analytical and precise, focusing on actionable insights:
-
-      <div class="analysis">
-        <div class="summary">
-          <h3>Strategic Market Analysis</h3>
-          <p class="highlight">[Provide a concise but detailed 2-3 line summary of the current market situation, incorporating price action, technical indicators, and sentiment. Be specific about the market phase and key levels.]</p>
-        </div>
-
-        <div class="signals">
-          <h3>Critical Trading Signals</h3>
-          <ul>
-            <li class="signal-item [positive/negative/neutral]">[Technical Signal: Describe specific technical setup or pattern]</li>
-            <li class="signal-item [positive/negative/neutral]">[Momentum Signal: Describe momentum status and implications]</li>
-            <li class="signal-item [positive/negative/neutral]">[Volume Signal: Describe volume analysis and its significance]</li>
-            <li class="signal-item [positive/negative/neutral]">[Sentiment Signal: Describe sentiment impact on price]</li>
-          </ul>
-        </div>
-
-        <div class="strategy">
-          <h3>Strategic Recommendations</h3>
-          <div class="position-strategy">
-            [Provide specific entry, exit, and position management recommendations based on all available data]
-          </div>
-          <div class="risk-management">
-            <div class="entry">Entry Zones: $[Specify optimal entry ranges with reasoning]</div>
-            <div class="stop">Stop Loss: $[Specify stop loss levels with technical justification]</div>
-            <div class="target">Targets: $[Specify multiple price targets with technical justification]</div>
-          </div>
-          <div class="timeframe">
-            [Specify optimal trading timeframe based on volatility and market phase]
-          </div>
-        </div>
-      </div>
-
-      Important Guidelines:
-      1. Base all analysis on quantitative data provided
-      2. Highlight specific technical setups and patterns
-      3. Provide concrete price levels for all recommendations
-      4. Include risk management considerations
-      5. Consider market structure and phase in all recommendations
-      6. Integrate sentiment analysis with technical signals
-      7. Be precise with numbers and percentages
-      8. Focus on actionable insights
-      9. Maintain professional, analytical tone
-      10. Use technical terminology appropriately
-
-      Remove any markdown formatting and ensure all price levels are properly formatted with $ symbol.
-    `;
-
-    try {
-      const completion = await groq.chat.completions.create({
-        model: "meta-llama/llama-4-maverick-17b-128e-instruct",
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 2048
-      });
-  const content = completion.choices[0]?.message?.content ?? "";
-  // Store in cache on success
-  this.aiCache.set(crypto, { timestamp: Date.now(), content });
-  return content;
-    } catch (error) {
-      console.error('Error calling Groq API:', error);
-      return "Unable to generate AI analysis at this time. Please try again later.";
-    }
-  }
-
-  private interpretRSI(rsi: number): string {
-    if (rsi >= 70) return 'Overbought - Consider taking profits';
-    if (rsi <= 30) return 'Oversold - Potential buying opportunity';
-    if (rsi >= 60) return 'Bullish momentum building';
-    if (rsi <= 40) return 'Bearish pressure present';
-    return 'Neutral momentum';
-  }
-
-  private calculateConfidence(
-    rsi: number,
-    macd: { value: number; signal: number; histogram: number },
-    volumeRatio: number,
-    sentiment: any,
-    volatilityIndex: number
-  ): number {
-    // RSI confidence (0-100)
-    const rsiConfidence = (() => {
-      if (rsi > 70 || rsi < 30) return 90; // Strong signal (overbought/oversold)
-      if (rsi > 60 || rsi < 40) return 75; // Moderate signal
-      return 50; // Neutral
-    })();
-
-    // MACD confidence (0-100)
-    const macdConfidence = (() => {
-      const signalStrength = Math.abs(macd.histogram) / Math.abs(macd.signal);
-      const normalizedStrength = Math.min(100, signalStrength * 100);
-      return normalizedStrength;
-    })();
-
-    // Volume confidence (0-100)
-    const volumeConfidence = (() => {
-      if (volumeRatio > 2) return 90; // Very high volume
-      if (volumeRatio > 1.5) return 80; // High volume
-      if (volumeRatio > 1) return 70; // Above average
-      if (volumeRatio > 0.7) return 50; // Normal
-      return 30; // Low volume
-    })();
-
-    // Sentiment confidence (0-100)
-    const sentimentConfidence = (() => {
-      const newsScore = sentiment.newsScore || 50;
-      const socialScore = sentiment.socialScore || 50;
-      return (newsScore + socialScore) / 2;
-    })();
-
-    // Volatility impact (0-1)
-    const volatilityFactor = Math.max(0.5, 1 - (volatilityIndex / 100));
-
-    // Weight the different components
-    const weights = {
-      rsi: 0.25,
-      macd: 0.25,
-      volume: 0.20,
-      sentiment: 0.20,
-      volatility: 0.10
-    };
-
-    // Calculate weighted confidence
-    const weightedConfidence = (
-      (rsiConfidence * weights.rsi) +
-      (macdConfidence * weights.macd) +
-      (volumeConfidence * weights.volume) +
-      (sentimentConfidence * weights.sentiment)
-    ) * volatilityFactor;
-
-    // Ensure confidence is between 30 and 95
-    return Math.min(95, Math.max(30, weightedConfidence));
-  }
-
-  async getDetailedAnalysis(crypto: string): Promise<DetailedAnalysis> {
-    try {
-  console.time(`[MA] total ${crypto}`);
-      // Ensure price store is active for this crypto
-      try { await priceStore.setActiveCrypto(crypto); } catch {}
-
-      // Get current price from centralized price store (with small wait for readiness)
-      const priceData = await this.waitForPriceReady(crypto);
-      const currentPrice = priceData.price;
-
-      // Fetch historical data with readiness check
-  console.time(`[MA] history ${crypto}`);
-  const historicalData = await this.waitForHistoryReady(crypto, 90);
-  console.timeEnd(`[MA] history ${crypto}`);
-      const prices = historicalData.prices;
-      const volumes = historicalData.volumes;
-      // Use currentPrice from price store instead of historicalData.current_price
-
-      // Validate and early-guard to avoid NaNs
-      if (!Array.isArray(prices) || prices.length < this.MIN_HISTORY_POINTS) {
-        throw new Error('Insufficient historical data');
-      }
-      const safePrices = prices.filter(p => Number.isFinite(p) && p > 0);
-      const safeVolumes = Array.isArray(volumes) ? volumes.filter(v => Number.isFinite(v) && v >= 0) : [];
-
-      // Calculate all technical indicators
-      const rsi = this.calculateRSI(safePrices);
-      const macd = this.calculateMACD(safePrices);
-      
-      // Calculate moving averages
-      const movingAverages = {
-        ma20: this.calculateSMA(safePrices, 20),
-        ma50: this.calculateSMA(safePrices, 50),
-        ma200: this.calculateSMA(safePrices, 200)
-      };
-
-      const { support, resistance } = this.findSupportResistance(safePrices);
-      const volumeRatio = this.calculateVolumeRatio(safeVolumes.length ? safeVolumes : new Array(safePrices.length).fill(0));
-      const volatilityIndex = this.calculateVolatility(safePrices);
-      const stochRSI = this.calculateStochRSI(safePrices);
-      const obvTrend = this.calculateOBV(safePrices, safeVolumes.length ? safeVolumes : new Array(safePrices.length).fill(0));
-      const marketPhase = this.determineMarketPhase(safePrices, movingAverages.ma50, movingAverages.ma200);
-
-      // Create technical indicators object with calculated MAs
-      const technicalIndicators: TechnicalIndicators = {
-        currentPrice,
-        price_change_24h: historicalData.price_change_24h,
-        rsi,
-        macd: {
-          value: macd.value,
-          signal: macd.signal,
-          histogram: macd.histogram,
-          interpretation: macd.interpretation
-        },
-        ma20: movingAverages.ma20,
-        ma50: movingAverages.ma50,
-        ma200: movingAverages.ma200,
-        volumeChange: volumeRatio,
-        marketPhase,
-        volatility: volatilityIndex,
-        support,
-        resistance
-      };
-
-      // Updated market summary with date-based formatting and current trend lines
-  const latestDateIndex = safePrices.length - 1;
-  const latestPrice = safePrices[latestDateIndex] || currentPrice || 0;
-      const marketSummary = `${crypto.charAt(0).toUpperCase() + crypto.slice(1)} as of ${new Date().toLocaleDateString()} is in a ${marketPhase} phase, trading at $${latestPrice.toFixed(2)}. RSI is ${(rsi || 0).toFixed(2)} (${this.interpretRSI(rsi || 0)}), with MACD indicating ${macd.interpretation}. The volume trend is ${obvTrend} with a ${(volumeRatio || 0).toFixed(2)}x change compared to the average volume.`;
-
-  // Get market sentiment and news
-  console.time(`[MA] news/sentiment ${crypto}`);
-  const sentiment = await this.getMarketSentiment(crypto);
-  const newsResponse = await api.getNews(crypto);
-  const newsItems = newsResponse.news; // Extract the news array
-  console.timeEnd(`[MA] news/sentiment ${crypto}`);
-
-      // Generate signals based on all indicators
-      const signals = [
-        {
-          indicator: 'RSI',
-          value: rsi,
-          signal: this.interpretRSI(rsi),
-          strength: rsi > 70 || rsi < 30 ? 0.8 : 0.5
-        },
-        {
-          indicator: 'MACD',
-          value: macd.value,
-          signal: macd.interpretation,
-          strength: Math.abs(macd.histogram) > 0.1 ? 0.8 : 0.5
-        },
-        {
-          indicator: 'StochRSI',
-          value: stochRSI,
-          signal: this.interpretStochRSI(stochRSI),
-          strength: stochRSI > 80 || stochRSI < 20 ? 0.8 : 0.5
-        },
-        {
-          indicator: 'OBV',
-          value: 0,
-          signal: obvTrend,
-          strength: 0.5
-        },
-        {
-          indicator: 'Market Phase',
-          value: 0,
-          signal: marketPhase,
-          strength: 0.7
-        }
-      ];
-
-      // Generate AI analysis
-  console.time(`[MA] groq ${crypto}`);
-  const aiAnalysis = await this.getAIAnalysis(
-        crypto,
-        technicalIndicators,
-        newsItems, // Pass the news array
-        sentiment
-      );
-  console.timeEnd(`[MA] groq ${crypto}`);
-
-      // Parse AI analysis
-      const parsedAnalysis = this.parseAIAnalysis(aiAnalysis);
-
-      // Calculate confidence for each timeframe
-  const shortTermConfidence = this.calculateConfidence(rsi, macd, volumeRatio, sentiment, volatilityIndex);
-      const midTermConfidence = Math.max(30, shortTermConfidence * 0.9); // Slightly lower confidence for mid-term
-      const longTermConfidence = Math.max(30, shortTermConfidence * 0.8); // Even lower for long-term
-      const volatility = this.calculateVolatility(prices);
-
-      // Calculate price targets
-      const priceTargets = {
-        shortTerm: {
-          low: currentPrice * (1 - volatility * 0.1),
-          high: currentPrice * (1 + volatility * 0.1)
-        },
-        midTerm: {
-          low: currentPrice * (1 - volatility * 0.2),
-          high: currentPrice * (1 + volatility * 0.2)
-        },
-        longTerm: {
-          low: currentPrice * (1 - volatility * 0.3),
-          high: currentPrice * (1 + volatility * 0.3)
-        }
-      };
-
-      const result: DetailedAnalysis = {
-        summary: parsedAnalysis.summary[0] || marketSummary,
-        aiAnalysis,
-        priceTargets: {
-          '24H': {
-            range: `$${priceTargets.shortTerm.low.toFixed(2)} - $${priceTargets.shortTerm.high.toFixed(2)}`,
-            confidence: shortTermConfidence.toString()
-          },
-          '7D': {
-            range: `$${priceTargets.midTerm.low.toFixed(2)} - $${priceTargets.midTerm.high.toFixed(2)}`,
-            confidence: midTermConfidence.toString()
-          },
-          '30D': {
-            range: `$${priceTargets.longTerm.low.toFixed(2)} - $${priceTargets.longTerm.high.toFixed(2)}`,
-            confidence: longTermConfidence.toString()
-          }
-        },
-        signals: signals.map(s => ({
-          text: `${s.indicator}: ${s.signal}`,
-          importance: s.strength > 0.7 ? 'high' : s.strength > 0.4 ? 'medium' : 'low'
-        })),
-        strategy: {
-          position: marketPhase === 'Bull Market' ? 'Long' : 'Short',
-          entry: (support + (resistance - support) * 0.382).toString(),
-          stop: (support * 0.95).toString(),
-          target: resistance.toString()
-        },
-        marketStructure: {
-          trend: marketPhase
-        }
-      };
-      console.timeEnd(`[MA] total ${crypto}`);
-      return result;
-    } catch (error) {
-      console.error('Error in analysis service:', error);
-      throw error;
-    }
-  }
-
-  // Fast path: return indicators and structure without waiting for Groq
-  async getDetailedAnalysisQuick(crypto: string): Promise<DetailedAnalysis> {
-    console.time(`[MA-quick] total ${crypto}`);
+  async getDetailedAnalysis(crypto: string, interval: CandleInterval = "1h"): Promise<DetailedAnalysis> {
     // Ensure price store is active for this crypto
     try { await priceStore.setActiveCrypto(crypto); } catch {}
-
-    const priceData = await this.waitForPriceReady(crypto);
-    const currentPrice = priceData.price;
-
-    console.time(`[MA-quick] history ${crypto}`);
-    const historicalData = await this.waitForHistoryReady(crypto, 90);
-    console.timeEnd(`[MA-quick] history ${crypto}`);
-
-    const prices = historicalData.prices;
-    const volumes = historicalData.volumes;
-    if (!Array.isArray(prices) || prices.length < this.MIN_HISTORY_POINTS) {
-      throw new Error('Insufficient historical data');
-    }
-    const safePrices = prices.filter(p => Number.isFinite(p) && p > 0);
-    const safeVolumes = Array.isArray(volumes) ? volumes.filter(v => Number.isFinite(v) && v >= 0) : [];
-
-    const rsi = this.calculateRSI(safePrices);
-    const macd = this.calculateMACD(safePrices);
-    const movingAverages = {
-      ma20: this.calculateSMA(safePrices, 20),
-      ma50: this.calculateSMA(safePrices, 50),
-      ma200: this.calculateSMA(safePrices, 200)
-    };
-    const { support, resistance } = this.findSupportResistance(safePrices);
-    const volumeRatio = this.calculateVolumeRatio(safeVolumes.length ? safeVolumes : new Array(safePrices.length).fill(0));
-    const volatilityIndex = this.calculateVolatility(safePrices);
-  const marketPhase = this.determineMarketPhase(safePrices, movingAverages.ma50, movingAverages.ma200);
-
-  // keep only fields used in quick result; full indicators computed in main path
-
-    const latestPrice = safePrices[safePrices.length - 1] || currentPrice || 0;
-    const marketSummary = `${crypto.charAt(0).toUpperCase() + crypto.slice(1)} as of ${new Date().toLocaleDateString()} is in a ${marketPhase} phase, trading at $${latestPrice.toFixed(2)}.`;
-
-    const sentiment = await this.getMarketSentiment(crypto);
-    const priceTargets = {
-      shortTerm: {
-        low: currentPrice * (1 - volatilityIndex * 0.1),
-        high: currentPrice * (1 + volatilityIndex * 0.1)
-      },
-      midTerm: {
-        low: currentPrice * (1 - volatilityIndex * 0.2),
-        high: currentPrice * (1 + volatilityIndex * 0.2)
-      },
-      longTerm: {
-        low: currentPrice * (1 - volatilityIndex * 0.3),
-        high: currentPrice * (1 + volatilityIndex * 0.3)
-      }
-    };
-
-    const shortTermConfidence = this.calculateConfidence(rsi, macd, volumeRatio, sentiment, volatilityIndex);
-    const midTermConfidence = Math.max(30, shortTermConfidence * 0.9);
-    const longTermConfidence = Math.max(30, shortTermConfidence * 0.8);
-
-    const result: DetailedAnalysis = {
-      summary: marketSummary,
-      aiAnalysis: '', // staged later
-      priceTargets: {
-        '24H': { range: `$${priceTargets.shortTerm.low.toFixed(2)} - $${priceTargets.shortTerm.high.toFixed(2)}`, confidence: shortTermConfidence.toString() },
-        '7D': { range: `$${priceTargets.midTerm.low.toFixed(2)} - $${priceTargets.midTerm.high.toFixed(2)}`, confidence: midTermConfidence.toString() },
-        '30D': { range: `$${priceTargets.longTerm.low.toFixed(2)} - $${priceTargets.longTerm.high.toFixed(2)}`, confidence: longTermConfidence.toString() }
-      },
-      signals: [
-        { text: `RSI: ${this.interpretRSI(rsi)}`, importance: shortTermConfidence > 70 ? 'high' : 'medium' },
-      ],
-      strategy: {
-        position: marketPhase === 'Bull Market' ? 'Long' : 'Short',
-        entry: (support + (resistance - support) * 0.382).toString(),
-        stop: (support * 0.95).toString(),
-        target: resistance.toString()
-      },
-      marketStructure: { trend: marketPhase }
-    };
-    console.timeEnd(`[MA-quick] total ${crypto}`);
-    return result;
-  }
-
-  // Public wrapper to run Groq separately when staging UI
-  async getAIAnalysisPublic(
-    crypto: string,
-    technicalIndicators: TechnicalIndicators,
-    news: any[],
-    sentiment: any
-  ): Promise<string> {
-    return this.getAIAnalysis(crypto, technicalIndicators, news, sentiment);
+    return api.getAnalysis(crypto, { interval });
   }
 
-  private parseAIAnalysis(html: string): ParsedSections {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-
-    const sections: ParsedSections = {
-      summary: [],
-      predictions: {
-        shortTerm: '',
-        midTerm: '',
-        longTerm: ''
-      },
-      signals: [],
-      strategy: [],
-      reasoning: []
-    };
-
-    try {
-      // Parse summary
-      const summaryElement = doc.querySelector('.summary p.highlight');
-      if (summaryElement?.textContent) {
-        sections.summary = [summaryElement.textContent.trim()];
-      }
-
-      // Parse predictions
-      const predictionsDiv = doc.querySelector('.predictions');
-      if (predictionsDiv) {
-        const shortTerm = predictionsDiv.querySelector('.prediction.short .price');
-        const midTerm = predictionsDiv.querySelector('.prediction.medium .price');
-        const longTerm = predictionsDiv.querySelector('.prediction.long .price');
-
-        sections.predictions = {
-          shortTerm: shortTerm?.textContent?.trim() || '',
-          midTerm: midTerm?.textContent?.trim() || '',
-          longTerm: longTerm?.textContent?.trim() || ''
-        };
-      }
-
-      // Parse signals
-      const signalsList = doc.querySelectorAll('.signals .signal-item');
-      signalsList.forEach(signal => {
-        const type = signal.classList.contains('positive') ? 'positive' :
-                     signal.classList.contains('negative') ? 'negative' : 'neutral';
-        sections.signals.push({
-          text: signal.textContent?.trim() || '',
-          type
-        });
-      });
-
-      // Parse strategy
-      const strategyDiv = doc.querySelector('.strategy');
-      if (strategyDiv) {
-        const position = strategyDiv.querySelector('.position .value')?.textContent?.trim();
-        const entry = strategyDiv.querySelector('.levels .entry')?.textContent?.trim();
-        const stop = strategyDiv.querySelector('.levels .stop')?.textContent?.trim();
-        const target = strategyDiv.querySelector('.levels .target')?.textContent?.trim();
-
-        if (position || entry || stop || target) {
-          sections.strategy.push({
-            position: position || 'N/A',
-            entry: entry || 'N/A',
-            stop: stop || 'N/A',
-            target: target || 'N/A'
-          });
-        }
-      }
-
-      // Combine all relevant information into reasoning
-      sections.reasoning = [
-        ...sections.summary,
-        ...sections.signals.map(s => s.text),
-        ...(sections.strategy.length > 0 ? [
-          `Position: ${sections.strategy[0].position}`,
-          `Entry: ${sections.strategy[0].entry}`,
-          `Stop: ${sections.strategy[0].stop}`,
-          `Target: ${sections.strategy[0].target}`
-        ] : [])
-      ].filter(Boolean);
-
-    } catch (error) {
-      console.error('Error parsing AI analysis:', error);
-    }
-
-    return sections;
+  // Fast path: return indicators and structure without waiting for the AI narrative
+  async getDetailedAnalysisQuick(crypto: string, interval: CandleInterval = "1h"): Promise<DetailedAnalysis> {
+    try { await priceStore.setActiveCrypto(crypto); } catch {}
+    return api.getAnalysis(crypto, { ai: false, interval });
   }
 
-  async getFullAnalysis(crypto: string): Promise<DetailedAnalysis> {
-    try {
-      // Fetch historical data
-      const historicalData = await api.getHistoricalData(crypto);
-      console.log('Fetching historical data for', crypto, '...');
-      console.log('Historical data response:', historicalData);
-
-      const prices = historicalData.prices;
-      const volumes = historicalData.volumes;
-      const currentPrice = historicalData.current_price;
-
-      // Calculate technical indicators
-      const rsi = this.calculateRSI(prices);
-      const macd = this.calculateMACD(prices);
-      const stochRSI = this.calculateStochRSI(prices);
-      const ma50 = this.calculateSMA(prices, 50);
-      const ma200 = this.calculateSMA(prices, 200);
-      const { support, resistance } = this.findSupportResistance(prices);
-      const volumeRatio = this.calculateVolumeRatio(volumes);
-      const volatility = this.calculateVolatility(prices);
-      const obvTrend = this.calculateOBV(prices, volumes);
-      const marketPhase = this.determineMarketPhase(prices, ma50, ma200);
-
-      // Calculate market sentiment
-      const sentiment = await this.getMarketSentiment(crypto);
-      const newsResponse = await api.getNews(crypto);
-      const newsItems = newsResponse.news;
-
-      // Calculate price targets
-      const priceTargets = {
-        shortTerm: {
-          low: currentPrice * (1 - volatility * 0.1),
-          high: currentPrice * (1 + volatility * 0.1)
-        },
-        midTerm: {
-          low: currentPrice * (1 - volatility * 0.2),
-          high: currentPrice * (1 + volatility * 0.2)
-        },
-        longTerm: {
-          low: currentPrice * (1 - volatility * 0.3),
-          high: currentPrice * (1 + volatility * 0.3)
-        }
-      };
-
-      // Generate signals based on all indicators
-      const signals = [
-        {
-          indicator: 'RSI',
-          value: rsi,
-          signal: this.interpretRSI(rsi),
-          strength: Math.abs(50 - rsi) / 50
-        },
-        {
-          indicator: 'MACD',
-          value: macd.value,
-          signal: macd.interpretation,
-          strength: Math.abs(macd.value / currentPrice)
-        },
-        {
-          indicator: 'StochRSI',
-          value: stochRSI,
-          signal: this.interpretStochRSI(stochRSI),
-          strength: Math.abs(50 - stochRSI) / 50
-        },
-        {
-          indicator: 'OBV',
-          value: 0,
-          signal: obvTrend,
-          strength: volumeRatio - 1
-        }
-      ];
-
-      // Generate AI analysis
-      const technicalIndicators: TechnicalIndicators = {
-        currentPrice,
-        price_change_24h: historicalData.price_change_24h,
-        rsi,
-        macd: {
-          value: macd.value,
-          signal: macd.signal,
-          histogram: macd.histogram,
-          interpretation: macd.interpretation
-        },
-        ma20: this.calculateSMA(prices, 20),
-        ma50,
-        ma200,
-        volumeChange: volumeRatio,
-        marketPhase,
-        volatility: volatility,
-        support,
-        resistance
-      };
-
-      const aiAnalysis = await this.getAIAnalysis(
-        crypto,
-        technicalIndicators,
-        newsItems, // Pass the news array
-        sentiment
-      );
-
-      // Updated market summary with date-based formatting and current trend lines
-      const latestDateIndex = prices.length - 1;
-      const latestPrice = prices[latestDateIndex];
-      const marketSummary = `${crypto.charAt(0).toUpperCase() + crypto.slice(1)} as of ${new Date().toLocaleDateString()} is in a ${marketPhase.toLowerCase()} with ${
-        signals[0].signal.toLowerCase()
-      } momentum and a ${macd.interpretation.toLowerCase()}. Price is ${
-        latestPrice > ma50 ? 'above' : 'below'
-      } most moving averages, indicating ${
-        latestPrice > ma50 && latestPrice > ma200 ? 'bullish momentum' : 'potential trend reversal'
-      }.`;
-
-      console.log('Price Targets Calculation:', {
-        currentPrice,
-        volatility,
-        momentum: signals[0].strength,
-        rsi,
-        macd: macd.value,
-        stochRSI
-      });
-      const baseConfidence = parseFloat((85 - volatility / 2).toFixed(2));
-
-      return {
-        summary: marketSummary,
-        aiAnalysis,
-        priceTargets: {
-          '24H': {
-            range: `$${priceTargets.shortTerm.low.toFixed(2)} - $${priceTargets.shortTerm.high.toFixed(2)}`,
-            confidence: baseConfidence.toString()
-          },
-          '7D': {
-            range: `$${priceTargets.midTerm.low.toFixed(2)} - $${priceTargets.midTerm.high.toFixed(2)}`,
-            confidence: Math.max(30, baseConfidence * 0.9).toString()
-          },
-          '30D': {
-            range: `$${priceTargets.longTerm.low.toFixed(2)} - $${priceTargets.longTerm.high.toFixed(2)}`,
-            confidence: Math.max(30, baseConfidence * 0.8).toString()
-          }
-        },
-        signals: signals.map(s => ({
-          text: `${s.indicator}: ${s.signal}`,
-          importance: s.strength > 0.7 ? 'high' : s.strength > 0.4 ? 'medium' : 'low'
-        })),
-        strategy: {
-          position: marketPhase === 'Bull Market' ? 'Long' : 'Short',
-          entry: (support + (resistance - support) * 0.382).toString(),
-          stop: (support * 0.95).toString(),
-          target: resistance.toString()
-        },
-        marketStructure: {
-          trend: marketPhase
-        }
-      };
-    } catch (error) {
-      console.error('Error in analysis:', error);
-      throw error;
-    }
+  // Indicators first, then the AI narrative as it is generated; returns a function that stops the stream
+  streamDetailedAnalysis(
+    crypto: string,
+    onEvent: (event: AnalysisStreamEvent) => void,
+    onFailure: () => void,
+    interval: CandleInterval = "1h"
+  ): () => void {
+    priceStore.setActiveCrypto(crypto).catch(() => {});
+    return api.streamAnalysis(crypto, onEvent, onFailure, { interval });
   }
 }
 
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { CryptoPrice, NewsItem, SentimentData, PredictionData, BatchPriceData } from './types';
+import { CryptoPrice, NewsItem, SentimentData, BatchPriceData, Candle, CandleInterval, Confluence, DetailedAnalysis, QuoteCurrency, AnalysisStreamEvent, BacktestOptions, BacktestResult, ForecastIssue, ModelKind, Scoreboard, StoredModel } from './types';
 import Sentiment from 'sentiment';
 
 // Initialize sentiment analyzer as a singleton
@@ -28,6 +28,7 @@ const CACHE_DURATION = {
   PRICE: 3 * 60 * 1000,        // 3 minutes - longer cache for prices
   NEWS: 30 * 60 * 1000,        // 30 minutes
   HISTORICAL: 10 * 60 * 1000,  // 10 minutes
+  CANDLES: 10 * 60 * 1000,     // 10 minutes
   SENTIMENT: 30 * 60 * 1000,   // 30 minutes
 };
 
@@ -35,6 +36,7 @@ const CACHE_DURATION = {
 const cache = new Map<string, CacheEntry | NewsCacheEntry>();
 // Track in-flight historical requests to de-duplicate concurrent calls
 const inflightHistory = new Map<string, Promise<any>>();
+const inflightCandles = new Map<string, Promise<Candle[]>>();
 
 const isValidCache = (key: string, type: keyof typeof CACHE_DURATION) => {
   const cached = cache.get(key);
@@ -56,8 +58,9 @@ export const api = {
     };
   },
 
-  async getHistoricalData(crypto: string, days: number = 90) {
-    const cacheKey = `historical-${crypto}-${days}`;
+  // History and candles default to the quote currency selected in the price store
+  async getHistoricalData(crypto: string, days: number = 90, quote: QuoteCurrency = priceStore.getQuote()) {
+    const cacheKey = `historical-${crypto}-${quote}-${days}`;
     
     if (isValidCache(cacheKey, 'HISTORICAL')) {
       return cache.get(cacheKey)!.data;
@@ -76,7 +79,7 @@ export const api = {
       while (attempt < maxAttempts) {
         try {
           const response = await axios.get(`${API_BASE}/crypto/history/${crypto}`, {
-            params: { days: days.toString() },
+            params: { days: days.toString(), quote },
             withCredentials: true
           });
 
@@ -133,6 +136,217 @@ export const api = {
     
   },
 
+  async getCandles(
+    crypto: string,
+    interval: CandleInterval = '1h',
+    days: number = 7,
+    quote: QuoteCurrency = priceStore.getQuote()
+  ): Promise<Candle[]> {
+    const cacheKey = `candles-${crypto}-${quote}-${interval}-${days}`;
+
+    if (isValidCache(cacheKey, 'CANDLES')) {
+      return cache.get(cacheKey)!.data;
+    }
+
+    const existing = inflightCandles.get(cacheKey);
+    if (existing) return existing;
+
+    const attemptFetch = async (): Promise<Candle[]> => {
+      const maxAttempts = 3;
+      let attempt = 0;
+      let lastError: any = null;
+      let backoff = 2000;
+
+      while (attempt < maxAttempts) {
+        try {
+          const response = await axios.get(`${API_BASE}/crypto/ohlc/${crypto}`, {
+            params: { interval, days: days.toString(), quote },
+            withCredentials: true
+          });
+
+          const candles: Candle[] = response.data.candles || [];
+          cache.set(cacheKey, { data: candles, timestamp: Date.now() });
+          return candles;
+        } catch (error: any) {
+          lastError = error;
+          if (error.response?.status === 429) {
+            const retryAfter = Number(error.response?.data?.retryAfter) || Math.ceil(backoff / 1000);
+            console.warn(`429 for ${crypto} candles. Retrying in ${retryAfter}s (attempt ${attempt + 1}/${maxAttempts})`);
+            await new Promise(r => setTimeout(r, retryAfter * 1000));
+            attempt++;
+            backoff *= 2;
+            continue;
+          }
+          break;
+        }
+      }
+
+      console.error('Error fetching candles after retries:', lastError?.message || lastError);
+      const cachedData = cache.get(cacheKey);
+      if (cachedData) {
+        return cachedData.data;
+      }
+      // Callers fall back to close-only history when no candles are available
+      return [];
+    };
+
+    const p = attemptFetch().finally(() => inflightCandles.delete(cacheKey));
+    inflightCandles.set(cacheKey, p);
+    return p;
+  },
+
+  // Server-side analysis on `interval` candles (1h by default); `ai: false` answers fast with indicators only. Cached on the server, not here
+  async getAnalysis(
+    crypto: string,
+    options: { ai?: boolean; quote?: QuoteCurrency; interval?: CandleInterval } = {}
+  ): Promise<DetailedAnalysis> {
+    const quote = options.quote || priceStore.getQuote();
+    const maxAttempts = 3;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await axios.get(`${API_BASE}/analysis/${crypto}`, {
+          params: { quote, interval: options.interval || '1h', ...(options.ai === false ? { ai: 'false' } : {}) },
+          withCredentials: true
+        });
+        return response.data;
+      } catch (error: any) {
+        const status = error.response?.status;
+        if ((status === 429 || status === 503) && attempt < maxAttempts) {
+          const retryAfter = Number(error.response?.data?.retryAfter) || attempt * 2;
+          console.warn(`${status} for ${crypto} analysis. Retrying in ${retryAfter}s (attempt ${attempt}/${maxAttempts})`);
+          await new Promise(r => setTimeout(r, retryAfter * 1000));
+          continue;
+        }
+        throw new Error(error.response?.data?.error || error.message || 'Failed to fetch analysis');
+      }
+    }
+  },
+
+  /*
+   * Server-sent analysis stream (see AnalysisStreamEvent). Returns a function that closes it.
+   * onFailure fires when the connection drops before the final event; there is no automatic
+   * reconnect, since a new connection would start the analysis over.
+   */
+  streamAnalysis(
+    crypto: string,
+    onEvent: (event: AnalysisStreamEvent) => void,
+    onFailure: () => void,
+    options: { quote?: QuoteCurrency; interval?: CandleInterval } = {}
+  ): () => void {
+    const quote = options.quote || priceStore.getQuote();
+    const source = new EventSource(
+      `${API_BASE}/analysis/${encodeURIComponent(crypto)}/stream?quote=${quote}&interval=${options.interval || '1h'}`,
+      { withCredentials: true }
+    );
+    let finished = false;
+
+    source.onmessage = message => {
+      const event = JSON.parse(message.data) as AnalysisStreamEvent;
+      if (event.type === 'analysis' || event.type === 'error') {
+        finished = true;
+        source.close();
+      }
+      onEvent(event);
+    };
+    source.onerror = () => {
+      source.close();
+      if (!finished) {
+        finished = true;
+        onFailure();
+      }
+    };
+
+    return () => {
+      finished = true;
+      source.close();
+    };
+  },
+
+  // Trend, momentum and key levels across 1h/4h/1d/1w; cached for a few minutes on the server
+  async getConfluence(crypto: string, quote: QuoteCurrency = priceStore.getQuote()): Promise<Confluence> {
+    try {
+      const response = await axios.get(`${API_BASE}/analysis/${crypto}/confluence`, {
+        params: { quote },
+        withCredentials: true
+      });
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Failed to fetch confluence');
+    }
+  },
+
+  // The strategy replayed over past candles; runs on the server and is cached there per coin, range and options
+  async getBacktest(
+    crypto: string,
+    { quote = priceStore.getQuote(), interval = '1h', days, options = {} }: {
+      quote?: QuoteCurrency;
+      interval?: CandleInterval;
+      days?: number;
+      options?: Partial<Omit<BacktestOptions, 'warmup'>>;
+    } = {}
+  ): Promise<BacktestResult> {
+    try {
+      const response = await axios.get(`${API_BASE}/backtest/${crypto}`, {
+        params: { quote, interval, days, ...options },
+        withCredentials: true
+      });
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Failed to run backtest');
+    }
+  },
+
+  // Trained weights from the server's model registry; null while the first version is still training there
+  async getModel(
+    kind: ModelKind,
+    crypto: string,
+    { quote = priceStore.getQuote(), interval = '1h' }: { quote?: QuoteCurrency; interval?: CandleInterval } = {}
+  ): Promise<StoredModel | null> {
+    try {
+      const response = await axios.get(`${API_BASE}/models/${kind}/${crypto}`, {
+        params: { quote, interval },
+        withCredentials: true
+      });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw new Error(error.response?.data?.error || error.message || 'Failed to load model');
+    }
+  },
+
+  // Hand forecasts made in the browser to the server's accuracy tracker. Best effort: a failure only loses the record
+  async recordForecasts(
+    crypto: string,
+    model: 'advanced' | 'lstm',
+    forecasts: ForecastIssue['forecasts'],
+    quote: QuoteCurrency = priceStore.getQuote()
+  ): Promise<void> {
+    try {
+      await axios.post(`${API_BASE}/forecasts/${crypto}`, { model, forecasts }, {
+        params: { quote },
+        withCredentials: true
+      });
+    } catch (error: any) {
+      console.warn(`Could not record ${model} forecasts for ${crypto}:`, error.response?.data?.error || error.message);
+    }
+  },
+
+  // How past forecasts scored, per model, timeframe and horizon; every coin unless one is given
+  async getForecastScoreboard(
+    { crypto, quote = priceStore.getQuote() }: { crypto?: string; quote?: QuoteCurrency } = {}
+  ): Promise<Scoreboard> {
+    try {
+      const response = await axios.get(`${API_BASE}/forecasts/scoreboard`, {
+        params: { quote, crypto },
+        withCredentials: true
+      });
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || error.message || 'Failed to load forecast scoreboard');
+    }
+  },
+
   calculate24hChange(prices: [number, number][]): number {
     if (prices.length < 2) return 0;
     const currentPrice = prices[prices.length - 1][1];
@@ -488,26 +702,6 @@ export const api = {
     return impact;
   },
 
-  async getPredictions(crypto: string): Promise<PredictionData[]> {
-    const cacheKey = `predictions-${crypto}`;
-    
-    if (isValidCache(cacheKey, 'PRICE')) {
-      return cache.get(cacheKey)!.data;
-    }
-
-    try {
-      // Get historical data for predictions
-      // Real prediction data not available - return empty array
-      const predictions: PredictionData[] = [];
-
-      cache.set(cacheKey, { data: predictions, timestamp: Date.now() });
-      return predictions;
-    } catch (error) {
-      console.error('Error generating predictions:', error);
-      return []; // Return empty array when predictions unavailable
-    }
-  },
-
   async getVolume(crypto: string, days: number = 30) {
     const cacheKey = `volume-${crypto}-${days}`;
     
@@ -561,8 +755,8 @@ export const api = {
     return result;
   },
 
-  async getBatchHistoricalData(coins: string[], days: number = 200) {
-    const cacheKey = `batch-historical-${coins.join('-')}-${days}`;
+  async getBatchHistoricalData(coins: string[], days: number = 200, quote: QuoteCurrency = priceStore.getQuote()) {
+    const cacheKey = `batch-historical-${quote}-${coins.join('-')}-${days}`;
     
     if (isValidCache(cacheKey, 'HISTORICAL')) {
       return cache.get(cacheKey)!.data;
@@ -571,7 +765,7 @@ export const api = {
     try {
       const promises = coins.map(coin => 
         axios.get(`${API_BASE}/crypto/history/${coin}`, {
-          params: { days },
+          params: { days, quote },
           withCredentials: true
         })
       );
@@ -0,0 +1,33 @@
+import { api } from './api';
+import { Candle, CandleInterval } from './types';
+import { candlesFromCloses } from '../shared/analysis/indicators';
+
+// Candle math is shared with the analysis API
+export {
+  calculateATR,
+  calculateStochastic,
+  calculateTrueRanges,
+  candlesFromCloses,
+  projectRangeFromATR
+} from '../shared/analysis/indicators';
+
+const MIN_CANDLES = 30; // below this, indicators fall back to close-derived candles
+
+// Prefer real candles; use the close series when the endpoint has nothing for this coin
+export async function loadCandles(
+  crypto: string,
+  history: { prices?: number[]; volumes?: number[]; timestamps?: number[] },
+  interval: CandleInterval = '1h',
+  days: number = 14
+): Promise<Candle[]> {
+  try {
+    const candles = (await api.getCandles(crypto, interval, days)).filter(
+      c => [c.open, c.high, c.low, c.close].every(v => Number.isFinite(v) && v > 0)
+    );
+    if (candles.length >= MIN_CANDLES) return candles;
+    console.warn(`[candles] Only ${candles.length} candles for ${crypto}, deriving from closes`);
+  } catch (error) {
+    console.error('Error fetching candles:', error);
+  }
+  return candlesFromCloses(history.prices || [], history.volumes || [], history.timestamps || []);
+}
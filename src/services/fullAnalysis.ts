@@ -0,0 +1,148 @@
+/*
+ * The main thread's half of the advanced analysis: fetches its inputs and records its forecasts.
+ * The analysis itself runs in the analysis worker (see advancedAnalysis.ts and worker/), so the
+ * dashboard keeps rendering while it computes.
+ */
+import { api } from './api';
+import { priceStore } from './priceStore';
+import { loadCandles } from './candles';
+import type { AdvancedAnalysis } from './advancedAnalysis';
+import { analysisWorker, TaskCancelledError, type TaskOptions } from './worker/client';
+import { throwIfCancelled } from './worker/protocol';
+
+function unavailable(crypto: string): never {
+  throw new Error(`Analysis unavailable for ${crypto}. Please ensure you have an active internet connection and try again.`);
+}
+
+// Aborting `options.signal` (the user switched coins) rejects with TaskCancelledError
+export async function getFullAnalysis(crypto: string, options: TaskOptions = {}): Promise<AdvancedAnalysis> {
+  try {
+    // Normalize crypto id for APIs
+    const id = (crypto || '').trim().toLowerCase();
+
+    // Get current price from centralized price store; everything below is in its quote
+    const quote = priceStore.getQuote();
+    let priceData = await priceStore.getPrice(id);
+    // Preflight: if price is 0 on first switch, wait briefly for readiness to reduce retries later
+    if (!priceData.price || priceData.price <= 0) {
+      const startWait = Date.now();
+      while (Date.now() - startWait < 1200) {
+        await new Promise(r => setTimeout(r, 200));
+        priceData = await priceStore.getPrice(id);
+        if (priceData.price && priceData.price > 0) break;
+      }
+    }
+    
+    // Fetch historical data with a short readiness retry if needed
+    let historicalData = await api.getHistoricalData(id, 90, quote);
+    if (!historicalData?.prices?.length || historicalData.prices.length < 60) {
+      for (let i = 0; i < 4; i++) {
+        await new Promise(r => setTimeout(r, 250));
+        historicalData = await api.getHistoricalData(id, 90, quote);
+        if (historicalData?.prices?.length && historicalData.prices.length >= 60) break;
+      }
+    }
+    console.log('Raw Historical Data:', historicalData);
+
+    // Validate the data
+    if (!historicalData?.prices?.length || historicalData.prices.length < 60) {
+      console.error('Invalid or insufficient historical data:', historicalData);
+      return unavailable(crypto);
+    }
+
+    // Process the data - use price from price store
+    const processedData = {
+      prices: historicalData.prices.filter((p: number) => Number.isFinite(p) && p > 0),
+      volumes: (historicalData.volumes && historicalData.volumes.length === historicalData.prices.length)
+        ? historicalData.volumes
+        : Array(historicalData.prices.length).fill(0),
+      current_price: priceData.price, // initial current price from store
+      market_cap: historicalData.market_cap || 0,
+      price_change_24h: priceData.change24h // Use change24h from centralized store
+    };
+
+    // If current price isn't ready yet (common right after switching assets),
+    // try to recover using historical last price or a short retry from the store
+    if (!processedData.current_price || processedData.current_price <= 0) {
+      const lastHistPrice = processedData.prices[processedData.prices.length - 1];
+      if (lastHistPrice && lastHistPrice > 0) {
+        console.warn(`[advancedAnalysis] Using last historical price for ${id} as fallback:`, lastHistPrice);
+        processedData.current_price = lastHistPrice;
+      } else {
+        console.warn(`[advancedAnalysis] Current price not ready for ${id}. Retrying price store briefly...`);
+        for (let attempt = 1; attempt <= 2; attempt++) {
+          // wait 400ms then retry getting price from store
+          await new Promise(r => setTimeout(r, 400));
+          priceData = await priceStore.getPrice(id);
+          if (priceData.price && priceData.price > 0) {
+            processedData.current_price = priceData.price;
+            console.warn(`[advancedAnalysis] Recovered current price for ${id} on attempt ${attempt}:`, priceData.price);
+            break;
+          }
+        }
+      }
+    }
+
+    // Final validation of processed data
+    if (processedData.current_price <= 0 || processedData.prices.length === 0) {
+      console.error('[advancedAnalysis] Invalid processed data after fallbacks:', {
+        hasPrices: processedData.prices.length,
+        currentPrice: processedData.current_price
+      });
+      return unavailable(id);
+    }
+
+    console.log('Processed Data:', {
+      pricesLength: processedData.prices.length,
+      firstPrice: processedData.prices[0],
+      lastPrice: processedData.prices[processedData.prices.length - 1],
+      currentPrice: processedData.current_price,
+      marketCap: processedData.market_cap,
+      priceChange24h: processedData.price_change_24h
+    });
+
+    // OHLC candles for range-based indicators (falls back to closes when unavailable)
+    const candles = await loadCandles(id, historicalData);
+
+    // Get sentiment and news data
+    const sentiment = await api.getSentiment(id);
+    const newsData = await api.getNews(id);
+    const confluence = await api.getConfluence(id, quote).catch(error => {
+      console.warn(`[advancedAnalysis] Confluence for ${id} unavailable:`, error.message);
+      return null;
+    });
+    const storedModel = (kind: 'trend' | 'level') => api.getModel(kind, id, { quote }).catch(error => {
+      console.warn(`[advancedAnalysis] ${kind} model for ${id} unavailable:`, error.message);
+      return null;
+    });
+    const [trend, level] = await Promise.all([storedModel('trend'), storedModel('level')]);
+    throwIfCancelled(options.signal);
+
+    const analysis = await analysisWorker.run('analysis', {
+      crypto: id,
+      quote,
+      currentPrice: processedData.current_price,
+      prices: processedData.prices,
+      volumes: processedData.volumes,
+      candles,
+      sentiment,
+      news: newsData?.news || [],
+      confluence,
+      models: { trend, level }
+    }, options);
+
+    // Scored against the realized price once each horizon has passed (see the forecast scoreboard)
+    const { predictions } = analysis;
+    void api.recordForecasts(id, 'advanced', [
+      { horizon: '24H', ...predictions.shortTerm.price, confidence: predictions.shortTerm.confidence },
+      { horizon: '7D', ...predictions.midTerm.price, confidence: predictions.midTerm.confidence },
+      { horizon: '30D', ...predictions.longTerm.price, confidence: predictions.longTerm.confidence }
+    ], quote);
+    return analysis;
+  } catch (error) {
+    if (error instanceof TaskCancelledError) throw error;
+    console.error('Error in advanced analysis:', error);
+    return unavailable((crypto || '').trim().toLowerCase());
+  }
+}
+
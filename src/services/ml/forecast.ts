@@ -0,0 +1,18 @@
+import * as tf from '@tensorflow/tfjs';
+import type { Candle, StoredModel } from '../types';
+import { mlModels } from './models';
+import { indicatorSeries } from '../../shared/analysis/engine';
+import { priceWindow } from '../../shared/ml/features';
+
+// What the analysis worker needs for an LSTM price forecast
+export interface PredictionInputs {
+  model: StoredModel;
+  candles: Candle[];
+}
+
+// The price model's outputs for the window ending at the last candle; runs in the analysis worker
+export async function forecastPrices({ model, candles }: PredictionInputs): Promise<number[]> {
+  const loaded = await mlModels.load(model);
+  const window = priceWindow(candles, indicatorSeries(candles), candles.length - 1);
+  return tf.tidy(() => Array.from((loaded.model.predict(tf.tensor3d([window])) as tf.Tensor).dataSync()));
+}
@@ -1,120 +1,55 @@
 import * as tf from '@tensorflow/tfjs';
+import type { ModelMeta, StoredModel } from '../types';
+import { modelId } from '../../shared/ml/types';
 
-export class MLModels {
-  private trendModel: tf.LayersModel | null = null;
-  private priceModel: tf.LayersModel | null = null;
-  private levelModel: tf.LayersModel | null = null;
+export interface LoadedModel {
+  model: tf.LayersModel;
+  meta: ModelMeta;
+}
 
-  async getTrendModel() {
-    if (!this.trendModel) {
-      this.trendModel = await this.createTrendModel();
-    }
-    return this.trendModel;
-  }
+// The registry ships weights base64-encoded; TF.js wants the raw buffer
+function decodeWeights(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
 
-  async getPriceModel() {
-    if (!this.priceModel) {
-      this.priceModel = await this.createPriceModel();
-    }
-    return this.priceModel;
-  }
+/*
+ * Models trained on the server (see server/ml), loaded for inference only. Lives in the analysis
+ * worker: the main thread fetches the stored model (api.getModel) and hands it over, and each
+ * coin and timeframe keeps its loaded version until the server has a newer one.
+ */
+export class MLModels {
+  private readonly loaded = new Map<string, LoadedModel>(); // by model id
+  private readonly inflight = new Map<string, Promise<LoadedModel>>(); // by model id and version
 
-  async getLevelModel() {
-    if (!this.levelModel) {
-      this.levelModel = await this.createLevelModel();
-    }
-    return this.levelModel;
-  }
+  load(stored: StoredModel): Promise<LoadedModel> {
+    const key = modelId(stored.meta);
+    const current = this.loaded.get(key);
+    if (current?.meta.version === stored.meta.version) return Promise.resolve(current);
 
-  private async createTrendModel() {
-    const model = tf.sequential();
-    
-    model.add(tf.layers.dense({
-      units: 32,
-      activation: 'relu',
-      inputShape: [4]
-    }));
-    
-    model.add(tf.layers.dropout({ rate: 0.2 }));
-    
-    model.add(tf.layers.dense({
-      units: 16,
-      activation: 'relu'
-    }));
-    
-    model.add(tf.layers.dense({
-      units: 1,
-      activation: 'tanh'
-    }));
-    
-    model.compile({
-      optimizer: tf.train.adam(0.001),
-      loss: 'meanSquaredError'
-    });
-    
-    return model;
-  }
+    const loading = `${key}:v${stored.meta.version}`;
+    const pending = this.inflight.get(loading);
+    if (pending) return pending;
 
-  private async createPriceModel() {
-    const model = tf.sequential();
-    
-    model.add(tf.layers.lstm({
-      units: 100,
-      returnSequences: true,
-      inputShape: [20, 6]
-    }));
-    
-    model.add(tf.layers.dropout({ rate: 0.2 }));
-    
-    model.add(tf.layers.lstm({
-      units: 50,
-      returnSequences: false
-    }));
-    
-    model.add(tf.layers.dense({
-      units: 25,
-      activation: 'relu'
-    }));
-    
-    model.add(tf.layers.dense({
-      units: 2
-    }));
-    
-    model.compile({
-      optimizer: tf.train.adam(0.001),
-      loss: 'meanSquaredError'
-    });
-    
-    return model;
+    const request = this.build(key, stored).finally(() => this.inflight.delete(loading));
+    this.inflight.set(loading, request);
+    return request;
   }
 
-  private async createLevelModel() {
-    const model = tf.sequential();
-    
-    model.add(tf.layers.dense({
-      units: 64,
-      activation: 'relu',
-      inputShape: [20]
-    }));
-    
-    model.add(tf.layers.dropout({ rate: 0.3 }));
-    
-    model.add(tf.layers.dense({
-      units: 32,
-      activation: 'relu'
-    }));
-    
-    model.add(tf.layers.dense({
-      units: 4
-    }));
-    
-    model.compile({
-      optimizer: tf.train.adam(0.001),
-      loss: 'meanSquaredError'
-    });
-    
-    return model;
+  private async build(key: string, stored: StoredModel): Promise<LoadedModel> {
+    const { modelTopology, weightSpecs, weightData } = stored.artifacts;
+    const model = await tf.loadLayersModel(tf.io.fromMemory({
+      modelTopology,
+      weightSpecs,
+      weightData: decodeWeights(weightData)
+    }));
+    this.loaded.get(key)?.model.dispose();
+    const loaded = { model, meta: stored.meta };
+    this.loaded.set(key, loaded);
+    return loaded;
   }
 }
 
-export const mlModels = new MLModels(); 
\ No newline at end of file
+export const mlModels = new MLModels();
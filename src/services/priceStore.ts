@@ -1,7 +1,21 @@
+import { DEFAULT_QUOTE, isQuoteCurrency, type QuoteCurrency } from '../lib/currency';
+
 interface PriceData {
   price: number;
   change24h: number;
   timestamp: number;
+  quote: QuoteCurrency;
+}
+
+const QUOTE_STORAGE_KEY = 'quoteCurrency';
+
+function loadStoredQuote(): QuoteCurrency {
+  try {
+    const stored = localStorage.getItem(QUOTE_STORAGE_KEY);
+    return isQuoteCurrency(stored) ? stored : DEFAULT_QUOTE;
+  } catch {
+    return DEFAULT_QUOTE;
+  }
 }
 
 interface PriceSubscriber {
@@ -11,11 +25,12 @@ interface PriceSubscriber {
 
 class PriceStore {
   private static instance: PriceStore;
-  private prices: Map<string, PriceData> = new Map();
+  private prices: Map<string, PriceData> = new Map(); // keyed by crypto:quote
   private subscribers: PriceSubscriber[] = [];
   private activeRequests: Map<string, Promise<PriceData>> = new Map();
   private intervals: Map<string, NodeJS.Timeout> = new Map();
   private currentCrypto: string = 'bitcoin';
+  private quote: QuoteCurrency = loadStoredQuote();
   
   private readonly UPDATE_INTERVAL = 120000; // 2 minutes
   private readonly CACHE_DURATION = 180000; // 3 minutes
@@ -32,7 +47,7 @@ class PriceStore {
     this.subscribers.push({ id, callback });
     
     // Immediately provide current price if available
-    const currentPrice = this.prices.get(this.currentCrypto);
+    const currentPrice = this.prices.get(this.key(this.currentCrypto));
     if (currentPrice && this.isDataFresh(currentPrice)) {
       callback(this.currentCrypto, currentPrice);
     }
@@ -69,9 +84,39 @@ class PriceStore {
     this.intervals.set(crypto, interval);
   }
 
+  // Quote currency every price, history and analysis request is made in
+  getQuote(): QuoteCurrency {
+    return this.quote;
+  }
+
+  // Switch the quote currency and refresh the active crypto in it
+  async setQuote(quote: QuoteCurrency): Promise<void> {
+    if (this.quote === quote) return;
+
+    console.log(`PriceStore: Quoting prices in ${quote.toUpperCase()}`);
+    this.quote = quote;
+    try {
+      localStorage.setItem(QUOTE_STORAGE_KEY, quote);
+    } catch {
+      // Storage can be unavailable (private mode); the choice then lasts for this session
+    }
+
+    // Fetching notifies subscribers; a fresh cached price has to be pushed explicitly
+    const cached = this.prices.get(this.key(this.currentCrypto));
+    if (cached && this.isDataFresh(cached)) {
+      this.notifySubscribers(this.currentCrypto, cached);
+    } else {
+      await this.fetchPrice(this.currentCrypto);
+    }
+  }
+
+  private key(crypto: string, quote: QuoteCurrency = this.quote): string {
+    return `${crypto}:${quote}`;
+  }
+
   // Get current price (from cache or fetch fresh)
   async getPrice(crypto: string): Promise<PriceData> {
-    const cached = this.prices.get(crypto);
+    const cached = this.prices.get(this.key(crypto));
     
     // Return cached if fresh
     if (cached && this.isDataFresh(cached)) {
@@ -85,36 +130,41 @@ class PriceStore {
 
   // Internal method to fetch price (prevents duplicate requests)
   private async fetchPrice(crypto: string): Promise<PriceData> {
+    const quote = this.quote;
+    const key = this.key(crypto, quote);
+
     // Check if request is already in progress
-    const existingRequest = this.activeRequests.get(crypto);
+    const existingRequest = this.activeRequests.get(key);
     if (existingRequest) {
       console.log(`PriceStore: Request already in progress for ${crypto}`);
       return existingRequest;
     }
 
-    console.log(`PriceStore: Fetching fresh price for ${crypto}`);
+    console.log(`PriceStore: Fetching fresh price for ${crypto} in ${quote.toUpperCase()}`);
     
     // Create the request promise
-    const requestPromise = this.performFetch(crypto);
-    this.activeRequests.set(crypto, requestPromise);
+    const requestPromise = this.performFetch(crypto, quote);
+    this.activeRequests.set(key, requestPromise);
     
     try {
       const price = await requestPromise;
-      this.prices.set(crypto, price);
+      this.prices.set(key, price);
       
-      // Notify all subscribers
-      this.notifySubscribers(crypto, price);
+      // Notify all subscribers, unless the quote was switched while this was in flight
+      if (quote === this.quote) {
+        this.notifySubscribers(crypto, price);
+      }
       
       return price;
     } finally {
       // Clean up the active request
-      this.activeRequests.delete(crypto);
+      this.activeRequests.delete(key);
     }
   }
 
-  private async performFetch(crypto: string): Promise<PriceData> {
+  private async performFetch(crypto: string, quote: QuoteCurrency): Promise<PriceData> {
     try {
-      const response = await fetch(`/api/crypto/price/${crypto}`, {
+      const response = await fetch(`/api/crypto/price/${crypto}?quote=${quote}`, {
         credentials: 'include'
       });
 
@@ -127,13 +177,14 @@ class PriceStore {
       return {
         price: data.price || 0,
         change24h: data.change24h || 0,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        quote
       };
     } catch (error) {
       console.error(`PriceStore: Error fetching ${crypto}:`, error);
       
       // Return cached data if available, even if stale
-      const cached = this.prices.get(crypto);
+      const cached = this.prices.get(this.key(crypto, quote));
       if (cached) {
         console.log(`PriceStore: Returning stale cached data for ${crypto}`);
         return cached;
@@ -143,7 +194,8 @@ class PriceStore {
       return {
         price: 0,
         change24h: 0,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        quote
       };
     }
   }
@@ -192,7 +244,8 @@ class PriceStore {
         results[crypto] = {
           price: 0,
           change24h: 0,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          quote: this.quote
         };
       }
     });
@@ -1,9 +1,37 @@
+import type { AIAnalysis } from '../shared/analysis/schema';
+import type { TrendSystems } from '../shared/analysis/types';
+import type { FibonacciLevels } from '../shared/analysis/swings';
+import type { Divergence } from '../shared/analysis/divergences';
+import type { ChartPattern } from '../shared/analysis/patterns';
+import type { Confluence } from '../shared/analysis/confluence';
+
 export interface CryptoPrice {
   price: number;
   timestamp: number;
   change24h: number;
 }
 
+export type CandleInterval = '1h' | '4h' | '1d' | '1w';
+
+export type { QuoteCurrency } from '../lib/currency';
+export type { AnalysisStreamEvent, DetailedAnalysis } from '../shared/analysis/types';
+export type { BreakoutEntry, TradingStrategy } from '../shared/analysis/strategy';
+export type { BacktestMetrics, BacktestOptions, BacktestResult, BacktestTrade, EquityPoint } from '../shared/backtest/types';
+export type { ModelKind, ModelMeta, StoredModel, TargetMetrics } from '../shared/ml/types';
+export type {
+  CalibrationBin, ForecastHorizon, ForecastIssue, ForecastModel, ForecastScore, Scoreboard
+} from '../shared/forecasts/types';
+export type { AIAnalysis, ChartPattern, Confluence, Divergence, FibonacciLevels, TrendSystems };
+
+export interface Candle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
 export interface NewsItem {
   title: string;
   source: string;
@@ -51,28 +79,7 @@ export interface RiskFactors {
   market: number;
 }
 
-export interface TradingStrategy {
-  recommendation: string;
-  confidence: number;
-  entries: {
-    conservative: number;
-    moderate: number;
-    aggressive: number;
-  };
-  stopLoss: {
-    tight: number;
-    normal: number;
-    wide: number;
-  };
-  targets: {
-    primary: number;
-    secondary: number;
-    final: number;
-  };
-  timeframe: string;
-  rationale: string[];
-}
-
+// A trade off a confirmed chart pattern: enter on a retest of the broken level
 export interface Signal {
   text: string;
   importance: string;
@@ -80,7 +87,10 @@ export interface Signal {
 
 export interface AnalysisData {
   summary: string;
-  aiAnalysis: string;
+  aiAnalysis: AIAnalysis | null;
+  aiProvider?: string;
+  promptVersion?: string;
+  aiError?: string;
   priceTargets: {
     '24H': { range: string; confidence: string };
     '7D': { range: string; confidence: string };
@@ -123,6 +133,8 @@ export interface TechnicalSignals {
     primary: string;
     secondary: string;
     strength: number;
+    ichimoku: TrendSystems['ichimoku'] | null; // null without candles
+    supertrend: TrendSystems['supertrend'] | null;
   };
   momentum: {
     rsi: { 
@@ -137,9 +149,14 @@ export interface TechnicalSignals {
       value: number; 
       signal: string; 
     };
+    stochastic: {
+      value: number;
+      signal: string;
+    };
   };
   volatility: {
     current: number;
+    atr: number;
     trend: string;
     risk: 'low' | 'medium' | 'high';
   };
@@ -148,29 +165,7 @@ export interface TechnicalSignals {
     trend: string;
     significance: 'weak' | 'moderate' | 'strong';
   };
-}
-
-export interface DetailedAnalysis {
-  summary: string;
-  aiAnalysis: string;
-  priceTargets: {
-    '24H': { range: string; confidence: string };
-    '7D': { range: string; confidence: string };
-    '30D': { range: string; confidence: string };
-  };
-  signals: Array<{
-    text: string;
-    importance: string;
-  }>;
-  strategy: {
-    position: string;
-    entry: string;
-    stop: string;
-    target: string;
-  };
-  marketStructure: {
-    trend: string;
-  };
+  divergences: Divergence[]; // against the latest swing pivots, empty without candles
 }
 
 export interface FeaturedCoin {
@@ -1,4 +1,12 @@
 import { priceStore } from './priceStore'; // Use price store instead of api directly
+import {
+  WS_PROTOCOL_VERSION,
+  parseServerMessage,
+  type ClientMessage,
+  type PriceTick,
+  type QuoteCurrency,
+  type ServerMessage
+} from '../shared/ws/protocol';
 
 type WebSocketCallback = (data: any) => void;
 
@@ -10,7 +18,11 @@ class WebSocketService {
   private subscribers: Set<WebSocketCallback> = new Set();
   private isConnecting = false;
   private currentCrypto: string = 'bitcoin';
+  private currentQuote: QuoteCurrency = priceStore.getQuote();
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private heartbeatMs = 30000; // replaced by the server's value in its hello
+  private lastFrameAt = 0;
+  private ticks = new Map<string, PriceTick>(); // merged snapshot + deltas per symbol, in currentQuote
   private pricePollingInterval: NodeJS.Timeout | null = null;
   private lastPriceUpdate: number = 0;
   private PRICE_UPDATE_THRESHOLD = 10000; // 10 seconds
@@ -40,34 +52,18 @@ class WebSocketService {
         this.reconnectAttempts = 0;
         this.isConnecting = false;
         
-        // Start heartbeat
-        this.heartbeatInterval = setInterval(() => {
-          if (this.ws?.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify({ type: 'ping' }));
-          }
-        }, 30000);
-
-        // Send initial subscription
-        this.sendMessage({ type: 'subscribe', crypto: this.currentCrypto });
+        // Subscriptions are sent once the server answers the handshake
+        this.sendMessage({ type: 'hello', version: WS_PROTOCOL_VERSION, client: 'dashboard' });
       };
 
       this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          if (data.type === 'pong') {
-            return; // Ignore heartbeat responses
-          }
-          if (data && data[this.currentCrypto]) {
-            const price = {
-              price: parseFloat(data[this.currentCrypto].usd),
-              change24h: parseFloat(data[this.currentCrypto].usd_24h_change),
-              timestamp: Date.now()
-            };
-            this.notifySubscribers([price]);
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
+        const message = parseServerMessage(event.data);
+        if (!message) {
+          console.error('Ignoring unrecognised WebSocket frame:', event.data);
+          return;
         }
+        this.lastFrameAt = Date.now();
+        this.handleMessage(message);
       };
 
       this.ws.onclose = (event) => {
@@ -99,6 +95,63 @@ class WebSocketService {
     }
   }
 
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'hello':
+        this.heartbeatMs = message.heartbeatMs;
+        this.startHeartbeatWatchdog();
+        this.ticks.clear();
+        this.sendMessage({ type: 'subscribe', symbols: [this.currentCrypto], quote: this.currentQuote });
+        break;
+      case 'snapshot':
+        if (message.quote !== this.currentQuote) break; // left over from before a quote switch
+        Object.entries(message.prices).forEach(([symbol, tick]) => this.ticks.set(symbol, tick));
+        this.notifyTick(Object.keys(message.prices));
+        break;
+      case 'delta':
+        if (message.quote !== this.currentQuote) break;
+        Object.entries(message.changes).forEach(([symbol, changes]) => {
+          this.ticks.set(symbol, { ...this.ticks.get(symbol), ...changes } as PriceTick);
+        });
+        this.notifyTick(Object.keys(message.changes));
+        break;
+      case 'error':
+        console.error(`WebSocket error frame ${message.code}: ${message.message}`, message.symbols || '');
+        if (message.code === 'UNSUPPORTED_VERSION') {
+          // Reconnecting will not help; stay on polling until the app is updated
+          this.reconnectAttempts = this.maxReconnectAttempts;
+        }
+        break;
+      default:
+        break; // heartbeat, pong and subscriptions only refresh lastFrameAt
+    }
+  }
+
+  // The server sends a heartbeat every heartbeatMs; two missed ones mean the socket is dead
+  private startHeartbeatWatchdog() {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+    this.heartbeatInterval = setInterval(() => {
+      if (Date.now() - this.lastFrameAt > this.heartbeatMs * 2) {
+        console.warn('WebSocket heartbeat missed, reconnecting');
+        this.ws?.close();
+      }
+    }, this.heartbeatMs);
+  }
+
+  private notifyTick(symbols: string[]) {
+    const tick = this.ticks.get(this.currentCrypto);
+    if (!tick || !symbols.includes(this.currentCrypto)) return;
+    this.lastPriceUpdate = Date.now();
+    this.notifySubscribers([{
+      price: tick.price,
+      change24h: tick.change24h,
+      quote: this.currentQuote,
+      timestamp: Date.now()
+    }]);
+  }
+
   private async startPricePolling() {
     const pollPrice = async () => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
@@ -112,6 +165,7 @@ class WebSocketService {
             const price = {
               price: priceData.price,
               change24h: priceData.change24h,
+              quote: priceData.quote,
               timestamp: now
             };
             
@@ -153,13 +207,26 @@ class WebSocketService {
   }
 
   updateCrypto(crypto: string) {
+    const previous = this.currentCrypto;
     this.currentCrypto = crypto;
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.sendMessage({ type: 'subscribe', crypto });
+    if (this.ws?.readyState === WebSocket.OPEN && previous !== crypto) {
+      this.sendMessage({ type: 'unsubscribe', symbols: [previous], quote: this.currentQuote });
+      this.ticks.delete(previous);
+      this.sendMessage({ type: 'subscribe', symbols: [crypto], quote: this.currentQuote });
+    }
+  }
+
+  updateQuote(quote: QuoteCurrency) {
+    const previous = this.currentQuote;
+    this.currentQuote = quote;
+    if (this.ws?.readyState === WebSocket.OPEN && previous !== quote) {
+      this.sendMessage({ type: 'unsubscribe', symbols: [this.currentCrypto], quote: previous });
+      this.ticks.clear();
+      this.sendMessage({ type: 'subscribe', symbols: [this.currentCrypto], quote });
     }
   }
 
-  sendMessage(message: any) {
+  sendMessage(message: ClientMessage) {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
     }
@@ -0,0 +1,44 @@
+/*
+ * The analysis worker: runs the dashboard's analysis and TF.js inference off the main thread.
+ * Tasks run one at a time in the order they arrive; a cancelled task stops at its next stage.
+ */
+import { advancedAnalysis } from '../advancedAnalysis';
+import { forecastPrices } from '../ml/forecast';
+import { TaskCancelledError, type Checkpoint, type WorkerRequest, type WorkerResponse } from './protocol';
+
+const cancelled = new Set<number>();
+let queue: Promise<void> = Promise.resolve();
+
+const post = (response: WorkerResponse) => self.postMessage(response);
+
+async function run(request: Extract<WorkerRequest, { type: 'run' }>): Promise<void> {
+  const { id } = request;
+  const checkpoint: Checkpoint = async progress => {
+    await new Promise(resolve => setTimeout(resolve, 0)); // lets a pending cancel message in
+    if (cancelled.has(id)) throw new TaskCancelledError();
+    post({ type: 'progress', id, progress });
+  };
+
+  try {
+    if (cancelled.has(id)) throw new TaskCancelledError();
+    const result = request.task === 'analysis'
+      ? await advancedAnalysis.analyze(request.inputs, checkpoint)
+      : await forecastPrices(request.inputs);
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post(error instanceof TaskCancelledError
+      ? { type: 'cancelled', id }
+      : { type: 'error', id, error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    cancelled.delete(id);
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    cancelled.add(request.id);
+    return;
+  }
+  queue = queue.then(() => run(request));
+};
@@ -0,0 +1,85 @@
+import {
+  TaskCancelledError,
+  type WorkerProgress,
+  type WorkerRequest,
+  type WorkerResponse,
+  type WorkerTask,
+  type WorkerTasks
+} from './protocol';
+
+interface PendingTask {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+export interface TaskOptions {
+  signal?: AbortSignal; // aborting cancels the task; its promise rejects with TaskCancelledError
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+/*
+ * The main thread's side of the analysis worker (see analysis.worker.ts). The worker starts on
+ * the first task and is restarted after a crash, which fails the tasks it had.
+ */
+class AnalysisWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingTask>();
+
+  run<K extends WorkerTask>(task: K, inputs: WorkerTasks[K]['inputs'], { signal, onProgress }: TaskOptions = {}): Promise<WorkerTasks[K]['result']> {
+    if (signal?.aborted) return Promise.reject(new TaskCancelledError());
+
+    const id = this.nextId++;
+    const worker = this.start();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+        reject(new TaskCancelledError());
+      };
+      const settle = <T>(done: (value: T) => void) => (value: T) => {
+        signal?.removeEventListener('abort', onAbort);
+        done(value);
+      };
+      this.pending.set(id, { resolve: settle(resolve), reject: settle(reject), onProgress });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      worker.postMessage({ type: 'run', id, task, inputs } as WorkerRequest);
+    });
+  }
+
+  private start(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.receive(event.data);
+    worker.onerror = event => {
+      console.error('[analysisWorker] Worker failed:', event.message);
+      event.preventDefault();
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+      const failed = [...this.pending.values()];
+      this.pending.clear();
+      failed.forEach(task => task.reject(new Error(event.message || 'Analysis worker failed')));
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private receive(response: WorkerResponse) {
+    const task = this.pending.get(response.id);
+    if (!task) return; // cancelled here already
+
+    if (response.type === 'progress') {
+      task.onProgress?.(response.progress);
+      return;
+    }
+    this.pending.delete(response.id);
+    if (response.type === 'result') task.resolve(response.result);
+    else if (response.type === 'error') task.reject(new Error(response.error));
+    else task.reject(new TaskCancelledError());
+  }
+}
+
+export const analysisWorker = new AnalysisWorkerClient();
+export { TaskCancelledError, type WorkerProgress } from './protocol';
@@ -0,0 +1,46 @@
+/*
+ * Messages between the dashboard and the analysis worker. The main thread fetches a task's
+ * inputs and renders its result; the worker does the computing in between.
+ */
+import type { AdvancedAnalysis, AnalysisInputs } from '../advancedAnalysis';
+import type { PredictionInputs } from '../ml/forecast';
+
+// Inputs and result per task
+export interface WorkerTasks {
+  analysis: { inputs: AnalysisInputs; result: AdvancedAnalysis };
+  predictions: { inputs: PredictionInputs; result: number[] };
+}
+export type WorkerTask = keyof WorkerTasks;
+
+export interface WorkerProgress {
+  stage: string; // the stage now running
+  step: number; // 1-based
+  steps: number;
+}
+
+export type WorkerRequest =
+  | { [K in WorkerTask]: { type: 'run'; id: number; task: K; inputs: WorkerTasks[K]['inputs'] } }[WorkerTask]
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: WorkerProgress }
+  | { type: 'result'; id: number; result: WorkerTasks[WorkerTask]['result'] }
+  | { type: 'error'; id: number; error: string }
+  | { type: 'cancelled'; id: number };
+
+/*
+ * Called by a task between its stages. Reports progress and gives the worker a turn to read a
+ * cancel; throws TaskCancelledError once the task is cancelled. Stages themselves run to the end.
+ */
+export type Checkpoint = (progress: WorkerProgress) => Promise<void>;
+
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('Task cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new TaskCancelledError();
+}
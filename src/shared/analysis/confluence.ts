@@ -0,0 +1,116 @@
+/*
+ * Multi-timeframe confluence: reads trend, momentum and key levels from each timeframe's
+ * indicators and measures how far they agree. Shared with the dashboard, so no Node imports.
+ */
+import type { CandleInterval } from '../candles.js';
+import type { TechnicalIndicators, TrendBias } from './types.js';
+
+export const CONFLUENCE_INTERVALS: CandleInterval[] = ['1h', '4h', '1d', '1w'];
+
+export interface TimeframeReading {
+  interval: CandleInterval;
+  trend: TrendBias; // price against MA50, MA50 against MA200, Ichimoku/Supertrend bias
+  momentum: TrendBias; // RSI side of 50 and MACD histogram sign
+  rsi: number;
+  support: number;
+  resistance: number;
+}
+
+export interface ConfluentLevel {
+  kind: 'support' | 'resistance';
+  price: number; // mean of the clustered levels
+  intervals: CandleInterval[]; // timeframes that put a level here
+}
+
+export interface Confluence {
+  readings: TimeframeReading[]; // in CONFLUENCE_INTERVALS order, timeframes without data left out
+  trend: { bias: TrendBias; agreement: number }; // agreement: weighted share of timeframes on the bias, 0–1
+  momentum: { bias: TrendBias; agreement: number };
+  levels: ConfluentLevel[]; // levels at least two timeframes share, nearest the price first
+  score: number; // -100 (all bearish) to 100 (all bullish), higher timeframes weigh more
+}
+
+// Higher timeframes carry more weight: their trends take longer to turn
+const INTERVAL_WEIGHT: Record<CandleInterval, number> = { '1h': 1, '4h': 1.5, '1d': 2, '1w': 2.5 };
+const LEVEL_TOLERANCE = 0.01; // levels within this fraction of each other are one zone
+const MOMENTUM_BAND = 5; // RSI this far from 50 counts as a side
+
+const sign = (bias: TrendBias) => (bias === 'bullish' ? 1 : bias === 'bearish' ? -1 : 0);
+const toBias = (votes: number, needed: number): TrendBias =>
+  votes >= needed ? 'bullish' : votes <= -needed ? 'bearish' : 'neutral';
+
+export function readTimeframe(interval: CandleInterval, indicators: TechnicalIndicators): TimeframeReading {
+  const { currentPrice, ma50, ma200, rsi, macd, trendSystems } = indicators;
+  const trendVotes =
+    Math.sign(currentPrice - ma50) +
+    (ma200 !== null ? Math.sign(ma50 - ma200) : 0) +
+    (trendSystems ? sign(trendSystems.bias) : 0);
+  const momentumVotes =
+    (rsi >= 50 + MOMENTUM_BAND ? 1 : rsi <= 50 - MOMENTUM_BAND ? -1 : 0) +
+    Math.sign(macd.histogram);
+  return {
+    interval,
+    trend: toBias(trendVotes, 2),
+    momentum: toBias(momentumVotes, 1),
+    rsi,
+    support: indicators.support,
+    resistance: indicators.resistance
+  };
+}
+
+// The weighted majority and how much of the weight sits on it; no majority means neutral
+function agree(readings: TimeframeReading[], pick: (r: TimeframeReading) => TrendBias): { bias: TrendBias; agreement: number } {
+  const total = readings.reduce((sum, r) => sum + INTERVAL_WEIGHT[r.interval], 0);
+  if (total === 0) return { bias: 'neutral', agreement: 0 };
+  const weightOf = (bias: TrendBias) =>
+    readings.filter(r => pick(r) === bias).reduce((sum, r) => sum + INTERVAL_WEIGHT[r.interval], 0);
+  const bullish = weightOf('bullish');
+  const bearish = weightOf('bearish');
+  const bias = bullish > bearish ? 'bullish' : bearish > bullish ? 'bearish' : 'neutral';
+  return { bias, agreement: Math.round((weightOf(bias) / total) * 100) / 100 };
+}
+
+function clusterLevels(readings: TimeframeReading[], kind: ConfluentLevel['kind']): ConfluentLevel[] {
+  const points = readings
+    .map(r => ({ interval: r.interval, price: kind === 'support' ? r.support : r.resistance }))
+    .filter(p => Number.isFinite(p.price) && p.price > 0)
+    .sort((a, b) => a.price - b.price);
+
+  const clusters: Array<typeof points> = [];
+  for (const point of points) {
+    const current = clusters[clusters.length - 1];
+    if (current && (point.price - current[0].price) / current[0].price <= LEVEL_TOLERANCE) current.push(point);
+    else clusters.push([point]);
+  }
+  return clusters
+    .filter(cluster => new Set(cluster.map(p => p.interval)).size >= 2)
+    .map(cluster => ({
+      kind,
+      price: cluster.reduce((sum, p) => sum + p.price, 0) / cluster.length,
+      intervals: cluster.map(p => p.interval)
+    }));
+}
+
+export function buildConfluence(readings: TimeframeReading[], currentPrice: number): Confluence {
+  const total = readings.reduce((sum, r) => sum + INTERVAL_WEIGHT[r.interval], 0);
+  const weighted = readings.reduce(
+    (sum, r) => sum + INTERVAL_WEIGHT[r.interval] * (sign(r.trend) + sign(r.momentum)),
+    0
+  );
+  return {
+    readings,
+    trend: agree(readings, r => r.trend),
+    momentum: agree(readings, r => r.momentum),
+    levels: [...clusterLevels(readings, 'support'), ...clusterLevels(readings, 'resistance')]
+      .sort((a, b) => Math.abs(a.price - currentPrice) - Math.abs(b.price - currentPrice)),
+    score: total > 0 ? Math.round((weighted / (2 * total)) * 100) : 0
+  };
+}
+
+export function describeConfluence(confluence: Confluence): string {
+  const { trend, momentum, score, readings } = confluence;
+  const count = (bias: TrendBias, pick: (r: TimeframeReading) => TrendBias) => readings.filter(r => pick(r) === bias).length;
+  const part = (label: string, { bias }: { bias: TrendBias }, pick: (r: TimeframeReading) => TrendBias) =>
+    bias === 'neutral' ? `${label} mixed` : `${label} ${bias} on ${count(bias, pick)}/${readings.length} timeframes`;
+  return `${part('trend', trend, r => r.trend)}, ${part('momentum', momentum, r => r.momentum)} (score ${score > 0 ? '+' : ''}${score})`;
+}
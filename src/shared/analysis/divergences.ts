@@ -0,0 +1,93 @@
+/*
+ * Divergences between price pivots and RSI, MACD and OBV. Shared with the dashboard, so no
+ * Node imports. Points and swings must come from the same candles so their indices line up.
+ */
+import type { IndicatorPoint } from './engine.js';
+import type { Swing } from './swings.js';
+
+export const DIVERGENCE_INDICATORS = ['RSI', 'MACD', 'OBV'] as const;
+export type DivergenceIndicator = typeof DIVERGENCE_INDICATORS[number];
+
+export interface DivergencePivot {
+  timestamp: number;
+  price: number;
+  value: number; // the indicator at the pivot
+}
+
+export interface Divergence {
+  indicator: DivergenceIndicator;
+  kind: 'regular' | 'hidden'; // regular: reversal warning; hidden: trend continuation
+  direction: 'bullish' | 'bearish';
+  from: DivergencePivot;
+  to: DivergencePivot;
+  candlesAgo: number; // since the later pivot
+  importance: 'high' | 'medium' | 'low';
+}
+
+export interface DivergenceOptions {
+  maxAge: number; // ignore pairs whose later pivot is older than this many candles
+  maxSpan: number; // and pivots further apart than this
+}
+
+const DEFAULT_OPTIONS: DivergenceOptions = { maxAge: 30, maxSpan: 80 };
+const FRESH_CANDLES = 15; // younger than this keeps its full importance
+
+const READ: Record<DivergenceIndicator, (point: IndicatorPoint) => number> = {
+  RSI: p => p.rsi,
+  MACD: p => p.macdHistogram,
+  OBV: p => p.obv
+};
+
+/*
+ * Compares the last two swing lows and the last two swing highs with each indicator:
+ *   lows:  price lower low + indicator higher low   → regular bullish
+ *          price higher low + indicator lower low   → hidden bullish
+ *   highs: price higher high + indicator lower high → regular bearish
+ *          price lower high + indicator higher high → hidden bearish
+ */
+export function findDivergences(
+  points: IndicatorPoint[],
+  swings: Swing[],
+  options: Partial<DivergenceOptions> = {}
+): Divergence[] {
+  const { maxAge, maxSpan } = { ...DEFAULT_OPTIONS, ...options };
+  const lastIndex = points.length - 1;
+  const divergences: Divergence[] = [];
+
+  for (const type of ['low', 'high'] as const) {
+    const pivots = swings.filter(s => s.type === type);
+    const [earlier, later] = pivots.slice(-2);
+    if (!later || !points[later.index] || !points[earlier.index]) continue;
+    const candlesAgo = lastIndex - later.index;
+    if (candlesAgo > maxAge || later.index - earlier.index > maxSpan) continue;
+
+    for (const indicator of DIVERGENCE_INDICATORS) {
+      const from = { timestamp: earlier.timestamp, price: earlier.price, value: READ[indicator](points[earlier.index]) };
+      const to = { timestamp: later.timestamp, price: later.price, value: READ[indicator](points[later.index]) };
+      const priceRises = to.price > from.price;
+      const indicatorRises = to.value > from.value;
+      if (to.price === from.price || to.value === from.value || priceRises === indicatorRises) continue;
+
+      // Lows can only diverge bullishly and highs bearishly; regular when price makes the new extreme
+      const direction = type === 'low' ? 'bullish' : 'bearish';
+      const kind = (type === 'low') !== priceRises ? 'regular' : 'hidden';
+      divergences.push({ indicator, kind, direction, from, to, candlesAgo, importance: rate(kind, candlesAgo) });
+    }
+  }
+  return divergences;
+}
+
+// Regular divergences matter more than hidden ones; both fade once the pivot is no longer fresh
+function rate(kind: Divergence['kind'], candlesAgo: number): Divergence['importance'] {
+  const levels: Array<Divergence['importance']> = ['high', 'medium', 'low'];
+  return levels[(kind === 'regular' ? 0 : 1) + (candlesAgo > FRESH_CANDLES ? 1 : 0)];
+}
+
+export function describeDivergence(divergence: Divergence): string {
+  const { indicator, kind, direction, candlesAgo } = divergence;
+  const pivots = direction === 'bullish' ? 'lows' : 'highs';
+  const priceMove = divergence.to.price > divergence.from.price ? 'higher' : 'lower';
+  const indicatorMove = divergence.to.value > divergence.from.value ? 'higher' : 'lower';
+  return `${kind === 'regular' ? 'Regular' : 'Hidden'} ${direction} ${indicator} divergence: price made ${priceMove} ${pivots}, ` +
+    `${indicator} ${indicatorMove} ${pivots} (last pivot ${candlesAgo} candle${candlesAgo === 1 ? '' : 's'} ago)`;
+}
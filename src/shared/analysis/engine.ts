@@ -0,0 +1,432 @@
+/*
+ * Incremental indicator engine. Each indicator is a small state machine stepped once per
+ * candle, so a full series, a last value and a live update all run the same code and agree.
+ * Shared with the dashboard, so no Node imports.
+ *
+ * Averages use what they have until their window fills: SMAs average the available closes and
+ * EMA / Wilder averages are a running mean until seeded. Short histories still give numbers.
+ */
+import type { Candle } from '../candles.js';
+
+export interface IndicatorSettings {
+  rsiPeriod: number;
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+  stochRSIPeriod: number;
+  atrPeriod: number;
+  bollingerPeriod: number;
+  bollingerDeviations: number;
+  volatilityPeriod: number; // log returns in the volatility window
+  ichimokuTenkan: number;
+  ichimokuKijun: number;
+  ichimokuSenkouB: number;
+  ichimokuDisplacement: number; // how far the cloud is projected ahead and the chikou span behind
+  supertrendPeriod: number;
+  supertrendMultiplier: number;
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  rsiPeriod: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+  stochRSIPeriod: 14,
+  atrPeriod: 14,
+  bollingerPeriod: 20,
+  bollingerDeviations: 2,
+  volatilityPeriod: 100,
+  ichimokuTenkan: 9,
+  ichimokuKijun: 26,
+  ichimokuSenkouB: 52,
+  ichimokuDisplacement: 26,
+  supertrendPeriod: 10,
+  supertrendMultiplier: 3
+};
+
+const LONGEST_MA = 200;
+
+// Every indicator as of one candle
+export interface IndicatorPoint {
+  timestamp: number;
+  close: number;
+  ma20: number;
+  ma50: number;
+  ma200: number;
+  rsi: number;
+  macd: number;
+  macdSignal: number;
+  macdHistogram: number;
+  stochRSI: number; // 0-100
+  atr: number; // price units
+  bollingerUpper: number;
+  bollingerMiddle: number;
+  bollingerLower: number;
+  bollingerWidth: number; // (upper - lower) / middle
+  volatility: number; // annualised, percent
+  tenkan: number;
+  kijun: number;
+  senkouA: number; // the cloud under this candle, projected `ichimokuDisplacement` candles ago
+  senkouB: number;
+  chikouReference: number; // close `ichimokuDisplacement` candles back, which the chikou span (this close) is read against
+  supertrend: number; // the active band: below price in an uptrend, above it in a downtrend
+  supertrendDirection: 1 | -1;
+  obv: number; // on-balance volume, cumulative from the first candle
+}
+
+// --- Indicator steps -------------------------------------------------------------------------
+
+// Running mean for the first `period` inputs (the usual SMA seed), exponential after that
+interface Average { count: number; value: number }
+
+const EMPTY_AVERAGE: Average = { count: 0, value: 0 };
+
+function stepAverage(average: Average, input: number, period: number, alpha: number): Average {
+  const count = average.count + 1;
+  const weight = count <= period ? 1 / count : alpha;
+  return { count, value: average.value + weight * (input - average.value) };
+}
+
+const emaAlpha = (period: number) => 2 / (period + 1);
+const wilderAlpha = (period: number) => 1 / period;
+
+// States are never mutated, so the engine can step from a saved one again
+function pushWindow(window: readonly number[], input: number, size: number): number[] {
+  const next = window.slice(Math.max(0, window.length - size + 1));
+  next.push(input);
+  return next;
+}
+
+function mean(values: readonly number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// Population standard deviation
+function deviation(values: readonly number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+}
+
+interface RSIState { previous: number | null; gain: Average; loss: Average; value: number }
+
+const EMPTY_RSI: RSIState = { previous: null, gain: EMPTY_AVERAGE, loss: EMPTY_AVERAGE, value: 50 };
+
+// Wilder's RSI; 50 until the price has moved
+function stepRSI(state: RSIState, close: number, period: number): RSIState {
+  if (state.previous === null) return { ...state, previous: close };
+  const change = close - state.previous;
+  const gain = stepAverage(state.gain, Math.max(0, change), period, wilderAlpha(period));
+  const loss = stepAverage(state.loss, Math.max(0, -change), period, wilderAlpha(period));
+  const total = gain.value + loss.value;
+  return { previous: close, gain, loss, value: total === 0 ? 50 : (100 * gain.value) / total };
+}
+
+interface MACDState { fast: Average; slow: Average; signal: Average }
+
+const EMPTY_MACD: MACDState = { fast: EMPTY_AVERAGE, slow: EMPTY_AVERAGE, signal: EMPTY_AVERAGE };
+
+// The signal line is an EMA of the MACD line itself, stepped alongside it
+function stepMACD(state: MACDState, close: number, fastPeriod: number, slowPeriod: number, signalPeriod: number): MACDState {
+  const fast = stepAverage(state.fast, close, fastPeriod, emaAlpha(fastPeriod));
+  const slow = stepAverage(state.slow, close, slowPeriod, emaAlpha(slowPeriod));
+  const signal = stepAverage(state.signal, fast.value - slow.value, signalPeriod, emaAlpha(signalPeriod));
+  return { fast, slow, signal };
+}
+
+function readMACD({ fast, slow, signal }: MACDState) {
+  const value = fast.value - slow.value;
+  return { value, signal: signal.value, histogram: value - signal.value };
+}
+
+interface StochRSIState { rsi: RSIState; window: number[]; value: number }
+
+const EMPTY_STOCH_RSI: StochRSIState = { rsi: EMPTY_RSI, window: [], value: 50 };
+
+// Where RSI sits within its own range over the last `period` readings; 50 when the range is flat
+function stepStochRSI(state: StochRSIState, close: number, rsiPeriod: number, period: number): StochRSIState {
+  const rsi = stepRSI(state.rsi, close, rsiPeriod);
+  if (rsi.gain.count === 0) return { ...state, rsi };
+  const window = pushWindow(state.window, rsi.value, period);
+  const low = Math.min(...window);
+  const high = Math.max(...window);
+  return { rsi, window, value: high === low ? 50 : ((rsi.value - low) / (high - low)) * 100 };
+}
+
+export function trueRange(candle: Candle, previousClose: number | null): number {
+  if (previousClose === null) return candle.high - candle.low;
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - previousClose),
+    Math.abs(candle.low - previousClose)
+  );
+}
+
+interface ATRState { previousClose: number | null; average: Average }
+
+const EMPTY_ATR: ATRState = { previousClose: null, average: EMPTY_AVERAGE };
+
+// Wilder-smoothed average true range
+function stepATR(state: ATRState, candle: Candle, period: number): ATRState {
+  return {
+    previousClose: candle.close,
+    average: stepAverage(state.average, trueRange(candle, state.previousClose), period, wilderAlpha(period))
+  };
+}
+
+interface VolatilityState { previous: number | null; returns: number[] }
+
+const EMPTY_VOLATILITY: VolatilityState = { previous: null, returns: [] };
+
+function stepVolatility(state: VolatilityState, close: number, period: number): VolatilityState {
+  if (state.previous === null || state.previous <= 0 || close <= 0) return { ...state, previous: close };
+  return { previous: close, returns: pushWindow(state.returns, Math.log(close / state.previous), period) };
+}
+
+// Standard deviation of log returns scaled by sqrt(365), in percent
+function readVolatility({ returns }: VolatilityState): number {
+  return returns.length < 2 ? 0 : deviation(returns) * Math.sqrt(365) * 100;
+}
+
+// Midpoint of the highest high and lowest low of the last `period` candles
+function midpoint(highs: readonly number[], lows: readonly number[], period: number): number {
+  return (Math.max(...highs.slice(-period)) + Math.min(...lows.slice(-period))) / 2;
+}
+
+interface IchimokuState {
+  highs: number[];
+  lows: number[];
+  closes: number[];
+  spans: Array<{ a: number; b: number }>; // projections, oldest first; the first one is under the current candle
+}
+
+const EMPTY_ICHIMOKU: IchimokuState = { highs: [], lows: [], closes: [], spans: [] };
+
+// Until `displacement` candles exist, the cloud and chikou read against the oldest candle available
+function stepIchimoku(state: IchimokuState, candle: Candle, settings: IndicatorSettings): IchimokuState {
+  const { ichimokuTenkan, ichimokuKijun, ichimokuSenkouB, ichimokuDisplacement } = settings;
+  const window = Math.max(ichimokuTenkan, ichimokuKijun, ichimokuSenkouB);
+  const highs = pushWindow(state.highs, candle.high, window);
+  const lows = pushWindow(state.lows, candle.low, window);
+  const span = {
+    a: (midpoint(highs, lows, ichimokuTenkan) + midpoint(highs, lows, ichimokuKijun)) / 2,
+    b: midpoint(highs, lows, ichimokuSenkouB)
+  };
+  return {
+    highs,
+    lows,
+    closes: pushWindow(state.closes, candle.close, ichimokuDisplacement + 1),
+    spans: [...state.spans.slice(state.spans.length > ichimokuDisplacement ? 1 : 0), span]
+  };
+}
+
+function readIchimoku({ highs, lows, closes, spans }: IchimokuState, settings: IndicatorSettings) {
+  return {
+    tenkan: midpoint(highs, lows, settings.ichimokuTenkan),
+    kijun: midpoint(highs, lows, settings.ichimokuKijun),
+    senkouA: spans[0].a,
+    senkouB: spans[0].b,
+    chikouReference: closes[0]
+  };
+}
+
+interface SupertrendState {
+  atr: ATRState;
+  upper: number;
+  lower: number;
+  direction: 1 | -1;
+}
+
+const EMPTY_SUPERTREND: SupertrendState = { atr: EMPTY_ATR, upper: Infinity, lower: -Infinity, direction: 1 };
+
+/*
+ * ATR bands around the candle midpoint that only tighten while the trend holds; the trend
+ * flips when a close crosses the band on the other side.
+ */
+function stepSupertrend(state: SupertrendState, candle: Candle, period: number, multiplier: number): SupertrendState {
+  const previousClose = state.atr.previousClose;
+  const atr = stepATR(state.atr, candle, period);
+  const middle = (candle.high + candle.low) / 2;
+  const basicUpper = middle + multiplier * atr.average.value;
+  const basicLower = middle - multiplier * atr.average.value;
+
+  const upper = previousClose === null || basicUpper < state.upper || previousClose > state.upper ? basicUpper : state.upper;
+  const lower = previousClose === null || basicLower > state.lower || previousClose < state.lower ? basicLower : state.lower;
+  const direction = state.direction === 1
+    ? (candle.close < lower ? -1 : 1)
+    : (candle.close > upper ? 1 : -1);
+  return { atr, upper, lower, direction };
+}
+
+interface OBVState { previous: number | null; value: number }
+
+const EMPTY_OBV: OBVState = { previous: null, value: 0 };
+
+// Volume added on up closes and subtracted on down closes
+function stepOBV(state: OBVState, close: number, volume: number): OBVState {
+  if (state.previous === null) return { previous: close, value: 0 };
+  return { previous: close, value: state.value + Math.sign(close - state.previous) * (volume || 0) };
+}
+
+// --- Engine ----------------------------------------------------------------------------------
+
+interface EngineState {
+  closes: number[]; // enough for the longest moving average and the Bollinger window
+  macd: MACDState;
+  stochRSI: StochRSIState;
+  atr: ATRState;
+  volatility: VolatilityState;
+  ichimoku: IchimokuState;
+  supertrend: SupertrendState;
+  obv: OBVState;
+}
+
+const EMPTY_ENGINE: EngineState = {
+  closes: [],
+  macd: EMPTY_MACD,
+  stochRSI: EMPTY_STOCH_RSI,
+  atr: EMPTY_ATR,
+  volatility: EMPTY_VOLATILITY,
+  ichimoku: EMPTY_ICHIMOKU,
+  supertrend: EMPTY_SUPERTREND,
+  obv: EMPTY_OBV
+};
+
+function stepEngine(state: EngineState, candle: Candle, settings: IndicatorSettings): EngineState {
+  const windowSize = Math.max(LONGEST_MA, settings.bollingerPeriod);
+  return {
+    closes: pushWindow(state.closes, candle.close, windowSize),
+    macd: stepMACD(state.macd, candle.close, settings.macdFast, settings.macdSlow, settings.macdSignal),
+    stochRSI: stepStochRSI(state.stochRSI, candle.close, settings.rsiPeriod, settings.stochRSIPeriod),
+    atr: stepATR(state.atr, candle, settings.atrPeriod),
+    volatility: stepVolatility(state.volatility, candle.close, settings.volatilityPeriod),
+    ichimoku: stepIchimoku(state.ichimoku, candle, settings),
+    supertrend: stepSupertrend(state.supertrend, candle, settings.supertrendPeriod, settings.supertrendMultiplier),
+    obv: stepOBV(state.obv, candle.close, candle.volume)
+  };
+}
+
+function readEngine(state: EngineState, candle: Candle, settings: IndicatorSettings): IndicatorPoint {
+  const sma = (period: number) => mean(state.closes.slice(-period));
+  const band = state.closes.slice(-settings.bollingerPeriod);
+  const middle = mean(band);
+  const spread = deviation(band) * settings.bollingerDeviations;
+  const macd = readMACD(state.macd);
+
+  return {
+    timestamp: candle.timestamp,
+    close: candle.close,
+    ma20: sma(20),
+    ma50: sma(50),
+    ma200: sma(200),
+    rsi: state.stochRSI.rsi.value,
+    macd: macd.value,
+    macdSignal: macd.signal,
+    macdHistogram: macd.histogram,
+    stochRSI: state.stochRSI.value,
+    atr: state.atr.average.value,
+    bollingerUpper: middle + spread,
+    bollingerMiddle: middle,
+    bollingerLower: middle - spread,
+    bollingerWidth: middle ? (2 * spread) / middle : 0,
+    volatility: readVolatility(state.volatility),
+    ...readIchimoku(state.ichimoku, settings),
+    supertrend: state.supertrend.direction === 1 ? state.supertrend.lower : state.supertrend.upper,
+    supertrendDirection: state.supertrend.direction,
+    obv: state.obv.value
+  };
+}
+
+/*
+ * Keeps every indicator for a candle series up to date one candle at a time. A candle with the
+ * same timestamp as the latest one replaces it (the live candle is still forming), so price
+ * ticks can be fed straight in without recomputing the history.
+ */
+export class IndicatorEngine {
+  private readonly settings: IndicatorSettings;
+  private state: EngineState = EMPTY_ENGINE;
+  private beforeLatest: EngineState = EMPTY_ENGINE;
+  private readonly history: IndicatorPoint[] = [];
+
+  constructor(settings: Partial<IndicatorSettings> = {}) {
+    this.settings = { ...DEFAULT_INDICATOR_SETTINGS, ...settings };
+  }
+
+  // Returns the point for `candle`; candles older than the latest one are ignored
+  add(candle: Candle): IndicatorPoint | null {
+    const latest = this.latest();
+    if (latest && candle.timestamp < latest.timestamp) return latest;
+
+    if (latest && candle.timestamp === latest.timestamp) {
+      this.state = stepEngine(this.beforeLatest, candle, this.settings);
+      this.history[this.history.length - 1] = readEngine(this.state, candle, this.settings);
+    } else {
+      this.beforeLatest = this.state;
+      this.state = stepEngine(this.state, candle, this.settings);
+      this.history.push(readEngine(this.state, candle, this.settings));
+    }
+    return this.latest();
+  }
+
+  addAll(candles: Candle[]): this {
+    for (const candle of candles) this.add(candle);
+    return this;
+  }
+
+  latest(): IndicatorPoint | null {
+    return this.history[this.history.length - 1] ?? null;
+  }
+
+  get points(): readonly IndicatorPoint[] {
+    return this.history;
+  }
+}
+
+// One point per candle
+export function indicatorSeries(candles: Candle[], settings: Partial<IndicatorSettings> = {}): IndicatorPoint[] {
+  return [...new IndicatorEngine(settings).addAll(candles).points];
+}
+
+// --- Single-indicator series, for callers that only have closes ------------------------------
+
+function run<S>(inputs: readonly number[], initial: S, step: (state: S, input: number) => S, read: (state: S) => number): number[] {
+  let state = initial;
+  return inputs.map(input => read(state = step(state, input)));
+}
+
+export function smaSeries(values: number[], period: number): number[] {
+  return run<number[]>(values, [], (window, v) => pushWindow(window, v, period), mean);
+}
+
+export function emaSeries(values: number[], period: number): number[] {
+  return run(values, EMPTY_AVERAGE, (average, v) => stepAverage(average, v, period, emaAlpha(period)), a => a.value);
+}
+
+export function rsiSeries(values: number[], period: number = DEFAULT_INDICATOR_SETTINGS.rsiPeriod): number[] {
+  return run(values, EMPTY_RSI, (state, v) => stepRSI(state, v, period), s => s.value);
+}
+
+export function stochRSISeries(values: number[], period: number = DEFAULT_INDICATOR_SETTINGS.stochRSIPeriod): number[] {
+  return run(values, EMPTY_STOCH_RSI, (state, v) => stepStochRSI(state, v, period, period), s => s.value);
+}
+
+export function volatilitySeries(values: number[], period: number = DEFAULT_INDICATOR_SETTINGS.volatilityPeriod): number[] {
+  return run(values, EMPTY_VOLATILITY, (state, v) => stepVolatility(state, v, period), readVolatility);
+}
+
+export function macdSeries(
+  values: number[],
+  { macdFast, macdSlow, macdSignal }: Pick<IndicatorSettings, 'macdFast' | 'macdSlow' | 'macdSignal'> = DEFAULT_INDICATOR_SETTINGS
+): Array<{ value: number; signal: number; histogram: number }> {
+  let state = EMPTY_MACD;
+  return values.map(v => readMACD(state = stepMACD(state, v, macdFast, macdSlow, macdSignal)));
+}
+
+export function obvSeries(closes: number[], volumes: number[]): number[] {
+  let state = EMPTY_OBV;
+  return closes.map((close, i) => (state = stepOBV(state, close, volumes[i])).value);
+}
+
+export function atrSeries(candles: Candle[], period: number = DEFAULT_INDICATOR_SETTINGS.atrPeriod): number[] {
+  let state = EMPTY_ATR;
+  return candles.map(candle => (state = stepATR(state, candle, period)).average.value);
+}
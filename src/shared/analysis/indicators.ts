@@ -0,0 +1,307 @@
+/*
+ * Indicator math behind /api/analysis and the dashboard's own charts. No Node imports: the
+ * client bundles this file too. Prices and candles are in whatever quote currency they came in.
+ * The last-value helpers read from engine.ts, so they match its series exactly.
+ */
+import type { Candle } from '../candles.js';
+import {
+  type IndicatorPoint,
+  atrSeries,
+  macdSeries,
+  obvSeries,
+  rsiSeries,
+  smaSeries,
+  stochRSISeries,
+  trueRange,
+  volatilitySeries
+} from './engine.js';
+import type { TrendBias, TrendSystems } from './types.js';
+
+function last(values: number[], fallback: number): number {
+  const value = values[values.length - 1];
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Fallback when no OHLC is available: each candle spans the previous close to this close
+export function candlesFromCloses(prices: number[], volumes: number[] = [], timestamps: number[] = []): Candle[] {
+  return prices.map((close, i) => {
+    const open = i > 0 ? prices[i - 1] : close;
+    return {
+      timestamp: timestamps[i] ?? i,
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: volumes[i] ?? 0
+    };
+  });
+}
+
+export function calculateTrueRanges(candles: Candle[]): number[] {
+  return candles.map((c, i) => trueRange(c, i > 0 ? candles[i - 1].close : null));
+}
+
+// Wilder-smoothed Average True Range, in price units
+export function calculateATR(candles: Candle[], period: number = 14): number {
+  return last(atrSeries(candles, period), 0);
+}
+
+// Slow stochastic oscillator: %K from the high-low range, %D its SMA
+export function calculateStochastic(candles: Candle[], kPeriod: number = 14, dPeriod: number = 3): { k: number; d: number } {
+  if (candles.length < kPeriod) return { k: 50, d: 50 };
+
+  const kValues: number[] = [];
+  for (let i = kPeriod - 1; i < candles.length; i++) {
+    const window = candles.slice(i - kPeriod + 1, i + 1);
+    const highest = Math.max(...window.map(c => c.high));
+    const lowest = Math.min(...window.map(c => c.low));
+    kValues.push(highest === lowest ? 50 : ((candles[i].close - lowest) / (highest - lowest)) * 100);
+  }
+
+  const recent = kValues.slice(-dPeriod);
+  return {
+    k: kValues[kValues.length - 1],
+    d: recent.reduce((a, b) => a + b, 0) / recent.length
+  };
+}
+
+// Expected move over `horizonHours`, scaling the per-candle ATR by the square root of time
+export function projectRangeFromATR(
+  currentPrice: number,
+  atr: number,
+  horizonHours: number,
+  candleHours: number = 1
+): { low: number; high: number } {
+  const move = atr * Math.sqrt(horizonHours / candleHours);
+  return {
+    low: Math.max(0, currentPrice - move),
+    high: currentPrice + move
+  };
+}
+
+// 24H / 7D / 30D ranges from the ATR of `candleHours` candles
+export function projectPriceTargets(currentPrice: number, atr: number, candleHours: number = 1) {
+  return {
+    shortTerm: projectRangeFromATR(currentPrice, atr, 24, candleHours),
+    midTerm: projectRangeFromATR(currentPrice, atr, 24 * 7, candleHours),
+    longTerm: projectRangeFromATR(currentPrice, atr, 24 * 30, candleHours)
+  };
+}
+
+export function calculateRSI(prices: number[], period: number = 14): number {
+  return last(rsiSeries(prices, period), 50);
+}
+
+export function interpretRSI(rsi: number): string {
+  if (rsi >= 70) return 'Overbought - Consider taking profits';
+  if (rsi <= 30) return 'Oversold - Potential buying opportunity';
+  if (rsi >= 60) return 'Bullish momentum building';
+  if (rsi <= 40) return 'Bearish pressure present';
+  return 'Neutral momentum';
+}
+
+// Averages what is available when there are fewer than `period` prices
+export function calculateSMA(prices: number[], period: number = 20): number {
+  return last(smaSeries(prices || [], period), 0);
+}
+
+// MACD is in price units, so the histogram is read against the size of the lines themselves;
+// 0 when both lines are flat at zero
+function histogramStrength(macdLine: number, signalLine: number, histogram: number): number {
+  const scale = Math.max(Math.abs(macdLine), Math.abs(signalLine));
+  return scale > 1e-12 ? Math.abs(histogram) / scale : 0;
+}
+
+export function interpretMACD(macdLine: number, signalLine: number, histogram: number): string {
+  let interpretation = '';
+  const strength = histogramStrength(macdLine, signalLine, histogram);
+
+  if (histogram > 0) {
+    interpretation = strength > 0.1 ? 'Strong bullish momentum' : 'Bullish momentum';
+  } else {
+    interpretation = strength > 0.1 ? 'Strong bearish momentum' : 'Bearish momentum';
+  }
+
+  if (macdLine > 0 && signalLine > 0) {
+    interpretation += ', upward trend';
+  } else if (macdLine < 0 && signalLine < 0) {
+    interpretation += ', downward trend';
+  }
+
+  if (strength < 0.02) {
+    interpretation += ', potential trend reversal';
+  }
+
+  return interpretation;
+}
+
+export function calculateMACD(prices: number[]) {
+  const { value, signal, histogram } = macdSeries(prices)[prices.length - 1] ?? { value: 0, signal: 0, histogram: 0 };
+  return {
+    value,
+    signal,
+    histogram,
+    interpretation: interpretMACD(value, signal, histogram)
+  };
+}
+
+export function calculateStochRSI(prices: number[], period: number = 14): number {
+  return last(stochRSISeries(prices, period), 50);
+}
+
+export function interpretStochRSI(stochRSI: number): string {
+  if (stochRSI > 80) return 'Extremely overbought';
+  if (stochRSI > 60) return 'Overbought';
+  if (stochRSI < 20) return 'Extremely oversold';
+  if (stochRSI < 40) return 'Oversold';
+  return 'Neutral';
+}
+
+export function interpretStochastic(k: number, d: number): string {
+  const cross = k > d ? 'bullish cross' : k < d ? 'bearish cross' : 'flat';
+  if (k > 80) return `Overbought (%K ${k.toFixed(1)}, ${cross})`;
+  if (k < 20) return `Oversold (%K ${k.toFixed(1)}, ${cross})`;
+  return `Neutral (%K ${k.toFixed(1)}, ${cross})`;
+}
+
+// 'Bullish' when on-balance volume rose over the last five samples
+export function calculateOBV(prices: number[], volumes: number[]): string {
+  const recentOBV = obvSeries(prices, volumes).slice(-5);
+  return recentOBV[recentOBV.length - 1] > recentOBV[0] ? 'Bullish' : 'Bearish';
+}
+
+// Latest volume against the average of the last `period` samples (1 when there is no volume)
+export function calculateVolumeRatio(volumes: number[], period: number = 20): number {
+  if (!Array.isArray(volumes) || volumes.length === 0) return 1;
+  const window = volumes.slice(-period);
+  const currentVolume = window[window.length - 1] ?? 0;
+  const avgVolume = window.reduce((a, b) => a + b, 0) / Math.max(window.length, 1);
+  if (!Number.isFinite(avgVolume) || avgVolume <= 0) return 1;
+  if (!Number.isFinite(currentVolume)) return 1;
+  return currentVolume / avgVolume;
+}
+
+// The MA stack needs a real MA200; without one the phase is left undetermined
+export function determineMarketPhase(prices: number[], ma50: number, ma200: number | null): string {
+  if (ma200 === null) return 'Undetermined';
+  const currentPrice = prices[prices.length - 1];
+  const priceAboveMA50 = currentPrice > ma50;
+  const priceAboveMA200 = currentPrice > ma200;
+  const ma50AboveMA200 = ma50 > ma200;
+
+  if (priceAboveMA50 && priceAboveMA200 && ma50AboveMA200) {
+    return 'Bull Market';
+  } else if (!priceAboveMA50 && !priceAboveMA200 && !ma50AboveMA200) {
+    return 'Bear Market';
+  } else if (priceAboveMA200 && !priceAboveMA50) {
+    return 'Correction';
+  } else {
+    return 'Accumulation';
+  }
+}
+
+// Annualised volatility of the last `period` log returns, in percent
+export function calculateVolatility(prices: number[], period: number = 100): number {
+  return last(volatilitySeries(prices, period), 0);
+}
+
+// Weighted agreement of RSI, MACD, volume and sentiment, damped by volatility; 30-95
+export function calculateConfidence(
+  rsi: number,
+  macd: { value: number; signal: number; histogram: number },
+  volumeRatio: number,
+  sentiment: { newsScore?: number; socialScore?: number },
+  volatilityIndex: number
+): number {
+  const rsiConfidence = rsi > 70 || rsi < 30 ? 90 : rsi > 60 || rsi < 40 ? 75 : 50;
+
+  const macdConfidence = Math.min(100, histogramStrength(macd.value, macd.signal, macd.histogram) * 100);
+
+  const volumeConfidence =
+    volumeRatio > 2 ? 90 :
+    volumeRatio > 1.5 ? 80 :
+    volumeRatio > 1 ? 70 :
+    volumeRatio > 0.7 ? 50 : 30;
+
+  const sentimentConfidence = ((sentiment.newsScore || 50) + (sentiment.socialScore || 50)) / 2;
+
+  const volatilityFactor = Math.max(0.5, 1 - (volatilityIndex / 100));
+
+  const weightedConfidence = (
+    rsiConfidence * 0.25 +
+    macdConfidence * 0.25 +
+    volumeConfidence * 0.20 +
+    sentimentConfidence * 0.20
+  ) * volatilityFactor;
+
+  return Math.min(95, Math.max(30, weightedConfidence));
+}
+
+// Candles since `changed` last returned true, looking back at most `lookback` candles
+function candlesSince(points: IndicatorPoint[], lookback: number, changed: (previous: IndicatorPoint, current: IndicatorPoint) => boolean): number | null {
+  for (let ago = 0; ago < lookback && ago < points.length - 1; ago++) {
+    const i = points.length - 1 - ago;
+    if (changed(points[i - 1], points[i])) return ago;
+  }
+  return null;
+}
+
+// Cloud position, the latest TK cross and Supertrend flip, and what they add up to
+export function analyzeTrendSystems(points: IndicatorPoint[], lookback: number = 10): TrendSystems | null {
+  const latest = points[points.length - 1];
+  if (!latest) return null;
+  const { close, tenkan, kijun, senkouA, senkouB, chikouReference, supertrend, supertrendDirection } = latest;
+
+  const cloud = close > Math.max(senkouA, senkouB) ? 'above' : close < Math.min(senkouA, senkouB) ? 'below' : 'inside';
+  const chikou = close > chikouReference ? 'above' : close < chikouReference ? 'below' : 'flat';
+  const crossAgo = candlesSince(points, lookback, (previous, current) =>
+    Math.sign(previous.tenkan - previous.kijun) !== Math.sign(current.tenkan - current.kijun) && current.tenkan !== current.kijun
+  );
+  const flipAgo = candlesSince(points, lookback, (previous, current) => previous.supertrendDirection !== current.supertrendDirection);
+  const direction = supertrendDirection === 1 ? 'up' : 'down';
+
+  const votes = [
+    cloud === 'above' ? 1 : cloud === 'below' ? -1 : 0,
+    Math.sign(tenkan - kijun),
+    chikou === 'above' ? 1 : chikou === 'below' ? -1 : 0,
+    supertrendDirection
+  ].reduce((a, b) => a + b, 0);
+  const bias: TrendBias = votes >= 2 ? 'bullish' : votes <= -2 ? 'bearish' : 'neutral';
+
+  return {
+    ichimoku: {
+      tenkan,
+      kijun,
+      senkouA,
+      senkouB,
+      cloud,
+      tkCross: crossAgo === null ? null : { direction: tenkan > kijun ? 'bullish' : 'bearish', candlesAgo: crossAgo },
+      chikou
+    },
+    supertrend: {
+      value: supertrend,
+      direction,
+      flip: flipAgo === null ? null : { direction, candlesAgo: flipAgo }
+    },
+    bias
+  };
+}
+
+function candlesAgo(n: number): string {
+  return n === 0 ? 'on the last candle' : `${n} candle${n === 1 ? '' : 's'} ago`;
+}
+
+export function describeIchimoku({ ichimoku }: TrendSystems): string {
+  const cross = ichimoku.tkCross
+    ? `${ichimoku.tkCross.direction} TK cross ${candlesAgo(ichimoku.tkCross.candlesAgo)}`
+    : `tenkan ${ichimoku.tenkan > ichimoku.kijun ? 'above' : 'below'} kijun`;
+  const cloud = ichimoku.cloud === 'inside' ? 'inside the cloud' : `${ichimoku.cloud} the cloud`;
+  return `Price ${cloud}, ${cross}, chikou ${ichimoku.chikou === 'flat' ? 'level with' : ichimoku.chikou} past price`;
+}
+
+export function describeSupertrend({ supertrend }: TrendSystems): string {
+  const flip = supertrend.flip
+    ? `, flipped ${supertrend.flip.direction} ${candlesAgo(supertrend.flip.candlesAgo)}`
+    : '';
+  return `${supertrend.direction === 'up' ? 'Uptrend' : 'Downtrend'}${flip}`;
+}
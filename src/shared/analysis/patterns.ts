@@ -0,0 +1,271 @@
+/*
+ * Classical chart patterns read off the swing structure: double tops/bottoms, head and
+ * shoulders (and inverse), triangles and flags. Each carries its breakout level, the measured
+ * move target and how far it has played out. Shared with the dashboard, so no Node imports.
+ */
+import type { Candle } from '../candles.js';
+import { findSwings, type Swing } from './swings.js';
+
+export type ChartPatternType =
+  | 'double_top'
+  | 'double_bottom'
+  | 'head_and_shoulders'
+  | 'inverse_head_and_shoulders'
+  | 'ascending_triangle'
+  | 'descending_triangle'
+  | 'symmetrical_triangle'
+  | 'bull_flag'
+  | 'bear_flag';
+
+export const CHART_PATTERN_NAMES: Record<ChartPatternType, string> = {
+  double_top: 'Double top',
+  double_bottom: 'Double bottom',
+  head_and_shoulders: 'Head and shoulders',
+  inverse_head_and_shoulders: 'Inverse head and shoulders',
+  ascending_triangle: 'Ascending triangle',
+  descending_triangle: 'Descending triangle',
+  symmetrical_triangle: 'Symmetrical triangle',
+  bull_flag: 'Bull flag',
+  bear_flag: 'Bear flag'
+};
+
+// failed: broke out, then closed back beyond the invalidation level. Patterns invalidated before
+// breaking out are dropped rather than reported.
+export type PatternState = 'forming' | 'confirmed' | 'target_reached' | 'failed';
+
+export interface ChartPattern {
+  type: ChartPatternType;
+  bias: 'bullish' | 'bearish' | 'neutral'; // neutral: a symmetrical triangle that has not broken yet
+  state: PatternState;
+  breakout: number; // neckline or trigger, at the breakout candle once confirmed, else at the latest candle
+  target: number; // measured move from the breakout
+  invalidation: number; // a close beyond this cancels the pattern, or fails its breakout
+  start: number; // timestamp of the first pivot
+  end: number; // timestamp of the last pivot
+  breakoutCandlesAgo: number | null; // null until confirmed
+}
+
+const MAX_AGE = 60; // candles since a pattern's last pivot before it is dropped
+const EQUAL_TOLERANCE = 0.02; // double top/bottom peaks this close count as equal
+const MIN_DEPTH = 0.03; // the trough between them is at least this far from the peaks
+const SHOULDER_TOLERANCE = 0.05; // head and shoulders: shoulders within this of each other
+const FLAT_SLOPE = 0.01; // triangle sides moving less than this over the pattern are flat
+const POLE_MIN_MOVE = 0.05; // flag pole: at least this move...
+const POLE_MAX_CANDLES = 15; // ...within this many candles
+const FLAG_MAX_CANDLES = 25; // a flag that has not broken out after this long is stale
+const FLAG_MAX_RETRACE = 0.5; // a flag retracing more than this of its pole is not a flag
+
+type Level = (index: number) => number;
+
+// Line through two pivots, extended to any candle index
+function lineThrough(a: Swing, b: Swing): Level {
+  const slope = (b.price - a.price) / (b.index - a.index);
+  return i => a.price + slope * (i - a.index);
+}
+
+const flat = (price: number): Level => () => price;
+
+interface Resolution {
+  state: PatternState | 'invalidated';
+  breakoutIndex: number | null;
+  target: number;
+}
+
+/*
+ * Walks the candles after a pattern's last pivot: the first close beyond the breakout level
+ * confirms it and a later high/low at the target completes it. A close beyond the invalidation
+ * level invalidates it before the breakout and fails it after. Levels freeze at the breakout.
+ */
+function resolve(
+  candles: Candle[],
+  from: number,
+  direction: 'up' | 'down',
+  breakout: Level,
+  invalidation: Level,
+  height: number
+): Resolution {
+  const sign = direction === 'up' ? 1 : -1;
+  let breakoutIndex: number | null = null;
+  let target = breakout(candles.length - 1) + sign * height;
+  for (let i = from; i < candles.length; i++) {
+    const { close, high, low } = candles[i];
+    const at = breakoutIndex ?? i;
+    if (sign * (close - invalidation(at)) < 0) {
+      return { state: breakoutIndex === null ? 'invalidated' : 'failed', breakoutIndex, target };
+    }
+    if (breakoutIndex === null && sign * (close - breakout(i)) > 0) {
+      breakoutIndex = i;
+      target = breakout(i) + sign * height;
+    }
+    if (breakoutIndex !== null && sign * ((direction === 'up' ? high : low) - target) >= 0) {
+      return { state: 'target_reached', breakoutIndex, target };
+    }
+  }
+  return { state: breakoutIndex === null ? 'forming' : 'confirmed', breakoutIndex, target };
+}
+
+function build(
+  candles: Candle[],
+  type: ChartPatternType,
+  bias: ChartPattern['bias'],
+  pivots: Swing[],
+  breakout: Level,
+  invalidation: Level,
+  resolution: Resolution
+): ChartPattern | null {
+  if (resolution.state === 'invalidated') return null;
+  const last = candles.length - 1;
+  const at = resolution.breakoutIndex ?? last;
+  return {
+    type,
+    bias,
+    state: resolution.state,
+    breakout: breakout(at),
+    target: resolution.target,
+    invalidation: invalidation(at),
+    start: pivots[0].timestamp,
+    end: pivots[pivots.length - 1].timestamp,
+    breakoutCandlesAgo: resolution.breakoutIndex === null ? null : last - resolution.breakoutIndex
+  };
+}
+
+// Two equal peaks (or troughs) either side of a clear trough (or peak); the neckline is that middle pivot
+function doubleTopOrBottom(candles: Candle[], pivots: Swing[]): ChartPattern | null {
+  const [first, middle, second] = pivots;
+  const top = first.type === 'high';
+  const extreme = top ? Math.max(first.price, second.price) : Math.min(first.price, second.price);
+  if (Math.abs(first.price - second.price) / extreme > EQUAL_TOLERANCE) return null;
+  if (Math.abs(extreme - middle.price) / extreme < MIN_DEPTH) return null;
+
+  const breakout = flat(middle.price);
+  const invalidation = flat(extreme);
+  const resolution = resolve(candles, second.index + 1, top ? 'down' : 'up', breakout, invalidation, Math.abs(extreme - middle.price));
+  return build(candles, top ? 'double_top' : 'double_bottom', top ? 'bearish' : 'bullish', pivots, breakout, invalidation, resolution);
+}
+
+// A head beyond two similar shoulders; the neckline joins the two pivots between them
+function headAndShoulders(candles: Candle[], pivots: Swing[]): ChartPattern | null {
+  const [left, trough1, head, trough2, right] = pivots;
+  const top = head.type === 'high';
+  const sign = top ? 1 : -1;
+  if (sign * (head.price - left.price) <= 0 || sign * (head.price - right.price) <= 0) return null;
+  if (Math.abs(left.price - right.price) / Math.max(left.price, right.price) > SHOULDER_TOLERANCE) return null;
+
+  const neckline = lineThrough(trough1, trough2);
+  const invalidation = flat(right.price);
+  const height = Math.abs(head.price - neckline(head.index));
+  // Shoulders must stand clear of the neckline, or this is just a range
+  if (sign * (left.price - neckline(left.index)) <= 0 || sign * (right.price - neckline(right.index)) <= 0) return null;
+
+  const resolution = resolve(candles, right.index + 1, top ? 'down' : 'up', neckline, invalidation, height);
+  return build(
+    candles,
+    top ? 'head_and_shoulders' : 'inverse_head_and_shoulders',
+    top ? 'bearish' : 'bullish',
+    pivots,
+    neckline,
+    invalidation,
+    resolution
+  );
+}
+
+// Two highs and two lows closing in: flat top and rising lows, falling highs and flat bottom, or both converging
+function triangle(candles: Candle[], pivots: Swing[]): ChartPattern | null {
+  const highs = pivots.filter(s => s.type === 'high');
+  const lows = pivots.filter(s => s.type === 'low');
+  const upper = lineThrough(highs[0], highs[1]);
+  const lower = lineThrough(lows[0], lows[1]);
+  const highMove = (highs[1].price - highs[0].price) / highs[0].price;
+  const lowMove = (lows[1].price - lows[0].price) / lows[0].price;
+  const last = pivots[pivots.length - 1];
+  if (upper(last.index) <= lower(last.index)) return null;
+
+  // Past the apex, where the lines cross, there is no triangle left to break out of
+  const apex = (i: number) => upper(i) <= lower(i);
+  const live = (resolution: Resolution) =>
+    resolution.breakoutIndex === null ? !apex(candles.length - 1) : !apex(resolution.breakoutIndex);
+
+  const height = highs[0].price - lows[0].price;
+  const from = last.index + 1;
+  let pattern: { type: ChartPatternType; bias: ChartPattern['bias']; direction: 'up' | 'down' } | null = null;
+  if (Math.abs(highMove) <= FLAT_SLOPE && lowMove > FLAT_SLOPE) {
+    pattern = { type: 'ascending_triangle', bias: 'bullish', direction: 'up' };
+  } else if (Math.abs(lowMove) <= FLAT_SLOPE && highMove < -FLAT_SLOPE) {
+    pattern = { type: 'descending_triangle', bias: 'bearish', direction: 'down' };
+  } else if (highMove < -FLAT_SLOPE && lowMove > FLAT_SLOPE) {
+    // Either side can break: a close below the lower line turns the upward read into a breakdown
+    const up = resolve(candles, from, 'up', upper, lower, height);
+    if (up.state === 'invalidated') {
+      const down = resolve(candles, from, 'down', lower, upper, height);
+      return live(down) ? build(candles, 'symmetrical_triangle', 'bearish', pivots, lower, upper, down) : null;
+    }
+    const bias = up.breakoutIndex === null ? 'neutral' : 'bullish';
+    return live(up) ? build(candles, 'symmetrical_triangle', bias, pivots, upper, lower, up) : null;
+  }
+  if (!pattern) return null;
+
+  const [breakout, invalidation] = pattern.direction === 'up' ? [upper, lower] : [lower, upper];
+  const resolution = resolve(candles, from, pattern.direction, breakout, invalidation, height);
+  return live(resolution) ? build(candles, pattern.type, pattern.bias, pivots, breakout, invalidation, resolution) : null;
+}
+
+/*
+ * A sharp pole into a swing, then a shallow pause: breaks past the pole's end target another
+ * pole's length; giving back more than half the pole invalidates it.
+ */
+function flag(candles: Candle[], pivots: Swing[]): ChartPattern | null {
+  const [base, tip] = pivots;
+  const bull = tip.type === 'high';
+  const pole = Math.abs(tip.price - base.price);
+  if (tip.index - base.index > POLE_MAX_CANDLES || pole / base.price < POLE_MIN_MOVE) return null;
+
+  const direction = bull ? 'up' : 'down';
+  const breakout = flat(tip.price);
+  const invalidation = flat(tip.price + (bull ? -1 : 1) * pole * FLAG_MAX_RETRACE);
+  const resolution = resolve(candles, tip.index + 1, direction, breakout, invalidation, pole);
+  const pause = (resolution.breakoutIndex ?? candles.length - 1) - tip.index;
+  if (pause > FLAG_MAX_CANDLES) return null;
+  return build(candles, bull ? 'bull_flag' : 'bear_flag', bull ? 'bullish' : 'bearish', pivots, breakout, invalidation, resolution);
+}
+
+/*
+ * Patterns ending at recent swings, at most the latest of each type. Swings must come from
+ * the same candles.
+ */
+export function findChartPatterns(candles: Candle[], swings: Swing[] = findSwings(candles)): ChartPattern[] {
+  const found = new Map<ChartPatternType, ChartPattern>();
+  const add = (pattern: ChartPattern | null) => {
+    if (pattern && !found.has(pattern.type)) found.set(pattern.type, pattern);
+  };
+
+  // Newest pivots first, so the first instance of each type is the latest
+  for (let end = swings.length - 1; end >= 0; end--) {
+    if (candles.length - 1 - swings[end].index > MAX_AGE) break;
+    const ending = (count: number) => (end + 1 >= count ? swings.slice(end + 1 - count, end + 1) : null);
+
+    const two = ending(2);
+    const three = ending(3);
+    const four = ending(4);
+    const five = ending(5);
+    if (two) add(flag(candles, two));
+    if (three) add(doubleTopOrBottom(candles, three));
+    if (four) add(triangle(candles, four));
+    if (five) add(headAndShoulders(candles, five));
+  }
+  return [...found.values()];
+}
+
+export function describeChartPattern(pattern: ChartPattern, format: (price: number) => string = String): string {
+  const name = CHART_PATTERN_NAMES[pattern.type];
+  const side = pattern.bias === 'bearish' ? 'below' : 'above';
+  switch (pattern.state) {
+    case 'forming':
+      return `${name} forming: breakout ${side} ${format(pattern.breakout)} targets ${format(pattern.target)}`;
+    case 'confirmed':
+      return `${name} confirmed ${side} ${format(pattern.breakout)}, target ${format(pattern.target)}, invalid beyond ${format(pattern.invalidation)}`;
+    case 'target_reached':
+      return `${name} reached its ${format(pattern.target)} target`;
+    case 'failed':
+      return `${name} breakout failed back beyond ${format(pattern.invalidation)}`;
+  }
+}
@@ -0,0 +1,272 @@
+/*
+ * The JSON document the LLM must answer with, and its validator. Shared with the dashboard,
+ * which renders these fields directly, so no Node imports.
+ */
+
+export const PREDICTION_HORIZONS = ['24H', '7D', '30D'] as const;
+export type PredictionHorizon = typeof PREDICTION_HORIZONS[number];
+
+export const SIGNAL_CATEGORIES = ['technical', 'momentum', 'volume', 'sentiment'] as const;
+export type SignalCategory = typeof SIGNAL_CATEGORIES[number];
+
+export const SIGNAL_DIRECTIONS = ['positive', 'negative', 'neutral'] as const;
+export type SignalDirection = typeof SIGNAL_DIRECTIONS[number];
+
+export const POSITIONS = ['long', 'short', 'neutral'] as const;
+export type Position = typeof POSITIONS[number];
+
+export interface AIPrediction {
+  low: number;
+  high: number;
+  confidence: number; // 0-100
+  rationale: string;
+}
+
+export interface AISignal {
+  category: SignalCategory;
+  direction: SignalDirection;
+  text: string;
+}
+
+export interface AIStrategy {
+  position: Position;
+  overview: string;
+  entry: { low: number; high: number };
+  stopLoss: number;
+  targets: number[]; // nearest first
+  timeframe: string;
+}
+
+export interface AIAnalysis {
+  summary: string;
+  predictions: Record<PredictionHorizon, AIPrediction>;
+  signals: AISignal[];
+  strategy: AIStrategy;
+  reasoning: string[];
+}
+
+// Shown to the model verbatim; keep in step with AIAnalysis
+export const AI_ANALYSIS_JSON_SHAPE = `{
+  "summary": string,             // 2-3 sentences on the market situation, phase and key levels
+  "predictions": {
+    "24H": { "low": number, "high": number, "confidence": number, "rationale": string },
+    "7D":  { "low": number, "high": number, "confidence": number, "rationale": string },
+    "30D": { "low": number, "high": number, "confidence": number, "rationale": string }
+  },                             // confidence is 0-100
+  "signals": [                   // 2-6 items
+    { "category": "technical" | "momentum" | "volume" | "sentiment",
+      "direction": "positive" | "negative" | "neutral",
+      "text": string }
+  ],
+  "strategy": {
+    "position": "long" | "short" | "neutral",
+    "overview": string,
+    "entry": { "low": number, "high": number },
+    "stopLoss": number,
+    "targets": number[],         // 1-3 targets, nearest first
+    "timeframe": string
+  },
+  "reasoning": string[]          // the key points behind the call, one per item
+}`;
+
+export type AIValidation = { ok: true; value: AIAnalysis } | { ok: false; errors: string[] };
+
+// Numbers sometimes come back as "65,000" or "$65000"; anything else that is not finite is an error
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const parsed = Number(value.replace(/[^0-9.eE+-]/g, ''));
+    return value.trim() !== '' && Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function toEnum<T extends string>(value: unknown, allowed: readonly T[]): T | null {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return (allowed as readonly string[]).includes(normalized) ? normalized as T : null;
+}
+
+// Low/high pairs are reordered rather than rejected; the model mixes them up now and then
+function toRange(value: any, path: string, errors: string[]): { low: number; high: number } | null {
+  const low = toNumber(value?.low);
+  const high = toNumber(value?.high);
+  if (low === null || high === null || low < 0 || high < 0) {
+    errors.push(`${path} needs non-negative numbers "low" and "high"`);
+    return null;
+  }
+  return low <= high ? { low, high } : { low: high, high: low };
+}
+
+/*
+ * Checks a parsed reply against AIAnalysis. Small, unambiguous slips (numeric strings, enum
+ * casing, swapped ranges, out-of-range confidence) are repaired; anything else is reported
+ * so the caller can ask the model again.
+ */
+export function validateAIAnalysis(data: any): AIValidation {
+  const errors: string[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, errors: ['Reply must be a JSON object'] };
+  }
+
+  const summary = toText(data.summary);
+  if (!summary) errors.push('"summary" must be a non-empty string');
+
+  const predictions = {} as Record<PredictionHorizon, AIPrediction>;
+  for (const horizon of PREDICTION_HORIZONS) {
+    const entry = data.predictions?.[horizon];
+    const range = toRange(entry, `predictions.${horizon}`, errors);
+    const confidence = toNumber(entry?.confidence);
+    if (confidence === null) errors.push(`predictions.${horizon}.confidence must be a number from 0 to 100`);
+    if (range && confidence !== null) {
+      predictions[horizon] = {
+        ...range,
+        confidence: Math.min(100, Math.max(0, confidence)),
+        rationale: toText(entry?.rationale) || ''
+      };
+    }
+  }
+
+  const signals: AISignal[] = [];
+  if (!Array.isArray(data.signals) || data.signals.length === 0) {
+    errors.push('"signals" must be a non-empty array');
+  } else {
+    data.signals.forEach((signal: any, i: number) => {
+      const text = toText(signal?.text);
+      const direction = toEnum(signal?.direction, SIGNAL_DIRECTIONS);
+      const category = toEnum(signal?.category, SIGNAL_CATEGORIES) || 'technical';
+      if (!text || !direction) {
+        errors.push(`signals[${i}] needs "text" and a "direction" of ${SIGNAL_DIRECTIONS.join(', ')}`);
+        return;
+      }
+      signals.push({ category, direction, text });
+    });
+  }
+
+  const strategyData = data.strategy;
+  const position = toEnum(strategyData?.position, POSITIONS);
+  if (!position) errors.push(`strategy.position must be one of ${POSITIONS.join(', ')}`);
+  const entry = toRange(strategyData?.entry, 'strategy.entry', errors);
+  const stopLoss = toNumber(strategyData?.stopLoss);
+  if (stopLoss === null || stopLoss < 0) errors.push('strategy.stopLoss must be a non-negative number');
+  const targets = Array.isArray(strategyData?.targets)
+    ? strategyData.targets.map(toNumber).filter((t: number | null): t is number => t !== null && t > 0)
+    : [];
+  if (targets.length === 0) errors.push('strategy.targets must contain at least one positive number');
+
+  const reasoning = Array.isArray(data.reasoning)
+    ? data.reasoning.map(toText).filter((r: string | null): r is string => r !== null)
+    : [];
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      summary: summary!,
+      predictions,
+      signals,
+      strategy: {
+        position: position!,
+        overview: toText(strategyData.overview) || '',
+        entry: entry!,
+        stopLoss: stopLoss!,
+        targets: targets.slice(0, 3),
+        timeframe: toText(strategyData.timeframe) || ''
+      },
+      reasoning
+    }
+  };
+}
+
+// Models like to wrap JSON in prose or ``` fences; take the outermost object and validate it
+export function parseAIAnalysis(reply: string): AIValidation {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return { ok: false, errors: ['Reply contains no JSON object'] };
+  }
+  try {
+    return validateAIAnalysis(JSON.parse(reply.slice(start, end + 1)));
+  } catch (error: any) {
+    return { ok: false, errors: [`Reply is not valid JSON: ${error.message}`] };
+  }
+}
+
+type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+// Whatever part of the document has arrived so far; a complete AIAnalysis is a valid draft too
+export type AIAnalysisDraft = DeepPartial<AIAnalysis>;
+
+/*
+ * Reads a JSON document that is still being streamed: open strings, arrays and objects are
+ * closed, and a trailing number, literal or key that may still grow is left out until the
+ * next token shows where it ends. Unvalidated, so callers render it defensively.
+ */
+export function parseAIAnalysisDraft(partial: string): AIAnalysisDraft {
+  const start = partial.indexOf('{');
+  let body = start === -1 ? '' : partial.slice(start);
+  // Only the very end can be cut mid-value; after a trim the body ends at a comma or bracket
+  if (!scanJSON(body).inString && /[\w.+-]$/.test(body)) body = trimToBoundary(body);
+
+  while (body) {
+    const { closers, inString, escaped } = scanJSON(body);
+    let candidate = body;
+    if (inString) {
+      candidate = (escaped ? candidate.slice(0, -1) : candidate) + '"';
+    }
+    try {
+      return JSON.parse(candidate.replace(/[,:\s]+$/, '') + closers);
+    } catch {
+      const trimmed = trimToBoundary(body);
+      if (trimmed === body) break;
+      body = trimmed;
+    }
+  }
+  return {};
+}
+
+function scanJSON(text: string): { closers: string; inString: boolean; escaped: boolean } {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    }
+  }
+  return { closers: stack.reverse().join(''), inString, escaped };
+}
+
+// Cut back to just before the last comma, or just after the last opening bracket, outside strings
+function trimToBoundary(text: string): string {
+  let inString = false;
+  let escaped = false;
+  let cut = -1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      cut = i;
+    } else if (char === '{' || char === '[') {
+      cut = i + 1;
+    }
+  }
+  return cut === -1 || cut >= text.length ? text : text.slice(0, cut);
+}
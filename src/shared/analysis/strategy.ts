@@ -0,0 +1,407 @@
+/*
+ * Trading strategy (recommendation, entries, stops, targets) from the dashboard's analysis.
+ * Shared with the server's backtester, so no Node imports.
+ */
+import { DEFAULT_QUOTE, formatPrice, roundPrice, type QuoteCurrency } from '../quotes.js';
+import { structureTargets } from './swings.js';
+import { describeDivergence, type Divergence } from './divergences.js';
+import { CHART_PATTERN_NAMES, describeChartPattern, type ChartPattern } from './patterns.js';
+import { describeConfluence, type Confluence } from './confluence.js';
+
+export interface BreakoutEntry {
+  pattern: ChartPattern['type'];
+  position: 'long' | 'short';
+  entry: number;
+  stop: number;
+  target: number;
+}
+
+export interface TradingStrategy {
+  recommendation: string;
+  confidence: number;
+  entries: {
+    conservative: number;
+    moderate: number;
+    aggressive: number;
+  };
+  stopLoss: {
+    tight: number;
+    normal: number;
+    wide: number;
+  };
+  targets: {
+    primary: number;
+    secondary: number;
+    final: number;
+  };
+  breakouts: BreakoutEntry[];
+  timeframe: string;
+  rationale: string[];
+}
+
+const DIVERGENCE_WEIGHT: Record<Divergence['importance'], number> = { high: 2, medium: 1, low: 0.5 };
+const BREAKOUT_ENTRY_AGE = 12; // candles after a breakout that a retest entry is still offered
+const CONFLUENCE_WEIGHT = 15; // confidence points a full ±100 confluence score moves a recommendation
+
+export const strategyGenerator = {
+  async generateStrategy(data: {
+    currentPrice: number;
+    marketCondition: any;
+    technicalSignals: any;
+    sentimentAnalysis: any;
+    riskAnalysis: any;
+    predictions: any;
+    chartPatterns?: ChartPattern[];
+    confluence?: Confluence | null;
+    quote?: QuoteCurrency;
+  }): Promise<TradingStrategy> {
+    try {
+      const { currentPrice, marketCondition, technicalSignals, chartPatterns = [], confluence = null, quote = DEFAULT_QUOTE } = data;
+
+      // Ensure currentPrice is valid
+      if (!currentPrice || isNaN(currentPrice)) {
+        throw new Error('Invalid current price');
+      }
+
+      // Use marketCondition to calculate entries
+      const conservative = this.calculateConservativeEntry(
+        currentPrice, 
+        technicalSignals, 
+        marketCondition.keyLevels // Use key levels from market condition
+      );
+      
+      const aggressive = this.calculateAggressiveEntry(
+        currentPrice, 
+        technicalSignals, 
+        marketCondition.keyLevels // Use key levels from market condition
+      );
+
+      const entries = {
+        conservative: roundPrice(conservative),
+        moderate: roundPrice(currentPrice),
+        aggressive: roundPrice(aggressive)
+      };
+
+      // Validate entries
+      if (isNaN(entries.aggressive) || entries.aggressive === 0) {
+        entries.aggressive = roundPrice(currentPrice * 1.02);
+      }
+
+      // Use market condition for recommendation
+      const { recommendation, confidence } = this.determineRecommendation(
+        technicalSignals, 
+        marketCondition,
+        confluence
+      );
+
+      // Calculate stop loss from ATR when candles are available, else from market condition
+      const atr = technicalSignals.volatility?.atr || 0;
+      const stopLoss = atr > 0 ? {
+        tight: roundPrice(Math.max(0, currentPrice - this.calculateATRStopDistance(atr, 'tight'))),
+        normal: roundPrice(Math.max(0, currentPrice - this.calculateATRStopDistance(atr, 'normal'))),
+        wide: roundPrice(Math.max(0, currentPrice - this.calculateATRStopDistance(atr, 'wide')))
+      } : {
+        tight: roundPrice(currentPrice * (1 - this.calculateStopLossDistance(marketCondition, 'tight'))),
+        normal: roundPrice(currentPrice * (1 - this.calculateStopLossDistance(marketCondition, 'normal'))),
+        wide: roundPrice(currentPrice * (1 - this.calculateStopLossDistance(marketCondition, 'wide')))
+      };
+
+      // Targets at the next resistance levels and the Fibonacci extension; distance-based where the structure has none
+      const levelTargets = marketCondition.keyLevels?.resistance > currentPrice
+        ? structureTargets('long', marketCondition.keyLevels, marketCondition.fibonacci ?? null)
+        : [];
+      const targets = {
+        primary: roundPrice(levelTargets[0] ?? currentPrice * (1 + this.calculateTargetDistance(marketCondition, 'primary'))),
+        secondary: roundPrice(levelTargets[1] ?? currentPrice * (1 + this.calculateTargetDistance(marketCondition, 'secondary'))),
+        final: roundPrice(levelTargets[2] ?? Math.max(
+          levelTargets[1] ?? 0,
+          currentPrice * (1 + this.calculateTargetDistance(marketCondition, 'final'))
+        ))
+      };
+
+      const breakouts = this.calculateBreakoutEntries(chartPatterns, currentPrice);
+      const rationale = this.generateRationale(technicalSignals, marketCondition, quote);
+      for (const breakout of breakouts) {
+        rationale.push(
+          `${CHART_PATTERN_NAMES[breakout.pattern]} breakout: ${breakout.position} on a retest of ${formatPrice(breakout.entry, quote)}, ` +
+          `stop ${formatPrice(breakout.stop, quote)}, target ${formatPrice(breakout.target, quote)}`
+        );
+      }
+      for (const pattern of chartPatterns.filter(p => p.state === 'forming')) {
+        rationale.push(describeChartPattern(pattern, price => formatPrice(price, quote)));
+      }
+      if (confluence) {
+        rationale.push(`Timeframe confluence: ${describeConfluence(confluence)}`);
+      }
+
+      return {
+        recommendation: `${recommendation} (${confidence}%)`,
+        confidence,
+        entries,
+        stopLoss,
+        targets,
+        breakouts,
+        timeframe: this.determineTimeframe(technicalSignals, marketCondition),
+        rationale
+      };
+    } catch (error) {
+      console.error('Error generating strategy:', error);
+      return this.getDefaultStrategy();
+    }
+  },
+
+  calculateStopLossDistance(marketCondition: any, type: 'tight' | 'normal' | 'wide'): number {
+    const volatility = marketCondition.strength || 0.5;
+    const multipliers = {
+      tight: 2,
+      normal: 3,
+      wide: 5
+    };
+    return (volatility * multipliers[type]) / 100;
+  },
+
+  // Stop distance in price units, as a multiple of the hourly ATR
+  calculateATRStopDistance(atr: number, type: 'tight' | 'normal' | 'wide'): number {
+    const multipliers = {
+      tight: 1,
+      normal: 1.5,
+      wide: 2.5
+    };
+    return atr * multipliers[type];
+  },
+
+  calculateTargetDistance(marketCondition: any, type: 'primary' | 'secondary' | 'final'): number {
+    const trend = marketCondition.phase.toLowerCase();
+    const strength = marketCondition.strength || 0.5;
+    
+    const baseMultipliers = {
+      primary: 3,
+      secondary: 5,
+      final: 8
+    };
+
+    // Adjust multipliers based on market phase
+    const trendMultiplier = trend === 'bull market' ? 1.5 :
+                           trend === 'bear market' ? 0.5 : 1;
+
+    return (baseMultipliers[type] * strength * trendMultiplier) / 100;
+  },
+
+  determineRecommendation(
+    technicalSignals: any,
+    marketCondition: any,
+    confluence: Confluence | null = null
+  ): { recommendation: string; confidence: number } {
+    const { rsi, macd } = technicalSignals.momentum;
+    const trend = technicalSignals.trend.primary;
+    const marketPhase = marketCondition.phase.toLowerCase();
+
+    // Determine base recommendation
+    let recommendation = '';
+    let confidence = 0;
+
+    if (rsi.value > 70 && trend === 'bullish') {
+      recommendation = 'Take Profit';
+      confidence = Math.min(85, rsi.value);
+    } else if (rsi.value < 30 && trend === 'bearish') {
+      recommendation = 'Buy';
+      confidence = Math.min(85, 100 - rsi.value);
+    } else if (marketPhase === 'accumulation' && rsi.value < 40) {
+      recommendation = 'Buy';
+      confidence = 65;
+    } else if (marketPhase === 'distribution' && rsi.value > 60) {
+      recommendation = 'Sell';
+      confidence = 65;
+    } else {
+      recommendation = 'Hold';
+      confidence = 50;
+    }
+
+    // Adjust confidence based on MACD confirmation
+    if (macd.signal.includes('bullish') && recommendation === 'Buy') {
+      confidence += 10;
+    } else if (macd.signal.includes('bearish') && recommendation === 'Sell') {
+      confidence += 10;
+    }
+
+    // Divergences vote by importance: enough of them turn a Hold, otherwise they move the confidence
+    const divergenceScore = this.scoreDivergences(technicalSignals.divergences ?? []);
+    if (recommendation === 'Hold' && Math.abs(divergenceScore) >= 2) {
+      recommendation = divergenceScore > 0 ? 'Buy' : 'Sell';
+      confidence = 60;
+    } else if (recommendation !== 'Hold') {
+      const bullish = recommendation === 'Buy';
+      confidence = Math.max(30, confidence + (bullish ? divergenceScore : -divergenceScore) * 5);
+    }
+
+    // Timeframes lining up behind the call raise its confidence, pulling against it lowers it;
+    // strong alignment either way also argues against sitting out with a Hold
+    if (confluence) {
+      const alignment = confluence.score / 100;
+      if (recommendation === 'Buy') confidence += alignment * CONFLUENCE_WEIGHT;
+      else if (recommendation === 'Hold') confidence -= Math.abs(alignment) * CONFLUENCE_WEIGHT;
+      else confidence -= alignment * CONFLUENCE_WEIGHT;
+      confidence = Math.max(30, confidence);
+    }
+
+    // Cap confidence at 95%
+    confidence = Math.min(95, Math.round(confidence * 100) / 100); // Round to 2 decimal places
+
+    return { recommendation, confidence };
+  },
+
+  // Positive when bullish divergences outweigh bearish ones
+  scoreDivergences(divergences: Divergence[]): number {
+    return divergences.reduce(
+      (score, d) => score + (d.direction === 'bullish' ? 1 : -1) * DIVERGENCE_WEIGHT[d.importance],
+      0
+    );
+  },
+
+  calculateConfidence(technicalSignals: any, marketCondition: any): number {
+    const trendStrength = technicalSignals.trend.strength * 100;
+    const marketStrength = marketCondition.strength * 100;
+    const momentumStrength = 
+      (technicalSignals.momentum.rsi.value > 50 ? 60 : 40) +
+      (technicalSignals.momentum.macd.value > 0 ? 10 : -10);
+
+    return Math.min(95, Math.max(30,
+      (trendStrength * 0.4 + marketStrength * 0.3 + momentumStrength * 0.3)
+    ));
+  },
+
+  calculateConservativeEntry(
+    currentPrice: number, 
+    technicalSignals: any, 
+    keyLevels: any
+  ): number {
+    // Use key levels from market condition for support
+    const support = keyLevels.support || currentPrice * 0.95;
+    const volatility = technicalSignals.volatility.current / 100;
+    
+    // Conservative entry near support level
+    return Math.max(
+      support,
+      currentPrice * (1 - Math.min(0.05, volatility)) // Max 5% below current price
+    );
+  },
+
+  calculateAggressiveEntry(
+    currentPrice: number, 
+    technicalSignals: any, 
+    keyLevels: any
+  ): number {
+    // Use key levels from market condition for resistance
+    const resistance = keyLevels.resistance || currentPrice * 1.05;
+    const volatility = technicalSignals.volatility.current / 100;
+    
+    // Aggressive entry should be between current price and resistance
+    const entryPoint = currentPrice * (1 + Math.min(0.03, volatility)); // Max 3% above current price
+    
+    // Ensure entry doesn't exceed resistance
+    return Math.min(entryPoint, resistance);
+  },
+
+  // Recently confirmed patterns whose measured move still lies ahead: entry at the broken level, stop at the invalidation
+  calculateBreakoutEntries(patterns: ChartPattern[], currentPrice: number): BreakoutEntry[] {
+    return patterns
+      .filter(p => p.state === 'confirmed' && p.bias !== 'neutral' && (p.breakoutCandlesAgo ?? Infinity) <= BREAKOUT_ENTRY_AGE)
+      .filter(p => p.bias === 'bullish'
+        ? currentPrice > p.invalidation && currentPrice < p.target
+        : currentPrice < p.invalidation && currentPrice > p.target)
+      .map(p => ({
+        pattern: p.type,
+        position: p.bias === 'bullish' ? 'long' as const : 'short' as const,
+        entry: roundPrice(p.breakout),
+        stop: roundPrice(p.invalidation),
+        target: roundPrice(p.target)
+      }));
+  },
+
+  calculateStopLoss(price: number, percentage: number): number {
+    return price * (1 - percentage);
+  },
+
+  calculateTarget(price: number, percentage: number): number {
+    return price * (1 + percentage);
+  },
+
+  determineTimeframe(technicalSignals: any, marketCondition: any): string {
+    const volatility = technicalSignals.volatility.current;
+    const marketPhase = marketCondition.phase.toLowerCase();
+    const strength = marketCondition.strength || 0.5;
+
+    // Determine timeframe based on market conditions
+    if (marketPhase === 'bull market' && strength > 0.7) {
+      return volatility > 50 ? 'Short-term' : 'Medium-term';
+    } else if (marketPhase === 'bear market' && strength > 0.7) {
+      return 'Long-term';
+    } else if (marketPhase === 'accumulation') {
+      return 'Medium-term';
+    } else if (marketPhase === 'distribution') {
+      return 'Short-term';
+    }
+
+    // Default based on volatility
+    return volatility > 50 ? 'Short-term' : 
+           volatility < 20 ? 'Long-term' : 'Medium-term';
+  },
+
+  generateRationale(technicalSignals: any, marketCondition: any, quote: QuoteCurrency): string[] {
+    const rationale: string[] = [];
+    
+    // Add market phase rationale
+    rationale.push(`Market Phase: ${marketCondition.phase} with ${(marketCondition.strength * 100).toFixed(1)}% strength`);
+    
+    // Add technical signals
+    rationale.push(`RSI: ${technicalSignals.momentum.rsi.signal}`);
+    rationale.push(`MACD: ${technicalSignals.momentum.macd.signal}`);
+    
+    // Add market structure
+    if (marketCondition.keyLevels) {
+      rationale.push(`Support at ${formatPrice(marketCondition.keyLevels.support, quote)}`);
+      rationale.push(`Resistance at ${formatPrice(marketCondition.keyLevels.resistance, quote)}`);
+    }
+    if (marketCondition.fibonacci) {
+      const { direction, from, to } = marketCondition.fibonacci;
+      rationale.push(`Fibonacci levels from the ${direction} swing ${formatPrice(from.price, quote)} → ${formatPrice(to.price, quote)}`);
+    }
+
+    for (const divergence of (technicalSignals.divergences ?? []) as Divergence[]) {
+      if (divergence.importance !== 'low') rationale.push(describeDivergence(divergence));
+    }
+
+    // Add trend strength
+    if (technicalSignals.trend.strength > 0.7) {
+      rationale.push(`Strong ${technicalSignals.trend.primary} trend`);
+    }
+
+    return rationale;
+  },
+
+  getDefaultStrategy(): TradingStrategy {
+    const defaultPrice = 76000;
+    return {
+      recommendation: 'Hold',
+      confidence: 50,
+      entries: {
+        conservative: defaultPrice * 0.98,
+        moderate: defaultPrice,
+        aggressive: defaultPrice * 1.02
+      },
+      stopLoss: {
+        tight: defaultPrice * 0.95,
+        normal: defaultPrice * 0.97,
+        wide: defaultPrice * 0.93
+      },
+      targets: {
+        primary: defaultPrice * 1.03,
+        secondary: defaultPrice * 1.05,
+        final: defaultPrice * 1.08
+      },
+      breakouts: [],
+      timeframe: 'Medium-term',
+      rationale: ['Using default strategy due to insufficient data']
+    };
+  }
+};
\ No newline at end of file
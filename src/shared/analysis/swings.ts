@@ -0,0 +1,179 @@
+/*
+ * Price structure: swing highs and lows, Fibonacci levels of the dominant swing, and the
+ * support/resistance ladder built from both. Shared with the dashboard, so no Node imports.
+ */
+import type { Candle } from '../candles.js';
+
+export interface Swing {
+  type: 'high' | 'low';
+  index: number; // into the candles it was found in
+  timestamp: number;
+  price: number; // the candle's high for a swing high, its low for a swing low
+}
+
+export const FIB_RETRACEMENTS = [0.236, 0.382, 0.5, 0.618, 0.786] as const;
+export const FIB_EXTENSIONS = [1.272, 1.618] as const;
+
+export interface FibonacciLevel {
+  ratio: number;
+  price: number;
+}
+
+export interface FibonacciLevels {
+  direction: 'up' | 'down'; // up: measured from the swing low to the later swing high
+  from: { price: number; timestamp: number };
+  to: { price: number; timestamp: number };
+  retracements: FibonacciLevel[]; // pullback levels inside the swing, nearest `to` first
+  extensions: FibonacciLevel[]; // beyond `to`, in the swing's direction
+}
+
+export interface KeyLevels {
+  strongSupport: number;
+  support: number;
+  resistance: number;
+  strongResistance: number;
+}
+
+export const DEFAULT_SWING_STRENGTH = 5;
+const MIN_LEVEL_GAP = 0.003; // levels closer than this fraction count as one
+const AT_PRICE = 0.001; // a level this close to the price is where it trades, not beyond it
+
+/*
+ * A swing high is a candle whose high no candle within `strength` on either side exceeds (a
+ * swing low likewise with lows). Consecutive swings of one type keep only the most extreme,
+ * so highs and lows alternate. The last `strength` candles cannot be confirmed yet.
+ */
+export function findSwings(candles: Candle[], strength: number = DEFAULT_SWING_STRENGTH): Swing[] {
+  const swings: Swing[] = [];
+  for (let i = strength; i < candles.length - strength; i++) {
+    const window = candles.slice(i - strength, i + strength + 1);
+    const { high, low, timestamp } = candles[i];
+    const candidates: Swing[] = [];
+    if (window.every(c => c.high <= high)) candidates.push({ type: 'high', index: i, timestamp, price: high });
+    if (window.every(c => c.low >= low)) candidates.push({ type: 'low', index: i, timestamp, price: low });
+
+    for (const swing of candidates) {
+      const previous = swings[swings.length - 1];
+      if (!previous || previous.type !== swing.type) {
+        swings.push(swing);
+      } else if (swing.type === 'high' ? swing.price > previous.price : swing.price < previous.price) {
+        swings[swings.length - 1] = swing;
+      }
+    }
+  }
+  return swings;
+}
+
+/*
+ * Levels of the dominant swing: from the lowest swing low to the highest swing high, in the
+ * order they happened. When price has since run past the later end without a confirmed swing
+ * there, the swing is measured to that extreme instead.
+ */
+export function fibonacciLevels(candles: Candle[], swings: Swing[] = findSwings(candles)): FibonacciLevels | null {
+  const highs = swings.filter(s => s.type === 'high');
+  const lows = swings.filter(s => s.type === 'low');
+  if (highs.length === 0 || lows.length === 0) return null;
+
+  let high: { price: number; timestamp: number; index: number } = highs.reduce((a, b) => (b.price > a.price ? b : a));
+  let low: { price: number; timestamp: number; index: number } = lows.reduce((a, b) => (b.price < a.price ? b : a));
+  const direction = low.index < high.index ? 'up' : 'down';
+
+  for (let i = Math.max(high.index, low.index) + 1; i < candles.length; i++) {
+    const c = candles[i];
+    if (direction === 'up' && c.high > high.price) high = { price: c.high, timestamp: c.timestamp, index: i };
+    if (direction === 'down' && c.low < low.price) low = { price: c.low, timestamp: c.timestamp, index: i };
+  }
+
+  const range = high.price - low.price;
+  if (!(range > 0)) return null;
+  const [from, to] = direction === 'up' ? [low, high] : [high, low];
+  const sign = direction === 'up' ? 1 : -1;
+
+  return {
+    direction,
+    from: { price: from.price, timestamp: from.timestamp },
+    to: { price: to.price, timestamp: to.timestamp },
+    retracements: FIB_RETRACEMENTS.map(ratio => ({ ratio, price: to.price - sign * range * ratio })),
+    extensions: FIB_EXTENSIONS
+      .map(ratio => ({ ratio, price: from.price + sign * range * ratio }))
+      .filter(level => level.price > 0)
+  };
+}
+
+// Every price the structure marks: swing points, both ends of the dominant swing and its Fibonacci levels
+function structurePrices(swings: Swing[], fibonacci: FibonacciLevels | null): number[] {
+  const prices = swings.map(s => s.price);
+  if (fibonacci) {
+    prices.push(
+      fibonacci.from.price,
+      fibonacci.to.price,
+      ...fibonacci.retracements.map(l => l.price),
+      ...fibonacci.extensions.map(l => l.price)
+    );
+  }
+  return prices.filter(p => Number.isFinite(p) && p > 0);
+}
+
+// Nearest distinct levels beyond `price`, stepping away from it (down for supports, up for resistances)
+function levelsBeyond(levels: number[], price: number, side: 'below' | 'above'): number[] {
+  const sorted = side === 'below'
+    ? levels.filter(l => l < price * (1 - AT_PRICE)).sort((a, b) => b - a)
+    : levels.filter(l => l > price * (1 + AT_PRICE)).sort((a, b) => a - b);
+  const distinct: number[] = [];
+  for (const level of sorted) {
+    const last = distinct[distinct.length - 1];
+    if (last === undefined || Math.abs(level - last) / last >= MIN_LEVEL_GAP) distinct.push(level);
+  }
+  return distinct;
+}
+
+/*
+ * Support and resistance from the structure: the nearest swing or Fibonacci level on each side,
+ * and the one after it as the strong level. A side with nothing on it (price beyond every level)
+ * falls back to a fixed distance so callers always get a ladder.
+ */
+export function structureLevels(
+  currentPrice: number,
+  swings: Swing[],
+  fibonacci: FibonacciLevels | null
+): KeyLevels {
+  const prices = structurePrices(swings, fibonacci);
+  const below = levelsBeyond(prices, currentPrice, 'below');
+  const above = levelsBeyond(prices, currentPrice, 'above');
+  const support = below[0] ?? currentPrice * 0.95;
+  const resistance = above[0] ?? currentPrice * 1.05;
+  return {
+    support,
+    strongSupport: below[1] ?? support * 0.97,
+    resistance,
+    strongResistance: above[1] ?? resistance * 1.03
+  };
+}
+
+// Up to three targets in the trade's direction: the next two levels, then the 1.618 extension if it lies further out
+export function structureTargets(
+  position: 'long' | 'short',
+  levels: KeyLevels,
+  fibonacci: FibonacciLevels | null
+): number[] {
+  const targets = position === 'long'
+    ? [levels.resistance, levels.strongResistance]
+    : [levels.support, levels.strongSupport];
+  const extension = fibonacci?.extensions.find(l => l.ratio === 1.618)?.price;
+  if (extension !== undefined && (position === 'long' ? extension > targets[1] : extension < targets[1])) {
+    targets.push(extension);
+  }
+  return targets.filter(t => t > 0);
+}
+
+export interface PriceStructure {
+  swings: Swing[];
+  fibonacci: FibonacciLevels | null;
+  levels: KeyLevels;
+}
+
+export function analyzeStructure(candles: Candle[], currentPrice: number, strength: number = DEFAULT_SWING_STRENGTH): PriceStructure {
+  const swings = findSwings(candles, strength);
+  const fibonacci = fibonacciLevels(candles, swings);
+  return { swings, fibonacci, levels: structureLevels(currentPrice, swings, fibonacci) };
+}
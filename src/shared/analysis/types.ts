@@ -0,0 +1,103 @@
+// Shapes returned by /api/analysis/:id; imported by the dashboard as well, so no Node imports
+import type { CandleInterval } from '../candles.js';
+import type { QuoteCurrency } from '../quotes.js';
+import type { AIAnalysis } from './schema.js';
+import type { FibonacciLevels } from './swings.js';
+
+export type TrendBias = 'bullish' | 'bearish' | 'neutral';
+
+// Ichimoku and Supertrend as of the latest candle; crosses and flips older than the lookback are null
+export interface TrendSystems {
+  ichimoku: {
+    tenkan: number;
+    kijun: number;
+    senkouA: number;
+    senkouB: number;
+    cloud: 'above' | 'below' | 'inside'; // price against the cloud
+    tkCross: { direction: 'bullish' | 'bearish'; candlesAgo: number } | null;
+    chikou: 'above' | 'below' | 'flat'; // close against the close `displacement` candles back
+  };
+  supertrend: {
+    value: number;
+    direction: 'up' | 'down';
+    flip: { direction: 'up' | 'down'; candlesAgo: number } | null;
+  };
+  bias: TrendBias; // agreement of cloud, TK, chikou and Supertrend
+}
+
+export interface TechnicalIndicators {
+  interval: CandleInterval; // candle timeframe everything below is computed on
+  currentPrice: number;
+  price_change_24h: number;
+  rsi: number;
+  macd: {
+    value: number;
+    signal: number;
+    histogram: number;
+    interpretation: string;
+  };
+  ma20: number;
+  ma50: number;
+  ma200: number | null; // null with fewer than 200 closes, rather than a shorter average
+  volumeChange: number;
+  marketPhase: string;
+  volatility: number;
+  atr: number;
+  stochastic: {
+    k: number;
+    d: number;
+  };
+  support: number; // nearest swing or Fibonacci level below the price
+  resistance: number; // nearest above
+  strongSupport: number; // the next level below support
+  strongResistance: number;
+  fibonacci: FibonacciLevels | null; // dominant swing of the timeframe's candles; null without swings
+  trendSystems: TrendSystems | null; // null without candles
+}
+
+export interface MarketSentiment {
+  newsScore: number;
+  socialScore: number;
+  marketMood: 'Bullish' | 'Bearish' | 'Neutral';
+}
+
+export interface DetailedAnalysis {
+  crypto: string;
+  quote: QuoteCurrency;
+  interval: CandleInterval; // candle timeframe the indicators were computed on
+  generatedAt: number;
+  summary: string;
+  aiAnalysis: AIAnalysis | null; // null when skipped (?ai=false) or when the LLM failed
+  aiProvider?: string; // LLM_PROVIDERS entry that wrote aiAnalysis ('template' when no model was reachable)
+  promptVersion?: string; // prompt template version the LLM was given; unset for the template narrator
+  aiError?: string; // why aiAnalysis is null when AI was requested
+  priceTargets: {
+    '24H': { range: string; confidence: string };
+    '7D': { range: string; confidence: string };
+    '30D': { range: string; confidence: string };
+  };
+  signals: Array<{
+    text: string;
+    importance: string;
+  }>;
+  strategy: {
+    position: string;
+    entry: string;
+    stop: string;
+    target: string;
+  };
+  marketStructure: {
+    trend: string;
+  };
+}
+
+/*
+ * Messages of /api/analysis/:id/stream, one JSON object per SSE `data:` line. The stream ends
+ * after 'analysis' or 'error'; tokens after a 'reset' start a new reply.
+ */
+export type AnalysisStreamEvent =
+  | { type: 'indicators'; analysis: DetailedAnalysis } // indicators only, aiAnalysis still null
+  | { type: 'token'; text: string } // next piece of the raw JSON reply
+  | { type: 'reset' } // streamed reply was dropped (invalid or failed); the final document comes without tokens
+  | { type: 'analysis'; analysis: DetailedAnalysis } // final result, AI fields filled in
+  | { type: 'error'; error: string; retryAfter?: number };
@@ -0,0 +1,64 @@
+import type { CandleInterval } from '../candles.js';
+import type { QuoteCurrency } from '../quotes.js';
+import type { ChartPatternType } from '../analysis/patterns.js';
+
+export interface BacktestOptions {
+  feeRate: number; // per fill, as a fraction of the traded value (0.001 = 0.1%)
+  slippage: number; // fraction of the price lost on market and stop fills
+  minConfidence: number; // Buy recommendations below this confidence are not taken
+  stop: 'tight' | 'normal' | 'wide'; // which of the strategy's stops a trade uses
+  target: 'primary' | 'secondary' | 'final';
+  breakouts: boolean; // also work the strategy's breakout retest entries, long and short
+  warmup: number; // candles of history before the first decision
+}
+
+export type ExitReason = 'stop' | 'target' | 'signal' | 'end';
+
+export interface BacktestTrade {
+  source: 'recommendation' | ChartPatternType; // a Buy recommendation or the pattern of a breakout entry
+  position: 'long' | 'short';
+  confidence: number; // of the strategy that opened it
+  entryTime: number;
+  entryPrice: number; // after slippage
+  exitTime: number;
+  exitPrice: number;
+  stop: number;
+  target: number;
+  exitReason: ExitReason;
+  candlesHeld: number;
+  returnPct: number; // on the equity put in, after fees and slippage
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number; // starts at 1, marked to the close
+  drawdown: number; // percent below the running peak
+}
+
+export interface BacktestMetrics {
+  trades: number;
+  winRate: number; // percent
+  averageWin: number; // percent per winning trade
+  averageLoss: number; // percent per losing trade, negative
+  expectancy: number; // mean percent return per trade
+  profitFactor: number | null; // gross wins over gross losses; null without losses
+  totalReturn: number; // percent
+  buyAndHoldReturn: number; // percent, same candles
+  sharpe: number; // annualised from candle returns
+  sortino: number;
+  maxDrawdown: number; // percent
+  exposure: number; // percent of candles with a position open
+}
+
+export interface BacktestResult {
+  crypto: string;
+  quote: QuoteCurrency;
+  interval: CandleInterval;
+  from: number; // first decision candle
+  to: number;
+  candles: number; // candles replayed after the warmup
+  options: BacktestOptions;
+  metrics: BacktestMetrics;
+  trades: BacktestTrade[];
+  equity: EquityPoint[];
+}
@@ -0,0 +1,52 @@
+// Candle shapes and helpers shared by the server and the dashboard, so no Node imports
+
+export type CandleInterval = '1h' | '4h' | '1d' | '1w';
+
+// Every price, volume and market cap below is in the requested quote currency
+export interface Candle {
+  timestamp: number; // candle open time (ms)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // volume traded within the candle in the quote currency, 0 when the upstream has none
+}
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+};
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CANDLE_INTERVAL_MS, value);
+}
+
+// Merge finer candles into buckets of `intervalMs` (aligned to the epoch, so 1d buckets start at 00:00 UTC)
+export function resampleCandles(candles: Candle[], intervalMs: number): Candle[] {
+  const buckets = new Map<number, Candle>();
+
+  for (const candle of [...candles].sort((a, b) => a.timestamp - b.timestamp)) {
+    const bucketStart = Math.floor(candle.timestamp / intervalMs) * intervalMs;
+    const bucket = buckets.get(bucketStart);
+    if (!bucket) {
+      buckets.set(bucketStart, { ...candle, timestamp: bucketStart });
+    } else {
+      bucket.high = Math.max(bucket.high, candle.high);
+      bucket.low = Math.min(bucket.low, candle.low);
+      bucket.close = candle.close;
+      bucket.volume += candle.volume;
+    }
+  }
+
+  return Array.from(buckets.values());
+}
+
+// Keep only candles that open within the last `days` of the series
+export function trimToDays(candles: Candle[], days: number): Candle[] {
+  if (candles.length === 0) return candles;
+  const end = candles[candles.length - 1].timestamp;
+  const start = end - days * CANDLE_INTERVAL_MS['1d'];
+  return candles.filter(c => c.timestamp > start);
+}
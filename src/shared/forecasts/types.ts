@@ -0,0 +1,73 @@
+/*
+ * Issued forecasts and how they scored. Shared with the dashboard, so no Node imports.
+ */
+import type { CandleInterval } from '../candles.js';
+import type { QuoteCurrency } from '../quotes.js';
+
+// analysis: the indicator ranges of AnalysisService; ai: the narrative's ranges; advanced: the
+// dashboard's predictPriceTargets; lstm: PredictionService's point forecasts
+export const FORECAST_MODELS = ['analysis', 'ai', 'advanced', 'lstm'] as const;
+export type ForecastModel = typeof FORECAST_MODELS[number];
+
+export const FORECAST_HORIZONS = ['24H', '7D', '30D'] as const;
+export type ForecastHorizon = typeof FORECAST_HORIZONS[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const HORIZON_MS: Record<ForecastHorizon, number> = { '24H': DAY_MS, '7D': 7 * DAY_MS, '30D': 30 * DAY_MS };
+
+export interface ForecastRecord {
+  crypto: string;
+  quote: QuoteCurrency;
+  model: ForecastModel;
+  interval: CandleInterval | null; // candles the forecast was read from, for the server models
+  owner: string | null; // user who posted a dashboard forecast, null for the server's own
+  horizon: ForecastHorizon;
+  issuedAt: number;
+  dueAt: number;
+  issuedPrice: number; // server price when it was issued
+  low: number; // a point forecast has low === high
+  high: number;
+  confidence: number; // 0-100, as issued
+  realizedPrice: number | null; // null until scored
+  scoredAt: number | null;
+}
+
+// What a predictor hands in: one entry per horizon
+export interface ForecastIssue {
+  crypto: string;
+  quote: QuoteCurrency;
+  model: ForecastModel;
+  interval?: CandleInterval | null;
+  owner?: string | null;
+  issuedPrice: number;
+  forecasts: Array<{ horizon: ForecastHorizon; low: number; high: number; confidence: number }>;
+}
+
+export interface CalibrationBin {
+  from: number; // stated confidence band, percent
+  to: number;
+  forecasts: number;
+  confidence: number; // mean stated confidence
+  hitRate: number; // percent that came true
+}
+
+export interface ForecastScore {
+  model: ForecastModel;
+  interval: CandleInterval | null;
+  horizon: ForecastHorizon;
+  kind: 'range' | 'point'; // a range hits when the price ends inside it, a point when it called the direction
+  scored: number;
+  pending: number;
+  hitRate: number | null; // percent
+  mape: number | null; // mean absolute percentage error of the range midpoint or the point
+  meanConfidence: number | null;
+  calibrationError: number | null; // forecast-weighted gap between stated confidence and hit rate, in points
+  calibration: CalibrationBin[];
+}
+
+export interface Scoreboard {
+  crypto: string | null; // null: every coin
+  quote: QuoteCurrency;
+  generatedAt: number;
+  scores: ForecastScore[];
+}
@@ -0,0 +1,213 @@
+/*
+ * Model inputs and targets, built the same way for training on the server and for inference in
+ * the dashboard. Every input is scale-free (relative to the price or bounded), so weights
+ * trained on one price range still apply after the coin has moved.
+ */
+import { CANDLE_INTERVAL_MS, type Candle, type CandleInterval } from '../candles.js';
+import type { IndicatorPoint } from '../analysis/engine.js';
+import { calculateTrueRanges } from '../analysis/indicators.js';
+import { findSwings, type KeyLevels } from '../analysis/swings.js';
+import { FORECAST_HORIZONS, HORIZON_MS, type ForecastHorizon } from '../forecasts/types.js';
+
+export const PRICE_WINDOW = 20; // candles the LSTM reads
+export const PRICE_FEATURES = ['close', 'volume', 'rsi', 'macdHistogram', 'bollingerWidth', 'atr'];
+export const PRICE_HORIZONS: readonly ForecastHorizon[] = FORECAST_HORIZONS;
+const PRICE_TARGET_SCALE = 10; // returns are scaled up so the loss is not lost in float noise
+
+export const TREND_FEATURES = ['adx', 'trendIntensity', 'priceROC', 'volumeTrend'];
+export const TREND_WINDOW = 100; // candles the trend inputs are read over
+export const TREND_LOOKAHEAD = 20; // candles the trend target looks ahead
+const ADX_PERIOD = 14;
+const ROC_PERIOD = 14;
+
+const LEVEL_SWINGS = 5; // most recent swing highs and lows read, each
+export const LEVEL_FEATURES = [
+  ...Array.from({ length: LEVEL_SWINGS }, (_, i) => `swingHigh${i + 1}`),
+  ...Array.from({ length: LEVEL_SWINGS }, (_, i) => `swingLow${i + 1}`),
+  'ma20', 'ma50', 'ma200', 'bollingerUpper', 'bollingerLower', 'high20', 'low20', 'rsi', 'stochRSI', 'atr'
+];
+export const LEVEL_OUTPUTS: readonly (keyof KeyLevels)[] = ['strongSupport', 'support', 'resistance', 'strongResistance'];
+export const LEVEL_WINDOW = 300; // candles the swings are read from, as the live analysis has them
+export const LEVEL_LOOKAHEAD = 50; // candles the realized levels are taken from
+const LEVEL_CLIP = 20; // ATRs; levels further out are read as this far
+
+// Candles ahead for each forecast horizon on this timeframe (at least one)
+export function horizonCandles(interval: CandleInterval): number[] {
+  return PRICE_HORIZONS.map(h => Math.max(1, Math.round(HORIZON_MS[h] / CANDLE_INTERVAL_MS[interval])));
+}
+
+// LSTM input for the window ending at candles[end]: closes, ATR and MACD relative to the last close, volume to the window mean
+export function priceWindow(candles: Candle[], points: IndicatorPoint[], end: number): number[][] {
+  const start = end - PRICE_WINDOW + 1;
+  const close = candles[end].close;
+  const window = candles.slice(start, end + 1);
+  const meanVolume = window.reduce((sum, c) => sum + c.volume, 0) / window.length;
+  return window.map((candle, i) => {
+    const point = points[start + i];
+    return [
+      candle.close / close - 1,
+      meanVolume > 0 ? candle.volume / meanVolume - 1 : 0,
+      point.rsi / 100 - 0.5,
+      point.macdHistogram / close,
+      point.bollingerWidth,
+      point.atr / close
+    ];
+  });
+}
+
+export const priceTarget = (close: number, future: number) => (future / close - 1) * PRICE_TARGET_SCALE;
+export const priceFromOutput = (close: number, output: number) => close * (1 + output / PRICE_TARGET_SCALE);
+
+// Wilder's ADX on real highs/lows
+function adx(candles: Candle[], period: number = ADX_PERIOD): number {
+  if (candles.length < period * 2 + 1) return 0;
+
+  const tr = calculateTrueRanges(candles).slice(1); // first candle has no previous close to gap from
+  const dmPlus: number[] = [];
+  const dmMinus: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const upMove = candles[i].high - candles[i - 1].high;
+    const downMove = candles[i - 1].low - candles[i].low;
+    dmPlus.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    dmMinus.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  let smoothedTR = sum(tr.slice(0, period));
+  let smoothedPlus = sum(dmPlus.slice(0, period));
+  let smoothedMinus = sum(dmMinus.slice(0, period));
+  const dx: number[] = [];
+
+  for (let i = period; i <= tr.length; i++) {
+    if (i > period) {
+      smoothedTR = smoothedTR - smoothedTR / period + tr[i - 1];
+      smoothedPlus = smoothedPlus - smoothedPlus / period + dmPlus[i - 1];
+      smoothedMinus = smoothedMinus - smoothedMinus / period + dmMinus[i - 1];
+    }
+    if (smoothedTR === 0) {
+      dx.push(0);
+      continue;
+    }
+    const diPlus = (smoothedPlus / smoothedTR) * 100;
+    const diMinus = (smoothedMinus / smoothedTR) * 100;
+    dx.push(diPlus + diMinus === 0 ? 0 : (Math.abs(diPlus - diMinus) / (diPlus + diMinus)) * 100);
+  }
+
+  let value = sum(dx.slice(0, period)) / period;
+  for (let i = period; i < dx.length; i++) {
+    value = (value * (period - 1) + dx[i]) / period;
+  }
+  return value;
+}
+
+// Share of up closes minus share of down closes, -1 to 1
+function trendIntensity(closes: number[]): number {
+  const returns = closes.slice(1).map((close, i) => close - closes[i]);
+  if (returns.length === 0) return 0;
+  return (returns.filter(r => r > 0).length - returns.filter(r => r < 0).length) / returns.length;
+}
+
+// Last five volumes against the last twenty
+function volumeTrend(volumes: number[]): number {
+  if (volumes.length < 20) return 0;
+  const recent = volumes.slice(-5).reduce((a, b) => a + b, 0) / 5;
+  const average = volumes.slice(-20).reduce((a, b) => a + b, 0) / 20;
+  return average > 0 ? Math.min(3, recent / average - 1) : 0;
+}
+
+// Trend model input at the close of candles[end], read over the TREND_WINDOW candles up to it
+export function trendFeatures(candles: Candle[], end: number = candles.length - 1): number[] {
+  const window = candles.slice(Math.max(0, end + 1 - TREND_WINDOW), end + 1);
+  const closes = window.map(c => c.close);
+  const past = closes[Math.max(0, closes.length - 1 - ROC_PERIOD)];
+  return [
+    adx(window) / 100,
+    trendIntensity(closes),
+    past > 0 ? closes[closes.length - 1] / past - 1 : 0,
+    volumeTrend(window.map(c => c.volume))
+  ];
+}
+
+// What the trend model learns: the sign of the return over the next TREND_LOOKAHEAD candles. Its
+// tanh output lands between the two, so its size reads as how sure it is of the direction
+export const trendTarget = (candles: Candle[], end: number): number =>
+  Math.sign(candles[end + TREND_LOOKAHEAD].close - candles[end].close);
+
+// Distance from the close in ATRs, so levels compare across price ranges and volatility
+function atrDistance(level: number, close: number, atr: number): number {
+  return Math.max(-LEVEL_CLIP, Math.min(LEVEL_CLIP, (level - close) / atr));
+}
+
+const levelAtr = (point: IndicatorPoint) => (point.atr > 0 ? point.atr : point.close * 0.01);
+
+/*
+ * Level model input at the close of candles[end]: the last swing highs and lows confirmed in the
+ * LEVEL_WINDOW candles up to it (missing ones read as the window's extreme), the moving averages,
+ * Bollinger bands and 20-candle range, all in ATRs from the close, then RSI, StochRSI and ATR.
+ */
+export function levelFeatures(candles: Candle[], points: IndicatorPoint[], end: number = candles.length - 1): number[] {
+  const window = candles.slice(Math.max(0, end + 1 - LEVEL_WINDOW), end + 1);
+  const recent = window.slice(-20);
+  const point = points[end];
+  const { close } = point;
+  const atr = levelAtr(point);
+  const swings = findSwings(window).reverse();
+  const lastSwings = (type: 'high' | 'low', fill: number) => {
+    const prices = swings.filter(s => s.type === type).slice(0, LEVEL_SWINGS).map(s => s.price);
+    while (prices.length < LEVEL_SWINGS) prices.push(fill);
+    return prices.map(price => atrDistance(price, close, atr));
+  };
+
+  return [
+    ...lastSwings('high', Math.max(...window.map(c => c.high))),
+    ...lastSwings('low', Math.min(...window.map(c => c.low))),
+    ...[point.ma20, point.ma50, point.ma200, point.bollingerUpper, point.bollingerLower].map(level => atrDistance(level, close, atr)),
+    atrDistance(Math.max(...recent.map(c => c.high)), close, atr),
+    atrDistance(Math.min(...recent.map(c => c.low)), close, atr),
+    point.rsi / 100 - 0.5,
+    point.stochRSI / 100 - 0.5,
+    atr / close
+  ];
+}
+
+/*
+ * What the level model learns, in ATRs from the close: over the next LEVEL_LOOKAHEAD candles, the
+ * nearest swing low below the close (support) and swing high above it (resistance) that formed,
+ * and the lowest low and highest high reached (the strong levels). A side without a swing takes
+ * its extreme. In LEVEL_OUTPUTS order.
+ */
+export function levelTargets(candles: Candle[], points: IndicatorPoint[], end: number): number[] {
+  const future = candles.slice(end + 1, end + 1 + LEVEL_LOOKAHEAD);
+  const point = points[end];
+  const { close } = point;
+  const atr = levelAtr(point);
+  const swings = findSwings(future);
+  const lowest = Math.min(...future.map(c => c.low));
+  const highest = Math.max(...future.map(c => c.high));
+  const lows = swings.filter(s => s.type === 'low' && s.price < close).map(s => s.price);
+  const highs = swings.filter(s => s.type === 'high' && s.price > close).map(s => s.price);
+  const levels: KeyLevels = {
+    strongSupport: lowest,
+    support: lows.length ? Math.max(...lows) : lowest,
+    resistance: highs.length ? Math.min(...highs) : highest,
+    strongResistance: highest
+  };
+  return LEVEL_OUTPUTS.map(name => atrDistance(levels[name], close, atr));
+}
+
+// Structure levels in the level model's terms, for scoring the model against them
+export function levelOutputs(levels: KeyLevels, point: IndicatorPoint): number[] {
+  return LEVEL_OUTPUTS.map(name => atrDistance(levels[name], point.close, levelAtr(point)));
+}
+
+// Level model outputs back to prices, each side in order (the strong level furthest out)
+export function levelsFromOutput(point: IndicatorPoint, outputs: number[]): KeyLevels {
+  const atr = levelAtr(point);
+  const [a, b, c, d] = outputs.map(output => Math.max(0, point.close + output * atr));
+  return {
+    strongSupport: Math.min(a, b),
+    support: Math.max(a, b),
+    resistance: Math.min(c, d),
+    strongResistance: Math.max(c, d)
+  };
+}
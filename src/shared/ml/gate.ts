@@ -0,0 +1,48 @@
+/*
+ * Whether a trained model is trusted over the rules it replaces, from its evaluation report.
+ * Shared with the dashboard, which falls back to the rule-based reading when a model fails.
+ */
+import type { ModelMeta, TargetMetrics } from './types.js';
+
+export const MIN_DIRECTION_ACCURACY = 55; // percent of test windows, for price and trend models
+export const MIN_TEST_SAMPLES = 30;
+
+export interface ModelGate {
+  passed: boolean;
+  reason: string;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const accuracy = (targets: TargetMetrics[]) => mean(targets.map(t => t.directionAccuracy ?? 0));
+const error = (targets: TargetMetrics[]) => mean(targets.map(t => t.mae));
+
+/*
+ * Price and trend models must call the direction on at least MIN_DIRECTION_ACCURACY of the test
+ * windows and more often than the baseline; level models must land closer to the realized levels
+ * than the structure levels do. Averaged over the outputs.
+ */
+export function modelGate(meta: ModelMeta): ModelGate {
+  const { targets, baseline, testSamples } = meta.metrics;
+  if (!baseline?.length || !testSamples) {
+    return { passed: false, reason: 'trained without a test set; waiting for a retrain' };
+  }
+  if (testSamples < MIN_TEST_SAMPLES) {
+    return { passed: false, reason: `only ${testSamples} test windows, need ${MIN_TEST_SAMPLES}` };
+  }
+
+  if (meta.kind === 'level') {
+    const model = error(targets);
+    const rule = error(baseline);
+    return {
+      passed: model < rule,
+      reason: `${model.toFixed(2)} ATRs off the realized levels against ${rule.toFixed(2)} for the structure levels`
+    };
+  }
+
+  const model = accuracy(targets);
+  const rule = accuracy(baseline);
+  return {
+    passed: model >= MIN_DIRECTION_ACCURACY && model > rule,
+    reason: `${model.toFixed(1)}% direction on ${testSamples} test windows against ${rule.toFixed(1)}% for the baseline, needs ${MIN_DIRECTION_ACCURACY}%`
+  };
+}
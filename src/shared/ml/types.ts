@@ -0,0 +1,67 @@
+/*
+ * Trained models as the registry keeps them. Shared with the dashboard, which loads the weights
+ * for inference, so no Node imports.
+ */
+import type { io } from '@tensorflow/tfjs';
+import type { CandleInterval } from '../candles.js';
+import type { QuoteCurrency } from '../quotes.js';
+
+// price: LSTM over the last candles, one return per forecast horizon; trend: dense net calling the
+// direction of the next candles; level: dense net placing the support and resistance price reaches next
+export const MODEL_KINDS = ['price', 'trend', 'level'] as const;
+export type ModelKind = typeof MODEL_KINDS[number];
+
+export interface ModelKey {
+  kind: ModelKind;
+  crypto: string;
+  quote: QuoteCurrency;
+  interval: CandleInterval;
+}
+
+export const modelId = ({ kind, crypto, quote, interval }: ModelKey) => `${kind}:${crypto}:${quote}:${interval}`;
+
+export interface TargetMetrics {
+  name: string; // the forecast horizon for price models, `direction` for trend models, the level for level models
+  candles: number; // how far ahead the target looks
+  mae: number; // percent of the price (price), points from -1 to 1 (trend), ATRs (level)
+  directionAccuracy: number | null; // percent of windows where the predicted direction was right; null for levels
+}
+
+/*
+ * The evaluation report. Windows are split by time: the oldest train the model, the next ones
+ * stop the training early, and the most recent are a test set it never saw. The baseline is a
+ * rule without a model scored on the same test windows: the training windows' mean target for
+ * price and trend models, the swing and Fibonacci levels of the live analysis for level models.
+ */
+export interface ModelMetrics {
+  trainLoss: number;
+  valLoss: number;
+  samples: number; // training windows
+  validationSamples: number;
+  testSamples: number;
+  validation: TargetMetrics[]; // in output order
+  targets: TargetMetrics[]; // on the test windows, in output order
+  baseline: TargetMetrics[];
+}
+
+export interface ModelMeta extends ModelKey {
+  version: number; // 1, 2, ... per key
+  createdAt: number;
+  trainingWindow: { from: number; to: number; candles: number };
+  windowSize: number; // candles per input (1 for trend and level models)
+  features: string[];
+  epochs: number; // run, after early stopping
+  metrics: ModelMetrics;
+}
+
+// Topology plus weights, base64-encoded so the model travels and is stored as plain JSON
+export interface ModelArtifactsJSON {
+  modelTopology: object;
+  weightSpecs: io.WeightsManifestEntry[];
+  weightData: string;
+}
+
+export interface StoredModel {
+  meta: ModelMeta;
+  artifacts: ModelArtifactsJSON;
+}
@@ -0,0 +1,40 @@
+// Currencies prices can be quoted in; ids match CoinGecko's vs_currency values.
+// Imported by the WebSocket protocol and the dashboard as well, so keep this free of Node APIs.
+
+export const QUOTE_CURRENCIES = ['usd', 'eur', 'gbp', 'btc', 'eth'] as const;
+export type QuoteCurrency = typeof QUOTE_CURRENCIES[number];
+export const DEFAULT_QUOTE: QuoteCurrency = 'usd';
+
+export function isQuoteCurrency(value: unknown): value is QuoteCurrency {
+  return typeof value === 'string' && (QUOTE_CURRENCIES as readonly string[]).includes(value);
+}
+
+const FIAT: Partial<Record<QuoteCurrency, string>> = { usd: 'USD', eur: 'EUR', gbp: 'GBP' };
+const CRYPTO_SYMBOLS: Partial<Record<QuoteCurrency, string>> = { btc: '₿', eth: 'Ξ' };
+
+// Cents for prices of 1 and above; BTC-quoted alts and sub-cent coins keep 6 significant digits
+export function roundPrice(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.abs(value) >= 1 ? Number(value.toFixed(2)) : Number(value.toPrecision(6));
+}
+
+export function formatPrice(value: number | undefined, quote: QuoteCurrency): string {
+  const price = value || 0;
+  const maximumFractionDigits = Math.abs(price) >= 1 ? 2 : 8;
+
+  const fiat = FIAT[quote];
+  if (fiat) {
+    return price.toLocaleString('en-US', {
+      style: 'currency',
+      currency: fiat,
+      minimumFractionDigits: Math.min(2, maximumFractionDigits),
+      maximumFractionDigits
+    });
+  }
+  return `${CRYPTO_SYMBOLS[quote] || ''}${price.toLocaleString('en-US', { maximumFractionDigits: Math.abs(price) >= 1 ? 4 : 8 })}`;
+}
+
+// "low - high" as shown in price target ranges
+export function formatPriceRange(low: number, high: number, quote: QuoteCurrency): string {
+  return `${formatPrice(low, quote)} - ${formatPrice(high, quote)}`;
+}
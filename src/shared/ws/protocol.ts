@@ -0,0 +1,215 @@
+/*
+ * WebSocket contract between the server (/ws) and clients (dashboard, bot integrations).
+ * Kept free of Node and browser APIs so both sides import the same definitions.
+ *
+ * Flow: client `hello` -> server `hello` -> client `subscribe` -> server `subscriptions` +
+ * `snapshot`, then `delta` frames as prices change and a `heartbeat` every `heartbeatMs`.
+ * Subscriptions are per symbol and quote currency (USD unless `quote` is given).
+ */
+
+import { DEFAULT_QUOTE, QUOTE_CURRENCIES, isQuoteCurrency, type QuoteCurrency } from '../quotes.js';
+
+export type { QuoteCurrency } from '../quotes.js';
+
+export const WS_PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+export const MAX_SUBSCRIPTIONS = 25; // symbol/quote pairs per connection
+
+const SYMBOL_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+export interface PriceTick {
+  price: number;
+  change24h: number;
+  marketCap: number;
+  lastUpdated: number; // unix seconds, as reported upstream
+}
+
+// Client -> server
+
+export interface ClientHello {
+  type: 'hello';
+  version: number;
+  client?: string;
+}
+
+export interface SubscribeMessage {
+  type: 'subscribe';
+  symbols: string[];
+  quote: QuoteCurrency;
+}
+
+export interface UnsubscribeMessage {
+  type: 'unsubscribe';
+  symbols?: string[]; // omitted: every symbol in `quote`, or everything when `quote` is omitted too
+  quote?: QuoteCurrency;
+}
+
+export interface PingMessage {
+  type: 'ping';
+  ts?: number;
+}
+
+export type ClientMessage = ClientHello | SubscribeMessage | UnsubscribeMessage | PingMessage;
+
+// Server -> client
+
+export interface ServerHello {
+  type: 'hello';
+  version: number;
+  supportedVersions: number[];
+  heartbeatMs: number;
+  maxSubscriptions: number;
+  quotes: readonly QuoteCurrency[];
+  serverTime: number;
+}
+
+export interface SubscriptionsMessage {
+  type: 'subscriptions';
+  subscriptions: Partial<Record<QuoteCurrency, string[]>>;
+}
+
+// Full state for the listed symbols; replaces whatever the client held for them
+export interface SnapshotMessage {
+  type: 'snapshot';
+  seq: number;
+  quote: QuoteCurrency;
+  prices: Record<string, PriceTick>;
+}
+
+// Only the fields that changed since the last frame; a symbol seen for the first time carries every field
+export interface DeltaMessage {
+  type: 'delta';
+  seq: number;
+  quote: QuoteCurrency;
+  changes: Record<string, Partial<PriceTick>>;
+}
+
+export interface HeartbeatMessage {
+  type: 'heartbeat';
+  ts: number;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  ts: number;
+}
+
+export type WsErrorCode =
+  | 'BAD_MESSAGE'          // not JSON or missing/invalid fields
+  | 'UNKNOWN_TYPE'
+  | 'HELLO_REQUIRED'       // anything but hello before the handshake
+  | 'UNSUPPORTED_VERSION'  // connection is closed after this one
+  | 'INVALID_SYMBOL'
+  | 'INVALID_QUOTE'
+  | 'TOO_MANY_SUBSCRIPTIONS'
+  | 'UPSTREAM_UNAVAILABLE';
+
+export interface ErrorMessage {
+  type: 'error';
+  code: WsErrorCode;
+  message: string;
+  symbols?: string[];
+}
+
+export type ServerMessage =
+  | ServerHello
+  | SubscriptionsMessage
+  | SnapshotMessage
+  | DeltaMessage
+  | HeartbeatMessage
+  | PongMessage
+  | ErrorMessage;
+
+// Close code sent with UNSUPPORTED_VERSION (RFC 6455 "protocol error")
+export const WS_CLOSE_PROTOCOL_ERROR = 1002;
+
+export function isValidSymbol(symbol: unknown): symbol is string {
+  return typeof symbol === 'string' && SYMBOL_PATTERN.test(symbol);
+}
+
+export function toPriceTick(quote: PriceTick): PriceTick {
+  return {
+    price: quote.price,
+    change24h: quote.change24h,
+    marketCap: quote.marketCap,
+    lastUpdated: quote.lastUpdated
+  };
+}
+
+// Fields of `next` that differ from `previous` (all of them when there is no previous tick)
+export function diffTick(previous: PriceTick | undefined, next: PriceTick): Partial<PriceTick> {
+  if (!previous) return toPriceTick(next);
+  const changes: Partial<PriceTick> = {};
+  (Object.keys(next) as (keyof PriceTick)[]).forEach(field => {
+    if (previous[field] !== next[field]) changes[field] = next[field];
+  });
+  return changes;
+}
+
+type Parsed<T> = { ok: true; message: T } | { ok: false; code: WsErrorCode; error: string };
+
+function symbolsField(value: unknown): string[] | null {
+  return Array.isArray(value) && value.every(v => typeof v === 'string') ? value : null;
+}
+
+function invalidQuote(quote: unknown): Parsed<never> {
+  return {
+    ok: false,
+    code: 'INVALID_QUOTE',
+    error: `Unsupported quote "${quote}", use one of ${QUOTE_CURRENCIES.join(', ')}`
+  };
+}
+
+export function parseClientMessage(raw: string): Parsed<ClientMessage> {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: 'BAD_MESSAGE', error: 'Message is not valid JSON' };
+  }
+  if (!data || typeof data !== 'object' || typeof data.type !== 'string') {
+    return { ok: false, code: 'BAD_MESSAGE', error: 'Message needs a string "type"' };
+  }
+
+  switch (data.type) {
+    case 'hello':
+      if (!Number.isInteger(data.version)) {
+        return { ok: false, code: 'BAD_MESSAGE', error: 'hello needs an integer "version"' };
+      }
+      return { ok: true, message: { type: 'hello', version: data.version, client: typeof data.client === 'string' ? data.client : undefined } };
+    case 'subscribe': {
+      const symbols = symbolsField(data.symbols);
+      if (!symbols || symbols.length === 0) {
+        return { ok: false, code: 'BAD_MESSAGE', error: 'subscribe needs a non-empty "symbols" array' };
+      }
+      if (data.quote !== undefined && !isQuoteCurrency(data.quote)) return invalidQuote(data.quote);
+      return { ok: true, message: { type: 'subscribe', symbols, quote: data.quote ?? DEFAULT_QUOTE } };
+    }
+    case 'unsubscribe': {
+      if (data.quote !== undefined && !isQuoteCurrency(data.quote)) return invalidQuote(data.quote);
+      if (data.symbols === undefined) return { ok: true, message: { type: 'unsubscribe', quote: data.quote } };
+      const symbols = symbolsField(data.symbols);
+      if (!symbols) {
+        return { ok: false, code: 'BAD_MESSAGE', error: 'unsubscribe "symbols" must be an array of strings' };
+      }
+      return { ok: true, message: { type: 'unsubscribe', symbols, quote: data.quote ?? DEFAULT_QUOTE } };
+    }
+    case 'ping':
+      return { ok: true, message: { type: 'ping', ts: typeof data.ts === 'number' ? data.ts : undefined } };
+    default:
+      return { ok: false, code: 'UNKNOWN_TYPE', error: `Unknown message type "${data.type}"` };
+  }
+}
+
+const SERVER_TYPES = new Set<ServerMessage['type']>([
+  'hello', 'subscriptions', 'snapshot', 'delta', 'heartbeat', 'pong', 'error'
+]);
+
+export function parseServerMessage(raw: string): ServerMessage | null {
+  try {
+    const data = JSON.parse(raw);
+    return data && SERVER_TYPES.has(data.type) ? data as ServerMessage : null;
+  } catch {
+    return null;
+  }
+}
@@ -36,6 +36,10 @@ export default defineConfig({
       }
     }
   },
+  // The analysis worker (src/services/worker) is a module worker; the default iife format cannot split chunks
+  worker: {
+    format: 'es',
+  },
   define: {
     'process.env': {},
   },